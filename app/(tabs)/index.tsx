@@ -1,10 +1,15 @@
-import React, { useEffect, useState, memo } from 'react';
+import React, { useCallback, useEffect, useState, memo } from 'react';
 import { View, Text } from 'react-native';
 import { MotiView, MotiText } from 'moti';
 import { useFocusEffect } from '@react-navigation/native';
 import { Clock } from '../../components/Clock';
+import { FuelAdvisorCard } from '../../components/FuelAdvisorCard';
+import { OdometerCard } from '../../components/OdometerCard';
+import { OfferCard } from '../../components/OfferCard';
+import { VehiclePicker } from '../../components/VehiclePicker';
+import { useCurrentOfferProfitability } from '../../hooks/useOfferProfitability';
 import { getTheme } from '../../constants/Colors';
-import { useIsDarkMode } from '../../store/useAppStore';
+import { useActiveVehicle, useDecideOffer, useIsDarkMode } from '../../store/useAppStore';
 import tw from '../../utils/tw';
 
 const TabOneScreen = () => {
@@ -12,6 +17,17 @@ const TabOneScreen = () => {
   const [animationKey, setAnimationKey] = useState(0);
   const isDark = useIsDarkMode();
   const theme = getTheme(isDark);
+  const { offer, result, evaluation } = useCurrentOfferProfitability();
+  const decideOffer = useDecideOffer();
+  const activeVehicle = useActiveVehicle();
+
+  const handleAcceptOffer = useCallback(() => {
+    decideOffer('accepted', 'driver', 'tap');
+  }, [decideOffer]);
+
+  const handleDeclineOffer = useCallback(() => {
+    decideOffer('declined', 'driver', 'tap');
+  }, [decideOffer]);
 
   useEffect(() => {
     const hour = new Date().getHours();
@@ -62,6 +78,25 @@ const TabOneScreen = () => {
           >
             <Text>Good {timeOfDay}</Text>
           </MotiText>
+
+          <VehiclePicker isDark={isDark} />
+
+          <OdometerCard isDark={isDark} />
+
+          {offer && result && evaluation && (
+            <OfferCard
+              offer={offer}
+              result={result}
+              evaluation={evaluation}
+              onAccept={handleAcceptOffer}
+              onDecline={handleDeclineOffer}
+              isDark={isDark}
+            />
+          )}
+
+          {activeVehicle?.fuelType === 'flex' && (
+            <FuelAdvisorCard key={activeVehicle.id} vehicle={activeVehicle} isDark={isDark} />
+          )}
         </View>
       </MotiView>
     </View>
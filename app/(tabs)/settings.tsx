@@ -5,6 +5,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { MotiView, MotiText } from 'moti';
 import { useFocusEffect } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
 import { SwippableTabBarExtreme } from '../../components/SwippableTabBarExtreme';
 import { getTheme, baseColors } from '../../constants/Colors';
 import { useIsDarkMode, useAppStore } from '../../store/useAppStore';
@@ -160,6 +161,46 @@ export default function TabTwoScreen() {
   );
 
   // Create callbacks for all settings items
+  const handleOfferRules = useCallback(() => {
+    router.push('/offer-rules');
+  }, []);
+
+  const handleCostProfile = useCallback(() => {
+    router.push('/cost-profile');
+  }, []);
+
+  const handleOfferHistory = useCallback(() => {
+    router.push('/offer-history');
+  }, []);
+
+  const handleConsent = useCallback(() => {
+    router.push('/consent');
+  }, []);
+
+  const handleReports = useCallback(() => {
+    router.push('/reports');
+  }, []);
+
+  const handleTaxes = useCallback(() => {
+    router.push('/taxes');
+  }, []);
+
+  const handleVehicles = useCallback(() => {
+    router.push('/vehicles');
+  }, []);
+
+  const handleMileage = useCallback(() => {
+    router.push('/mileage');
+  }, []);
+
+  const handleRoutes = useCallback(() => {
+    router.push('/routes');
+  }, []);
+
+  const handleZones = useCallback(() => {
+    router.push('/zones');
+  }, []);
+
   const handleWallpaper = useCallback(() => {
     console.warn('Wallpaper pressed');
   }, []);
@@ -297,6 +338,65 @@ export default function TabTwoScreen() {
             }}
             style={tw`px-0`}
           >
+            <SettingsGroup>
+              <SettingsItem
+                icon="options"
+                iconColor="#34C759"
+                title="Offer Rules"
+                onPress={handleOfferRules}
+              />
+              <SettingsItem
+                icon="cash"
+                iconColor="#30D158"
+                title="Driving Costs"
+                onPress={handleCostProfile}
+              />
+              <SettingsItem
+                icon="time"
+                iconColor="#FF9500"
+                title="Offer History"
+                onPress={handleOfferHistory}
+              />
+              <SettingsItem
+                icon="shield-checkmark"
+                iconColor="#5AC8FA"
+                title="Screen Reading Consent"
+                onPress={handleConsent}
+              />
+            </SettingsGroup>
+
+            <SettingsGroup>
+              <SettingsItem
+                icon="car"
+                iconColor="#007AFF"
+                title="Vehicles"
+                onPress={handleVehicles}
+              />
+              <SettingsItem
+                icon="speedometer"
+                iconColor="#5856D6"
+                title="Mileage Log"
+                onPress={handleMileage}
+              />
+              <SettingsItem icon="map" iconColor="#30B0C7" title="Routes" onPress={handleRoutes} />
+              <SettingsItem icon="locate" iconColor="#FF2D55" title="Zones" onPress={handleZones} />
+            </SettingsGroup>
+
+            <SettingsGroup>
+              <SettingsItem
+                icon="bar-chart"
+                iconColor="#34C759"
+                title="Reports"
+                onPress={handleReports}
+              />
+              <SettingsItem
+                icon="calculator"
+                iconColor="#FF9500"
+                title="Taxes (MEI / carnê-leão)"
+                onPress={handleTaxes}
+              />
+            </SettingsGroup>
+
             <SettingsGroup>
               <SettingsItem
                 icon="image"
@@ -8,7 +8,13 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 import 'react-native-reanimated';
 
 import { useStoreIntegration } from '@/hooks/useStoreIntegration';
+import { useSessionTimeoutMonitor } from '@/hooks/useSessionTimeoutMonitor';
+import { useMeiLimitAlert } from '@/hooks/useMeiLimitAlert';
+import { useCloudSync } from '@/hooks/useCloudSync';
 import { useIsDarkMode } from '@/store/useAppStore';
+// Defines the background location task, which the OS may run before any screen mounts, and
+// what resumes tracking and zones when it does
+import '@/services/zones';
 
 export {
   // Catch any errors thrown by the Layout component.
@@ -57,6 +63,9 @@ export default function RootLayout() {
 function RootLayoutNav() {
   const isDarkMode = useIsDarkMode();
   useStoreIntegration();
+  useSessionTimeoutMonitor();
+  useMeiLimitAlert();
+  useCloudSync();
 
   return (
     <SafeAreaProvider>
@@ -64,6 +73,27 @@ function RootLayoutNav() {
         <Stack>
           <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
           <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
+          <Stack.Screen name="offer-rules" options={{ title: 'Offer Rules' }} />
+          <Stack.Screen name="cost-profile" options={{ title: 'Driving Costs' }} />
+          <Stack.Screen name="offer-history" options={{ title: 'Offer History' }} />
+          <Stack.Screen name="consent" options={{ title: 'Screen Reading Consent' }} />
+          <Stack.Screen name="expenses" options={{ title: 'Expenses' }} />
+          <Stack.Screen name="expense-detail" options={{ title: 'Expense' }} />
+          <Stack.Screen name="expense-edit" options={{ title: 'Edit Expense' }} />
+          <Stack.Screen name="reports" options={{ title: 'Reports' }} />
+          <Stack.Screen name="export" options={{ title: 'Export' }} />
+          <Stack.Screen name="statement" options={{ title: 'Income Statement' }} />
+          <Stack.Screen name="taxes" options={{ title: 'Taxes' }} />
+          <Stack.Screen name="vehicles" options={{ title: 'Vehicles' }} />
+          <Stack.Screen name="vehicle-edit" options={{ title: 'Vehicle' }} />
+          <Stack.Screen name="mileage" options={{ title: 'Mileage Log' }} />
+          <Stack.Screen name="routes" options={{ title: 'Routes' }} />
+          <Stack.Screen name="zones" options={{ title: 'Zones' }} />
+          <Stack.Screen name="zone-edit" options={{ title: 'Zone' }} />
+          <Stack.Screen
+            name="wind-down"
+            options={{ presentation: 'modal', headerShown: false, gestureEnabled: false }}
+          />
           <Stack.Screen
             name="camera-modal"
             options={{
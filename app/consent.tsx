@@ -0,0 +1,208 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { View, Text, Pressable, ScrollView, Switch, Share } from 'react-native';
+import { getTheme } from '../constants/Colors';
+import { buildConsentAudit, serializeConsentAudit } from '../services/consent/audit';
+import type { ConsentCategory, ConsentRecord } from '../services/consent/consent';
+import { CONSENT_CATEGORIES } from '../services/consent/consent';
+import { CURRENT_DISCLOSURE } from '../services/consent/disclosure';
+import {
+  useActiveConsent,
+  useAppStore,
+  useConsentLedger,
+  useCurrentTimer,
+  useIsDarkMode,
+} from '../store/useAppStore';
+import tw from '../utils/tw';
+
+const CATEGORY_LABELS: Record<ConsentCategory, string> = {
+  offer_terms: 'Fares, distances and times',
+  addresses: 'Pickup and destination addresses',
+  passenger_rating: 'Passenger rating',
+};
+
+// Without offer terms there is nothing to evaluate, so it cannot be switched off
+const REQUIRED_CATEGORY: ConsentCategory = 'offer_terms';
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+
+const describeStatus = (record: ConsentRecord) => {
+  if (!record.revokedAt) {
+    return 'Active';
+  }
+  const by = record.revokeReason === 'session_ended' ? 'session ended' : 'revoked by you';
+  return `Ended ${formatDateTime(record.revokedAt)} (${by})`;
+};
+
+const CategoryRow = memo<{
+  category: ConsentCategory;
+  enabled: boolean;
+  onToggle: (category: ConsentCategory) => void;
+  isDark: boolean;
+}>(({ category, enabled, onToggle, isDark }) => {
+  const theme = getTheme(isDark);
+
+  const handleChange = useCallback(() => {
+    onToggle(category);
+  }, [category, onToggle]);
+
+  return (
+    <View
+      style={tw.style('flex-row items-center justify-between p-4 mb-2 rounded-2xl', {
+        backgroundColor: theme.surface,
+      })}
+    >
+      <Text style={tw.style('text-base flex-1 mr-3', { color: theme.textPrimary })}>
+        {CATEGORY_LABELS[category]}
+      </Text>
+      <Switch
+        value={enabled}
+        onValueChange={handleChange}
+        disabled={category === REQUIRED_CATEGORY}
+      />
+    </View>
+  );
+});
+
+CategoryRow.displayName = 'CategoryRow';
+
+const ConsentRow = memo<{ record: ConsentRecord; isDark: boolean }>(({ record, isDark }) => {
+  const theme = getTheme(isDark);
+
+  return (
+    <View style={tw.style('p-4 mb-2 rounded-2xl', { backgroundColor: theme.surface })}>
+      <Text style={tw.style('text-sm', { color: theme.textSecondary })}>
+        {formatDateTime(record.grantedAt)} · disclosure {record.disclosureVersion}
+      </Text>
+      <Text style={tw.style('text-base mt-1', { color: theme.textPrimary })}>
+        {record.categories.map((category) => CATEGORY_LABELS[category]).join(', ')}
+      </Text>
+      <Text
+        style={tw.style('text-sm mt-1', {
+          color: record.revokedAt ? theme.textTertiary : theme.success,
+        })}
+      >
+        {describeStatus(record)}
+      </Text>
+    </View>
+  );
+});
+
+ConsentRow.displayName = 'ConsentRow';
+
+export default function ConsentScreen() {
+  const isDark = useIsDarkMode();
+  const theme = getTheme(isDark);
+  const currentTimer = useCurrentTimer();
+  const activeConsent = useActiveConsent();
+  const ledger = useConsentLedger();
+  const [categories, setCategories] = useState<ConsentCategory[]>(
+    () => activeConsent?.categories ?? CONSENT_CATEGORIES,
+  );
+
+  // Newest first
+  const records = useMemo(() => [...ledger].reverse(), [ledger]);
+
+  const handleToggle = useCallback((category: ConsentCategory) => {
+    setCategories((current) =>
+      current.includes(category)
+        ? current.filter((selected) => selected !== category)
+        : [...current, category],
+    );
+  }, []);
+
+  const handleGrant = useCallback(() => {
+    useAppStore.getState().grantConsent([REQUIRED_CATEGORY, ...categories]);
+  }, [categories]);
+
+  const handleRevoke = useCallback(() => {
+    useAppStore.getState().revokeConsent();
+  }, []);
+
+  const handleExport = useCallback(() => {
+    const { consentLedger, timerSessions, currentUser } = useAppStore.getState();
+    const audit = buildConsentAudit(consentLedger, timerSessions, currentUser?.id ?? null);
+    Share.share({
+      title: 'Consent ledger',
+      message: serializeConsentAudit(audit),
+    }).catch((error: unknown) => {
+      console.error('[Consent] Failed to export ledger:', error);
+    });
+  }, []);
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1', { backgroundColor: theme.background }),
+      content: tw`p-4 pb-12`,
+      sectionTitle: tw.style('text-[15px] font-semibold mt-6 mb-3 ml-1', {
+        color: theme.textSecondary,
+      }),
+      disclosure: tw.style('p-4 mb-4 rounded-2xl', { backgroundColor: theme.surfaceSecondary }),
+      disclosureText: tw.style('text-base', { color: theme.textPrimary }),
+      disclosureVersion: tw.style('text-sm mt-2', { color: theme.textTertiary }),
+      empty: tw.style('text-base ml-1', { color: theme.textTertiary }),
+      primaryButton: tw.style('mt-4 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.interactive,
+      }),
+      primaryText: tw.style('text-lg font-semibold', { color: theme.textInverse }),
+      secondaryButton: tw.style('mt-3 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.surfaceSecondary,
+      }),
+      secondaryText: tw.style('text-lg font-semibold', { color: theme.error }),
+      exportText: tw.style('text-lg font-semibold', { color: theme.textPrimary }),
+    }),
+    [theme],
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.sectionTitle}>THIS SESSION</Text>
+      {currentTimer.isRunning ? (
+        <>
+          <View style={styles.disclosure}>
+            <Text style={styles.disclosureText}>{CURRENT_DISCLOSURE.text}</Text>
+            <Text style={styles.disclosureVersion}>Disclosure {CURRENT_DISCLOSURE.version}</Text>
+          </View>
+          {CONSENT_CATEGORIES.map((category) => (
+            <CategoryRow
+              key={category}
+              category={category}
+              enabled={category === REQUIRED_CATEGORY || categories.includes(category)}
+              onToggle={handleToggle}
+              isDark={isDark}
+            />
+          ))}
+          <Pressable onPress={handleGrant} style={styles.primaryButton}>
+            <Text style={styles.primaryText}>
+              {activeConsent ? 'Update consent' : 'Allow for this session'}
+            </Text>
+          </Pressable>
+          {activeConsent && (
+            <Pressable onPress={handleRevoke} style={styles.secondaryButton}>
+              <Text style={styles.secondaryText}>Revoke consent</Text>
+            </Pressable>
+          )}
+        </>
+      ) : (
+        <Text style={styles.empty}>Start a session to let Cherry Picker read offers</Text>
+      )}
+
+      <Text style={styles.sectionTitle}>LEDGER</Text>
+      {records.length === 0 && <Text style={styles.empty}>No consent given yet</Text>}
+      {records.map((record) => (
+        <ConsentRow key={record.id} record={record} isDark={isDark} />
+      ))}
+      {records.length > 0 && (
+        <Pressable onPress={handleExport} style={styles.secondaryButton}>
+          <Text style={styles.exportText}>Export for LGPD audit</Text>
+        </Pressable>
+      )}
+    </ScrollView>
+  );
+}
@@ -0,0 +1,162 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { Pressable, ScrollView, Text, TextInput } from 'react-native';
+import { router } from 'expo-router';
+import { getTheme } from '../constants/Colors';
+import type { DriverCostProfile } from '../services/offers/profitability';
+import { useAppStore, useCostProfile, useIsDarkMode } from '../store/useAppStore';
+import { formatDecimalInput, parseBrazilianNumber } from '../utils/currency';
+import tw from '../utils/tw';
+
+type CostProfileForm = Record<keyof DriverCostProfile, string>;
+
+interface CostField {
+  key: keyof DriverCostProfile;
+  label: string;
+  placeholder: string;
+}
+
+// What the driver wants out of an offer, then the costs used while no vehicle says otherwise
+const TARGET_FIELDS: CostField[] = [
+  { key: 'targetHourlyRate', label: 'Target net per hour (R$)', placeholder: 'e.g. 30,00' },
+  { key: 'minGrossPerKm', label: 'Minimum fare per km (R$)', placeholder: 'e.g. 1,50' },
+];
+
+const COST_FIELDS: CostField[] = [
+  { key: 'maintenancePerKm', label: 'Maintenance per km (R$)', placeholder: 'e.g. 0,25' },
+  { key: 'fuelPricePerLiter', label: 'Fuel price per liter (R$)', placeholder: 'e.g. 6,09' },
+  { key: 'kmPerLiter', label: 'Fuel economy (km/L)', placeholder: 'e.g. 10,5' },
+];
+
+const toForm = (profile: DriverCostProfile): CostProfileForm => ({
+  fuelPricePerLiter: formatDecimalInput(profile.fuelPricePerLiter),
+  kmPerLiter: formatDecimalInput(profile.kmPerLiter),
+  maintenancePerKm: formatDecimalInput(profile.maintenancePerKm),
+  targetHourlyRate: formatDecimalInput(profile.targetHourlyRate),
+  minGrossPerKm: formatDecimalInput(profile.minGrossPerKm),
+});
+
+/**
+ * Turns the form into a cost profile
+ * @returns The profile, or an error message naming the first field that is not a valid amount
+ */
+const buildProfile = (form: CostProfileForm): DriverCostProfile | string => {
+  const profile: Partial<DriverCostProfile> = {};
+  for (const { key, label } of [...TARGET_FIELDS, ...COST_FIELDS]) {
+    const value = parseBrazilianNumber(form[key]);
+    // Only the economy divides, so it is the only figure that cannot be zero
+    if (value === null || value < 0 || (key === 'kmPerLiter' && value === 0)) {
+      return `Enter a valid ${label.replace(/ \(.*\)$/, '').toLowerCase()}`;
+    }
+    profile[key] = value;
+  }
+  return profile as DriverCostProfile;
+};
+
+const CostInput = memo<{
+  field: CostField;
+  value: string;
+  onChange: (key: keyof DriverCostProfile, value: string) => void;
+  isDark: boolean;
+}>(({ field, value, onChange, isDark }) => {
+  const theme = getTheme(isDark);
+
+  const handleChangeText = useCallback(
+    (text: string) => {
+      onChange(field.key, text);
+    },
+    [field.key, onChange],
+  );
+
+  const styles = useMemo(
+    () => ({
+      label: tw.style('text-sm mt-4 mb-2 ml-1', { color: theme.textSecondary }),
+      input: tw.style('px-4 py-3 rounded-xl text-base', {
+        backgroundColor: theme.surfaceSecondary,
+        color: theme.textPrimary,
+      }),
+    }),
+    [theme],
+  );
+
+  return (
+    <>
+      <Text style={styles.label}>{field.label}</Text>
+      <TextInput
+        value={value}
+        onChangeText={handleChangeText}
+        placeholder={field.placeholder}
+        placeholderTextColor={theme.textTertiary}
+        keyboardType="decimal-pad"
+        style={styles.input}
+      />
+    </>
+  );
+});
+
+CostInput.displayName = 'CostInput';
+
+export default function CostProfileScreen() {
+  const isDark = useIsDarkMode();
+  const theme = getTheme(isDark);
+  const costProfile = useCostProfile();
+  const [form, setForm] = useState<CostProfileForm>(() => toForm(costProfile));
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleChange = useCallback((key: keyof DriverCostProfile, value: string) => {
+    setForm((current) => ({ ...current, [key]: value }));
+    setFormError(null);
+  }, []);
+
+  const handleSave = useCallback(() => {
+    const next = buildProfile(form);
+    if (typeof next === 'string') {
+      setFormError(next);
+      return;
+    }
+    useAppStore.getState().setCostProfile(next);
+    router.back();
+  }, [form]);
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1', { backgroundColor: theme.background }),
+      content: tw`p-4 pb-12`,
+      hint: tw.style('text-sm mt-4 ml-1', { color: theme.textTertiary }),
+      error: tw.style('text-sm mt-3 ml-1', { color: theme.error }),
+      saveButton: tw.style('mt-6 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.interactive,
+      }),
+      saveText: tw.style('text-lg font-semibold', { color: theme.textInverse }),
+    }),
+    [theme],
+  );
+
+  const renderField = (field: CostField) => (
+    <CostInput
+      key={field.key}
+      field={field}
+      value={form[field.key]}
+      onChange={handleChange}
+      isDark={isDark}
+    />
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.hint}>Offers are judged against what you want to make.</Text>
+      {TARGET_FIELDS.map(renderField)}
+
+      <Text style={styles.hint}>
+        While driving a vehicle, its economy, the last price paid for its fuel and the maintenance
+        logged for it are used instead of these.
+      </Text>
+      {COST_FIELDS.map(renderField)}
+
+      {formError && <Text style={styles.error}>{formError}</Text>}
+
+      <Pressable onPress={handleSave} style={styles.saveButton}>
+        <Text style={styles.saveText}>Save costs</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
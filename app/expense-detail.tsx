@@ -0,0 +1,137 @@
+import React, { memo, useCallback, useMemo } from 'react';
+import { View, Text, Pressable, ScrollView, Image, Alert } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { getTheme } from '../constants/Colors';
+import { EXPENSE_CATEGORY_LABELS, PAYMENT_METHOD_LABELS } from '../constants/Expenses';
+import { useAppStore, useExpense, useIsDarkMode, useTimerSessions } from '../store/useAppStore';
+import { formatBRL } from '../utils/currency';
+import { formatDateKey } from '../utils/dates';
+import tw from '../utils/tw';
+
+// Label and value pair in the details card
+const DetailRow = memo<{ label: string; value: string; isDark: boolean }>(
+  ({ label, value, isDark }) => {
+    const theme = getTheme(isDark);
+
+    return (
+      <View style={tw`flex-row justify-between py-2`}>
+        <Text style={tw.style('text-base', { color: theme.textSecondary })}>{label}</Text>
+        <Text
+          style={tw.style('text-base flex-1 ml-4 text-right', { color: theme.textPrimary })}
+          numberOfLines={1}
+        >
+          {value}
+        </Text>
+      </View>
+    );
+  },
+);
+
+DetailRow.displayName = 'DetailRow';
+
+export default function ExpenseDetailScreen() {
+  const isDark = useIsDarkMode();
+  const theme = getTheme(isDark);
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const expense = useExpense(id);
+  const sessions = useTimerSessions();
+
+  const session = useMemo(
+    () => sessions.find((candidate) => candidate.id === expense?.sessionId) ?? null,
+    [sessions, expense?.sessionId],
+  );
+
+  const handleEdit = useCallback(() => {
+    router.push({ pathname: '/expense-edit', params: { id } });
+  }, [id]);
+
+  const handleDelete = useCallback(() => {
+    Alert.alert('Delete expense?', 'The receipt photo will be deleted too.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          useAppStore.getState().deleteExpense(id);
+          router.back();
+        },
+      },
+    ]);
+  }, [id]);
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1', { backgroundColor: theme.background }),
+      content: tw`p-4 pb-12`,
+      receipt: tw.style('w-full h-72 rounded-2xl mb-4', {
+        backgroundColor: theme.surfaceSecondary,
+      }),
+      amount: tw.style('text-4xl font-bold ml-1', { color: theme.textPrimary }),
+      status: tw.style('text-sm mt-1 ml-1', { color: theme.warning }),
+      card: tw.style('px-4 py-2 mt-4 rounded-2xl', { backgroundColor: theme.surface }),
+      editButton: tw.style('mt-6 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.interactive,
+      }),
+      editText: tw.style('text-lg font-semibold', { color: theme.textInverse }),
+      deleteButton: tw.style('mt-3 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.surfaceSecondary,
+      }),
+      deleteText: tw.style('text-lg font-semibold', { color: theme.error }),
+      empty: tw.style('text-base text-center mt-8', { color: theme.textTertiary }),
+    }),
+    [theme],
+  );
+
+  if (!expense) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.empty}>Expense not found</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {expense.receiptUri && (
+        <Image source={{ uri: expense.receiptUri }} style={styles.receipt} resizeMode="contain" />
+      )}
+
+      <Text style={styles.amount}>{formatBRL(expense.amount)}</Text>
+      {expense.status === 'draft' && <Text style={styles.status}>Needs review</Text>}
+
+      <View style={styles.card}>
+        <DetailRow
+          label="Category"
+          value={EXPENSE_CATEGORY_LABELS[expense.category]}
+          isDark={isDark}
+        />
+        <DetailRow label="Vendor" value={expense.vendor || '-'} isDark={isDark} />
+        <DetailRow label="Date" value={formatDateKey(expense.date)} isDark={isDark} />
+        <DetailRow
+          label="Paid with"
+          value={PAYMENT_METHOD_LABELS[expense.paymentMethod]}
+          isDark={isDark}
+        />
+        <DetailRow
+          label="Odometer"
+          value={
+            expense.odometerKm !== null ? `${expense.odometerKm.toLocaleString('pt-BR')} km` : '-'
+          }
+          isDark={isDark}
+        />
+        <DetailRow
+          label="Session"
+          value={session ? formatDateKey(session.date) : expense.sessionId ? 'In progress' : 'None'}
+          isDark={isDark}
+        />
+      </View>
+
+      <Pressable onPress={handleEdit} style={styles.editButton}>
+        <Text style={styles.editText}>{expense.status === 'draft' ? 'Review' : 'Edit'}</Text>
+      </Pressable>
+      <Pressable onPress={handleDelete} style={styles.deleteButton}>
+        <Text style={styles.deleteText}>Delete</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,417 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { View, Text, TextInput, Pressable, ScrollView, Image } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Chip } from '../components/Chip';
+import { FuelAdvisorCard } from '../components/FuelAdvisorCard';
+import { getTheme } from '../constants/Colors';
+import { EXPENSE_CATEGORY_LABELS, PAYMENT_METHOD_LABELS } from '../constants/Expenses';
+import { FUEL_TYPE_LABELS, formatVehicleName } from '../constants/Vehicles';
+import type { ExtractedField } from '../services/receipts';
+import type { Expense, ExpenseCategory, PaymentMethod, PumpFuel } from '../store/useAppStore';
+import { useAppStore, useExpense, useIsDarkMode, useVehicles } from '../store/useAppStore';
+import { formatDecimalInput, parseBrazilianNumber } from '../utils/currency';
+import tw from '../utils/tw';
+
+const CATEGORIES = Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[];
+const PAYMENT_METHODS = Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[];
+const PUMP_FUELS: PumpFuel[] = ['gasoline', 'ethanol', 'gnv'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Below this the driver is asked to double-check what was read off the receipt
+const LOW_CONFIDENCE = 0.6;
+
+interface ExpenseForm {
+  category: ExpenseCategory;
+  amount: string;
+  vendor: string;
+  date: string;
+  paymentMethod: PaymentMethod;
+  odometer: string;
+  vehicleId: string | null;
+  fuel: PumpFuel | null;
+  liters: string;
+}
+
+// Chip id for expenses not tied to a vehicle, like a phone plan
+const NO_VEHICLE = 'none';
+
+const toForm = (expense: Expense): ExpenseForm => ({
+  category: expense.category,
+  amount: expense.amount > 0 ? expense.amount.toFixed(2).replace('.', ',') : '',
+  vendor: expense.vendor,
+  date: expense.date,
+  paymentMethod: expense.paymentMethod,
+  odometer: expense.odometerKm !== null ? formatDecimalInput(expense.odometerKm) : '',
+  vehicleId: expense.vehicleId,
+  fuel: expense.fuel,
+  liters: expense.liters !== null ? expense.liters.toFixed(3).replace('.', ',') : '',
+});
+
+/**
+ * Turns the review form into expense updates
+ * @returns The updates, or an error message when the form is incomplete
+ */
+const buildUpdates = (form: ExpenseForm): Partial<Expense> | string => {
+  const amount = parseBrazilianNumber(form.amount);
+  if (amount === null || amount <= 0) {
+    return 'Enter the amount paid';
+  }
+  if (!DATE_PATTERN.test(form.date) || Number.isNaN(new Date(form.date).getTime())) {
+    return 'Dates must be in YYYY-MM-DD format';
+  }
+  let odometerKm: number | null = null;
+  if (form.odometer.trim()) {
+    odometerKm = parseBrazilianNumber(form.odometer);
+    if (odometerKm === null) {
+      return 'Enter a valid odometer reading';
+    }
+  }
+  // Only fuel expenses keep the grade and volume, which the flex-fuel advisor measures economy from
+  const isFuel = form.category === 'fuel';
+  let liters: number | null = null;
+  if (isFuel && form.liters.trim()) {
+    liters = parseBrazilianNumber(form.liters);
+    if (liters === null || liters <= 0) {
+      return 'Enter a valid number of liters';
+    }
+  }
+  return {
+    status: 'confirmed',
+    category: form.category,
+    amount,
+    vendor: form.vendor.trim(),
+    date: form.date,
+    paymentMethod: form.paymentMethod,
+    odometerKm,
+    vehicleId: form.vehicleId,
+    fuel: isFuel ? form.fuel : null,
+    liters,
+  };
+};
+
+// Field label, flagged when its value came off the receipt with low confidence
+const FieldLabel = memo<{
+  label: string;
+  extracted: ExtractedField<unknown> | null | undefined;
+  isDark: boolean;
+}>(({ label, extracted, isDark }) => {
+  const theme = getTheme(isDark);
+  const isDoubtful =
+    extracted !== null && extracted !== undefined && extracted.confidence < LOW_CONFIDENCE;
+
+  return (
+    <View style={tw`flex-row justify-between mt-4 mb-2 mx-1`}>
+      <Text style={tw.style('text-sm', { color: theme.textSecondary })}>{label}</Text>
+      {extracted && (
+        <Text
+          style={tw.style('text-sm', { color: isDoubtful ? theme.warning : theme.textTertiary })}
+        >
+          {isDoubtful ? 'Check this - read from receipt' : 'Read from receipt'}
+        </Text>
+      )}
+    </View>
+  );
+});
+
+FieldLabel.displayName = 'FieldLabel';
+
+const ExpenseEditor = memo<{ expense: Expense; isDark: boolean }>(({ expense, isDark }) => {
+  const theme = getTheme(isDark);
+  const [form, setForm] = useState<ExpenseForm>(() => toForm(expense));
+  const [formError, setFormError] = useState<string | null>(null);
+  const vehicles = useVehicles();
+  const { extraction } = expense;
+
+  const updateForm = useCallback((updates: Partial<ExpenseForm>) => {
+    setForm((current) => ({ ...current, ...updates }));
+    setFormError(null);
+  }, []);
+
+  const handleAmountChange = useCallback(
+    (amount: string) => {
+      updateForm({ amount });
+    },
+    [updateForm],
+  );
+
+  const handleVendorChange = useCallback(
+    (vendor: string) => {
+      updateForm({ vendor });
+    },
+    [updateForm],
+  );
+
+  const handleDateChange = useCallback(
+    (date: string) => {
+      updateForm({ date });
+    },
+    [updateForm],
+  );
+
+  const handleOdometerChange = useCallback(
+    (odometer: string) => {
+      updateForm({ odometer });
+    },
+    [updateForm],
+  );
+
+  const handleLitersChange = useCallback(
+    (liters: string) => {
+      updateForm({ liters });
+    },
+    [updateForm],
+  );
+
+  const handleFuelSelect = useCallback(
+    (id: string) => {
+      updateForm({ fuel: id as PumpFuel });
+    },
+    [updateForm],
+  );
+
+  const handleCategorySelect = useCallback(
+    (id: string) => {
+      updateForm({ category: id as ExpenseCategory });
+    },
+    [updateForm],
+  );
+
+  const handlePaymentSelect = useCallback(
+    (id: string) => {
+      updateForm({ paymentMethod: id as PaymentMethod });
+    },
+    [updateForm],
+  );
+
+  const handleVehicleSelect = useCallback(
+    (id: string) => {
+      updateForm({ vehicleId: id === NO_VEHICLE ? null : id });
+    },
+    [updateForm],
+  );
+
+  const handleSave = useCallback(() => {
+    const updates = buildUpdates(form);
+    if (typeof updates === 'string') {
+      setFormError(updates);
+      return;
+    }
+    useAppStore.getState().updateExpense(expense.id, updates);
+    router.back();
+  }, [expense.id, form]);
+
+  const handleDiscard = useCallback(() => {
+    useAppStore.getState().deleteExpense(expense.id);
+    router.back();
+  }, [expense.id]);
+
+  // The advisor shows on fuel expenses for a flex vehicle, seeded with the price on the receipt
+  const flexVehicle =
+    form.category === 'fuel'
+      ? vehicles.find((vehicle) => vehicle.id === form.vehicleId && vehicle.fuelType === 'flex')
+      : undefined;
+  const receiptPrice = extraction?.pricePerLiter?.value;
+  const receiptPrices = useMemo(
+    () =>
+      receiptPrice !== undefined && (form.fuel === 'gasoline' || form.fuel === 'ethanol')
+        ? { [form.fuel]: receiptPrice }
+        : undefined,
+    [receiptPrice, form.fuel],
+  );
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1', { backgroundColor: theme.background }),
+      content: tw`p-4 pb-12`,
+      receipt: tw.style('w-full h-56 rounded-2xl', { backgroundColor: theme.surfaceSecondary }),
+      label: tw.style('text-sm mt-4 mb-2 ml-1', { color: theme.textSecondary }),
+      input: tw.style('px-4 py-3 rounded-xl text-base', {
+        backgroundColor: theme.surfaceSecondary,
+        color: theme.textPrimary,
+      }),
+      chips: tw`flex-row flex-wrap`,
+      error: tw.style('text-sm mt-3 ml-1', { color: theme.error }),
+      saveButton: tw.style('mt-6 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.interactive,
+      }),
+      saveText: tw.style('text-lg font-semibold', { color: theme.textInverse }),
+      discardButton: tw.style('mt-3 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.surfaceSecondary,
+      }),
+      discardText: tw.style('text-lg font-semibold', { color: theme.error }),
+    }),
+    [theme],
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {expense.receiptUri && (
+        <Image source={{ uri: expense.receiptUri }} style={styles.receipt} resizeMode="contain" />
+      )}
+
+      <FieldLabel label="Amount (R$)" extracted={extraction?.amount} isDark={isDark} />
+      <TextInput
+        value={form.amount}
+        onChangeText={handleAmountChange}
+        placeholder="0,00"
+        placeholderTextColor={theme.textTertiary}
+        keyboardType="decimal-pad"
+        style={styles.input}
+      />
+
+      <FieldLabel label="Vendor" extracted={extraction?.vendor} isDark={isDark} />
+      <TextInput
+        value={form.vendor}
+        onChangeText={handleVendorChange}
+        placeholder="e.g. Posto Ipiranga"
+        placeholderTextColor={theme.textTertiary}
+        style={styles.input}
+      />
+
+      <FieldLabel label="Date" extracted={extraction?.date} isDark={isDark} />
+      <TextInput
+        value={form.date}
+        onChangeText={handleDateChange}
+        placeholder="YYYY-MM-DD"
+        placeholderTextColor={theme.textTertiary}
+        style={styles.input}
+      />
+
+      <FieldLabel label="Category" extracted={extraction?.category} isDark={isDark} />
+      <View style={styles.chips}>
+        {CATEGORIES.map((category) => (
+          <Chip
+            key={category}
+            id={category}
+            label={EXPENSE_CATEGORY_LABELS[category]}
+            selected={form.category === category}
+            onSelect={handleCategorySelect}
+            isDark={isDark}
+          />
+        ))}
+      </View>
+
+      {form.category === 'fuel' && (
+        <>
+          <FieldLabel label="Fuel" extracted={extraction?.fuel} isDark={isDark} />
+          <View style={styles.chips}>
+            {PUMP_FUELS.map((fuel) => (
+              <Chip
+                key={fuel}
+                id={fuel}
+                label={FUEL_TYPE_LABELS[fuel]}
+                selected={form.fuel === fuel}
+                onSelect={handleFuelSelect}
+                isDark={isDark}
+              />
+            ))}
+          </View>
+
+          <FieldLabel
+            label={form.fuel === 'gnv' ? 'Volume (m³)' : 'Liters'}
+            extracted={extraction?.liters}
+            isDark={isDark}
+          />
+          <TextInput
+            value={form.liters}
+            onChangeText={handleLitersChange}
+            placeholder="e.g. 38,512"
+            placeholderTextColor={theme.textTertiary}
+            keyboardType="decimal-pad"
+            style={styles.input}
+          />
+        </>
+      )}
+
+      <Text style={styles.label}>Paid with</Text>
+      <View style={styles.chips}>
+        {PAYMENT_METHODS.map((method) => (
+          <Chip
+            key={method}
+            id={method}
+            label={PAYMENT_METHOD_LABELS[method]}
+            selected={form.paymentMethod === method}
+            onSelect={handlePaymentSelect}
+            isDark={isDark}
+          />
+        ))}
+      </View>
+
+      {vehicles.length > 0 && (
+        <>
+          <Text style={styles.label}>Vehicle</Text>
+          <View style={styles.chips}>
+            {vehicles.map((vehicle) => (
+              <Chip
+                key={vehicle.id}
+                id={vehicle.id}
+                label={formatVehicleName(vehicle)}
+                selected={form.vehicleId === vehicle.id}
+                onSelect={handleVehicleSelect}
+                isDark={isDark}
+              />
+            ))}
+            <Chip
+              id={NO_VEHICLE}
+              label="No vehicle"
+              selected={form.vehicleId === null}
+              onSelect={handleVehicleSelect}
+              isDark={isDark}
+            />
+          </View>
+        </>
+      )}
+
+      <Text style={styles.label}>Odometer km (optional)</Text>
+      <TextInput
+        value={form.odometer}
+        onChangeText={handleOdometerChange}
+        placeholder="e.g. 84.210"
+        placeholderTextColor={theme.textTertiary}
+        keyboardType="decimal-pad"
+        style={styles.input}
+      />
+
+      {flexVehicle && (
+        <FuelAdvisorCard
+          key={`${flexVehicle.id}-${form.fuel ?? ''}`}
+          vehicle={flexVehicle}
+          initialPrices={receiptPrices}
+          isDark={isDark}
+        />
+      )}
+
+      {formError && <Text style={styles.error}>{formError}</Text>}
+
+      <Pressable onPress={handleSave} style={styles.saveButton}>
+        <Text style={styles.saveText}>Save expense</Text>
+      </Pressable>
+      {expense.status === 'draft' && (
+        <Pressable onPress={handleDiscard} style={styles.discardButton}>
+          <Text style={styles.discardText}>Discard</Text>
+        </Pressable>
+      )}
+    </ScrollView>
+  );
+});
+
+ExpenseEditor.displayName = 'ExpenseEditor';
+
+export default function ExpenseEditScreen() {
+  const isDark = useIsDarkMode();
+  const theme = getTheme(isDark);
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const expense = useExpense(id);
+
+  // Keyed so the form resets if the screen is reused for another expense
+  return expense ? (
+    <ExpenseEditor key={expense.id} expense={expense} isDark={isDark} />
+  ) : (
+    <View
+      style={tw.style('flex-1 items-center justify-center', { backgroundColor: theme.background })}
+    >
+      <Text style={tw.style('text-base', { color: theme.textTertiary })}>Expense not found</Text>
+    </View>
+  );
+}
@@ -0,0 +1,117 @@
+import React, { memo, useCallback, useMemo } from 'react';
+import { View, Text, FlatList, Pressable } from 'react-native';
+import type { ListRenderItem } from 'react-native';
+import { router } from 'expo-router';
+import { getTheme } from '../constants/Colors';
+import { EXPENSE_CATEGORY_LABELS } from '../constants/Expenses';
+import { createExpenseDraft } from '../services/expenses/drafts';
+import { getDeviceTimeZone, toLocalDateKey } from '../services/session/dayBucketing';
+import type { Expense } from '../store/useAppStore';
+import { useAppStore, useExpenses, useIsDarkMode } from '../store/useAppStore';
+import { formatBRL } from '../utils/currency';
+import { formatDateKey } from '../utils/dates';
+import tw from '../utils/tw';
+
+const ExpenseRow = memo<{ expense: Expense; isDark: boolean }>(({ expense, isDark }) => {
+  const theme = getTheme(isDark);
+
+  const handlePress = useCallback(() => {
+    router.push({ pathname: '/expense-detail', params: { id: expense.id } });
+  }, [expense.id]);
+
+  return (
+    <Pressable
+      onPress={handlePress}
+      style={tw.style('p-4 mb-2 rounded-2xl', { backgroundColor: theme.surface })}
+    >
+      <View style={tw`flex-row justify-between items-center`}>
+        <Text style={tw.style('text-sm', { color: theme.textSecondary })}>
+          {EXPENSE_CATEGORY_LABELS[expense.category]} · {formatDateKey(expense.date)}
+        </Text>
+        <Text style={tw.style('text-lg font-semibold', { color: theme.textPrimary })}>
+          {formatBRL(expense.amount)}
+        </Text>
+      </View>
+      {expense.vendor !== '' && (
+        <Text style={tw.style('text-base mt-1', { color: theme.textPrimary })} numberOfLines={1}>
+          {expense.vendor}
+        </Text>
+      )}
+      {expense.status === 'draft' && (
+        <Text style={tw.style('text-sm mt-1', { color: theme.warning })}>Needs review</Text>
+      )}
+    </Pressable>
+  );
+});
+
+ExpenseRow.displayName = 'ExpenseRow';
+
+const keyExtractor = (expense: Expense) => expense.id;
+
+export default function ExpensesScreen() {
+  const isDark = useIsDarkMode();
+  const theme = getTheme(isDark);
+  const expenses = useExpenses();
+
+  // Newest first; same-day expenses in the order they were added
+  const sorted = useMemo(
+    () =>
+      [...expenses].sort(
+        (a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt),
+      ),
+    [expenses],
+  );
+
+  // Drafts are left out until the driver confirms them
+  const monthTotal = useMemo(() => {
+    const month = toLocalDateKey(Date.now(), getDeviceTimeZone()).slice(0, 7);
+    return expenses
+      .filter((expense) => expense.status === 'confirmed' && expense.date.startsWith(month))
+      .reduce((sum, expense) => sum + expense.amount, 0);
+  }, [expenses]);
+
+  const handleAdd = useCallback(() => {
+    const expense = useAppStore.getState().addExpense(createExpenseDraft());
+    router.push({ pathname: '/expense-edit', params: { id: expense.id } });
+  }, []);
+
+  const renderItem = useCallback<ListRenderItem<Expense>>(
+    ({ item }) => <ExpenseRow expense={item} isDark={isDark} />,
+    [isDark],
+  );
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1 px-4 pt-4', { backgroundColor: theme.background }),
+      summary: tw.style('p-4 mb-4 rounded-2xl', { backgroundColor: theme.surfaceSecondary }),
+      summaryTitle: tw.style('text-sm uppercase', { color: theme.textTertiary }),
+      summaryValue: tw.style('text-2xl font-bold mt-1', { color: theme.textPrimary }),
+      addButton: tw.style('mt-3 py-3 rounded-2xl items-center', {
+        backgroundColor: theme.interactive,
+      }),
+      addText: tw.style('text-base font-semibold', { color: theme.textInverse }),
+      empty: tw.style('text-base text-center mt-8', { color: theme.textTertiary }),
+    }),
+    [theme],
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summary}>
+        <Text style={styles.summaryTitle}>Spent this month</Text>
+        <Text style={styles.summaryValue}>{formatBRL(monthTotal)}</Text>
+        <Pressable onPress={handleAdd} style={styles.addButton}>
+          <Text style={styles.addText}>Add expense</Text>
+        </Pressable>
+      </View>
+
+      <FlatList
+        data={sorted}
+        keyExtractor={keyExtractor}
+        renderItem={renderItem}
+        ListEmptyComponent={<Text style={styles.empty}>No expenses yet</Text>}
+        showsVerticalScrollIndicator={false}
+      />
+    </View>
+  );
+}
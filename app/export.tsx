@@ -0,0 +1,206 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, Text, Pressable, ScrollView, Switch, Alert } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { Chip } from '../components/Chip';
+import { getCurrentPeriod, PeriodPicker } from '../components/PeriodPicker';
+import type { PickablePeriodKind } from '../components/PeriodPicker';
+import { getTheme } from '../constants/Colors';
+import { useReportComparison } from '../hooks/useReportComparison';
+import { buildExportFile, CSV_COLUMNS, writeAndShareExport } from '../services/exports';
+import type { ExportDataset, ExportFormat } from '../services/exports';
+import { getPeriod } from '../services/reports';
+import type { ReportPeriod, ReportPeriodKind } from '../services/reports';
+import { getDeviceTimeZone } from '../services/session/dayBucketing';
+import { useAppStore, useExportSettings, useIsDarkMode } from '../store/useAppStore';
+import { formatBRL } from '../utils/currency';
+import tw from '../utils/tw';
+
+const PERIOD_KINDS: ReportPeriodKind[] = ['day', 'week', 'month', 'custom'];
+
+const FORMAT_OPTIONS: { id: ExportFormat; label: string }[] = [
+  { id: 'csv', label: 'CSV spreadsheet' },
+  { id: 'ofx', label: 'OFX statement' },
+];
+
+const DATASET_OPTIONS: { id: ExportDataset; label: string }[] = [
+  { id: 'trips', label: 'Trips' },
+  { id: 'expenses', label: 'Expenses' },
+  { id: 'sessions', label: 'Sessions' },
+];
+
+export default function ExportScreen() {
+  const isDark = useIsDarkMode();
+  const theme = getTheme(isDark);
+  const params = useLocalSearchParams<{ kind?: PickablePeriodKind; start?: string }>();
+  const settings = useExportSettings();
+  // Accountants work month by month, so that is the default when not coming from a report
+  const [period, setPeriod] = useState<ReportPeriod>(() =>
+    params.kind && params.start ? getPeriod(params.kind, params.start) : getCurrentPeriod('month'),
+  );
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [dataset, setDataset] = useState<ExportDataset>('trips');
+  const [isExporting, setIsExporting] = useState(false);
+  const { current } = useReportComparison(period);
+
+  const selectedColumns = settings.csvColumns[dataset];
+
+  const handleFormatSelect = useCallback((id: string) => {
+    setFormat(id as ExportFormat);
+  }, []);
+
+  const handleDatasetSelect = useCallback((id: string) => {
+    setDataset(id as ExportDataset);
+  }, []);
+
+  const handleDecimalCommaChange = useCallback((decimalComma: boolean) => {
+    useAppStore.getState().setExportSettings({ decimalComma });
+  }, []);
+
+  // Keeps the columns in their canonical order whatever order they were ticked in
+  const handleColumnToggle = useCallback(
+    (id: string) => {
+      const { exportSettings, setExportSettings } = useAppStore.getState();
+      const selected = exportSettings.csvColumns[dataset];
+      const next = selected.includes(id)
+        ? selected.filter((column) => column !== id)
+        : CSV_COLUMNS[dataset]
+            .map((column) => column.id)
+            .filter((column) => column === id || selected.includes(column));
+      setExportSettings({ csvColumns: { ...exportSettings.csvColumns, [dataset]: next } });
+    },
+    [dataset],
+  );
+
+  const handleExport = useCallback(() => {
+    const { trips, expenses, timerSessions, currentUser, exportSettings } = useAppStore.getState();
+    const file = buildExportFile(
+      { trips, expenses, sessions: timerSessions },
+      { format, dataset, period },
+      {
+        settings: exportSettings,
+        timeZone: getDeviceTimeZone(),
+        generatedAt: new Date().toISOString(),
+        accountId: currentUser?.id ?? 'DRIVER',
+      },
+    );
+
+    setIsExporting(true);
+    writeAndShareExport(file)
+      .catch((error: unknown) => {
+        console.error('[Export] Failed to export:', error);
+        Alert.alert('Export failed', 'The file could not be shared. Please try again.');
+      })
+      .finally(() => {
+        setIsExporting(false);
+      });
+  }, [format, dataset, period]);
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1', { backgroundColor: theme.background }),
+      content: tw`px-4 pt-4 pb-12`,
+      sectionTitle: tw.style('text-[15px] font-semibold mt-6 mb-3 ml-1', {
+        color: theme.textSecondary,
+      }),
+      summary: tw.style('p-4 rounded-2xl', { backgroundColor: theme.surfaceSecondary }),
+      summaryValue: tw.style('text-2xl font-bold', { color: theme.textPrimary }),
+      summaryDetail: tw.style('text-sm mt-1', { color: theme.textSecondary }),
+      chips: tw`flex-row flex-wrap`,
+      row: tw.style('flex-row items-center justify-between p-4 mb-2 rounded-2xl', {
+        backgroundColor: theme.surface,
+      }),
+      rowTitle: tw.style('text-base', { color: theme.textPrimary }),
+      rowDetail: tw.style('text-sm mt-0.5', { color: theme.textSecondary }),
+      hint: tw.style('text-sm ml-1', { color: theme.textTertiary }),
+      exportButton: tw.style('mt-6 py-4 rounded-2xl items-center', {
+        backgroundColor: isExporting ? theme.interactiveDisabled : theme.interactive,
+      }),
+      exportText: tw.style('text-lg font-semibold', { color: theme.textInverse }),
+    }),
+    [theme, isExporting],
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <PeriodPicker period={period} onChange={setPeriod} isDark={isDark} kinds={PERIOD_KINDS} />
+
+      {/* Same figures as the Reports screen, so the driver knows what the file adds up to */}
+      <View style={styles.summary}>
+        <Text style={styles.summaryValue}>{formatBRL(current.net)} net</Text>
+        <Text style={styles.summaryDetail}>
+          {String(current.trips)} trips · {formatBRL(current.earnings)} earned ·{' '}
+          {formatBRL(current.expenses)} in expenses
+        </Text>
+      </View>
+
+      <Text style={styles.sectionTitle}>FORMAT</Text>
+      <View style={styles.chips}>
+        {FORMAT_OPTIONS.map((option) => (
+          <Chip
+            key={option.id}
+            id={option.id}
+            label={option.label}
+            selected={format === option.id}
+            onSelect={handleFormatSelect}
+            isDark={isDark}
+          />
+        ))}
+      </View>
+
+      {format === 'ofx' ? (
+        <Text style={styles.hint}>
+          Trips are listed as credits with their platform fees as charges, and confirmed expenses as
+          debits.
+        </Text>
+      ) : (
+        <>
+          <Text style={styles.sectionTitle}>DATA</Text>
+          <View style={styles.chips}>
+            {DATASET_OPTIONS.map((option) => (
+              <Chip
+                key={option.id}
+                id={option.id}
+                label={option.label}
+                selected={dataset === option.id}
+                onSelect={handleDatasetSelect}
+                isDark={isDark}
+              />
+            ))}
+          </View>
+
+          <View style={[styles.row, tw`mt-2`]}>
+            <View style={tw`flex-1 mr-4`}>
+              <Text style={styles.rowTitle}>Decimal comma</Text>
+              <Text style={styles.rowDetail}>
+                Writes 1234,50 separated by semicolons, for Excel in Portuguese
+              </Text>
+            </View>
+            <Switch value={settings.decimalComma} onValueChange={handleDecimalCommaChange} />
+          </View>
+
+          <Text style={styles.sectionTitle}>COLUMNS</Text>
+          <View style={styles.chips}>
+            {CSV_COLUMNS[dataset].map((column) => (
+              <Chip
+                key={column.id}
+                id={column.id}
+                label={column.label}
+                selected={selectedColumns.includes(column.id)}
+                onSelect={handleColumnToggle}
+                isDark={isDark}
+              />
+            ))}
+          </View>
+        </>
+      )}
+
+      <Pressable
+        onPress={handleExport}
+        disabled={isExporting || (format === 'csv' && selectedColumns.length === 0)}
+        style={styles.exportButton}
+      >
+        <Text style={styles.exportText}>{isExporting ? 'Exporting...' : 'Export and share'}</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
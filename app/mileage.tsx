@@ -0,0 +1,262 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { View, Text, TextInput, Pressable, ScrollView } from 'react-native';
+import { getCurrentPeriod, PeriodPicker } from '../components/PeriodPicker';
+import type { PickablePeriodKind } from '../components/PeriodPicker';
+import { getTheme } from '../constants/Colors';
+import { formatKm, MILEAGE_ISSUE_LABELS } from '../constants/Mileage';
+import { formatVehicleName } from '../constants/Vehicles';
+import { useMileageLog } from '../hooks/useMileageLog';
+import type { MileageTotals, OdometerReading, SessionMileage } from '../services/mileage';
+import type { ReportPeriod } from '../services/reports';
+import { useAppStore, useIsDarkMode, useVehicles } from '../store/useAppStore';
+import { formatDecimalInput, parseBrazilianNumber } from '../utils/currency';
+import { formatDateKey } from '../utils/dates';
+import tw from '../utils/tw';
+
+const PERIOD_KINDS: PickablePeriodKind[] = ['week', 'month'];
+
+const formatReading = (reading: OdometerReading | null) =>
+  reading ? formatDecimalInput(reading.km) : '';
+
+const MileageRow = memo<{
+  label: string;
+  km: number;
+  detail?: string | undefined;
+  isDark: boolean;
+}>(({ label, km, detail, isDark }) => {
+  const theme = getTheme(isDark);
+
+  return (
+    <View style={tw`py-2`}>
+      <View style={tw`flex-row justify-between`}>
+        <Text style={tw.style('text-base', { color: theme.textPrimary })}>{label}</Text>
+        <Text style={tw.style('text-base font-semibold', { color: theme.textPrimary })}>
+          {formatKm(km)}
+        </Text>
+      </View>
+      {detail !== undefined && (
+        <Text style={tw.style('text-sm mt-0.5', { color: theme.textSecondary })}>{detail}</Text>
+      )}
+    </View>
+  );
+});
+
+MileageRow.displayName = 'MileageRow';
+
+const splitDetail = (totals: MileageTotals) =>
+  [
+    `${formatKm(totals.passengerKm)} with passenger`,
+    `${formatKm(totals.pickupKm)} to pickup`,
+    `${formatKm(totals.unaccountedKm)} unaccounted`,
+    `${formatKm(totals.personalKm)} personal`,
+  ].join(' · ');
+
+// A session's readings, editable so wrong or missing ones can be corrected
+const SessionRow = memo<{ session: SessionMileage; vehicleName: string | null; isDark: boolean }>(
+  ({ session, vehicleName, isDark }) => {
+    const theme = getTheme(isDark);
+    const [start, setStart] = useState(() => formatReading(session.odometerStart));
+    const [end, setEnd] = useState(() => formatReading(session.odometerEnd));
+    const [error, setError] = useState<string | null>(null);
+
+    const isDirty =
+      start !== formatReading(session.odometerStart) || end !== formatReading(session.odometerEnd);
+
+    const handleStartChange = useCallback((text: string) => {
+      setStart(text);
+      setError(null);
+    }, []);
+
+    const handleEndChange = useCallback((text: string) => {
+      setEnd(text);
+      setError(null);
+    }, []);
+
+    const handleSave = useCallback(() => {
+      const startKm = start.trim() ? parseBrazilianNumber(start) : null;
+      const endKm = end.trim() ? parseBrazilianNumber(end) : null;
+      if ((start.trim() && startKm === null) || (end.trim() && endKm === null)) {
+        setError('Enter readings as whole km, e.g. 84.210');
+        return;
+      }
+      const { setSessionOdometer } = useAppStore.getState();
+      setSessionOdometer(session.sessionId, 'start', startKm);
+      setSessionOdometer(session.sessionId, 'end', endKm);
+    }, [start, end, session.sessionId]);
+
+    const corrected = [session.odometerStart, session.odometerEnd].some(
+      (reading) => reading?.correctedFrom !== null && reading?.correctedFrom !== undefined,
+    );
+
+    const styles = useMemo(
+      () => ({
+        row: tw.style('py-3 border-b', { borderColor: theme.border }),
+        title: tw.style('text-base', { color: theme.textPrimary }),
+        detail: tw.style('text-sm mt-0.5', { color: theme.textSecondary }),
+        issue: tw.style('text-sm mt-0.5', { color: theme.warning }),
+        inputs: tw`flex-row items-center mt-2`,
+        input: tw.style('flex-1 px-3 py-2 mr-2 rounded-xl text-base', {
+          backgroundColor: theme.surfaceSecondary,
+          color: theme.textPrimary,
+        }),
+        saveButton: tw.style('px-3 py-2 rounded-xl', { backgroundColor: theme.interactive }),
+        saveText: tw.style('text-sm font-semibold', { color: theme.textInverse }),
+        error: tw.style('text-sm mt-1', { color: theme.error }),
+      }),
+      [theme],
+    );
+
+    return (
+      <View style={styles.row}>
+        <Text style={styles.title}>
+          {formatDateKey(session.date)}
+          {vehicleName ? ` · ${vehicleName}` : ''}
+        </Text>
+        <Text style={styles.detail}>
+          {session.odometerKm !== null ? `${formatKm(session.odometerKm)} on the odometer · ` : ''}
+          {formatKm(session.passengerKm)} with passenger · {formatKm(session.pickupKm)} to pickup
+          {session.unaccountedKm !== null
+            ? ` · ${formatKm(session.unaccountedKm)} unaccounted`
+            : ''}
+        </Text>
+        {session.issue && <Text style={styles.issue}>{MILEAGE_ISSUE_LABELS[session.issue]}</Text>}
+        {corrected && <Text style={styles.detail}>Readings corrected by hand</Text>}
+
+        <View style={styles.inputs}>
+          <TextInput
+            value={start}
+            onChangeText={handleStartChange}
+            placeholder="Start km"
+            placeholderTextColor={theme.textTertiary}
+            keyboardType="number-pad"
+            style={styles.input}
+            accessibilityLabel="Odometer at start"
+          />
+          <TextInput
+            value={end}
+            onChangeText={handleEndChange}
+            placeholder="End km"
+            placeholderTextColor={theme.textTertiary}
+            keyboardType="number-pad"
+            style={styles.input}
+            accessibilityLabel="Odometer at end"
+          />
+          <Pressable
+            onPress={handleSave}
+            disabled={!isDirty}
+            style={tw.style(styles.saveButton, !isDirty && 'opacity-40')}
+          >
+            <Text style={styles.saveText}>Save</Text>
+          </Pressable>
+        </View>
+        {error && <Text style={styles.error}>{error}</Text>}
+      </View>
+    );
+  },
+);
+
+SessionRow.displayName = 'SessionRow';
+
+export default function MileageScreen() {
+  const isDark = useIsDarkMode();
+  const theme = getTheme(isDark);
+  const vehicles = useVehicles();
+  const [period, setPeriod] = useState<ReportPeriod>(() => getCurrentPeriod('month'));
+  const log = useMileageLog(period);
+
+  const vehicleNames = useMemo(
+    () => new Map(vehicles.map((vehicle) => [vehicle.id, formatVehicleName(vehicle)])),
+    [vehicles],
+  );
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1', { backgroundColor: theme.background }),
+      content: tw`px-4 pt-4 pb-12`,
+      section: tw.style('p-4 mt-4 rounded-2xl', { backgroundColor: theme.surface }),
+      sectionTitle: tw.style('text-sm uppercase mb-3', { color: theme.textTertiary }),
+      empty: tw.style('text-base', { color: theme.textTertiary }),
+      hint: tw.style('text-sm mt-2', { color: theme.textSecondary }),
+      warning: tw.style('text-sm mt-2', { color: theme.warning }),
+    }),
+    [theme],
+  );
+
+  const { totals } = log;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <PeriodPicker period={period} onChange={setPeriod} isDark={isDark} kinds={PERIOD_KINDS} />
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Summary</Text>
+        <MileageRow label="With passenger" km={totals.passengerKm} isDark={isDark} />
+        <MileageRow label="En route to pickup" km={totals.pickupKm} isDark={isDark} />
+        <MileageRow
+          label="Unaccounted while working"
+          km={totals.unaccountedKm}
+          detail="Cruising and repositioning between trips"
+          isDark={isDark}
+        />
+        <MileageRow
+          label="Personal"
+          km={totals.personalKm}
+          detail="Between the end of one session and the start of the next"
+          isDark={isDark}
+        />
+        <MileageRow label="Total" km={totals.totalKm} isDark={isDark} />
+        <MileageRow
+          label="Business use"
+          km={log.businessKm}
+          detail={
+            log.businessShare !== null
+              ? `${(log.businessShare * 100).toFixed(0)}% of the km driven`
+              : undefined
+          }
+          isDark={isDark}
+        />
+        {log.unreconciled > 0 && (
+          <Text style={styles.warning}>
+            {log.unreconciled} {log.unreconciled === 1 ? 'session is' : 'sessions are'} missing
+            readings or do not add up, so only their trip km are counted
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>By day</Text>
+        {log.days.length === 0 ? (
+          <Text style={styles.empty}>No sessions in this period</Text>
+        ) : (
+          log.days.map((day) => (
+            <MileageRow
+              key={day.date}
+              label={formatDateKey(day.date)}
+              km={day.totalKm}
+              detail={splitDetail(day)}
+              isDark={isDark}
+            />
+          ))
+        )}
+      </View>
+
+      {log.sessions.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Sessions</Text>
+          {[...log.sessions].reverse().map((session) => (
+            <SessionRow
+              // Keyed on the readings so the inputs reset once a correction is saved
+              key={`${session.sessionId}-${formatReading(session.odometerStart)}-${formatReading(session.odometerEnd)}`}
+              session={session}
+              vehicleName={session.vehicleId ? (vehicleNames.get(session.vehicleId) ?? null) : null}
+              isDark={isDark}
+            />
+          ))}
+          <Text style={styles.hint}>
+            Readings are taken as sessions start and stop; fix any that were missed or mistyped
+          </Text>
+        </View>
+      )}
+    </ScrollView>
+  );
+}
@@ -0,0 +1,157 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { View, Text, FlatList } from 'react-native';
+import type { ListRenderItem } from 'react-native';
+import { SwippableTabBarExtreme } from '../components/SwippableTabBarExtreme';
+import { getTheme } from '../constants/Colors';
+import { PLATFORM_LABELS } from '../constants/Platforms';
+import { useOfferHistory } from '../hooks/useOfferHistory';
+import type { OfferLogEntry, OfferOutcome } from '../services/offers/offerLog';
+import { useIsDarkMode } from '../store/useAppStore';
+import { formatBRL } from '../utils/currency';
+import tw from '../utils/tw';
+
+const FILTERS: { id: OfferOutcome; label: string }[] = [
+  { id: 'declined', label: 'Declined' },
+  { id: 'expired', label: 'Missed' },
+  { id: 'accepted', label: 'Accepted' },
+];
+
+const OUTCOME_LABELS: Record<OfferOutcome, string> = {
+  accepted: 'Accepted',
+  declined: 'Declined',
+  expired: 'Expired',
+};
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+
+// How the offer was resolved, e.g. "Declined by rule · auto · 1.2 s"
+const describeDecision = (entry: OfferLogEntry) => {
+  if (!entry.outcome) {
+    return 'Pending';
+  }
+  const parts = [
+    entry.decidedBy
+      ? `${OUTCOME_LABELS[entry.outcome]} by ${entry.decidedBy === 'rule' ? 'rule' : 'you'}`
+      : OUTCOME_LABELS[entry.outcome],
+  ];
+  if (entry.channel) {
+    parts.push(entry.channel);
+  }
+  if (entry.latencyMs !== null) {
+    parts.push(`${(entry.latencyMs / 1000).toFixed(1)} s`);
+  }
+  return parts.join(' · ');
+};
+
+const OfferHistoryRow = memo<{ entry: OfferLogEntry; isDark: boolean }>(({ entry, isDark }) => {
+  const theme = getTheme(isDark);
+  const { offer, profitability } = entry;
+  const advisedAccept = entry.suggestion === 'accept' && entry.outcome !== 'accepted';
+
+  return (
+    <View style={tw.style('p-4 mb-2 rounded-2xl', { backgroundColor: theme.surface })}>
+      <View style={tw`flex-row justify-between items-center`}>
+        <Text style={tw.style('text-sm', { color: theme.textSecondary })}>
+          {PLATFORM_LABELS[offer.platform]} · {formatDateTime(offer.detectedAt)}
+        </Text>
+        <Text style={tw.style('text-lg font-semibold', { color: theme.textPrimary })}>
+          {formatBRL(offer.fare)}
+        </Text>
+      </View>
+      {offer.destination && (
+        <Text style={tw.style('text-base mt-1', { color: theme.textPrimary })} numberOfLines={1}>
+          {offer.destination}
+        </Text>
+      )}
+      <Text style={tw.style('text-sm mt-1', { color: theme.textSecondary })}>
+        {formatBRL(profitability.netProfit)} net · {formatBRL(profitability.netPerHour)}/h ·{' '}
+        {profitability.totalKm.toFixed(1)} km
+      </Text>
+      <Text style={tw.style('text-sm mt-1', { color: theme.textTertiary })}>
+        {describeDecision(entry)}
+      </Text>
+      {advisedAccept && (
+        <Text style={tw.style('text-sm mt-1', { color: theme.warning })}>
+          Cherry Picker advised accepting
+        </Text>
+      )}
+    </View>
+  );
+});
+
+OfferHistoryRow.displayName = 'OfferHistoryRow';
+
+const keyExtractor = (entry: OfferLogEntry) => entry.id;
+
+export default function OfferHistoryScreen() {
+  const isDark = useIsDarkMode();
+  const theme = getTheme(isDark);
+  const [filter, setFilter] = useState<OfferOutcome>('declined');
+  const { entries, isLoading } = useOfferHistory(filter);
+
+  const totals = useMemo(
+    () =>
+      entries.reduce(
+        (sum, entry) => ({
+          fare: sum.fare + entry.offer.fare,
+          net: sum.net + entry.profitability.netProfit,
+        }),
+        { fare: 0, net: 0 },
+      ),
+    [entries],
+  );
+
+  const handleFilterChange = useCallback((id: string) => {
+    setFilter(id as OfferOutcome);
+  }, []);
+
+  const renderItem = useCallback<ListRenderItem<OfferLogEntry>>(
+    ({ item }) => <OfferHistoryRow entry={item} isDark={isDark} />,
+    [isDark],
+  );
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1 px-4 pt-4', { backgroundColor: theme.background }),
+      summary: tw.style('p-4 mt-4 mb-4 rounded-2xl', { backgroundColor: theme.surfaceSecondary }),
+      summaryTitle: tw.style('text-sm uppercase', { color: theme.textTertiary }),
+      summaryValue: tw.style('text-2xl font-bold mt-1', { color: theme.textPrimary }),
+      summaryDetail: tw.style('text-sm mt-1', { color: theme.textSecondary }),
+      empty: tw.style('text-base text-center mt-8', { color: theme.textTertiary }),
+    }),
+    [theme],
+  );
+
+  return (
+    <View style={styles.container}>
+      <SwippableTabBarExtreme tabs={FILTERS} activeTab={filter} onTabChange={handleFilterChange} />
+
+      {entries.length > 0 && (
+        <View style={styles.summary}>
+          <Text style={styles.summaryTitle}>
+            {String(entries.length)} {OUTCOME_LABELS[filter].toLowerCase()} offers
+          </Text>
+          <Text style={styles.summaryValue}>{formatBRL(totals.fare)}</Text>
+          <Text style={styles.summaryDetail}>{formatBRL(totals.net)} after running costs</Text>
+        </View>
+      )}
+
+      <FlatList
+        data={entries}
+        keyExtractor={keyExtractor}
+        renderItem={renderItem}
+        ListEmptyComponent={
+          isLoading ? null : <Text style={styles.empty}>No offers logged yet</Text>
+        }
+        showsVerticalScrollIndicator={false}
+      />
+    </View>
+  );
+}
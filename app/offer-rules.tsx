@@ -0,0 +1,377 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { View, Text, TextInput, Pressable, ScrollView, Switch } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Chip } from '../components/Chip';
+import { getTheme } from '../constants/Colors';
+import { PLATFORM_LABELS } from '../constants/Platforms';
+import type {
+  OfferRule,
+  OfferRuleCondition,
+  OfferRuleType,
+  RuleDecision,
+  TimeWindow,
+} from '../services/offers/rules';
+import type { TripPlatform } from '../store/useAppStore';
+import { useAppStore, useIsDarkMode, useOfferRules } from '../store/useAppStore';
+import { parseBrazilianNumber } from '../utils/currency';
+import tw from '../utils/tw';
+
+const RULE_TYPE_LABELS: Record<OfferRuleType, string> = {
+  min_gross_per_km: 'Min R$/km',
+  min_net_per_hour: 'Min net R$/h',
+  min_fare: 'Min fare',
+  max_pickup_km: 'Max pickup km',
+  min_passenger_rating: 'Min rating',
+  destination_area: 'Destination areas',
+  always: 'Every offer',
+};
+
+const EFFECT_LABELS: Record<RuleDecision, string> = {
+  decline: 'Decline',
+  ask: 'Ask me',
+  accept: 'Accept',
+};
+
+const RULE_TYPES = Object.keys(RULE_TYPE_LABELS) as OfferRuleType[];
+const EFFECTS = Object.keys(EFFECT_LABELS) as RuleDecision[];
+const PLATFORMS = Object.keys(PLATFORM_LABELS) as TripPlatform[];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+interface RuleForm {
+  name: string;
+  type: OfferRuleType;
+  value: string;
+  areas: string;
+  effect: RuleDecision;
+  platforms: TripPlatform[];
+  start: string;
+  end: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  type: 'min_gross_per_km',
+  value: '',
+  areas: '',
+  effect: 'decline',
+  platforms: [],
+  start: '',
+  end: '',
+};
+
+// Human-readable summary of a rule for the list
+const describeRule = (rule: OfferRule) => {
+  const condition =
+    rule.type === 'destination_area'
+      ? `Destination in ${rule.areas.join(', ')}`
+      : rule.type === 'always'
+        ? 'Every offer'
+        : `${RULE_TYPE_LABELS[rule.type]} ${String(rule.value)}`;
+  const platforms =
+    rule.platforms.length > 0
+      ? ` on ${rule.platforms.map((platform) => PLATFORM_LABELS[platform]).join(', ')}`
+      : '';
+  const window = rule.timeWindow ? ` from ${rule.timeWindow.start} to ${rule.timeWindow.end}` : '';
+  return `${EFFECT_LABELS[rule.effect]}: ${condition}${platforms}${window}`;
+};
+
+/**
+ * Turns the editor form into a rule
+ * @returns The rule, or an error message when the form is incomplete
+ */
+const buildRule = (form: RuleForm): OfferRule | string => {
+  let condition: OfferRuleCondition;
+  if (form.type === 'destination_area') {
+    const areas = form.areas
+      .split(',')
+      .map((area) => area.trim())
+      .filter(Boolean);
+    if (areas.length === 0) {
+      return 'Add at least one area';
+    }
+    condition = { type: 'destination_area', areas };
+  } else if (form.type === 'always') {
+    condition = { type: 'always' };
+  } else {
+    const value = parseBrazilianNumber(form.value);
+    if (value === null) {
+      return 'Enter a valid number';
+    }
+    condition = { type: form.type, value };
+  }
+
+  let timeWindow: TimeWindow | null = null;
+  if (form.start || form.end) {
+    if (!TIME_PATTERN.test(form.start) || !TIME_PATTERN.test(form.end)) {
+      return 'Times must be in HH:MM format';
+    }
+    timeWindow = { start: form.start, end: form.end };
+  }
+
+  return {
+    id: `rule_${String(Date.now())}`,
+    name: form.name.trim() || RULE_TYPE_LABELS[form.type],
+    enabled: true,
+    effect: form.effect,
+    timeWindow,
+    platforms: form.platforms,
+    ...condition,
+  };
+};
+
+// Saved rule with its enable switch and delete button
+const RuleRow = memo<{ rule: OfferRule; isDark: boolean }>(({ rule, isDark }) => {
+  const theme = getTheme(isDark);
+
+  const handleToggle = useCallback(() => {
+    useAppStore.getState().toggleOfferRule(rule.id);
+  }, [rule.id]);
+
+  const handleDelete = useCallback(() => {
+    useAppStore.getState().deleteOfferRule(rule.id);
+  }, [rule.id]);
+
+  return (
+    <View
+      style={tw.style('flex-row items-center p-4 mb-2 rounded-2xl', {
+        backgroundColor: theme.surface,
+      })}
+    >
+      <View style={tw`flex-1 mr-3`}>
+        <Text style={tw.style('text-base font-semibold', { color: theme.textPrimary })}>
+          {rule.name}
+        </Text>
+        <Text style={tw.style('text-sm mt-1', { color: theme.textSecondary })}>
+          {describeRule(rule)}
+        </Text>
+      </View>
+      <Switch value={rule.enabled} onValueChange={handleToggle} />
+      <Pressable
+        onPress={handleDelete}
+        style={tw`ml-3 p-1`}
+        accessibilityLabel={`Delete ${rule.name}`}
+      >
+        <Ionicons name="trash-outline" size={20} color={theme.error} />
+      </Pressable>
+    </View>
+  );
+});
+
+RuleRow.displayName = 'RuleRow';
+
+export default function OfferRulesScreen() {
+  const isDark = useIsDarkMode();
+  const theme = getTheme(isDark);
+  const rules = useOfferRules();
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const updateForm = useCallback((updates: Partial<RuleForm>) => {
+    setForm((current) => ({ ...current, ...updates }));
+    setFormError(null);
+  }, []);
+
+  const handleNameChange = useCallback(
+    (name: string) => {
+      updateForm({ name });
+    },
+    [updateForm],
+  );
+
+  const handleValueChange = useCallback(
+    (value: string) => {
+      updateForm({ value });
+    },
+    [updateForm],
+  );
+
+  const handleAreasChange = useCallback(
+    (areas: string) => {
+      updateForm({ areas });
+    },
+    [updateForm],
+  );
+
+  const handleStartChange = useCallback(
+    (start: string) => {
+      updateForm({ start });
+    },
+    [updateForm],
+  );
+
+  const handleEndChange = useCallback(
+    (end: string) => {
+      updateForm({ end });
+    },
+    [updateForm],
+  );
+
+  const handleTypeSelect = useCallback(
+    (type: string) => {
+      updateForm({ type: type as OfferRuleType });
+    },
+    [updateForm],
+  );
+
+  const handleEffectSelect = useCallback(
+    (effect: string) => {
+      updateForm({ effect: effect as RuleDecision });
+    },
+    [updateForm],
+  );
+
+  const handlePlatformSelect = useCallback((id: string) => {
+    const platform = id as TripPlatform;
+    setForm((current) => ({
+      ...current,
+      platforms: current.platforms.includes(platform)
+        ? current.platforms.filter((selected) => selected !== platform)
+        : [...current.platforms, platform],
+    }));
+  }, []);
+
+  const handleSave = useCallback(() => {
+    const rule = buildRule(form);
+    if (typeof rule === 'string') {
+      setFormError(rule);
+      return;
+    }
+    useAppStore.getState().saveOfferRule(rule);
+    setForm(EMPTY_FORM);
+  }, [form]);
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1', { backgroundColor: theme.background }),
+      content: tw`p-4 pb-12`,
+      sectionTitle: tw.style('text-[15px] font-semibold mt-6 mb-3 ml-1', {
+        color: theme.textSecondary,
+      }),
+      empty: tw.style('text-base ml-1', { color: theme.textTertiary }),
+      label: tw.style('text-sm mt-4 mb-2 ml-1', { color: theme.textSecondary }),
+      input: tw.style('px-4 py-3 rounded-xl text-base', {
+        backgroundColor: theme.surfaceSecondary,
+        color: theme.textPrimary,
+      }),
+      timeInput: tw.style('flex-1 px-4 py-3 rounded-xl text-base', {
+        backgroundColor: theme.surfaceSecondary,
+        color: theme.textPrimary,
+      }),
+      chips: tw`flex-row flex-wrap`,
+      error: tw.style('text-sm mt-3 ml-1', { color: theme.error }),
+      saveButton: tw.style('mt-6 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.interactive,
+      }),
+      saveText: tw.style('text-lg font-semibold', { color: theme.textInverse }),
+    }),
+    [theme],
+  );
+
+  const needsValue = form.type !== 'destination_area' && form.type !== 'always';
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.sectionTitle}>YOUR RULES</Text>
+      {rules.length === 0 && <Text style={styles.empty}>No rules yet</Text>}
+      {rules.map((rule) => (
+        <RuleRow key={rule.id} rule={rule} isDark={isDark} />
+      ))}
+
+      <Text style={styles.sectionTitle}>NEW RULE</Text>
+      <TextInput
+        value={form.name}
+        onChangeText={handleNameChange}
+        placeholder="Name (optional)"
+        placeholderTextColor={theme.textTertiary}
+        style={styles.input}
+      />
+
+      <Text style={styles.label}>When</Text>
+      <View style={styles.chips}>
+        {RULE_TYPES.map((type) => (
+          <Chip
+            key={type}
+            id={type}
+            label={RULE_TYPE_LABELS[type]}
+            selected={form.type === type}
+            onSelect={handleTypeSelect}
+            isDark={isDark}
+          />
+        ))}
+      </View>
+
+      {needsValue && (
+        <TextInput
+          value={form.value}
+          onChangeText={handleValueChange}
+          placeholder="Value, e.g. 1,80"
+          placeholderTextColor={theme.textTertiary}
+          keyboardType="decimal-pad"
+          style={styles.input}
+        />
+      )}
+      {form.type === 'destination_area' && (
+        <TextInput
+          value={form.areas}
+          onChangeText={handleAreasChange}
+          placeholder="Areas, comma separated"
+          placeholderTextColor={theme.textTertiary}
+          style={styles.input}
+        />
+      )}
+
+      <Text style={styles.label}>Then</Text>
+      <View style={styles.chips}>
+        {EFFECTS.map((effect) => (
+          <Chip
+            key={effect}
+            id={effect}
+            label={EFFECT_LABELS[effect]}
+            selected={form.effect === effect}
+            onSelect={handleEffectSelect}
+            isDark={isDark}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.label}>Platforms (none selected means all)</Text>
+      <View style={styles.chips}>
+        {PLATFORMS.map((platform) => (
+          <Chip
+            key={platform}
+            id={platform}
+            label={PLATFORM_LABELS[platform]}
+            selected={form.platforms.includes(platform)}
+            onSelect={handlePlatformSelect}
+            isDark={isDark}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.label}>Only between (optional)</Text>
+      <View style={tw`flex-row`}>
+        <TextInput
+          value={form.start}
+          onChangeText={handleStartChange}
+          placeholder="22:00"
+          placeholderTextColor={theme.textTertiary}
+          style={tw.style(styles.timeInput, 'mr-2')}
+        />
+        <TextInput
+          value={form.end}
+          onChangeText={handleEndChange}
+          placeholder="05:00"
+          placeholderTextColor={theme.textTertiary}
+          style={styles.timeInput}
+        />
+      </View>
+
+      {formError && <Text style={styles.error}>{formError}</Text>}
+
+      <Pressable onPress={handleSave} style={styles.saveButton}>
+        <Text style={styles.saveText}>Add rule</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
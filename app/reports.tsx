@@ -0,0 +1,271 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { View, Text, Pressable, ScrollView } from 'react-native';
+import { router } from 'expo-router';
+import { BarChart } from '../components/BarChart';
+import type { BarChartBar } from '../components/BarChart';
+import { getCurrentPeriod, PeriodPicker } from '../components/PeriodPicker';
+import type { PickablePeriodKind } from '../components/PeriodPicker';
+import { getTheme } from '../constants/Colors';
+import { EXPENSE_CATEGORY_LABELS } from '../constants/Expenses';
+import { PLATFORM_LABELS } from '../constants/Platforms';
+import { useReportComparison } from '../hooks/useReportComparison';
+import type { MetricChange, ReportPeriod } from '../services/reports';
+import type { ExpenseCategory } from '../store/useAppStore';
+import { useIsDarkMode } from '../store/useAppStore';
+import { formatBRL } from '../utils/currency';
+import tw from '../utils/tw';
+
+const PREVIOUS_LABELS: Record<PickablePeriodKind, string> = {
+  day: 'yesterday',
+  week: 'last week',
+  month: 'last month',
+};
+
+const formatHours = (hours: number) => {
+  const minutes = Math.round(hours * 60);
+  return `${String(Math.floor(minutes / 60))}h ${String(minutes % 60).padStart(2, '0')}m`;
+};
+
+const formatRate = (value: number | null, unit: string) =>
+  value !== null ? `${formatBRL(value)}/${unit}` : '-';
+
+// Day of month for daily bars, e.g. "14"
+const dayLabel = (dateKey: string) => String(Number(dateKey.slice(8, 10)));
+
+// Headline figure with how it moved against the previous period
+const SummaryCard = memo<{
+  title: string;
+  value: string;
+  change: MetricChange;
+  previousLabel: string;
+  // Fees and expenses going up is bad news
+  higherIsWorse?: boolean;
+  isDark: boolean;
+}>(({ title, value, change, previousLabel, higherIsWorse = false, isDark }) => {
+  const theme = getTheme(isDark);
+  const { percent, difference } = change;
+  const isBetter = difference !== null && (higherIsWorse ? difference < 0 : difference > 0);
+  const isWorse = difference !== null && (higherIsWorse ? difference > 0 : difference < 0);
+
+  let changeText = `No data for ${previousLabel}`;
+  if (percent !== null) {
+    const arrow = percent > 0 ? '▲' : percent < 0 ? '▼' : '=';
+    changeText = `${arrow} ${Math.abs(percent).toFixed(0)}% vs ${previousLabel}`;
+  } else if (difference !== null && difference !== 0) {
+    changeText = `New vs ${previousLabel}`;
+  }
+
+  return (
+    <View style={tw`w-1/2 p-1`}>
+      <View style={tw.style('p-3 rounded-2xl', { backgroundColor: theme.surface })}>
+        <Text style={tw.style('text-xs uppercase', { color: theme.textTertiary })}>{title}</Text>
+        <Text
+          style={tw.style('text-xl font-bold mt-1', { color: theme.textPrimary })}
+          numberOfLines={1}
+          adjustsFontSizeToFit
+        >
+          {value}
+        </Text>
+        <Text
+          style={tw.style('text-xs mt-1', {
+            color: isBetter ? theme.success : isWorse ? theme.error : theme.textSecondary,
+          })}
+          numberOfLines={1}
+        >
+          {changeText}
+        </Text>
+      </View>
+    </View>
+  );
+});
+
+SummaryCard.displayName = 'SummaryCard';
+
+const ReportRow = memo<{ label: string; value: string; detail?: string; isDark: boolean }>(
+  ({ label, value, detail, isDark }) => {
+    const theme = getTheme(isDark);
+
+    return (
+      <View style={tw`py-2`}>
+        <View style={tw`flex-row justify-between`}>
+          <Text style={tw.style('text-base', { color: theme.textPrimary })}>{label}</Text>
+          <Text style={tw.style('text-base font-semibold', { color: theme.textPrimary })}>
+            {value}
+          </Text>
+        </View>
+        {detail !== undefined && (
+          <Text style={tw.style('text-sm mt-0.5', { color: theme.textSecondary })}>{detail}</Text>
+        )}
+      </View>
+    );
+  },
+);
+
+ReportRow.displayName = 'ReportRow';
+
+export default function ReportsScreen() {
+  const isDark = useIsDarkMode();
+  const theme = getTheme(isDark);
+  const [period, setPeriod] = useState<ReportPeriod>(() => getCurrentPeriod('week'));
+  const { current, changes } = useReportComparison(period);
+  const previousLabel = PREVIOUS_LABELS[period.kind as PickablePeriodKind];
+
+  const handleStatement = useCallback(() => {
+    router.push('/statement');
+  }, []);
+
+  const handleExport = useCallback(() => {
+    router.push({ pathname: '/export', params: { kind: period.kind, start: period.start } });
+  }, [period]);
+
+  const dailyBars = useMemo<BarChartBar[]>(
+    () => current.days.map((day) => ({ key: day.date, label: dayLabel(day.date), value: day.net })),
+    [current.days],
+  );
+
+  const platformBars = useMemo<BarChartBar[]>(
+    () =>
+      current.platforms.map((platform) => ({
+        key: platform.platform,
+        label: PLATFORM_LABELS[platform.platform],
+        value: platform.earnings,
+      })),
+    [current.platforms],
+  );
+
+  const expenseRows = useMemo(
+    () =>
+      (Object.entries(current.expensesByCategory) as [ExpenseCategory, number][]).sort(
+        (a, b) => b[1] - a[1],
+      ),
+    [current.expensesByCategory],
+  );
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1', { backgroundColor: theme.background }),
+      content: tw`px-4 pt-4 pb-12`,
+      cards: tw`flex-row flex-wrap -mx-1`,
+      section: tw.style('p-4 mt-4 rounded-2xl', { backgroundColor: theme.surface }),
+      sectionTitle: tw.style('text-sm uppercase mb-3', { color: theme.textTertiary }),
+      empty: tw.style('text-base', { color: theme.textTertiary }),
+      exportButton: tw.style('mt-6 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.interactive,
+      }),
+      exportText: tw.style('text-lg font-semibold', { color: theme.textInverse }),
+      statementButton: tw.style('mt-3 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.surfaceSecondary,
+      }),
+      statementText: tw.style('text-lg font-semibold', { color: theme.textPrimary }),
+    }),
+    [theme],
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <PeriodPicker period={period} onChange={setPeriod} isDark={isDark} />
+
+      <View style={styles.cards}>
+        <SummaryCard
+          title="Net profit"
+          value={formatBRL(current.net)}
+          change={changes.net}
+          previousLabel={previousLabel}
+          isDark={isDark}
+        />
+        <SummaryCard
+          title="Gross"
+          value={formatBRL(current.gross)}
+          change={changes.gross}
+          previousLabel={previousLabel}
+          isDark={isDark}
+        />
+        <SummaryCard
+          title="Platform fees"
+          value={formatBRL(current.platformFees)}
+          change={changes.platformFees}
+          previousLabel={previousLabel}
+          higherIsWorse
+          isDark={isDark}
+        />
+        <SummaryCard
+          title="Expenses"
+          value={formatBRL(current.expenses)}
+          change={changes.expenses}
+          previousLabel={previousLabel}
+          higherIsWorse
+          isDark={isDark}
+        />
+        <SummaryCard
+          title="Hours worked"
+          value={formatHours(current.hours)}
+          change={changes.hours}
+          previousLabel={previousLabel}
+          isDark={isDark}
+        />
+        <SummaryCard
+          title="Net per hour"
+          value={formatRate(current.netPerHour, 'h')}
+          change={changes.netPerHour}
+          previousLabel={previousLabel}
+          isDark={isDark}
+        />
+      </View>
+
+      {dailyBars.length > 1 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Net per day</Text>
+          <BarChart bars={dailyBars} isDark={isDark} />
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>By platform</Text>
+        {current.platforms.length === 0 ? (
+          <Text style={styles.empty}>No trips in this period</Text>
+        ) : (
+          <>
+            <BarChart bars={platformBars} isDark={isDark} height={120} />
+            {current.platforms.map((platform) => (
+              <ReportRow
+                key={platform.platform}
+                label={PLATFORM_LABELS[platform.platform]}
+                value={formatBRL(platform.earnings)}
+                detail={[
+                  `${String(platform.trips)} trips`,
+                  formatRate(platform.earningsPerHour, 'h'),
+                  formatRate(platform.earningsPerKm, 'km'),
+                  `${formatBRL(platform.platformFees)} fees`,
+                ].join(' · ')}
+                isDark={isDark}
+              />
+            ))}
+          </>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Expenses</Text>
+        {expenseRows.length === 0 ? (
+          <Text style={styles.empty}>No confirmed expenses in this period</Text>
+        ) : (
+          expenseRows.map(([category, amount]) => (
+            <ReportRow
+              key={category}
+              label={EXPENSE_CATEGORY_LABELS[category]}
+              value={formatBRL(amount)}
+              isDark={isDark}
+            />
+          ))
+        )}
+      </View>
+
+      <Pressable onPress={handleExport} style={styles.exportButton}>
+        <Text style={styles.exportText}>Export for accountant</Text>
+      </Pressable>
+      <Pressable onPress={handleStatement} style={styles.statementButton}>
+        <Text style={styles.statementText}>Monthly income statement</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
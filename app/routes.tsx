@@ -0,0 +1,332 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { View, Text, TextInput, Pressable, ScrollView, Alert } from 'react-native';
+import { Chip } from '../components/Chip';
+import { getTheme } from '../constants/Colors';
+import { formatKm } from '../constants/Mileage';
+import { PLATFORM_LABELS } from '../constants/Platforms';
+import { useSessionBreadcrumbs } from '../hooks/useSessionBreadcrumbs';
+import { buildRouteExportFile, writeAndShareExport } from '../services/exports';
+import type { RouteExportFormat } from '../services/exports';
+import {
+  importGpxTrack,
+  parseGpx,
+  replayProvider,
+  selectTripPoints,
+  summarizeRoute,
+} from '../services/location';
+import type { RouteTrack } from '../services/location';
+import { useIsDarkMode, useTimerSessions, useTrips } from '../store/useAppStore';
+import { formatDateKey } from '../utils/dates';
+import tw from '../utils/tw';
+
+// Sessions offered for export; older trails are pruned anyway
+const MAX_SESSIONS = 30;
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+
+// One exportable track with its GPX and GeoJSON buttons
+const TrackRow = memo<{
+  title: string;
+  track: RouteTrack;
+  disabled: boolean;
+  onExport: (track: RouteTrack, format: RouteExportFormat) => void;
+  isDark: boolean;
+}>(({ title, track, disabled, onExport, isDark }) => {
+  const theme = getTheme(isDark);
+  const summary = summarizeRoute(track.points);
+  const isEmpty = track.points.length === 0;
+
+  const handleGpx = useCallback(() => {
+    onExport(track, 'gpx');
+  }, [onExport, track]);
+
+  const handleGeoJson = useCallback(() => {
+    onExport(track, 'geojson');
+  }, [onExport, track]);
+
+  const styles = useMemo(
+    () => ({
+      row: tw.style('py-3 border-b', { borderColor: theme.border }),
+      title: tw.style('text-base', { color: theme.textPrimary }),
+      detail: tw.style('text-sm mt-0.5', { color: theme.textSecondary }),
+      buttons: tw`flex-row mt-2`,
+      button: tw.style('px-3 py-2 mr-2 rounded-xl', { backgroundColor: theme.interactive }),
+      buttonText: tw.style('text-sm font-semibold', { color: theme.textInverse }),
+    }),
+    [theme],
+  );
+
+  const isDisabled = disabled || isEmpty;
+
+  return (
+    <View style={styles.row}>
+      <Text style={styles.title}>{title}</Text>
+      <Text style={styles.detail}>
+        {isEmpty
+          ? 'No GPS points recorded'
+          : `${String(track.points.length)} points · ${formatKm(summary.distanceKm)}`}
+      </Text>
+      <View style={styles.buttons}>
+        <Pressable
+          onPress={handleGpx}
+          disabled={isDisabled}
+          style={tw.style(styles.button, isDisabled && 'opacity-40')}
+        >
+          <Text style={styles.buttonText}>GPX</Text>
+        </Pressable>
+        <Pressable
+          onPress={handleGeoJson}
+          disabled={isDisabled}
+          style={tw.style(styles.button, isDisabled && 'opacity-40')}
+        >
+          <Text style={styles.buttonText}>GeoJSON</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+});
+
+TrackRow.displayName = 'TrackRow';
+
+export default function RoutesScreen() {
+  const isDark = useIsDarkMode();
+  const theme = getTheme(isDark);
+  const timerSessions = useTimerSessions();
+  const trips = useTrips();
+  const sessions = useMemo(
+    () =>
+      [...timerSessions]
+        .sort((a, b) => b.startTime.localeCompare(a.startTime))
+        .slice(0, MAX_SESSIONS),
+    [timerSessions],
+  );
+  const [sessionId, setSessionId] = useState<string | null>(() => sessions[0]?.id ?? null);
+  const { points, isLoading, reload } = useSessionBreadcrumbs(sessionId);
+  const [isExporting, setIsExporting] = useState(false);
+  const [gpxText, setGpxText] = useState('');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  const session = sessions.find((candidate) => candidate.id === sessionId) ?? null;
+
+  const sessionTrack = useMemo<RouteTrack | null>(
+    () =>
+      session
+        ? {
+            name: `Session ${formatDateKey(session.date)}`,
+            sessionId: session.id,
+            tripId: null,
+            points,
+          }
+        : null,
+    [session, points],
+  );
+
+  const tripTracks = useMemo(
+    () =>
+      session
+        ? trips
+            .filter((trip) => trip.sessionId === session.id)
+            .sort((a, b) => a.startedAt.localeCompare(b.startedAt))
+            .map((trip) => ({
+              title: `${formatTime(trip.startedAt)} · ${PLATFORM_LABELS[trip.platform]} · ${formatKm(trip.distanceKm)}`,
+              track: {
+                name: `${PLATFORM_LABELS[trip.platform]} trip ${formatDateKey(session.date)} ${formatTime(trip.startedAt)}`,
+                sessionId: session.id,
+                tripId: trip.id,
+                points: selectTripPoints(points, trip),
+              },
+            }))
+        : [],
+    [session, trips, points],
+  );
+
+  const handleSessionSelect = useCallback((id: string) => {
+    setSessionId(id);
+    setImportMessage(null);
+  }, []);
+
+  const handleExport = useCallback((track: RouteTrack, format: RouteExportFormat) => {
+    const file = buildRouteExportFile(track, format, new Date().toISOString());
+    setIsExporting(true);
+    writeAndShareExport(file)
+      .catch((error: unknown) => {
+        console.error('[Routes] Failed to export:', error);
+        Alert.alert('Export failed', 'The file could not be shared. Please try again.');
+      })
+      .finally(() => {
+        setIsExporting(false);
+      });
+  }, []);
+
+  const handleGpxChange = useCallback((text: string) => {
+    setGpxText(text);
+    setImportMessage(null);
+  }, []);
+
+  // Replaces the session's trail and distance with the imported ones
+  const handleBackfill = useCallback(() => {
+    if (!sessionId) {
+      return;
+    }
+    importGpxTrack(gpxText, sessionId)
+      .then((result) => {
+        setImportMessage(
+          result.accepted > 0
+            ? `Imported ${String(result.accepted)} points, ${formatKm(result.distanceKm)}`
+            : 'No points fall within this session',
+        );
+        setGpxText('');
+        reload();
+      })
+      .catch((error: unknown) => {
+        console.error('[Routes] Failed to import GPX:', error);
+        setImportMessage(error instanceof Error ? error.message : 'The GPX could not be imported');
+      });
+  }, [gpxText, sessionId, reload]);
+
+  // Loads the track into the replay provider, played back on the next session
+  const handleReplay = useCallback(() => {
+    if (!replayProvider) {
+      return;
+    }
+    try {
+      const { points: replayPoints } = parseGpx(gpxText);
+      replayProvider.load(replayPoints);
+      setImportMessage(
+        `${String(replayPoints.length)} points will replay when location tracking next starts`,
+      );
+    } catch (error) {
+      setImportMessage(error instanceof Error ? error.message : 'The GPX could not be read');
+    }
+  }, [gpxText]);
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1', { backgroundColor: theme.background }),
+      content: tw`px-4 pt-4 pb-12`,
+      chips: tw`flex-row flex-wrap`,
+      section: tw.style('p-4 mt-4 rounded-2xl', { backgroundColor: theme.surface }),
+      sectionTitle: tw.style('text-sm uppercase mb-1', { color: theme.textTertiary }),
+      empty: tw.style('text-base', { color: theme.textTertiary }),
+      hint: tw.style('text-sm mt-2', { color: theme.textSecondary }),
+      input: tw.style('h-32 px-3 py-2 mt-2 rounded-xl text-sm', {
+        backgroundColor: theme.surfaceSecondary,
+        color: theme.textPrimary,
+        textAlignVertical: 'top',
+      }),
+      buttons: tw`flex-row mt-3`,
+      button: tw.style('flex-1 py-3 rounded-xl items-center', {
+        backgroundColor: theme.interactive,
+      }),
+      buttonText: tw.style('text-base font-semibold', { color: theme.textInverse }),
+    }),
+    [theme],
+  );
+
+  if (sessions.length === 0) {
+    return (
+      <View style={[styles.container, styles.content]}>
+        <Text style={styles.empty}>No sessions yet</Text>
+      </View>
+    );
+  }
+
+  const canImport = gpxText.trim().length > 0;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.chips}>
+        {sessions.map((candidate) => (
+          <Chip
+            key={candidate.id}
+            id={candidate.id}
+            label={`${formatDateKey(candidate.date)} ${formatTime(candidate.startTime)}`}
+            selected={candidate.id === sessionId}
+            onSelect={handleSessionSelect}
+            isDark={isDark}
+          />
+        ))}
+      </View>
+
+      {sessionTrack && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Session</Text>
+          {isLoading ? (
+            <Text style={styles.empty}>Loading...</Text>
+          ) : (
+            <>
+              <TrackRow
+                title="Whole session"
+                track={sessionTrack}
+                disabled={isExporting}
+                onExport={handleExport}
+                isDark={isDark}
+              />
+              {tripTracks.map(({ title, track }) => (
+                <TrackRow
+                  key={track.tripId}
+                  title={title}
+                  track={track}
+                  disabled={isExporting}
+                  onExport={handleExport}
+                  isDark={isDark}
+                />
+              ))}
+            </>
+          )}
+          <Text style={styles.hint}>
+            GPX opens in most mapping apps; GeoJSON suits GIS tools. Both carry the time and speed
+            of each point
+          </Text>
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Import GPX</Text>
+        <TextInput
+          value={gpxText}
+          onChangeText={handleGpxChange}
+          placeholder="Paste the contents of a .gpx file"
+          placeholderTextColor={theme.textTertiary}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          style={styles.input}
+          accessibilityLabel="GPX file contents"
+        />
+        <View style={styles.buttons}>
+          <Pressable
+            onPress={handleBackfill}
+            disabled={!canImport || !session}
+            style={tw.style(
+              styles.button,
+              replayProvider && 'mr-2',
+              (!canImport || !session) && 'opacity-40',
+            )}
+          >
+            <Text style={styles.buttonText}>Backfill session</Text>
+          </Pressable>
+          {replayProvider && (
+            <Pressable
+              onPress={handleReplay}
+              disabled={!canImport}
+              style={tw.style(styles.button, !canImport && 'opacity-40')}
+            >
+              <Text style={styles.buttonText}>Replay</Text>
+            </Pressable>
+          )}
+        </View>
+        {importMessage && <Text style={styles.hint}>{importMessage}</Text>}
+        <Text style={styles.hint}>
+          Backfilling replaces the selected session&apos;s GPS trail and distance with the imported
+          trail&apos;s, keeping only points recorded during it
+        </Text>
+      </View>
+    </ScrollView>
+  );
+}
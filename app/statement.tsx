@@ -0,0 +1,158 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, Text, Pressable, ScrollView, Alert } from 'react-native';
+import { getCurrentPeriod, PeriodPicker } from '../components/PeriodPicker';
+import type { PickablePeriodKind } from '../components/PeriodPicker';
+import { getTheme } from '../constants/Colors';
+import { useReportComparison } from '../hooks/useReportComparison';
+import { getPreviousPeriod } from '../services/reports';
+import type { ReportPeriod } from '../services/reports';
+import { getDeviceTimeZone } from '../services/session/dayBucketing';
+import {
+  buildIncomeStatement,
+  generateStatementPdf,
+  shareStatementPdf,
+} from '../services/statements';
+import type { GeneratedStatement } from '../services/statements';
+import { useAppStore, useCurrentUser, useIsDarkMode } from '../store/useAppStore';
+import { formatBRL } from '../utils/currency';
+import tw from '../utils/tw';
+
+const MONTH_ONLY: PickablePeriodKind[] = ['month'];
+
+export default function StatementScreen() {
+  const isDark = useIsDarkMode();
+  const theme = getTheme(isDark);
+  const currentUser = useCurrentUser();
+  // Lenders ask for the last closed month, not the one in progress
+  const [period, setPeriod] = useState<ReportPeriod>(() =>
+    getPreviousPeriod(getCurrentPeriod('month')),
+  );
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [generated, setGenerated] = useState<GeneratedStatement | null>(null);
+  const { current } = useReportComparison(period);
+
+  const handlePeriodChange = useCallback((next: ReportPeriod) => {
+    setPeriod(next);
+    setGenerated(null);
+  }, []);
+
+  const handleGenerate = useCallback(() => {
+    const { trips, expenses, timerSessions, currentUser: user } = useAppStore.getState();
+    if (!user) {
+      return;
+    }
+    const statement = buildIncomeStatement({
+      data: { trips, expenses, sessions: timerSessions },
+      user,
+      month: period.start.slice(0, 7),
+      timeZone: getDeviceTimeZone(),
+      generatedAt: new Date().toISOString(),
+    });
+
+    setIsGenerating(true);
+    generateStatementPdf(statement)
+      .then(async (result) => {
+        setGenerated(result);
+        await shareStatementPdf(result.uri);
+      })
+      .catch((error: unknown) => {
+        console.error('[Statement] Failed to generate statement:', error);
+        Alert.alert('Statement failed', 'The PDF could not be created. Please try again.');
+      })
+      .finally(() => {
+        setIsGenerating(false);
+      });
+  }, [period]);
+
+  const handleShareAgain = useCallback(() => {
+    if (!generated) {
+      return;
+    }
+    shareStatementPdf(generated.uri).catch((error: unknown) => {
+      console.error('[Statement] Failed to share statement:', error);
+    });
+  }, [generated]);
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1', { backgroundColor: theme.background }),
+      content: tw`px-4 pt-4 pb-12`,
+      card: tw.style('p-4 mb-3 rounded-2xl', { backgroundColor: theme.surface }),
+      label: tw.style('text-sm uppercase', { color: theme.textTertiary }),
+      value: tw.style('text-base mt-1', { color: theme.textPrimary }),
+      net: tw.style('text-2xl font-bold mt-1', { color: theme.textPrimary }),
+      detail: tw.style('text-sm mt-1', { color: theme.textSecondary }),
+      warning: tw.style('text-base', { color: theme.warning }),
+      hash: tw.style('text-xs mt-1', { color: theme.textSecondary, fontFamily: 'SpaceMono' }),
+      primaryButton: tw.style('mt-4 py-4 rounded-2xl items-center', {
+        backgroundColor:
+          isGenerating || !currentUser ? theme.interactiveDisabled : theme.interactive,
+      }),
+      primaryText: tw.style('text-lg font-semibold', { color: theme.textInverse }),
+      secondaryButton: tw.style('mt-3 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.surfaceSecondary,
+      }),
+      secondaryText: tw.style('text-lg font-semibold', { color: theme.textPrimary }),
+    }),
+    [theme, isGenerating, currentUser],
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <PeriodPicker
+        period={period}
+        onChange={handlePeriodChange}
+        isDark={isDark}
+        kinds={MONTH_ONLY}
+      />
+
+      <View style={styles.card}>
+        <Text style={styles.label}>Driver</Text>
+        {currentUser ? (
+          <>
+            <Text style={styles.value}>{currentUser.name}</Text>
+            <Text style={styles.detail}>{currentUser.email}</Text>
+          </>
+        ) : (
+          <Text style={styles.warning}>Sign in first - the statement has to name the driver</Text>
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.label}>Net for the month</Text>
+        <Text style={styles.net}>{formatBRL(current.net)}</Text>
+        <Text style={styles.detail}>
+          {String(current.trips)} trips · {formatBRL(current.earnings)} from platforms ·{' '}
+          {formatBRL(current.expenses)} in expenses
+        </Text>
+      </View>
+
+      {generated && (
+        <View style={styles.card}>
+          <Text style={styles.label}>Last generated</Text>
+          <Text style={styles.value}>
+            {String(generated.pages)} {generated.pages === 1 ? 'page' : 'pages'}
+          </Text>
+          <Text style={styles.hash} selectable>
+            SHA-256 {generated.hash}
+          </Text>
+        </View>
+      )}
+
+      <Pressable
+        onPress={handleGenerate}
+        disabled={isGenerating || !currentUser}
+        style={styles.primaryButton}
+      >
+        <Text style={styles.primaryText}>
+          {isGenerating ? 'Generating...' : 'Generate PDF statement'}
+        </Text>
+      </Pressable>
+      {generated && (
+        <Pressable onPress={handleShareAgain} style={styles.secondaryButton}>
+          <Text style={styles.secondaryText}>Share again</Text>
+        </Pressable>
+      )}
+    </ScrollView>
+  );
+}
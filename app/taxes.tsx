@@ -0,0 +1,493 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { View, Text, Pressable, ScrollView, TextInput } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Chip } from '../components/Chip';
+import { getTheme } from '../constants/Colors';
+import { useTaxEstimate } from '../hooks/useTaxEstimate';
+import { MEI_EXCLUSION_MARGIN, upsertTaxTable } from '../services/tax';
+import type {
+  CarneLeaoMethod,
+  DasMonth,
+  DasStatus,
+  MeiActivity,
+  MeiLimitLevel,
+  TaxRegime,
+  TaxYearTable,
+} from '../services/tax';
+import { useAppStore, useIsDarkMode, useTaxSettings } from '../store/useAppStore';
+import { formatBRL, parseBrazilianNumber } from '../utils/currency';
+import tw from '../utils/tw';
+
+const REGIME_OPTIONS: { id: TaxRegime; label: string }[] = [
+  { id: 'mei', label: 'MEI' },
+  { id: 'autonomo', label: 'Autônomo (carnê-leão)' },
+];
+
+const ACTIVITY_OPTIONS: { id: MeiActivity; label: string }[] = [
+  { id: 'services', label: 'Services (ISS)' },
+  { id: 'commerce', label: 'Commerce (ICMS)' },
+  { id: 'both', label: 'Both' },
+];
+
+const THRESHOLD_OPTIONS = [0.7, 0.8, 0.9];
+
+const METHOD_LABELS: Record<CarneLeaoMethod, string> = {
+  livro_caixa: 'Livro-caixa',
+  presumed: 'Presumed 60%',
+};
+
+const STATUS_LABELS: Record<DasStatus, string> = {
+  paid: 'Paid',
+  overdue: 'Overdue',
+  pending: 'To pay',
+  future: 'Upcoming',
+};
+
+const LEVEL_MESSAGES: Record<MeiLimitLevel, string> = {
+  ok: 'Well within the limit',
+  approaching: 'Approaching the limit - keep an eye on the pace',
+  exceeded: `Over the limit - the excess is taxed, and past ${String(MEI_EXCLUSION_MARGIN * 100)}% the MEI ends`,
+  excluded: `More than ${String(MEI_EXCLUSION_MARGIN * 100)}% over - the MEI is excluded for the year`,
+};
+
+const MONTH_ABBREVIATIONS = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+];
+
+const monthLabel = (month: number) => MONTH_ABBREVIATIONS[month - 1] ?? String(month);
+
+// "2026-11-20" -> "20/11"
+const shortDate = (dateKey: string) => `${dateKey.slice(8, 10)}/${dateKey.slice(5, 7)}`;
+
+const formatPercent = (share: number) => `${(share * 100).toFixed(0)}%`;
+
+const formatInput = (value: number) => value.toFixed(2).replace('.', ',');
+
+// One month of the DAS calendar; tapping it marks the payment
+const DasRow = memo<{ entry: DasMonth; onToggle: (key: string) => void; isDark: boolean }>(
+  ({ entry, onToggle, isDark }) => {
+    const theme = getTheme(isDark);
+    const handlePress = useCallback(() => {
+      onToggle(entry.key);
+    }, [entry.key, onToggle]);
+
+    const statusColor =
+      entry.status === 'paid'
+        ? theme.success
+        : entry.status === 'overdue'
+          ? theme.error
+          : entry.status === 'pending'
+            ? theme.warning
+            : theme.textTertiary;
+
+    return (
+      <Pressable onPress={handlePress} style={tw`flex-row items-center py-2`}>
+        <Ionicons
+          name={entry.status === 'paid' ? 'checkmark-circle' : 'ellipse-outline'}
+          size={20}
+          color={statusColor}
+        />
+        <Text style={tw.style('text-base ml-2 flex-1', { color: theme.textPrimary })}>
+          {monthLabel(entry.month)} · due {shortDate(entry.dueDate)}
+        </Text>
+        <Text style={tw.style('text-sm mr-3', { color: statusColor })}>
+          {STATUS_LABELS[entry.status]}
+        </Text>
+        <Text style={tw.style('text-base font-semibold', { color: theme.textPrimary })}>
+          {formatBRL(entry.amount)}
+        </Text>
+      </Pressable>
+    );
+  },
+);
+
+DasRow.displayName = 'DasRow';
+
+const TaxRow = memo<{ label: string; value: string; detail?: string; isDark: boolean }>(
+  ({ label, value, detail, isDark }) => {
+    const theme = getTheme(isDark);
+
+    return (
+      <View style={tw`py-2`}>
+        <View style={tw`flex-row justify-between`}>
+          <Text style={tw.style('text-base', { color: theme.textPrimary })}>{label}</Text>
+          <Text style={tw.style('text-base font-semibold', { color: theme.textPrimary })}>
+            {value}
+          </Text>
+        </View>
+        {detail !== undefined && (
+          <Text style={tw.style('text-sm mt-0.5', { color: theme.textSecondary })}>{detail}</Text>
+        )}
+      </View>
+    );
+  },
+);
+
+TaxRow.displayName = 'TaxRow';
+
+// Corrects the year's minimum wage and MEI limit; mounted per year so it starts from that table
+const TaxTableEditor = memo<{ table: TaxYearTable; isDark: boolean }>(({ table, isDark }) => {
+  const theme = getTheme(isDark);
+  const [minimumWage, setMinimumWage] = useState(() => formatInput(table.minimumWage));
+  const [annualLimit, setAnnualLimit] = useState(() => formatInput(table.mei.annualLimit));
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSave = useCallback(() => {
+    const wage = parseBrazilianNumber(minimumWage);
+    const limit = parseBrazilianNumber(annualLimit);
+    if (wage === null || wage <= 0 || limit === null || limit <= 0) {
+      setFormError('Enter both amounts in reais, e.g. 1518,00');
+      return;
+    }
+    setFormError(null);
+    const { taxSettings, setTaxSettings } = useAppStore.getState();
+    setTaxSettings({
+      tables: upsertTaxTable(taxSettings.tables, {
+        ...table,
+        minimumWage: wage,
+        mei: { ...table.mei, annualLimit: limit },
+      }),
+    });
+  }, [minimumWage, annualLimit, table]);
+
+  const handleReset = useCallback(() => {
+    const { taxSettings, setTaxSettings } = useAppStore.getState();
+    setTaxSettings({ tables: taxSettings.tables.filter((entry) => entry.year !== table.year) });
+  }, [table.year]);
+
+  const styles = useMemo(
+    () => ({
+      label: tw.style('text-sm mt-3 mb-1', { color: theme.textSecondary }),
+      input: tw.style('px-4 py-3 rounded-xl text-base', {
+        backgroundColor: theme.surfaceSecondary,
+        color: theme.textPrimary,
+      }),
+      error: tw.style('text-sm mt-2', { color: theme.error }),
+      buttons: tw`flex-row mt-4`,
+      saveButton: tw.style('flex-1 py-3 mr-2 rounded-xl items-center', {
+        backgroundColor: theme.interactive,
+      }),
+      saveText: tw.style('text-base font-semibold', { color: theme.textInverse }),
+      resetButton: tw.style('flex-1 py-3 rounded-xl items-center', {
+        backgroundColor: theme.surfaceSecondary,
+      }),
+      resetText: tw.style('text-base font-semibold', { color: theme.textPrimary }),
+    }),
+    [theme],
+  );
+
+  return (
+    <View>
+      <Text style={styles.label}>Minimum wage (R$)</Text>
+      <TextInput
+        value={minimumWage}
+        onChangeText={setMinimumWage}
+        keyboardType="decimal-pad"
+        style={styles.input}
+      />
+      <Text style={styles.label}>MEI annual limit (R$)</Text>
+      <TextInput
+        value={annualLimit}
+        onChangeText={setAnnualLimit}
+        keyboardType="decimal-pad"
+        style={styles.input}
+      />
+      {formError && <Text style={styles.error}>{formError}</Text>}
+      <View style={styles.buttons}>
+        <Pressable onPress={handleSave} style={styles.saveButton}>
+          <Text style={styles.saveText}>Save {String(table.year)}</Text>
+        </Pressable>
+        <Pressable onPress={handleReset} style={styles.resetButton}>
+          <Text style={styles.resetText}>Use built-in</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+});
+
+TaxTableEditor.displayName = 'TaxTableEditor';
+
+export default function TaxesScreen() {
+  const isDark = useIsDarkMode();
+  const theme = getTheme(isDark);
+  const settings = useTaxSettings();
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [openedOn, setOpenedOn] = useState(settings.meiOpenedOn ?? '');
+  const estimate = useTaxEstimate(year);
+  const { meiLimit, carneLeao, ledger, table } = estimate;
+  const recommended =
+    carneLeao.recommended === 'livro_caixa' ? carneLeao.livroCaixa : carneLeao.presumed;
+
+  const handlePreviousYear = useCallback(() => {
+    setYear((value) => value - 1);
+  }, []);
+
+  const handleNextYear = useCallback(() => {
+    setYear((value) => value + 1);
+  }, []);
+
+  const handleRegimeSelect = useCallback((id: string) => {
+    useAppStore.getState().setTaxSettings({ regime: id as TaxRegime });
+  }, []);
+
+  const handleActivitySelect = useCallback((id: string) => {
+    useAppStore.getState().setTaxSettings({ meiActivity: id as MeiActivity });
+  }, []);
+
+  const handleThresholdSelect = useCallback((id: string) => {
+    useAppStore.getState().setTaxSettings({ alertThreshold: Number(id) });
+  }, []);
+
+  const handleDasToggle = useCallback((key: string) => {
+    useAppStore.getState().toggleDasPaid(key);
+  }, []);
+
+  // Only a valid YYYY-MM is kept; clearing the field means the MEI predates the year
+  const handleOpenedOnEnd = useCallback(() => {
+    const value = openedOn.trim();
+    if (value === '' || /^\d{4}-(0[1-9]|1[0-2])$/.test(value)) {
+      useAppStore.getState().setTaxSettings({ meiOpenedOn: value === '' ? null : value });
+    } else {
+      setOpenedOn(useAppStore.getState().taxSettings.meiOpenedOn ?? '');
+    }
+  }, [openedOn]);
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1', { backgroundColor: theme.background }),
+      content: tw`px-4 pt-4 pb-12`,
+      navigator: tw`flex-row items-center justify-between mb-2`,
+      navButton: tw`p-2`,
+      yearText: tw.style('text-lg font-semibold', { color: theme.textPrimary }),
+      chips: tw`flex-row flex-wrap`,
+      notice: tw.style('p-3 mt-2 rounded-2xl', { backgroundColor: theme.surfaceSecondary }),
+      noticeText: tw.style('text-sm', { color: theme.warning }),
+      section: tw.style('p-4 mt-4 rounded-2xl', { backgroundColor: theme.surface }),
+      sectionTitle: tw.style('text-sm uppercase mb-3', { color: theme.textTertiary }),
+      headline: tw.style('text-2xl font-bold', { color: theme.textPrimary }),
+      detail: tw.style('text-sm mt-1', { color: theme.textSecondary }),
+      track: tw.style('h-3 mt-3 rounded-full overflow-hidden', {
+        backgroundColor: theme.surfaceSecondary,
+      }),
+      level: tw.style('text-sm mt-2 font-semibold', {
+        color:
+          meiLimit.level === 'ok'
+            ? theme.success
+            : meiLimit.level === 'approaching'
+              ? theme.warning
+              : theme.error,
+      }),
+      bar: tw.style('h-3 rounded-full', {
+        width: `${String(Math.min(100, meiLimit.share * 100))}%`,
+        backgroundColor:
+          meiLimit.level === 'ok'
+            ? theme.interactive
+            : meiLimit.level === 'approaching'
+              ? theme.warning
+              : theme.error,
+      }),
+      label: tw.style('text-sm mt-3 mb-1', { color: theme.textSecondary }),
+      input: tw.style('px-4 py-3 rounded-xl text-base', {
+        backgroundColor: theme.surfaceSecondary,
+        color: theme.textPrimary,
+      }),
+      hint: tw.style('text-sm mt-4 ml-1', { color: theme.textTertiary }),
+    }),
+    [theme, meiLimit.level, meiLimit.share],
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.navigator}>
+        <Pressable
+          onPress={handlePreviousYear}
+          style={styles.navButton}
+          accessibilityLabel="Previous year"
+        >
+          <Ionicons name="chevron-back" size={22} color={theme.textPrimary} />
+        </Pressable>
+        <Text style={styles.yearText}>{String(year)}</Text>
+        <Pressable
+          onPress={handleNextYear}
+          disabled={year >= currentYear}
+          style={styles.navButton}
+          accessibilityLabel="Next year"
+        >
+          <Ionicons
+            name="chevron-forward"
+            size={22}
+            color={year >= currentYear ? theme.textTertiary : theme.textPrimary}
+          />
+        </Pressable>
+      </View>
+
+      <View style={styles.chips}>
+        {REGIME_OPTIONS.map((option) => (
+          <Chip
+            key={option.id}
+            id={option.id}
+            label={option.label}
+            selected={settings.regime === option.id}
+            onSelect={handleRegimeSelect}
+            isDark={isDark}
+          />
+        ))}
+      </View>
+
+      {estimate.isProvisional && (
+        <View style={styles.notice}>
+          <Text style={styles.noticeText}>
+            There is no tax table for {String(year)} yet, so these figures use the latest known one.
+            Correct the minimum wage and limit below once they are published.
+          </Text>
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Ledger</Text>
+        <TaxRow
+          label="Income received"
+          value={formatBRL(ledger.income)}
+          detail="Fares and tips after platform fees"
+          isDark={isDark}
+        />
+        <TaxRow
+          label="Deductible expenses"
+          value={formatBRL(ledger.deductible)}
+          detail="Categories kept in the livro-caixa"
+          isDark={isDark}
+        />
+        <TaxRow label="Other expenses" value={formatBRL(ledger.nonDeductible)} isDark={isDark} />
+      </View>
+
+      {settings.regime === 'mei' ? (
+        <>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>MEI revenue limit</Text>
+            <Text style={styles.headline}>
+              {formatBRL(meiLimit.revenue)} of {formatBRL(meiLimit.limit)}
+            </Text>
+            <View style={styles.track}>
+              <View style={styles.bar} />
+            </View>
+            <Text style={styles.level}>{LEVEL_MESSAGES[meiLimit.level]}</Text>
+            <Text style={styles.detail}>
+              {formatPercent(meiLimit.share)} used · {formatBRL(meiLimit.remaining)} left
+              {meiLimit.projected !== null && ` · on pace for ${formatBRL(meiLimit.projected)}`}
+            </Text>
+
+            <Text style={styles.label}>Warn me at</Text>
+            <View style={styles.chips}>
+              {THRESHOLD_OPTIONS.map((threshold) => (
+                <Chip
+                  key={threshold}
+                  id={String(threshold)}
+                  label={formatPercent(threshold)}
+                  selected={settings.alertThreshold === threshold}
+                  onSelect={handleThresholdSelect}
+                  isDark={isDark}
+                />
+              ))}
+            </View>
+
+            <Text style={styles.label}>MEI opened in (YYYY-MM, only if this year)</Text>
+            <TextInput
+              value={openedOn}
+              onChangeText={setOpenedOn}
+              onEndEditing={handleOpenedOnEnd}
+              placeholder="e.g. 2026-03"
+              placeholderTextColor={theme.textTertiary}
+              style={styles.input}
+            />
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Monthly DAS</Text>
+            <Text style={styles.headline}>{formatBRL(estimate.das.total)} a month</Text>
+            <Text style={styles.detail}>
+              INSS {formatBRL(estimate.das.inss)} · ISS {formatBRL(estimate.das.iss)} · ICMS{' '}
+              {formatBRL(estimate.das.icms)}
+            </Text>
+            <View style={tw`mt-3`}>
+              <View style={styles.chips}>
+                {ACTIVITY_OPTIONS.map((option) => (
+                  <Chip
+                    key={option.id}
+                    id={option.id}
+                    label={option.label}
+                    selected={settings.meiActivity === option.id}
+                    onSelect={handleActivitySelect}
+                    isDark={isDark}
+                  />
+                ))}
+              </View>
+            </View>
+            {estimate.dasSchedule.map((entry) => (
+              <DasRow key={entry.key} entry={entry} onToggle={handleDasToggle} isDark={isDark} />
+            ))}
+          </View>
+        </>
+      ) : (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Carnê-leão</Text>
+          <Text style={styles.headline}>{formatBRL(recommended.tax)} for the year</Text>
+          <Text style={styles.detail}>
+            {METHOD_LABELS[carneLeao.recommended]} pays least
+            {carneLeao.savings > 0 ? `, saving ${formatBRL(carneLeao.savings)}` : ''}
+          </Text>
+          <TaxRow
+            label={METHOD_LABELS.livro_caixa}
+            value={formatBRL(carneLeao.livroCaixa.tax)}
+            detail="Income minus deductible expenses"
+            isDark={isDark}
+          />
+          <TaxRow
+            label={METHOD_LABELS.presumed}
+            value={formatBRL(carneLeao.presumed.tax)}
+            detail={`${formatPercent(table.transportTaxableShare)} of transport income is taxable`}
+            isDark={isDark}
+          />
+          {recommended.months
+            .filter((entry) => entry.income > 0 || entry.tax > 0)
+            .map((entry) => (
+              <TaxRow
+                key={entry.key}
+                label={`${monthLabel(entry.month)} · due ${shortDate(entry.dueDate)}`}
+                value={formatBRL(entry.tax)}
+                detail={`Income ${formatBRL(entry.income)} · base ${formatBRL(entry.base)}${
+                  entry.usedSimplifiedDiscount ? ' · simplified discount' : ''
+                }${entry.carriedOver > 0 ? ` · ${formatBRL(entry.carriedOver)} carried over` : ''}`}
+                isDark={isDark}
+              />
+            ))}
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{String(year)} tax table</Text>
+        {/* Remounted when the table changes, so a reset refills the inputs */}
+        <TaxTableEditor
+          key={`${String(year)}-${String(table.minimumWage)}-${String(table.mei.annualLimit)}`}
+          table={table}
+          isDark={isDark}
+        />
+      </View>
+
+      <Text style={styles.hint}>
+        Estimates to help you set money aside. Your accountant confirms what is actually due.
+      </Text>
+    </ScrollView>
+  );
+}
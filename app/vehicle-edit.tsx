@@ -0,0 +1,294 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { View, Text, TextInput, Pressable, ScrollView } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Chip } from '../components/Chip';
+import { getTheme } from '../constants/Colors';
+import { FUEL_ECONOMY_UNITS, FUEL_TYPE_LABELS, OWNERSHIP_LABELS } from '../constants/Vehicles';
+import type { FuelType, NewVehicle, Vehicle, VehicleOwnership } from '../store/useAppStore';
+import { useAppStore, useIsDarkMode, useVehicle } from '../store/useAppStore';
+import { parseBrazilianNumber } from '../utils/currency';
+import tw from '../utils/tw';
+
+const FUEL_TYPES = Object.keys(FUEL_TYPE_LABELS) as FuelType[];
+const OWNERSHIPS = Object.keys(OWNERSHIP_LABELS) as VehicleOwnership[];
+
+interface VehicleForm {
+  make: string;
+  model: string;
+  fuelType: FuelType;
+  kmPerLiter: string;
+  kmPerLiterEthanol: string;
+  ownership: VehicleOwnership;
+  weeklyRent: string;
+}
+
+const formatNumber = (value: number | null, decimals: number) =>
+  value !== null ? value.toFixed(decimals).replace('.', ',') : '';
+
+const toForm = (vehicle: Vehicle | null): VehicleForm => ({
+  make: vehicle?.make ?? '',
+  model: vehicle?.model ?? '',
+  fuelType: vehicle?.fuelType ?? 'flex',
+  kmPerLiter: formatNumber(vehicle?.kmPerLiter ?? null, 1),
+  kmPerLiterEthanol: formatNumber(vehicle?.kmPerLiterEthanol ?? null, 1),
+  ownership: vehicle?.ownership ?? 'owned',
+  weeklyRent: formatNumber(vehicle?.weeklyRent ?? null, 2),
+});
+
+/**
+ * Turns the form into a vehicle
+ * @returns The vehicle, or an error message when the form is incomplete
+ */
+const buildVehicle = (form: VehicleForm): NewVehicle | string => {
+  if (!form.make.trim() && !form.model.trim()) {
+    return 'Enter the make or model';
+  }
+  const kmPerLiter = parseBrazilianNumber(form.kmPerLiter);
+  if (kmPerLiter === null || kmPerLiter <= 0) {
+    return `Enter the measured ${FUEL_ECONOMY_UNITS[form.fuelType]}`;
+  }
+  let kmPerLiterEthanol: number | null = null;
+  if (form.fuelType === 'flex' && form.kmPerLiterEthanol.trim()) {
+    kmPerLiterEthanol = parseBrazilianNumber(form.kmPerLiterEthanol);
+    if (kmPerLiterEthanol === null || kmPerLiterEthanol <= 0) {
+      return 'Enter a valid km/L on ethanol';
+    }
+  }
+  let weeklyRent: number | null = null;
+  if (form.ownership === 'rented') {
+    weeklyRent = parseBrazilianNumber(form.weeklyRent);
+    if (weeklyRent === null || weeklyRent <= 0) {
+      return 'Enter the weekly rent';
+    }
+  }
+  return {
+    make: form.make.trim(),
+    model: form.model.trim(),
+    fuelType: form.fuelType,
+    kmPerLiter,
+    kmPerLiterEthanol,
+    ownership: form.ownership,
+    weeklyRent,
+  };
+};
+
+const VehicleEditor = memo<{ vehicle: Vehicle | null; isDark: boolean }>(({ vehicle, isDark }) => {
+  const theme = getTheme(isDark);
+  const [form, setForm] = useState<VehicleForm>(() => toForm(vehicle));
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const updateForm = useCallback((updates: Partial<VehicleForm>) => {
+    setForm((current) => ({ ...current, ...updates }));
+    setFormError(null);
+  }, []);
+
+  const handleMakeChange = useCallback(
+    (make: string) => {
+      updateForm({ make });
+    },
+    [updateForm],
+  );
+
+  const handleModelChange = useCallback(
+    (model: string) => {
+      updateForm({ model });
+    },
+    [updateForm],
+  );
+
+  const handleKmPerLiterChange = useCallback(
+    (kmPerLiter: string) => {
+      updateForm({ kmPerLiter });
+    },
+    [updateForm],
+  );
+
+  const handleKmPerLiterEthanolChange = useCallback(
+    (kmPerLiterEthanol: string) => {
+      updateForm({ kmPerLiterEthanol });
+    },
+    [updateForm],
+  );
+
+  const handleWeeklyRentChange = useCallback(
+    (weeklyRent: string) => {
+      updateForm({ weeklyRent });
+    },
+    [updateForm],
+  );
+
+  const handleFuelTypeSelect = useCallback(
+    (id: string) => {
+      updateForm({ fuelType: id as FuelType });
+    },
+    [updateForm],
+  );
+
+  const handleOwnershipSelect = useCallback(
+    (id: string) => {
+      updateForm({ ownership: id as VehicleOwnership });
+    },
+    [updateForm],
+  );
+
+  const handleSave = useCallback(() => {
+    const next = buildVehicle(form);
+    if (typeof next === 'string') {
+      setFormError(next);
+      return;
+    }
+    const { addVehicle, updateVehicle } = useAppStore.getState();
+    if (vehicle) {
+      updateVehicle(vehicle.id, next);
+    } else {
+      addVehicle(next);
+    }
+    router.back();
+  }, [form, vehicle]);
+
+  const handleDelete = useCallback(() => {
+    if (vehicle) {
+      useAppStore.getState().deleteVehicle(vehicle.id);
+    }
+    router.back();
+  }, [vehicle]);
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1', { backgroundColor: theme.background }),
+      content: tw`p-4 pb-12`,
+      label: tw.style('text-sm mt-4 mb-2 ml-1', { color: theme.textSecondary }),
+      input: tw.style('px-4 py-3 rounded-xl text-base', {
+        backgroundColor: theme.surfaceSecondary,
+        color: theme.textPrimary,
+      }),
+      chips: tw`flex-row flex-wrap`,
+      error: tw.style('text-sm mt-3 ml-1', { color: theme.error }),
+      saveButton: tw.style('mt-6 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.interactive,
+      }),
+      saveText: tw.style('text-lg font-semibold', { color: theme.textInverse }),
+      deleteButton: tw.style('mt-3 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.surfaceSecondary,
+      }),
+      deleteText: tw.style('text-lg font-semibold', { color: theme.error }),
+    }),
+    [theme],
+  );
+
+  const isFlex = form.fuelType === 'flex';
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.label}>Make</Text>
+      <TextInput
+        value={form.make}
+        onChangeText={handleMakeChange}
+        placeholder="e.g. Fiat"
+        placeholderTextColor={theme.textTertiary}
+        style={styles.input}
+      />
+
+      <Text style={styles.label}>Model</Text>
+      <TextInput
+        value={form.model}
+        onChangeText={handleModelChange}
+        placeholder="e.g. Argo 1.0"
+        placeholderTextColor={theme.textTertiary}
+        style={styles.input}
+      />
+
+      <Text style={styles.label}>Fuel</Text>
+      <View style={styles.chips}>
+        {FUEL_TYPES.map((fuelType) => (
+          <Chip
+            key={fuelType}
+            id={fuelType}
+            label={FUEL_TYPE_LABELS[fuelType]}
+            selected={form.fuelType === fuelType}
+            onSelect={handleFuelTypeSelect}
+            isDark={isDark}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.label}>
+        Measured {FUEL_ECONOMY_UNITS[form.fuelType]}
+        {isFlex ? ' on gasoline' : ''}
+      </Text>
+      <TextInput
+        value={form.kmPerLiter}
+        onChangeText={handleKmPerLiterChange}
+        placeholder="e.g. 12,5"
+        placeholderTextColor={theme.textTertiary}
+        keyboardType="decimal-pad"
+        style={styles.input}
+      />
+
+      {isFlex && (
+        <>
+          <Text style={styles.label}>Measured km/L on ethanol (optional)</Text>
+          <TextInput
+            value={form.kmPerLiterEthanol}
+            onChangeText={handleKmPerLiterEthanolChange}
+            placeholder="e.g. 8,7"
+            placeholderTextColor={theme.textTertiary}
+            keyboardType="decimal-pad"
+            style={styles.input}
+          />
+        </>
+      )}
+
+      <Text style={styles.label}>Ownership</Text>
+      <View style={styles.chips}>
+        {OWNERSHIPS.map((ownership) => (
+          <Chip
+            key={ownership}
+            id={ownership}
+            label={OWNERSHIP_LABELS[ownership]}
+            selected={form.ownership === ownership}
+            onSelect={handleOwnershipSelect}
+            isDark={isDark}
+          />
+        ))}
+      </View>
+
+      {form.ownership === 'rented' && (
+        <>
+          <Text style={styles.label}>Weekly rent (R$)</Text>
+          <TextInput
+            value={form.weeklyRent}
+            onChangeText={handleWeeklyRentChange}
+            placeholder="e.g. 650,00"
+            placeholderTextColor={theme.textTertiary}
+            keyboardType="decimal-pad"
+            style={styles.input}
+          />
+        </>
+      )}
+
+      {formError && <Text style={styles.error}>{formError}</Text>}
+
+      <Pressable onPress={handleSave} style={styles.saveButton}>
+        <Text style={styles.saveText}>{vehicle ? 'Save vehicle' : 'Add vehicle'}</Text>
+      </Pressable>
+      {vehicle && (
+        <Pressable onPress={handleDelete} style={styles.deleteButton}>
+          <Text style={styles.deleteText}>Delete vehicle</Text>
+        </Pressable>
+      )}
+    </ScrollView>
+  );
+});
+
+VehicleEditor.displayName = 'VehicleEditor';
+
+// Edits the vehicle in the id param, or adds a new one without it
+export default function VehicleEditScreen() {
+  const isDark = useIsDarkMode();
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const vehicle = useVehicle(id);
+
+  // Keyed so the form resets if the screen is reused for another vehicle
+  return <VehicleEditor key={vehicle?.id ?? 'new'} vehicle={vehicle} isDark={isDark} />;
+}
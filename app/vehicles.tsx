@@ -0,0 +1,174 @@
+import React, { memo, useCallback, useMemo } from 'react';
+import { View, Text, Pressable, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { getTheme } from '../constants/Colors';
+import {
+  FUEL_ECONOMY_UNITS,
+  FUEL_TYPE_LABELS,
+  OWNERSHIP_LABELS,
+  formatVehicleName,
+} from '../constants/Vehicles';
+import { getDeviceTimeZone, toLocalDateKey } from '../services/session/dayBucketing';
+import { getVehicleCostPerKm } from '../services/vehicles';
+import type { DistanceSource } from '../services/vehicles';
+import type { Vehicle } from '../store/useAppStore';
+import {
+  useActiveVehicle,
+  useAppStore,
+  useCurrentTimer,
+  useExpenses,
+  useIsDarkMode,
+  useTrips,
+  useVehicles,
+} from '../store/useAppStore';
+import { formatBRL } from '../utils/currency';
+import tw from '../utils/tw';
+
+const DISTANCE_SOURCES: Record<DistanceSource, string> = {
+  odometer: 'from odometer readings',
+  trips: 'from trip distances only',
+  none: 'no km logged yet',
+};
+
+const formatPerKm = (value: number | null) => (value !== null ? `${formatBRL(value)}/km` : '-');
+
+const VehicleCard = memo<{
+  vehicle: Vehicle;
+  isActive: boolean;
+  canSwitch: boolean;
+  isDark: boolean;
+}>(({ vehicle, isActive, canSwitch, isDark }) => {
+  const theme = getTheme(isDark);
+  const trips = useTrips();
+  const expenses = useExpenses();
+
+  const cost = useMemo(
+    () =>
+      getVehicleCostPerKm(
+        vehicle,
+        trips,
+        expenses,
+        toLocalDateKey(Date.now(), getDeviceTimeZone()),
+      ),
+    [vehicle, trips, expenses],
+  );
+
+  const handleEdit = useCallback(() => {
+    router.push({ pathname: '/vehicle-edit', params: { id: vehicle.id } });
+  }, [vehicle.id]);
+
+  const handleActivate = useCallback(() => {
+    useAppStore.getState().setActiveVehicle(vehicle.id);
+  }, [vehicle.id]);
+
+  const economy =
+    vehicle.fuelType === 'flex' && vehicle.kmPerLiterEthanol !== null
+      ? `${String(vehicle.kmPerLiter)} km/L gasoline · ${String(vehicle.kmPerLiterEthanol)} km/L ethanol`
+      : `${String(vehicle.kmPerLiter)} ${FUEL_ECONOMY_UNITS[vehicle.fuelType]}`;
+
+  return (
+    <Pressable
+      onPress={handleEdit}
+      style={tw.style('p-4 mb-3 rounded-2xl', { backgroundColor: theme.surface })}
+    >
+      <View style={tw`flex-row items-center justify-between`}>
+        <Text style={tw.style('text-lg font-semibold flex-1', { color: theme.textPrimary })}>
+          {formatVehicleName(vehicle)}
+        </Text>
+        <Pressable
+          onPress={handleActivate}
+          disabled={!canSwitch}
+          accessibilityLabel="Use this vehicle"
+          style={tw`p-1`}
+        >
+          <Ionicons
+            name={isActive ? 'radio-button-on' : 'radio-button-off'}
+            size={22}
+            color={isActive ? theme.interactive : theme.textTertiary}
+          />
+        </Pressable>
+      </View>
+      <Text style={tw.style('text-sm mt-1', { color: theme.textSecondary })}>
+        {FUEL_TYPE_LABELS[vehicle.fuelType]} · {economy} · {OWNERSHIP_LABELS[vehicle.ownership]}
+        {vehicle.ownership === 'rented' && vehicle.weeklyRent !== null
+          ? ` ${formatBRL(vehicle.weeklyRent)}/week`
+          : ''}
+      </Text>
+
+      <View style={tw`flex-row justify-between mt-3`}>
+        <Text style={tw.style('text-base', { color: theme.textPrimary })}>Cost per km</Text>
+        <Text style={tw.style('text-base font-semibold', { color: theme.textPrimary })}>
+          {formatPerKm(cost.totalPerKm)}
+        </Text>
+      </View>
+      <Text style={tw.style('text-sm mt-0.5', { color: theme.textSecondary })}>
+        Fuel {formatPerKm(cost.fuelPerKm)} · Maintenance {formatPerKm(cost.maintenancePerKm)}
+        {cost.rentCost > 0 ? ` · Rent ${formatPerKm(cost.rentPerKm)}` : ''}
+      </Text>
+      <Text style={tw.style('text-sm mt-0.5', { color: theme.textTertiary })}>
+        {cost.distanceKm > 0 ? `${cost.distanceKm.toFixed(0)} km ` : ''}
+        {DISTANCE_SOURCES[cost.distanceSource]}
+        {cost.estimatedFuelPerKm !== null
+          ? ` · fuel at the last price ${formatPerKm(cost.estimatedFuelPerKm)}`
+          : ''}
+      </Text>
+    </Pressable>
+  );
+});
+
+VehicleCard.displayName = 'VehicleCard';
+
+export default function VehiclesScreen() {
+  const isDark = useIsDarkMode();
+  const theme = getTheme(isDark);
+  const vehicles = useVehicles();
+  const activeVehicle = useActiveVehicle();
+  const currentTimer = useCurrentTimer();
+
+  const handleAdd = useCallback(() => {
+    router.push('/vehicle-edit');
+  }, []);
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1', { backgroundColor: theme.background }),
+      content: tw`px-4 pt-4 pb-12`,
+      hint: tw.style('text-sm mb-4 ml-1', { color: theme.textTertiary }),
+      empty: tw.style('text-base text-center mt-8', { color: theme.textTertiary }),
+      addButton: tw.style('mt-3 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.interactive,
+      }),
+      addText: tw.style('text-lg font-semibold', { color: theme.textInverse }),
+    }),
+    [theme],
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.hint}>
+        {currentTimer.isRunning
+          ? 'The vehicle can be changed once the current session ends.'
+          : 'The selected vehicle is used for the next session and its trips and expenses.'}
+      </Text>
+
+      {vehicles.length === 0 ? (
+        <Text style={styles.empty}>Add the car you drive to track its cost per km</Text>
+      ) : (
+        vehicles.map((vehicle) => (
+          <VehicleCard
+            key={vehicle.id}
+            vehicle={vehicle}
+            isActive={vehicle.id === activeVehicle?.id}
+            canSwitch={!currentTimer.isRunning}
+            isDark={isDark}
+          />
+        ))
+      )}
+
+      <Pressable onPress={handleAdd} style={styles.addButton}>
+        <Text style={styles.addText}>Add vehicle</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
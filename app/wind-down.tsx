@@ -0,0 +1,137 @@
+import React, { useCallback, useMemo } from 'react';
+import { View, Text, Pressable, Platform, Linking } from 'react-native';
+import { MotiView } from 'moti';
+import { router } from 'expo-router';
+import { getTheme } from '../constants/Colors';
+import {
+  useAppStore,
+  useCurrentTimer,
+  useIsDarkMode,
+  useSessionTimeout,
+  useWindDownNotice,
+} from '../store/useAppStore';
+import tw from '../utils/tw';
+
+// Extra worked time granted when the driver chooses to keep going
+const EXTENSION_MINUTES = 60;
+
+const formatClockTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+
+// Android lets us jump straight to the accessibility list; other platforms get the app settings
+const openAccessibilitySettings = () => {
+  const request =
+    Platform.OS === 'android'
+      ? Linking.sendIntent('android.settings.ACCESSIBILITY_SETTINGS')
+      : Linking.openSettings();
+  request.catch((error: unknown) => {
+    console.error('[WindDown] Failed to open settings:', error);
+  });
+};
+
+export default function WindDownScreen() {
+  const isDark = useIsDarkMode();
+  const theme = getTheme(isDark);
+  const notice = useWindDownNotice();
+  const currentTimer = useCurrentTimer();
+  const { limitMinutes } = useSessionTimeout();
+
+  const canContinue =
+    notice?.reason === 'timeout' && !notice.sessionEnded && currentTimer.isRunning;
+
+  const { title, message } = useMemo(() => {
+    if (notice?.reason === 'crash') {
+      return {
+        title: 'Session closed',
+        message: `The app stopped unexpectedly, so your last session was closed at ${formatClockTime(notice.occurredAt)}.`,
+      };
+    }
+    const hours = limitMinutes / 60;
+    const action = notice?.sessionEnded ? 'ended' : 'paused';
+    return {
+      title: 'Time for a break',
+      message: `Your session was ${action} after ${String(hours)} hours of driving${notice ? ` at ${formatClockTime(notice.occurredAt)}` : ''}. Screen reading is paused to protect your privacy and battery.`,
+    };
+  }, [notice, limitMinutes]);
+
+  const handleEndSession = useCallback(() => {
+    const state = useAppStore.getState();
+    // End at the moment the timeout paused the session so the idle time is not counted
+    state.stopTimer({
+      reason: notice?.reason ?? 'timeout',
+      ...(state.currentTimer.pausedAt ? { endTime: state.currentTimer.pausedAt } : {}),
+    });
+    state.setWindDownNotice(null);
+    router.back();
+  }, [notice]);
+
+  const handleContinue = useCallback(() => {
+    useAppStore.getState().extendSession(EXTENSION_MINUTES);
+    router.back();
+  }, []);
+
+  const handleDismiss = useCallback(() => {
+    useAppStore.getState().setWindDownNotice(null);
+    router.back();
+  }, []);
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1 px-6 pt-24', { backgroundColor: theme.background }),
+      title: tw.style('text-4xl font-bold mb-4', { color: theme.textPrimary }),
+      message: tw.style('text-lg mb-8', { color: theme.textSecondary }),
+      stepTitle: tw.style('text-[15px] font-semibold mb-3', { color: theme.textSecondary }),
+      step: tw.style('text-base mb-2', { color: theme.textPrimary }),
+      primaryButton: tw.style('mt-8 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.error,
+      }),
+      secondaryButton: tw.style('mt-3 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.surfaceSecondary,
+      }),
+      linkButton: tw`mt-4 py-3 items-center`,
+      primaryText: tw.style('text-lg font-semibold', { color: theme.textInverse }),
+      secondaryText: tw.style('text-lg font-semibold', { color: theme.textPrimary }),
+      linkText: tw.style('text-base', { color: theme.interactive }),
+    }),
+    [theme],
+  );
+
+  return (
+    <View style={styles.container}>
+      <MotiView
+        from={{ opacity: 0, translateY: 20 }}
+        animate={{ opacity: 1, translateY: 0 }}
+        transition={{ type: 'timing', duration: 250 }}
+      >
+        <Text style={styles.title}>{title}</Text>
+        <Text style={styles.message}>{message}</Text>
+
+        <Text style={styles.stepTitle}>BEFORE YOU GO</Text>
+        <Text style={styles.step}>1. Open Accessibility settings</Text>
+        <Text style={styles.step}>2. Select Dask1 under installed services</Text>
+        <Text style={styles.step}>3. Turn the service off</Text>
+
+        <Pressable onPress={openAccessibilitySettings} style={styles.linkButton}>
+          <Text style={styles.linkText}>Open Accessibility settings</Text>
+        </Pressable>
+
+        {canContinue ? (
+          <>
+            <Pressable onPress={handleEndSession} style={styles.primaryButton}>
+              <Text style={styles.primaryText}>End session</Text>
+            </Pressable>
+            <Pressable onPress={handleContinue} style={styles.secondaryButton}>
+              <Text style={styles.secondaryText}>
+                Keep driving for {String(EXTENSION_MINUTES)} more minutes
+              </Text>
+            </Pressable>
+          </>
+        ) : (
+          <Pressable onPress={handleDismiss} style={styles.secondaryButton}>
+            <Text style={styles.secondaryText}>Done</Text>
+          </Pressable>
+        )}
+      </MotiView>
+    </View>
+  );
+}
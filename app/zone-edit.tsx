@@ -0,0 +1,348 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { View, Text, TextInput, Pressable, ScrollView } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Chip } from '../components/Chip';
+import { getTheme } from '../constants/Colors';
+import { formatGeoPoint, ZONE_ACTION_LABELS, ZONE_SHAPE_LABELS } from '../constants/Zones';
+import { locationTracker } from '../services/location';
+import { MIN_ZONE_RADIUS_M, zoneMonitor } from '../services/zones';
+import type { GeoPoint, NewZone, Zone, ZoneAction, ZoneShape } from '../services/zones';
+import { useAppStore, useIsDarkMode, useZone } from '../store/useAppStore';
+import { formatDecimalInput, parseBrazilianNumber } from '../utils/currency';
+import tw from '../utils/tw';
+
+const SHAPE_TYPES = Object.keys(ZONE_SHAPE_LABELS) as ZoneShape['type'][];
+const ACTIONS = Object.keys(ZONE_ACTION_LABELS) as ZoneAction[];
+
+const DEFAULT_RADIUS_M = 300;
+
+interface ZoneForm {
+  name: string;
+  shapeType: ZoneShape['type'];
+  center: string; // "lat, lon"
+  radius: string; // metres
+  vertices: string; // one "lat, lon" per line
+  actions: ZoneAction[];
+}
+
+const toForm = (zone: Zone | null): ZoneForm => ({
+  name: zone?.name ?? '',
+  shapeType: zone?.shape.type ?? 'circle',
+  center: zone?.shape.type === 'circle' ? formatGeoPoint(zone.shape.center) : '',
+  radius: formatDecimalInput(zone?.shape.type === 'circle' ? zone.shape.radiusM : DEFAULT_RADIUS_M),
+  vertices:
+    zone?.shape.type === 'polygon' ? zone.shape.vertices.map(formatGeoPoint).join('\n') : '',
+  actions: zone?.actions ?? ['announce'],
+});
+
+/**
+ * Reads "-23.43562, -46.47306" as copied from a maps app; "-23,43562; -46,47306" works too
+ */
+const parseGeoPoint = (text: string): GeoPoint | null => {
+  const parts = text.split(text.includes(';') ? ';' : ',');
+  if (parts.length !== 2) {
+    return null;
+  }
+  const [latitude = NaN, longitude = NaN] = parts.map((part) =>
+    Number(part.trim().replace(',', '.')),
+  );
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return null;
+  }
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return null;
+  }
+  return { latitude, longitude };
+};
+
+const buildShape = (form: ZoneForm): ZoneShape | string => {
+  if (form.shapeType === 'circle') {
+    const center = parseGeoPoint(form.center);
+    if (!center) {
+      return 'Enter the centre as latitude, longitude';
+    }
+    const radiusM = parseBrazilianNumber(form.radius);
+    if (radiusM === null || radiusM < MIN_ZONE_RADIUS_M) {
+      return `The radius must be at least ${String(MIN_ZONE_RADIUS_M)} m, or GPS drift sets it off`;
+    }
+    return { type: 'circle', center, radiusM };
+  }
+
+  const lines = form.vertices
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  const vertices = lines.map(parseGeoPoint);
+  const invalid = vertices.findIndex((vertex) => vertex === null);
+  if (invalid !== -1) {
+    return `Line ${String(invalid + 1)} is not a latitude, longitude`;
+  }
+  if (vertices.length < 3) {
+    return 'A polygon needs at least three corners';
+  }
+  return { type: 'polygon', vertices: vertices.filter((vertex) => vertex !== null) };
+};
+
+/**
+ * Turns the form into a zone
+ * @returns The zone, or an error message when the form is incomplete
+ */
+const buildZone = (form: ZoneForm, enabled: boolean): NewZone | string => {
+  if (!form.name.trim()) {
+    return 'Enter a name, e.g. Home or Airport';
+  }
+  const shape = buildShape(form);
+  if (typeof shape === 'string') {
+    return shape;
+  }
+  return { name: form.name.trim(), enabled, shape, actions: form.actions };
+};
+
+// Where the driver is, from the zone monitor or else the session tracker
+const getCurrentPoint = (): GeoPoint | null =>
+  zoneMonitor.getLastFix() ?? locationTracker.getSnapshot().lastFix;
+
+const ZoneEditor = memo<{ zone: Zone | null; isDark: boolean }>(({ zone, isDark }) => {
+  const theme = getTheme(isDark);
+  const [form, setForm] = useState<ZoneForm>(() => toForm(zone));
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const updateForm = useCallback((updates: Partial<ZoneForm>) => {
+    setForm((current) => ({ ...current, ...updates }));
+    setFormError(null);
+  }, []);
+
+  const handleNameChange = useCallback(
+    (name: string) => {
+      updateForm({ name });
+    },
+    [updateForm],
+  );
+
+  const handleCenterChange = useCallback(
+    (center: string) => {
+      updateForm({ center });
+    },
+    [updateForm],
+  );
+
+  const handleRadiusChange = useCallback(
+    (radius: string) => {
+      updateForm({ radius });
+    },
+    [updateForm],
+  );
+
+  const handleVerticesChange = useCallback(
+    (vertices: string) => {
+      updateForm({ vertices });
+    },
+    [updateForm],
+  );
+
+  const handleShapeSelect = useCallback(
+    (id: string) => {
+      updateForm({ shapeType: id as ZoneShape['type'] });
+    },
+    [updateForm],
+  );
+
+  const handleActionToggle = useCallback((id: string) => {
+    setForm((current) => ({
+      ...current,
+      actions: current.actions.includes(id as ZoneAction)
+        ? current.actions.filter((action) => action !== id)
+        : ACTIONS.filter((action) => action === id || current.actions.includes(action)),
+    }));
+    setFormError(null);
+  }, []);
+
+  // Sets the centre of a circle, or adds a corner to a polygon, where the driver is
+  const handleUseLocation = useCallback(() => {
+    const point = getCurrentPoint();
+    if (!point) {
+      setFormError('No location yet. Turn on location in the tab bar and try again');
+      return;
+    }
+    setForm((current) =>
+      current.shapeType === 'circle'
+        ? { ...current, center: formatGeoPoint(point) }
+        : {
+            ...current,
+            vertices: [current.vertices.trim(), formatGeoPoint(point)]
+              .filter((line) => line.length > 0)
+              .join('\n'),
+          },
+    );
+    setFormError(null);
+  }, []);
+
+  const handleSave = useCallback(() => {
+    const next = buildZone(form, zone?.enabled ?? true);
+    if (typeof next === 'string') {
+      setFormError(next);
+      return;
+    }
+    const { addZone, updateZone } = useAppStore.getState();
+    if (zone) {
+      updateZone(zone.id, next);
+    } else {
+      addZone(next);
+    }
+    router.back();
+  }, [form, zone]);
+
+  const handleDelete = useCallback(() => {
+    if (zone) {
+      useAppStore.getState().deleteZone(zone.id);
+    }
+    router.back();
+  }, [zone]);
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1', { backgroundColor: theme.background }),
+      content: tw`p-4 pb-12`,
+      label: tw.style('text-sm mt-4 mb-2 ml-1', { color: theme.textSecondary }),
+      input: tw.style('px-4 py-3 rounded-xl text-base', {
+        backgroundColor: theme.surfaceSecondary,
+        color: theme.textPrimary,
+      }),
+      multiline: tw.style('h-32 px-4 py-3 rounded-xl text-base', {
+        backgroundColor: theme.surfaceSecondary,
+        color: theme.textPrimary,
+        textAlignVertical: 'top',
+      }),
+      chips: tw`flex-row flex-wrap`,
+      hint: tw.style('text-sm mt-2 ml-1', { color: theme.textTertiary }),
+      locationButton: tw.style('mt-3 py-3 rounded-xl items-center', {
+        backgroundColor: theme.surfaceSecondary,
+      }),
+      locationText: tw.style('text-base font-semibold', { color: theme.interactive }),
+      error: tw.style('text-sm mt-3 ml-1', { color: theme.error }),
+      saveButton: tw.style('mt-6 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.interactive,
+      }),
+      saveText: tw.style('text-lg font-semibold', { color: theme.textInverse }),
+      deleteButton: tw.style('mt-3 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.surfaceSecondary,
+      }),
+      deleteText: tw.style('text-lg font-semibold', { color: theme.error }),
+    }),
+    [theme],
+  );
+
+  const isCircle = form.shapeType === 'circle';
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.label}>Name</Text>
+      <TextInput
+        value={form.name}
+        onChangeText={handleNameChange}
+        placeholder="e.g. Airport"
+        placeholderTextColor={theme.textTertiary}
+        style={styles.input}
+      />
+
+      <Text style={styles.label}>Shape</Text>
+      <View style={styles.chips}>
+        {SHAPE_TYPES.map((shapeType) => (
+          <Chip
+            key={shapeType}
+            id={shapeType}
+            label={ZONE_SHAPE_LABELS[shapeType]}
+            selected={form.shapeType === shapeType}
+            onSelect={handleShapeSelect}
+            isDark={isDark}
+          />
+        ))}
+      </View>
+
+      {isCircle ? (
+        <>
+          <Text style={styles.label}>Centre (latitude, longitude)</Text>
+          <TextInput
+            value={form.center}
+            onChangeText={handleCenterChange}
+            placeholder="e.g. -23.43562, -46.47306"
+            placeholderTextColor={theme.textTertiary}
+            autoCapitalize="none"
+            style={styles.input}
+          />
+          <Text style={styles.label}>Radius (m)</Text>
+          <TextInput
+            value={form.radius}
+            onChangeText={handleRadiusChange}
+            placeholder={String(DEFAULT_RADIUS_M)}
+            placeholderTextColor={theme.textTertiary}
+            keyboardType="number-pad"
+            style={styles.input}
+          />
+        </>
+      ) : (
+        <>
+          <Text style={styles.label}>Corners (one latitude, longitude per line)</Text>
+          <TextInput
+            value={form.vertices}
+            onChangeText={handleVerticesChange}
+            placeholder={'-23.5505, -46.6340\n-23.5510, -46.6320\n-23.5525, -46.6335'}
+            placeholderTextColor={theme.textTertiary}
+            multiline
+            autoCapitalize="none"
+            style={styles.multiline}
+          />
+          <Text style={styles.hint}>In order around the edge, e.g. as copied from a maps app</Text>
+        </>
+      )}
+
+      <Pressable onPress={handleUseLocation} style={styles.locationButton}>
+        <Text style={styles.locationText}>
+          {isCircle ? 'Use my location as the centre' : 'Add my location as a corner'}
+        </Text>
+      </Pressable>
+
+      <Text style={styles.label}>Actions</Text>
+      <View style={styles.chips}>
+        {ACTIONS.map((action) => (
+          <Chip
+            key={action}
+            id={action}
+            label={ZONE_ACTION_LABELS[action]}
+            selected={form.actions.includes(action)}
+            onSelect={handleActionToggle}
+            isDark={isDark}
+          />
+        ))}
+      </View>
+      {form.actions.includes('start_session_on_exit') && (
+        <Text style={styles.hint}>
+          Keeps location on between sessions while the location toggle is on
+        </Text>
+      )}
+
+      {formError && <Text style={styles.error}>{formError}</Text>}
+
+      <Pressable onPress={handleSave} style={styles.saveButton}>
+        <Text style={styles.saveText}>{zone ? 'Save zone' : 'Add zone'}</Text>
+      </Pressable>
+      {zone && (
+        <Pressable onPress={handleDelete} style={styles.deleteButton}>
+          <Text style={styles.deleteText}>Delete zone</Text>
+        </Pressable>
+      )}
+    </ScrollView>
+  );
+});
+
+ZoneEditor.displayName = 'ZoneEditor';
+
+// Edits the zone in the id param, or adds a new one without it
+export default function ZoneEditScreen() {
+  const isDark = useIsDarkMode();
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const zone = useZone(id);
+
+  // Keyed so the form resets if the screen is reused for another zone
+  return <ZoneEditor key={zone?.id ?? 'new'} zone={zone} isDark={isDark} />;
+}
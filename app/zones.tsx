@@ -0,0 +1,131 @@
+import React, { memo, useCallback, useMemo } from 'react';
+import { View, Text, Pressable, ScrollView, Switch } from 'react-native';
+import { router } from 'expo-router';
+import { getTheme } from '../constants/Colors';
+import { formatZoneShape, ZONE_ACTION_LABELS } from '../constants/Zones';
+import type { Zone } from '../services/zones';
+import {
+  useAppStore,
+  useIsDarkMode,
+  useTrips,
+  useZoneVisits,
+  useZones,
+} from '../store/useAppStore';
+import tw from '../utils/tw';
+
+const ZoneCard = memo<{ zone: Zone; isInside: boolean; tripCount: number; isDark: boolean }>(
+  ({ zone, isInside, tripCount, isDark }) => {
+    const theme = getTheme(isDark);
+
+    const handleEdit = useCallback(() => {
+      router.push({ pathname: '/zone-edit', params: { id: zone.id } });
+    }, [zone.id]);
+
+    const handleToggle = useCallback(
+      (enabled: boolean) => {
+        useAppStore.getState().updateZone(zone.id, { enabled });
+      },
+      [zone.id],
+    );
+
+    return (
+      <Pressable
+        onPress={handleEdit}
+        style={tw.style('p-4 mb-3 rounded-2xl', { backgroundColor: theme.surface })}
+      >
+        <View style={tw`flex-row items-center justify-between`}>
+          <Text style={tw.style('text-lg font-semibold flex-1', { color: theme.textPrimary })}>
+            {zone.name}
+          </Text>
+          <Switch value={zone.enabled} onValueChange={handleToggle} />
+        </View>
+        <Text style={tw.style('text-sm mt-1', { color: theme.textSecondary })}>
+          {formatZoneShape(zone.shape)}
+          {isInside ? ' · Inside at the last fix' : ''}
+        </Text>
+        <Text style={tw.style('text-sm mt-0.5', { color: theme.textTertiary })}>
+          {zone.actions.length > 0
+            ? zone.actions.map((action) => ZONE_ACTION_LABELS[action]).join(' · ')
+            : 'No actions'}
+        </Text>
+        {zone.actions.includes('tag_trips') && (
+          <Text style={tw.style('text-sm mt-0.5', { color: theme.textTertiary })}>
+            {tripCount === 1 ? '1 trip' : `${String(tripCount)} trips`} picked up here
+          </Text>
+        )}
+      </Pressable>
+    );
+  },
+);
+
+ZoneCard.displayName = 'ZoneCard';
+
+export default function ZonesScreen() {
+  const isDark = useIsDarkMode();
+  const theme = getTheme(isDark);
+  const zones = useZones();
+  const visits = useZoneVisits();
+  const trips = useTrips();
+
+  const insideIds = useMemo(
+    () => new Set(visits.filter((visit) => visit.exitedAt === null).map((visit) => visit.zoneId)),
+    [visits],
+  );
+
+  const tripCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const trip of trips) {
+      if (trip.originZoneId) {
+        counts.set(trip.originZoneId, (counts.get(trip.originZoneId) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }, [trips]);
+
+  const handleAdd = useCallback(() => {
+    router.push('/zone-edit');
+  }, []);
+
+  const styles = useMemo(
+    () => ({
+      container: tw.style('flex-1', { backgroundColor: theme.background }),
+      content: tw`px-4 pt-4 pb-12`,
+      hint: tw.style('text-sm mb-4 ml-1', { color: theme.textTertiary }),
+      empty: tw.style('text-base text-center mt-8', { color: theme.textTertiary }),
+      addButton: tw.style('mt-3 py-4 rounded-2xl items-center', {
+        backgroundColor: theme.interactive,
+      }),
+      addText: tw.style('text-lg font-semibold', { color: theme.textInverse }),
+    }),
+    [theme],
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.hint}>
+        Zones are watched while location is on in the tab bar, also with the app in the background.
+        Between sessions location stays on only for zones that start a session when you leave.
+      </Text>
+
+      {zones.length === 0 ? (
+        <Text style={styles.empty}>
+          Add places like home, the airport queue or areas to avoid at night
+        </Text>
+      ) : (
+        zones.map((zone) => (
+          <ZoneCard
+            key={zone.id}
+            zone={zone}
+            isInside={insideIds.has(zone.id)}
+            tripCount={tripCounts.get(zone.id) ?? 0}
+            isDark={isDark}
+          />
+        ))
+      )}
+
+      <Pressable onPress={handleAdd} style={styles.addButton}>
+        <Text style={styles.addText}>Add zone</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
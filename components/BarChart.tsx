@@ -0,0 +1,105 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { View } from 'react-native';
+import type { LayoutChangeEvent } from 'react-native';
+import Svg, { Line, Rect, Text as SvgText } from 'react-native-svg';
+import { getTheme } from '../constants/Colors';
+import tw from '../utils/tw';
+
+export interface BarChartBar {
+  key: string;
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  bars: BarChartBar[];
+  isDark: boolean;
+  height?: number;
+  color?: string; // positive bars; negative ones use the theme's error color
+}
+
+const LABEL_HEIGHT = 18;
+const BAR_GAP_RATIO = 0.3;
+// Long series only label every few bars so the text does not overlap
+const MAX_LABELS = 8;
+
+/**
+ * Plain vertical bar chart with a zero baseline, so losing days hang below it
+ */
+export const BarChart = memo<BarChartProps>(({ bars, isDark, height = 160, color }) => {
+  const theme = getTheme(isDark);
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = useCallback((event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  }, []);
+
+  const layout = useMemo(() => {
+    const chartHeight = height - LABEL_HEIGHT;
+    const max = Math.max(0, ...bars.map((bar) => bar.value));
+    const min = Math.min(0, ...bars.map((bar) => bar.value));
+    const range = max - min || 1;
+    const baseline = (max / range) * chartHeight;
+    const slot = bars.length > 0 ? width / bars.length : 0;
+    const labelStep = Math.ceil(bars.length / MAX_LABELS);
+
+    return {
+      baseline,
+      items: bars.map((bar, index) => {
+        const barHeight = (Math.abs(bar.value) / range) * chartHeight;
+        return {
+          key: bar.key,
+          label: index % labelStep === 0 ? bar.label : '',
+          x: index * slot + (slot * BAR_GAP_RATIO) / 2,
+          y: bar.value >= 0 ? baseline - barHeight : baseline,
+          width: slot * (1 - BAR_GAP_RATIO),
+          height: barHeight,
+          center: index * slot + slot / 2,
+          isNegative: bar.value < 0,
+        };
+      }),
+    };
+  }, [bars, height, width]);
+
+  return (
+    <View style={tw`w-full`} onLayout={handleLayout}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          {layout.items.map((item) => (
+            <React.Fragment key={item.key}>
+              <Rect
+                x={item.x}
+                y={item.y}
+                width={item.width}
+                height={item.height}
+                rx={3}
+                fill={item.isNegative ? theme.error : (color ?? theme.interactive)}
+              />
+              {item.label !== '' && (
+                <SvgText
+                  x={item.center}
+                  y={height - 4}
+                  fontSize={10}
+                  fill={theme.textTertiary}
+                  textAnchor="middle"
+                >
+                  {item.label}
+                </SvgText>
+              )}
+            </React.Fragment>
+          ))}
+          <Line
+            x1={0}
+            x2={width}
+            y1={layout.baseline}
+            y2={layout.baseline}
+            stroke={theme.border}
+            strokeWidth={1}
+          />
+        </Svg>
+      )}
+    </View>
+  );
+});
+
+BarChart.displayName = 'BarChart';
@@ -1,11 +1,12 @@
 import React, { useState, useRef, useCallback, useMemo } from 'react';
 import { View, Text, Pressable, Alert, Platform, StyleSheet } from 'react-native';
-import type { CameraType } from 'expo-camera';
+import type { BarcodeScanningResult, CameraType } from 'expo-camera';
 import { CameraView, useCameraPermissions } from 'expo-camera';
 import { FontAwesome6 } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
 import { getTheme } from '../constants/Colors';
+import { receiptPipeline } from '../services/receipts';
 import { useIsDarkMode } from '../store/useAppStore';
 import tw from '../utils/tw';
 
@@ -16,6 +17,11 @@ if (Platform.OS === 'ios') {
   });
 }
 
+// Photo goes through OCR; QR reads an NFC-e code and needs no photo at all
+type CaptureMode = 'photo' | 'qr';
+
+const QR_SCANNER_SETTINGS = { barcodeTypes: ['qr' as const] };
+
 const styles = StyleSheet.create({
   cameraIcon: {
     marginBottom: 16,
@@ -34,6 +40,9 @@ export const CameraScreen = () => {
   const [isCameraVisible, setIsCameraVisible] = useState(false);
   const cameraRef = useRef<CameraView>(null);
   const isTakingPhoto = useRef(false);
+  const [mode, setMode] = useState<CaptureMode>('photo');
+  // The scanner fires on every frame the code is in view
+  const hasScanned = useRef(false);
 
   // All hooks must be defined before any conditional returns
   const handleClose = useCallback(() => {
@@ -88,16 +97,9 @@ export const CameraScreen = () => {
       // Check if photo is null or undefined
       // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
       if (photo?.uri) {
-        Alert.alert('Photo Taken!', 'Photo saved successfully', [
-          {
-            text: 'Take Another',
-            style: 'default',
-            onPress: () => {
-              isTakingPhoto.current = false;
-            },
-          },
-          { text: 'Done', onPress: handleClose },
-        ]);
+        // Every photo is a receipt; the driver reviews what was read off it next
+        const expense = await receiptPipeline.capture(photo.uri);
+        router.replace({ pathname: '/expense-edit', params: { id: expense.id } });
       } else {
         // Photo capture failed silently
         console.error('Photo capture returned null');
@@ -109,12 +111,32 @@ export const CameraScreen = () => {
       isTakingPhoto.current = false;
       Alert.alert('Camera Error', 'Failed to take picture. Please try again.');
     }
-  }, [isReady, handleClose]);
+  }, [isReady]);
 
   const handleTakePicture = useCallback(() => {
     takePicture().catch(console.error);
   }, [takePicture]);
 
+  const handleBarcodeScanned = useCallback((result: BarcodeScanningResult) => {
+    if (hasScanned.current) {
+      return;
+    }
+    // Other QR codes in view are ignored; the scanner keeps looking
+    const expense = receiptPipeline.captureNfce(result.data);
+    if (expense) {
+      hasScanned.current = true;
+      router.replace({ pathname: '/expense-edit', params: { id: expense.id } });
+    }
+  }, []);
+
+  const handlePhotoMode = useCallback(() => {
+    setMode('photo');
+  }, []);
+
+  const handleQrMode = useCallback(() => {
+    setMode('qr');
+  }, []);
+
   // Memoize button styles
   const buttonStyles = useMemo(
     () => ({
@@ -129,6 +151,10 @@ export const CameraScreen = () => {
       captureButtonInner: tw.style('w-16 h-16 rounded-full', {
         backgroundColor: isReady ? '#FFFFFF' : '#FFFFFF80',
       }),
+      modeButton: tw`px-3 py-1 rounded-full`,
+      modeButtonActive: tw`px-3 py-1 rounded-full bg-white`,
+      modeText: tw`text-white text-base font-semibold`,
+      modeTextActive: tw`text-black text-base font-semibold`,
     }),
     [isReady],
   );
@@ -209,6 +235,8 @@ export const CameraScreen = () => {
           facing={facing}
           onCameraReady={handleCameraReady}
           onMountError={handleCameraError}
+          barcodeScannerSettings={mode === 'qr' ? QR_SCANNER_SETTINGS : undefined}
+          onBarcodeScanned={mode === 'qr' ? handleBarcodeScanned : undefined}
           // Simplified config to prevent crashes
           autofocus="on"
         />
@@ -226,8 +254,25 @@ export const CameraScreen = () => {
           {/* Empty space for balance */}
           <View style={tw`w-12 h-12`} />
 
-          {/* Title */}
-          <Text style={tw`text-white text-lg font-semibold`}>Camera</Text>
+          {/* Mode switch */}
+          <View style={tw`flex-row rounded-full bg-black/50 p-1`}>
+            <Pressable
+              onPress={handlePhotoMode}
+              style={mode === 'photo' ? buttonStyles.modeButtonActive : buttonStyles.modeButton}
+            >
+              <Text style={mode === 'photo' ? buttonStyles.modeTextActive : buttonStyles.modeText}>
+                Photo
+              </Text>
+            </Pressable>
+            <Pressable
+              onPress={handleQrMode}
+              style={mode === 'qr' ? buttonStyles.modeButtonActive : buttonStyles.modeButton}
+            >
+              <Text style={mode === 'qr' ? buttonStyles.modeTextActive : buttonStyles.modeText}>
+                NFC-e QR
+              </Text>
+            </Pressable>
+          </View>
 
           {/* Flip camera button */}
           <Pressable
@@ -251,15 +296,21 @@ export const CameraScreen = () => {
           {/* Empty space for balance */}
           <View style={tw`w-12`} />
 
-          {/* Capture button in center */}
-          <Pressable
-            onPress={handleTakePicture}
-            disabled={!isReady || isTakingPhoto.current}
-            style={buttonStyles.captureButton}
-            hitSlop={{ top: 20, bottom: 20, left: 20, right: 20 }}
-          >
-            <View style={buttonStyles.captureButtonInner} />
-          </Pressable>
+          {/* Capture button in center; QR mode scans on its own */}
+          {mode === 'photo' ? (
+            <Pressable
+              onPress={handleTakePicture}
+              disabled={!isReady || isTakingPhoto.current}
+              style={buttonStyles.captureButton}
+              hitSlop={{ top: 20, bottom: 20, left: 20, right: 20 }}
+            >
+              <View style={buttonStyles.captureButtonInner} />
+            </Pressable>
+          ) : (
+            <Text style={tw`flex-1 text-white text-base text-center`}>
+              Point at the QR code on the receipt
+            </Text>
+          )}
 
           {/* Close button on right */}
           <Pressable
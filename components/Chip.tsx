@@ -0,0 +1,37 @@
+import React, { memo, useCallback } from 'react';
+import { Text, Pressable } from 'react-native';
+import { getTheme } from '../constants/Colors';
+import tw from '../utils/tw';
+
+interface ChipProps {
+  id: string;
+  label: string;
+  selected: boolean;
+  onSelect: (id: string) => void;
+  isDark: boolean;
+}
+
+// Selectable pill for picking one or more options in a form
+export const Chip = memo<ChipProps>(({ id, label, selected, onSelect, isDark }) => {
+  const theme = getTheme(isDark);
+  const handlePress = useCallback(() => {
+    onSelect(id);
+  }, [id, onSelect]);
+
+  return (
+    <Pressable
+      onPress={handlePress}
+      style={tw.style('px-3 py-2 mr-2 mb-2 rounded-full', {
+        backgroundColor: selected ? theme.interactive : theme.surfaceSecondary,
+      })}
+    >
+      <Text
+        style={tw.style('text-sm', { color: selected ? theme.textInverse : theme.textPrimary })}
+      >
+        {label}
+      </Text>
+    </Pressable>
+  );
+});
+
+Chip.displayName = 'Chip';
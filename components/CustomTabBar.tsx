@@ -14,6 +14,7 @@ import { MotiView } from 'moti';
 import {
   HomeIcon,
   CameraIcon,
+  BanknotesIcon,
   CalendarIcon,
   ChevronUpIcon,
   ChevronDownIcon,
@@ -22,6 +23,8 @@ import {
 import {
   StopCircleIcon as StopCircleIconSolid,
   BoltIcon as BoltIconSolid,
+  PauseIcon as PauseIconSolid,
+  PlayIcon as PlayIconSolid,
   MapPinIcon as MapPinIconSolid,
   MicrophoneIcon as MicrophoneIconSolid,
   HomeIcon as HomeIconSolid,
@@ -30,10 +33,20 @@ import {
 } from 'react-native-heroicons/solid';
 import type { BottomTabBarProps } from '@react-navigation/bottom-tabs';
 import tw from '../utils/tw';
-import { useIsDarkMode, useCurrentTimer, useStartTimer, useStopTimer } from '../store/useAppStore';
+import {
+  useIsDarkMode,
+  useCurrentTimer,
+  useStartTimer,
+  usePauseTimer,
+  useResumeTimer,
+  useStopTimer,
+} from '../store/useAppStore';
 import { getTheme, baseColors, darkTheme, lightTheme } from '../constants/Colors';
 import { iconContainers } from '../constants/Layouts';
 import { Timer } from './Timer';
+import { useLocationTracking } from '../hooks/useLocationTracking';
+import { useVoiceCommands } from '../hooks/useVoiceCommands';
+import { useZoneMonitoring } from '../hooks/useZoneMonitoring';
 
 // Constants
 const ICON_SIZES = {
@@ -187,6 +200,13 @@ const componentStyles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  pauseResumeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   rowContainer: {
     alignItems: 'center',
     justifyContent: 'space-between',
@@ -316,15 +336,17 @@ const TabIcon = memo<{
 
 TabIcon.displayName = 'TabIcon';
 
-// Start/Stop button component for home page
+// Start/Stop button component for home page, with a pause/resume toggle while a session runs
 const StartStopButton = memo<{
   isRunning: boolean;
+  isPaused: boolean;
   onPress: () => void;
+  onPauseResumePress: () => void;
   theme: ReturnType<typeof getTheme>;
   isDark: boolean;
 }>(
-  ({ isRunning, onPress, theme, isDark }) => {
-    const backgroundColor = isRunning ? theme.error : theme.success;
+  ({ isRunning, isPaused, onPress, onPauseResumePress, theme, isDark }) => {
+    const backgroundColor = isRunning ? (isPaused ? theme.warning : theme.error) : theme.success;
     const textColor = isDark
       ? isRunning
         ? theme.textPrimary
@@ -332,35 +354,59 @@ const StartStopButton = memo<{
       : theme.textInverse; // Light mode: white for both
 
     return (
-      <Pressable
-        onPressIn={onPress}
-        style={[
-          componentStyles.startStopButton,
-          {
-            backgroundColor,
-            shadowColor: baseColors.black,
-            shadowOffset: { width: 0, height: 4 },
-            shadowOpacity: isDark ? 0.6 : 0.25,
-            shadowRadius: 10,
-            elevation: 6,
-          } as const,
-        ]}
-        android_disableSound
-      >
-        <View style={componentStyles.startStopButtonContainer}>
-          <Text style={[componentStyles.startStopButtonText, { color: textColor }]}>
-            {isRunning ? 'Stop' : 'Start'}
-          </Text>
-          {isRunning ? (
-            <StopCircleIconSolid width={12} height={12} color={textColor} />
-          ) : (
-            <BoltIconSolid width={16} height={16} color={textColor} />
-          )}
-        </View>
-      </Pressable>
+      <View style={componentStyles.startStopButtonContainer}>
+        <Pressable
+          onPressIn={onPress}
+          style={[
+            componentStyles.startStopButton,
+            {
+              backgroundColor,
+              shadowColor: baseColors.black,
+              shadowOffset: { width: 0, height: 4 },
+              shadowOpacity: isDark ? 0.6 : 0.25,
+              shadowRadius: 10,
+              elevation: 6,
+            } as const,
+          ]}
+          android_disableSound
+        >
+          <View style={componentStyles.startStopButtonContainer}>
+            <Text style={[componentStyles.startStopButtonText, { color: textColor }]}>
+              {isRunning ? 'Stop' : 'Start'}
+            </Text>
+            {isRunning ? (
+              <StopCircleIconSolid width={12} height={12} color={textColor} />
+            ) : (
+              <BoltIconSolid width={16} height={16} color={textColor} />
+            )}
+          </View>
+        </Pressable>
+
+        {isRunning && (
+          <Pressable
+            onPressIn={onPauseResumePress}
+            style={[
+              componentStyles.pauseResumeButton,
+              { backgroundColor: isPaused ? theme.success : theme.surfaceSecondary },
+            ]}
+            android_disableSound
+            accessibilityRole="button"
+            accessibilityLabel={isPaused ? 'Resume session' : 'Pause session'}
+          >
+            {isPaused ? (
+              <PlayIconSolid width={18} height={18} color={theme.textInverse} />
+            ) : (
+              <PauseIconSolid width={18} height={18} color={theme.textPrimary} />
+            )}
+          </Pressable>
+        )}
+      </View>
     );
   },
-  (prev, next) => prev.isRunning === next.isRunning && prev.isDark === next.isDark,
+  (prev, next) =>
+    prev.isRunning === next.isRunning &&
+    prev.isPaused === next.isPaused &&
+    prev.isDark === next.isDark,
 );
 
 StartStopButton.displayName = 'StartStopButton';
@@ -420,10 +466,15 @@ export const CustomTabBar = memo<BottomTabBarProps>(
     // Button toggle states
     const [isLocationActive, setIsLocationActive] = React.useState(false);
     const [isAssistantActive, setIsAssistantActive] = React.useState(false);
+    useLocationTracking(isLocationActive);
+    useZoneMonitoring(isLocationActive);
+    useVoiceCommands(isAssistantActive);
 
     // Get timer state from store
     const currentTimer = useCurrentTimer();
     const startTimer = useStartTimer();
+    const pauseTimer = usePauseTimer();
+    const resumeTimer = useResumeTimer();
     const stopTimer = useStopTimer();
 
     // Layout handler for individual tabs
@@ -545,6 +596,19 @@ export const CustomTabBar = memo<BottomTabBarProps>(
       }
     }, [currentTimer.isRunning, startTimer, stopTimer]);
 
+    // Pause/resume button handler - breaks are recorded on the session
+    const handlePauseResume = useCallback(() => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {
+        // Ignore haptic errors
+      });
+
+      if (currentTimer.isPaused) {
+        resumeTimer();
+      } else {
+        pauseTimer();
+      }
+    }, [currentTimer.isPaused, pauseTimer, resumeTimer]);
+
     // Clock functionality removed since currentTime is no longer used
 
     // Schedule navigation handler
@@ -574,6 +638,15 @@ export const CustomTabBar = memo<BottomTabBarProps>(
       navigation.navigate('camera-modal');
     }, [navigation]);
 
+    // Expense ledger navigation handler
+    const handleExpensesPress = useCallback(() => {
+      // Light haptic feedback
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {
+        // Ignore haptic errors
+      });
+      navigation.navigate('expenses');
+    }, [navigation]);
+
     // Location button handler
     const handleLocationPress = useCallback(() => {
       // Medium haptic feedback
@@ -686,6 +759,19 @@ export const CustomTabBar = memo<BottomTabBarProps>(
             />
           </Pressable>
 
+          <Pressable
+            onPressIn={handleExpensesPress}
+            style={iconContainers.squareIcon(40)}
+            accessibilityLabel="Expenses"
+            android_disableSound
+          >
+            <BanknotesIcon
+              width={ICON_SIZES.default}
+              height={ICON_SIZES.default}
+              color={inactiveColor}
+            />
+          </Pressable>
+
           <Pressable
             onPressIn={handleSchedulePress}
             style={iconContainers.squareIcon(40)}
@@ -761,6 +847,7 @@ export const CustomTabBar = memo<BottomTabBarProps>(
       inactiveColor,
       handleSettingsPress,
       handleCameraPress,
+      handleExpensesPress,
       handleSchedulePress,
     ]);
 
@@ -782,7 +869,9 @@ export const CustomTabBar = memo<BottomTabBarProps>(
           {config.showStartStopButton && (
             <StartStopButton
               isRunning={currentTimer.isRunning}
+              isPaused={currentTimer.isPaused}
               onPress={handleStartStop}
+              onPauseResumePress={handlePauseResume}
               theme={getTheme(isDark)}
               isDark={isDark}
             />
@@ -791,7 +880,14 @@ export const CustomTabBar = memo<BottomTabBarProps>(
           <Timer isCompact />
         </View>
       );
-    }, [config.showStartStopButton, currentTimer.isRunning, handleStartStop, isDark]);
+    }, [
+      config.showStartStopButton,
+      currentTimer.isRunning,
+      currentTimer.isPaused,
+      handleStartStop,
+      handlePauseResume,
+      isDark,
+    ]);
 
     // Render middle controls row (home page - empty for now)
     const renderMiddleControlsRow = useCallback(() => {
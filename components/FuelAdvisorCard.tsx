@@ -0,0 +1,163 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { View, Text, TextInput } from 'react-native';
+import { getTheme } from '../constants/Colors';
+import { FUEL_TYPE_LABELS } from '../constants/Vehicles';
+import { getDeviceTimeZone, toLocalDateKey } from '../services/session/dayBucketing';
+import {
+  adviseFuel,
+  estimateMonthlyKm,
+  getFlexEconomy,
+  getLastPumpPrice,
+} from '../services/vehicles';
+import type { FlexFuel, FuelEconomy, FuelPrices } from '../services/vehicles';
+import type { Vehicle } from '../store/useAppStore';
+import { useExpenses, useTrips } from '../store/useAppStore';
+import { formatBRL, parseBrazilianNumber } from '../utils/currency';
+import tw from '../utils/tw';
+
+interface FuelAdvisorCardProps {
+  vehicle: Vehicle;
+  // Prices to start from, e.g. the one on the receipt being entered; the last ones paid otherwise
+  initialPrices?: Partial<FuelPrices> | undefined;
+  isDark: boolean;
+}
+
+const formatPrice = (value: number | null | undefined) =>
+  value !== null && value !== undefined ? value.toFixed(2).replace('.', ',') : '';
+
+const formatPerKm = (value: number) => `${formatBRL(value)}/km`;
+
+const describeEconomy = (fuel: FlexFuel, economy: FuelEconomy) => {
+  const kmPerLiter = `${economy.kmPerLiter.toFixed(1).replace('.', ',')} km/L`;
+  switch (economy.source) {
+    case 'measured':
+      return `${FUEL_TYPE_LABELS[fuel]} ${kmPerLiter} measured over ${String(economy.segments)} ${economy.segments === 1 ? 'fill' : 'fills'}`;
+    case 'profile':
+      return `${FUEL_TYPE_LABELS[fuel]} ${kmPerLiter} from the vehicle profile`;
+    case 'rule':
+      return `${FUEL_TYPE_LABELS[fuel]} ${kmPerLiter} estimated with the 70% rule`;
+  }
+};
+
+// Answers "ethanol or gasoline at these prices" for a flex vehicle, on its own fuel economy
+export const FuelAdvisorCard = memo<FuelAdvisorCardProps>(({ vehicle, initialPrices, isDark }) => {
+  const theme = getTheme(isDark);
+  const trips = useTrips();
+  const expenses = useExpenses();
+
+  const [gasolinePrice, setGasolinePrice] = useState(() =>
+    formatPrice(initialPrices?.gasoline ?? getLastPumpPrice(vehicle.id, expenses, 'gasoline')),
+  );
+  const [ethanolPrice, setEthanolPrice] = useState(() =>
+    formatPrice(initialPrices?.ethanol ?? getLastPumpPrice(vehicle.id, expenses, 'ethanol')),
+  );
+
+  const economy = useMemo(() => getFlexEconomy(vehicle, expenses), [vehicle, expenses]);
+  const monthlyKm = useMemo(
+    () =>
+      estimateMonthlyKm(
+        vehicle.id,
+        trips,
+        expenses,
+        toLocalDateKey(Date.now(), getDeviceTimeZone()),
+      ),
+    [vehicle.id, trips, expenses],
+  );
+
+  const advice = useMemo(() => {
+    const gasoline = parseBrazilianNumber(gasolinePrice);
+    const ethanol = parseBrazilianNumber(ethanolPrice);
+    if (gasoline === null || ethanol === null || gasoline <= 0 || ethanol <= 0) {
+      return null;
+    }
+    return adviseFuel({ gasoline, ethanol }, economy, monthlyKm);
+  }, [gasolinePrice, ethanolPrice, economy, monthlyKm]);
+
+  const handleGasolineChange = useCallback((text: string) => {
+    setGasolinePrice(text);
+  }, []);
+
+  const handleEthanolChange = useCallback((text: string) => {
+    setEthanolPrice(text);
+  }, []);
+
+  const styles = useMemo(
+    () => ({
+      card: tw.style('mt-6 p-4 rounded-2xl', { backgroundColor: theme.surface }),
+      title: tw.style('text-sm uppercase', { color: theme.textTertiary }),
+      inputs: tw`flex-row mt-2`,
+      fieldLabel: tw.style('text-sm mb-1 ml-1', { color: theme.textSecondary }),
+      input: tw.style('px-3 py-2 rounded-xl text-base', {
+        backgroundColor: theme.surfaceSecondary,
+        color: theme.textPrimary,
+      }),
+      recommendation: tw.style('text-xl font-semibold mt-3', { color: theme.textPrimary }),
+      detail: tw.style('text-sm mt-1', { color: theme.textSecondary }),
+      saving: tw.style('text-base mt-2', { color: theme.success }),
+      source: tw.style('text-xs mt-2', { color: theme.textTertiary }),
+    }),
+    [theme],
+  );
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>Ethanol or gasoline?</Text>
+      <View style={styles.inputs}>
+        <View style={tw`flex-1 mr-2`}>
+          <Text style={styles.fieldLabel}>Gasoline (R$/L)</Text>
+          <TextInput
+            value={gasolinePrice}
+            onChangeText={handleGasolineChange}
+            placeholder="e.g. 6,19"
+            placeholderTextColor={theme.textTertiary}
+            keyboardType="decimal-pad"
+            style={styles.input}
+          />
+        </View>
+        <View style={tw`flex-1`}>
+          <Text style={styles.fieldLabel}>Ethanol (R$/L)</Text>
+          <TextInput
+            value={ethanolPrice}
+            onChangeText={handleEthanolChange}
+            placeholder="e.g. 4,09"
+            placeholderTextColor={theme.textTertiary}
+            keyboardType="decimal-pad"
+            style={styles.input}
+          />
+        </View>
+      </View>
+
+      {advice ? (
+        <>
+          <Text style={styles.recommendation}>
+            Fill with {FUEL_TYPE_LABELS[advice.recommended].toLowerCase()}
+          </Text>
+          <Text style={styles.detail}>
+            Gasoline {formatPerKm(advice.costPerKm.gasoline)} · Ethanol{' '}
+            {formatPerKm(advice.costPerKm.ethanol)}
+          </Text>
+          <Text style={styles.detail}>
+            Ethanol pays up to {formatBRL(advice.breakEvenEthanolPrice)}/L (
+            {(advice.breakEvenRatio * 100).toFixed(0)}% of gasoline); it is at{' '}
+            {(advice.priceRatio * 100).toFixed(0)}% now
+          </Text>
+          <Text style={styles.saving}>
+            {advice.monthlyKm > 0
+              ? `Saves about ${formatBRL(advice.monthlySaving)} a month over ${advice.monthlyKm.toFixed(0)} km`
+              : 'Log trips or odometer readings to project the monthly saving'}
+          </Text>
+        </>
+      ) : (
+        <Text style={styles.detail}>Enter both pump prices to compare</Text>
+      )}
+
+      <Text style={styles.source}>
+        {describeEconomy('gasoline', economy.gasoline)}
+        {'\n'}
+        {describeEconomy('ethanol', economy.ethanol)}
+      </Text>
+    </View>
+  );
+});
+
+FuelAdvisorCard.displayName = 'FuelAdvisorCard';
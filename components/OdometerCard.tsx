@@ -0,0 +1,99 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { View, Text, TextInput, Pressable } from 'react-native';
+import { getTheme } from '../constants/Colors';
+import type { OdometerEdge } from '../services/mileage';
+import { useAppStore, useCurrentTimer, useTimerSessions } from '../store/useAppStore';
+import { parseBrazilianNumber } from '../utils/currency';
+import tw from '../utils/tw';
+
+interface OdometerCardProps {
+  isDark: boolean;
+}
+
+// Past this, the dashboard has moved on and the reading is better fixed in the mileage log
+const END_READING_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+// Asks for the odometer when a session starts without a reading, and when one ends without one
+export const OdometerCard = memo<OdometerCardProps>(({ isDark }) => {
+  const theme = getTheme(isDark);
+  const currentTimer = useCurrentTimer();
+  const sessions = useTimerSessions();
+  const [reading, setReading] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const target = useMemo<{ sessionId: string; edge: OdometerEdge } | null>(() => {
+    if (currentTimer.isRunning) {
+      return currentTimer.sessionId && !currentTimer.odometerStart
+        ? { sessionId: currentTimer.sessionId, edge: 'start' }
+        : null;
+    }
+    const lastSession = sessions[sessions.length - 1];
+    return lastSession &&
+      !lastSession.odometerEnd &&
+      Date.now() - new Date(lastSession.endTime).getTime() < END_READING_WINDOW_MS
+      ? { sessionId: lastSession.id, edge: 'end' }
+      : null;
+  }, [currentTimer, sessions]);
+
+  const handleChange = useCallback((text: string) => {
+    setReading(text);
+    setError(null);
+  }, []);
+
+  const handleSave = useCallback(() => {
+    if (!target) {
+      return;
+    }
+    const km = parseBrazilianNumber(reading);
+    if (km === null) {
+      setError('Enter the reading as whole km, e.g. 84.210');
+      return;
+    }
+    useAppStore.getState().setSessionOdometer(target.sessionId, target.edge, km);
+    setReading('');
+  }, [reading, target]);
+
+  const styles = useMemo(
+    () => ({
+      card: tw.style('mt-6 p-4 rounded-2xl', { backgroundColor: theme.surface }),
+      title: tw.style('text-sm uppercase', { color: theme.textTertiary }),
+      row: tw`flex-row items-center mt-2`,
+      input: tw.style('flex-1 px-3 py-2 mr-2 rounded-xl text-base', {
+        backgroundColor: theme.surfaceSecondary,
+        color: theme.textPrimary,
+      }),
+      saveButton: tw.style('px-4 py-2 rounded-xl', { backgroundColor: theme.interactive }),
+      saveText: tw.style('text-base font-semibold', { color: theme.textInverse }),
+      error: tw.style('text-sm mt-1', { color: theme.error }),
+    }),
+    [theme],
+  );
+
+  if (!target) {
+    return null;
+  }
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>
+        {target.edge === 'start' ? 'Odometer at session start' : 'Odometer at session end'}
+      </Text>
+      <View style={styles.row}>
+        <TextInput
+          value={reading}
+          onChangeText={handleChange}
+          placeholder="e.g. 84.210"
+          placeholderTextColor={theme.textTertiary}
+          keyboardType="number-pad"
+          style={styles.input}
+        />
+        <Pressable onPress={handleSave} style={styles.saveButton}>
+          <Text style={styles.saveText}>Save</Text>
+        </Pressable>
+      </View>
+      {error && <Text style={styles.error}>{error}</Text>}
+    </View>
+  );
+});
+
+OdometerCard.displayName = 'OdometerCard';
@@ -0,0 +1,120 @@
+import React, { memo, useMemo } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { MotiView } from 'moti';
+import { getTheme } from '../constants/Colors';
+import type { ProfitabilityResult } from '../services/offers/profitability';
+import type { RuleDecision, RuleEvaluation } from '../services/offers/rules';
+import type { TripOffer } from '../services/offers/types';
+import { PLATFORM_LABELS } from '../constants/Platforms';
+import { formatBRL } from '../utils/currency';
+import tw from '../utils/tw';
+
+interface OfferCardProps {
+  offer: TripOffer;
+  result: ProfitabilityResult;
+  evaluation: RuleEvaluation;
+  onAccept: () => void;
+  onDecline: () => void;
+  isDark: boolean;
+}
+
+const DECISION_LABELS: Record<RuleDecision, string> = {
+  accept: 'Accept',
+  decline: 'Decline',
+  ask: 'Your call',
+};
+
+// Metric cell shown in the card's stats row
+const OfferStat = memo<{ label: string; value: string; isDark: boolean }>(
+  ({ label, value, isDark }) => {
+    const theme = getTheme(isDark);
+    return (
+      <View style={tw`flex-1`}>
+        <Text style={tw.style('text-xs uppercase', { color: theme.textTertiary })}>{label}</Text>
+        <Text style={tw.style('text-lg font-semibold', { color: theme.textPrimary })}>{value}</Text>
+      </View>
+    );
+  },
+);
+
+OfferStat.displayName = 'OfferStat';
+
+// Summary of an incoming offer and the Cherry Picker recommendation
+export const OfferCard = memo<OfferCardProps>(
+  ({ offer, result, evaluation, onAccept, onDecline, isDark }) => {
+    const theme = getTheme(isDark);
+    const { decision } = evaluation;
+    const badgeColor =
+      decision === 'accept' ? theme.success : decision === 'decline' ? theme.error : theme.warning;
+    // Rule matches explain the decision when a rule made it
+    const reasons =
+      evaluation.source === 'rules'
+        ? evaluation.matches.map((match) => `${match.ruleName}: ${match.reason}`)
+        : result.reasons;
+
+    const styles = useMemo(
+      () => ({
+        card: tw.style('mt-8 p-5 rounded-3xl', { backgroundColor: theme.surfaceSecondary }),
+        header: tw`flex-row justify-between items-center mb-4`,
+        platform: tw.style('text-base font-semibold', { color: theme.textSecondary }),
+        fare: tw.style('text-3xl font-bold', { color: theme.textPrimary }),
+        badge: tw.style('px-3 py-1 rounded-full', { backgroundColor: badgeColor }),
+        badgeText: tw.style('text-sm font-semibold', { color: theme.textInverse }),
+        reason: tw.style('text-sm mt-1', { color: theme.textSecondary }),
+        actions: tw`flex-row mt-4`,
+        declineButton: tw.style('flex-1 mr-2 py-3 rounded-2xl items-center', {
+          backgroundColor: theme.surface,
+        }),
+        acceptButton: tw.style('flex-1 ml-2 py-3 rounded-2xl items-center', {
+          backgroundColor: theme.success,
+        }),
+        declineText: tw.style('text-base font-semibold', { color: theme.textPrimary }),
+        acceptText: tw.style('text-base font-semibold', { color: theme.textInverse }),
+      }),
+      [theme, badgeColor],
+    );
+
+    return (
+      <MotiView
+        from={{ opacity: 0, translateY: 20 }}
+        animate={{ opacity: 1, translateY: 0 }}
+        transition={{ type: 'timing', duration: 250 }}
+        style={styles.card}
+        accessibilityLabel={`${PLATFORM_LABELS[offer.platform]} offer, ${DECISION_LABELS[decision]}`}
+      >
+        <View style={styles.header}>
+          <View>
+            <Text style={styles.platform}>{PLATFORM_LABELS[offer.platform]}</Text>
+            <Text style={styles.fare}>{formatBRL(offer.fare)}</Text>
+          </View>
+          <View style={styles.badge}>
+            <Text style={styles.badgeText}>{DECISION_LABELS[decision]}</Text>
+          </View>
+        </View>
+
+        <View style={tw`flex-row mb-3`}>
+          <OfferStat label="Per km" value={formatBRL(result.grossPerKm)} isDark={isDark} />
+          <OfferStat label="Per hour" value={formatBRL(result.netPerHour)} isDark={isDark} />
+          <OfferStat label="Net" value={formatBRL(result.netProfit)} isDark={isDark} />
+        </View>
+
+        {reasons.map((reason) => (
+          <Text key={reason} style={styles.reason}>
+            {reason}
+          </Text>
+        ))}
+
+        <View style={styles.actions}>
+          <Pressable onPress={onDecline} style={styles.declineButton}>
+            <Text style={styles.declineText}>Decline</Text>
+          </Pressable>
+          <Pressable onPress={onAccept} style={styles.acceptButton}>
+            <Text style={styles.acceptText}>Accept</Text>
+          </Pressable>
+        </View>
+      </MotiView>
+    );
+  },
+);
+
+OfferCard.displayName = 'OfferCard';
@@ -0,0 +1,233 @@
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { View, Text, TextInput, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { getTheme } from '../constants/Colors';
+import {
+  getCustomPeriod,
+  getNextPeriod,
+  getPeriod,
+  getPreviousPeriod,
+  isDateKey,
+} from '../services/reports';
+import type { ReportPeriod, ReportPeriodKind } from '../services/reports';
+import { getDeviceTimeZone, toLocalDateKey } from '../services/session/dayBucketing';
+import { formatDateKey } from '../utils/dates';
+import tw from '../utils/tw';
+import { SwippableTabBarExtreme } from './SwippableTabBarExtreme';
+
+export type PickablePeriodKind = 'day' | 'week' | 'month';
+
+const PERIOD_TABS: { id: PickablePeriodKind; label: string }[] = [
+  { id: 'day', label: 'Day' },
+  { id: 'week', label: 'Week' },
+  { id: 'month', label: 'Month' },
+];
+
+// Offered only when asked for in kinds
+const CUSTOM_TAB: { id: ReportPeriodKind; label: string } = { id: 'custom', label: 'Custom' };
+
+const today = () => toLocalDateKey(Date.now(), getDeviceTimeZone());
+
+/**
+ * The day, week or month the driver is in right now
+ */
+export const getCurrentPeriod = (kind: PickablePeriodKind) => getPeriod(kind, today());
+
+const formatPeriod = (period: ReportPeriod) => {
+  if (period.kind === 'month') {
+    const [year = 0, month = 1] = period.start.split('-').map(Number);
+    return new Date(year, month - 1, 1).toLocaleDateString('en-US', {
+      month: 'long',
+      year: 'numeric',
+    });
+  }
+  return period.start === period.end
+    ? formatDateKey(period.start)
+    : `${formatDateKey(period.start)} - ${formatDateKey(period.end)}`;
+};
+
+// Checks the range typed in, naming what is wrong with it
+const buildCustomPeriod = (start: string, end: string): ReportPeriod | string => {
+  if (!isDateKey(start.trim()) || !isDateKey(end.trim())) {
+    return 'Dates must be in YYYY-MM-DD format';
+  }
+  return getCustomPeriod(start.trim(), end.trim()) ?? 'The last day must not be before the first';
+};
+
+const CustomRangeForm = memo<{
+  period: ReportPeriod;
+  onChange: (period: ReportPeriod) => void;
+  isDark: boolean;
+}>(({ period, onChange, isDark }) => {
+  const theme = getTheme(isDark);
+  const [start, setStart] = useState(period.start);
+  const [end, setEnd] = useState(period.end);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleStartChange = useCallback((text: string) => {
+    setStart(text);
+    setError(null);
+  }, []);
+
+  const handleEndChange = useCallback((text: string) => {
+    setEnd(text);
+    setError(null);
+  }, []);
+
+  const handleApply = useCallback(() => {
+    const next = buildCustomPeriod(start, end);
+    if (typeof next === 'string') {
+      setError(next);
+      return;
+    }
+    onChange(next);
+  }, [start, end, onChange]);
+
+  const styles = useMemo(
+    () => ({
+      row: tw`flex-row items-center`,
+      input: tw.style('flex-1 px-4 py-3 rounded-xl text-base', {
+        backgroundColor: theme.surfaceSecondary,
+        color: theme.textPrimary,
+      }),
+      separator: tw.style('mx-2 text-base', { color: theme.textSecondary }),
+      applyButton: tw.style('mt-3 py-3 rounded-xl items-center', {
+        backgroundColor: theme.surfaceSecondary,
+      }),
+      applyText: tw.style('text-base font-semibold', { color: theme.interactive }),
+      error: tw.style('text-sm mt-2 ml-1', { color: theme.error }),
+    }),
+    [theme],
+  );
+
+  return (
+    <View style={tw`mb-4`}>
+      <View style={styles.row}>
+        <TextInput
+          value={start}
+          onChangeText={handleStartChange}
+          placeholder="YYYY-MM-DD"
+          placeholderTextColor={theme.textTertiary}
+          autoCapitalize="none"
+          style={styles.input}
+          accessibilityLabel="First day"
+        />
+        <Text style={styles.separator}>to</Text>
+        <TextInput
+          value={end}
+          onChangeText={handleEndChange}
+          placeholder="YYYY-MM-DD"
+          placeholderTextColor={theme.textTertiary}
+          autoCapitalize="none"
+          style={styles.input}
+          accessibilityLabel="Last day"
+        />
+      </View>
+      {error && <Text style={styles.error}>{error}</Text>}
+      <Pressable onPress={handleApply} style={styles.applyButton}>
+        <Text style={styles.applyText}>Apply range</Text>
+      </Pressable>
+    </View>
+  );
+});
+
+CustomRangeForm.displayName = 'CustomRangeForm';
+
+interface PeriodPickerProps {
+  period: ReportPeriod;
+  onChange: (period: ReportPeriod) => void;
+  isDark: boolean;
+  // Tabs to offer, day, week and month by default; the tab bar is hidden when there is only one.
+  // 'custom' adds one for typing in any range of days
+  kinds?: ReportPeriodKind[];
+}
+
+/**
+ * Day/week/month tabs with arrows to step back through past periods
+ * Stepping past the current period is disabled - there is nothing to report yet
+ */
+export const PeriodPicker = memo<PeriodPickerProps>(({ period, onChange, isDark, kinds }) => {
+  const theme = getTheme(isDark);
+  const isLatest = period.end >= today();
+  const tabs = useMemo(
+    () =>
+      kinds ? [...PERIOD_TABS, CUSTOM_TAB].filter((tab) => kinds.includes(tab.id)) : PERIOD_TABS,
+    [kinds],
+  );
+
+  // A custom range starts out as the period that was showing
+  const handleKindChange = useCallback(
+    (id: string) => {
+      onChange(
+        id === CUSTOM_TAB.id
+          ? { ...period, kind: 'custom' }
+          : getCurrentPeriod(id as PickablePeriodKind),
+      );
+    },
+    [onChange, period],
+  );
+
+  const handlePrevious = useCallback(() => {
+    onChange(getPreviousPeriod(period));
+  }, [onChange, period]);
+
+  const handleNext = useCallback(() => {
+    onChange(getNextPeriod(period));
+  }, [onChange, period]);
+
+  const styles = useMemo(
+    () => ({
+      navigator: tw`flex-row items-center justify-between mt-4 mb-2`,
+      navButton: tw`w-10 h-10 items-center justify-center`,
+      periodText: tw.style('text-base font-semibold', { color: theme.textPrimary }),
+    }),
+    [theme],
+  );
+
+  return (
+    <View>
+      {tabs.length > 1 && (
+        <SwippableTabBarExtreme
+          tabs={tabs}
+          activeTab={period.kind}
+          onTabChange={handleKindChange}
+        />
+      )}
+
+      <View style={styles.navigator}>
+        <Pressable
+          onPress={handlePrevious}
+          style={styles.navButton}
+          accessibilityLabel="Previous period"
+        >
+          <Ionicons name="chevron-back" size={22} color={theme.textPrimary} />
+        </Pressable>
+        <Text style={styles.periodText}>{formatPeriod(period)}</Text>
+        <Pressable
+          onPress={handleNext}
+          disabled={isLatest}
+          style={styles.navButton}
+          accessibilityLabel="Next period"
+        >
+          <Ionicons
+            name="chevron-forward"
+            size={22}
+            color={isLatest ? theme.textTertiary : theme.textPrimary}
+          />
+        </Pressable>
+      </View>
+
+      {/* Keyed so the fields follow the arrows */}
+      {period.kind === 'custom' && (
+        <CustomRangeForm
+          key={`${period.start}_${period.end}`}
+          period={period}
+          onChange={onChange}
+          isDark={isDark}
+        />
+      )}
+    </View>
+  );
+});
+
+PeriodPicker.displayName = 'PeriodPicker';
@@ -3,6 +3,7 @@ import { Text, View } from 'react-native';
 import { useCurrentTimer } from '../store/useAppStore';
 import { getTheme } from '../constants/Colors';
 import { useIsDarkMode } from '../store/useAppStore';
+import { getCurrentTimerSeconds } from '../services/session/sessionTime';
 import tw from '../utils/tw';
 
 // Format seconds to MM:SS format
@@ -22,17 +23,13 @@ export const Timer = memo<TimerProps>(({ isCompact = false }) => {
   const currentTimer = useCurrentTimer();
   const [displaySeconds, setDisplaySeconds] = useState(0);
 
-  // Calculate elapsed time locally to avoid store updates
-  const calculateElapsedTime = useCallback(() => {
-    if (currentTimer.isRunning && currentTimer.startTime) {
-      const startTime = new Date(currentTimer.startTime).getTime();
-      const now = Date.now();
-      return Math.floor((now - startTime) / 1000);
-    }
-    return 0;
-  }, [currentTimer.isRunning, currentTimer.startTime]);
+  // Calculate worked time locally to avoid store updates (breaks are excluded)
+  const calculateElapsedTime = useCallback(
+    () => getCurrentTimerSeconds(currentTimer, Date.now()).active,
+    [currentTimer],
+  );
 
-  // Update display every second when running
+  // Update display every second when running; a paused timer shows the frozen worked time
   useEffect(() => {
     let interval: ReturnType<typeof setInterval> | null = null;
 
@@ -40,9 +37,11 @@ export const Timer = memo<TimerProps>(({ isCompact = false }) => {
       // Set initial time immediately
       setDisplaySeconds(calculateElapsedTime());
 
-      interval = setInterval(() => {
-        setDisplaySeconds(calculateElapsedTime());
-      }, 1000);
+      if (!currentTimer.isPaused) {
+        interval = setInterval(() => {
+          setDisplaySeconds(calculateElapsedTime());
+        }, 1000);
+      }
     } else {
       // Reset to 0 when not running
       setDisplaySeconds(0);
@@ -53,7 +52,7 @@ export const Timer = memo<TimerProps>(({ isCompact = false }) => {
         clearInterval(interval);
       }
     };
-  }, [currentTimer.isRunning, currentTimer.startTime, calculateElapsedTime]);
+  }, [currentTimer.isRunning, currentTimer.isPaused, currentTimer.startTime, calculateElapsedTime]);
 
   const textSize = isCompact ? 'text-2xl' : 'text-4xl';
   const fontFamily = isCompact ? 'font-bold' : 'font-mono font-bold';
@@ -62,11 +61,17 @@ export const Timer = memo<TimerProps>(({ isCompact = false }) => {
     <View style={tw`items-center justify-center`}>
       <Text
         style={tw.style(`${textSize} ${fontFamily} tracking-wider`, {
-          color: theme.textPrimary,
+          color: currentTimer.isPaused ? theme.textTertiary : theme.textPrimary,
         })}
+        accessibilityLabel={currentTimer.isPaused ? 'Session paused' : undefined}
       >
         {formatTime(displaySeconds)}
       </Text>
+      {currentTimer.isPaused && (
+        <Text style={tw.style('text-xs font-semibold uppercase', { color: theme.warning })}>
+          Paused
+        </Text>
+      )}
     </View>
   );
 });
@@ -0,0 +1,64 @@
+import React, { memo, useCallback } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { router } from 'expo-router';
+import { Chip } from './Chip';
+import { getTheme } from '../constants/Colors';
+import { formatVehicleName } from '../constants/Vehicles';
+import { useActiveVehicle, useAppStore, useCurrentTimer, useVehicles } from '../store/useAppStore';
+import tw from '../utils/tw';
+
+interface VehiclePickerProps {
+  isDark: boolean;
+}
+
+// Picks the vehicle for the next session; locked to the session's vehicle while one is running
+export const VehiclePicker = memo<VehiclePickerProps>(({ isDark }) => {
+  const theme = getTheme(isDark);
+  const vehicles = useVehicles();
+  const activeVehicle = useActiveVehicle();
+  const currentTimer = useCurrentTimer();
+
+  const handleSelect = useCallback((id: string) => {
+    useAppStore.getState().setActiveVehicle(id);
+  }, []);
+
+  const handleManage = useCallback(() => {
+    router.push('/vehicles');
+  }, []);
+
+  const sessionVehicle = vehicles.find((vehicle) => vehicle.id === currentTimer.vehicleId);
+
+  return (
+    <View style={tw`mt-6`}>
+      <View style={tw`flex-row justify-between items-center mb-2`}>
+        <Text style={tw.style('text-sm uppercase', { color: theme.textTertiary })}>Vehicle</Text>
+        <Pressable onPress={handleManage} accessibilityLabel="Manage vehicles">
+          <Text style={tw.style('text-sm', { color: theme.interactive })}>
+            {vehicles.length === 0 ? 'Add vehicle' : 'Manage'}
+          </Text>
+        </Pressable>
+      </View>
+
+      {currentTimer.isRunning ? (
+        <Text style={tw.style('text-base', { color: theme.textPrimary })}>
+          {sessionVehicle ? formatVehicleName(sessionVehicle) : 'No vehicle for this session'}
+        </Text>
+      ) : (
+        <View style={tw`flex-row flex-wrap`}>
+          {vehicles.map((vehicle) => (
+            <Chip
+              key={vehicle.id}
+              id={vehicle.id}
+              label={formatVehicleName(vehicle)}
+              selected={vehicle.id === activeVehicle?.id}
+              onSelect={handleSelect}
+              isDark={isDark}
+            />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+});
+
+VehiclePicker.displayName = 'VehiclePicker';
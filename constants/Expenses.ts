@@ -0,0 +1,22 @@
+import type { ExpenseCategory, PaymentMethod } from '../store/useAppStore';
+
+// Display names for expense categories
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  fuel: 'Fuel',
+  tolls: 'Tolls',
+  parking: 'Parking',
+  maintenance: 'Maintenance',
+  car_wash: 'Car wash',
+  phone_plan: 'Phone plan',
+  insurance: 'Insurance',
+  rental: 'Car rental',
+  food: 'Food',
+};
+
+// Display names for how a trip or expense was paid
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  in_app: 'In app',
+  cash: 'Cash',
+  pix: 'Pix',
+  card: 'Card',
+};
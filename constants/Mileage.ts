@@ -0,0 +1,12 @@
+import type { MileageIssue } from '../services/mileage';
+
+// Why a session's km are only partly counted, shown next to the session
+export const MILEAGE_ISSUE_LABELS: Record<MileageIssue, string> = {
+  missing_start: 'No start reading',
+  missing_end: 'No end reading',
+  reversed: 'End reading is below the start',
+  trips_exceed: 'Trips add up to more than the odometer',
+};
+
+// km on the odometer are a whole number on most dashboards
+export const formatKm = (km: number) => `${km.toFixed(0)} km`;
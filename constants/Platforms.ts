@@ -0,0 +1,9 @@
+import type { TripPlatform } from '../store/useAppStore';
+
+// Display names for ride-hailing platforms
+export const PLATFORM_LABELS: Record<TripPlatform, string> = {
+  uber: 'Uber',
+  '99': '99',
+  indrive: 'inDrive',
+  private: 'Private',
+};
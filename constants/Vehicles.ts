@@ -0,0 +1,28 @@
+import type { FuelType, VehicleOwnership } from '../store/useAppStore';
+
+// Display names for fuel types
+export const FUEL_TYPE_LABELS: Record<FuelType, string> = {
+  flex: 'Flex',
+  gasoline: 'Gasoline',
+  ethanol: 'Ethanol',
+  gnv: 'GNV',
+  electric: 'Electric',
+};
+
+// Unit the measured economy is entered in
+export const FUEL_ECONOMY_UNITS: Record<FuelType, string> = {
+  flex: 'km/L',
+  gasoline: 'km/L',
+  ethanol: 'km/L',
+  gnv: 'km/m³',
+  electric: 'km/kWh',
+};
+
+export const OWNERSHIP_LABELS: Record<VehicleOwnership, string> = {
+  owned: 'Owned',
+  rented: 'Rented',
+};
+
+// "Fiat Argo", or "Vehicle" while both fields are empty
+export const formatVehicleName = (vehicle: { make: string; model: string }) =>
+  `${vehicle.make} ${vehicle.model}`.trim() || 'Vehicle';
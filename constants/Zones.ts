@@ -0,0 +1,22 @@
+import type { GeoPoint, ZoneAction, ZoneShape } from '../services/zones';
+
+export const ZONE_SHAPE_LABELS: Record<ZoneShape['type'], string> = {
+  circle: 'Circle',
+  polygon: 'Polygon',
+};
+
+export const ZONE_ACTION_LABELS: Record<ZoneAction, string> = {
+  announce: 'Announce entering and leaving',
+  start_session_on_exit: 'Start a session on leaving',
+  tag_trips: 'Tag trips picked up here',
+};
+
+// Five decimals is about a metre, as precise as a phone fix gets
+export const formatGeoPoint = (point: GeoPoint) =>
+  `${point.latitude.toFixed(5)}, ${point.longitude.toFixed(5)}`;
+
+// "300 m around -23.43562, -46.47306", or "5 corners"
+export const formatZoneShape = (shape: ZoneShape) =>
+  shape.type === 'circle'
+    ? `${shape.radiusM.toFixed(0)} m around ${formatGeoPoint(shape.center)}`
+    : `${String(shape.vertices.length)} corners`;
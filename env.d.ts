@@ -0,0 +1,7 @@
+// Public env vars inlined by Expo at build time (see docs/SYNC_IMPLEMENTATION.md)
+declare namespace NodeJS {
+  interface ProcessEnv {
+    readonly EXPO_PUBLIC_SUPABASE_URL?: string;
+    readonly EXPO_PUBLIC_SUPABASE_ANON_KEY?: string;
+  }
+}
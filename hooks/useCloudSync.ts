@@ -0,0 +1,43 @@
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { dbSync } from '../services/database';
+import { useAppStore } from '../store/useAppStore';
+
+// Pushes queued changes first, so a pull cannot bring back a row deleted here
+const syncWithCloud = () => {
+  dbSync
+    .syncToCloud()
+    .then(() => useAppStore.getState().syncFromCloud())
+    .catch((error: unknown) => {
+      console.error('[Sync] Failed to sync with the cloud:', error);
+    });
+};
+
+// Syncs trips and expenses on launch and whenever the app comes back to the foreground, and
+// pushes what was written while it was open once it goes to the background
+export const useCloudSync = () => {
+  useEffect(() => {
+    // Merging into a store not yet restored would be overwritten by the restore
+    const unsubscribeHydration = useAppStore.persist.hasHydrated()
+      ? null
+      : useAppStore.persist.onFinishHydration(syncWithCloud);
+    if (!unsubscribeHydration) {
+      syncWithCloud();
+    }
+
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      if (nextState === 'active') {
+        syncWithCloud();
+      } else if (nextState === 'background') {
+        dbSync.syncToCloud().catch((error: unknown) => {
+          console.error('[Sync] Failed to push changes:', error);
+        });
+      }
+    });
+
+    return () => {
+      unsubscribeHydration?.();
+      subscription.remove();
+    };
+  }, []);
+};
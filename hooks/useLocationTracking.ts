@@ -0,0 +1,18 @@
+import { useEffect } from 'react';
+import { locationTracker } from '../services/location';
+import { useCurrentTimer } from '../store/useAppStore';
+
+// Records the GPS trail while the location toggle is on and a session is running
+export const useLocationTracking = (isActive: boolean) => {
+  const { isRunning, sessionId } = useCurrentTimer();
+
+  useEffect(() => {
+    if (!isActive || !isRunning || !sessionId) {
+      return;
+    }
+    locationTracker.start();
+    return () => {
+      locationTracker.stop();
+    };
+  }, [isActive, isRunning, sessionId]);
+};
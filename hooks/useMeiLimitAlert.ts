@@ -0,0 +1,101 @@
+import { useEffect } from 'react';
+import { Alert } from 'react-native';
+import { router } from 'expo-router';
+import { getDeviceTimeZone, toLocalDateKey } from '../services/session/dayBucketing';
+import {
+  classifyLedger,
+  getMeiLimitUsage,
+  isMeiLevelRaised,
+  resolveTaxTable,
+} from '../services/tax';
+import type { MeiLimitLevel, MeiLimitUsage } from '../services/tax';
+import { useAppStore } from '../store/useAppStore';
+import { formatBRL } from '../utils/currency';
+
+const ALERT_MESSAGES: Record<Exclude<MeiLimitLevel, 'ok'>, (usage: MeiLimitUsage) => string> = {
+  approaching: (usage) =>
+    `You have received ${formatBRL(usage.revenue)} of your ${formatBRL(usage.limit)} MEI limit this year${usage.projected === null ? '' : `, and are on pace for ${formatBRL(usage.projected)}`}.`,
+  exceeded: (usage) =>
+    `Your ${formatBRL(usage.revenue)} this year is over the ${formatBRL(usage.limit)} MEI limit. The excess is taxed separately - talk to your accountant.`,
+  excluded: (usage) =>
+    `Your ${formatBRL(usage.revenue)} this year is more than 20% over the MEI limit, which ends the MEI for the whole year. Talk to your accountant now.`,
+};
+
+const ALERT_TITLES: Record<Exclude<MeiLimitLevel, 'ok'>, string> = {
+  approaching: 'Approaching the MEI limit',
+  exceeded: 'MEI limit exceeded',
+  excluded: 'MEI limit exceeded by over 20%',
+};
+
+// Checks this year's revenue against the MEI limit and warns once per level reached
+const checkMeiLimit = () => {
+  const { trips, expenses, timerSessions, taxSettings, setTaxSettings } = useAppStore.getState();
+  if (taxSettings.regime !== 'mei') {
+    return;
+  }
+
+  const timeZone = getDeviceTimeZone();
+  const today = toLocalDateKey(Date.now(), timeZone);
+  const year = Number(today.slice(0, 4));
+  const { table } = resolveTaxTable(taxSettings.tables, year);
+  const ledger = classifyLedger(
+    { trips, expenses, sessions: timerSessions },
+    year,
+    table,
+    timeZone,
+  );
+  const usage = getMeiLimitUsage(
+    ledger,
+    table,
+    taxSettings.meiOpenedOn,
+    taxSettings.alertThreshold,
+    today,
+  );
+
+  const previous = taxSettings.lastMeiAlert?.year === year ? taxSettings.lastMeiAlert.level : 'ok';
+  if (usage.level === previous) {
+    return;
+  }
+  // Dropping a level (a trip deleted, the limit corrected) is recorded silently so rising again warns
+  setTaxSettings({ lastMeiAlert: { year, level: usage.level } });
+  if (usage.level !== 'ok' && isMeiLevelRaised(previous, usage.level)) {
+    Alert.alert(ALERT_TITLES[usage.level], ALERT_MESSAGES[usage.level](usage), [
+      { text: 'Later', style: 'cancel' },
+      {
+        text: 'See taxes',
+        onPress: () => {
+          router.push('/taxes');
+        },
+      },
+    ]);
+  }
+};
+
+export const useMeiLimitAlert = () => {
+  useEffect(() => {
+    // Persisted trips and settings are needed before the first check
+    const unsubscribeHydration = useAppStore.persist.hasHydrated()
+      ? null
+      : useAppStore.persist.onFinishHydration(checkMeiLimit);
+    if (!unsubscribeHydration) {
+      checkMeiLimit();
+    }
+
+    const unsubscribe = useAppStore.subscribe((state, prevState) => {
+      if (
+        state.trips !== prevState.trips ||
+        state.taxSettings.regime !== prevState.taxSettings.regime ||
+        state.taxSettings.tables !== prevState.taxSettings.tables ||
+        state.taxSettings.meiOpenedOn !== prevState.taxSettings.meiOpenedOn ||
+        state.taxSettings.alertThreshold !== prevState.taxSettings.alertThreshold
+      ) {
+        checkMeiLimit();
+      }
+    });
+
+    return () => {
+      unsubscribeHydration?.();
+      unsubscribe();
+    };
+  }, []);
+};
@@ -0,0 +1,12 @@
+import { useMemo } from 'react';
+import { buildMileageLog } from '../services/mileage';
+import type { ReportPeriod } from '../services/reports';
+import { useTimerSessions, useTrips } from '../store/useAppStore';
+
+// Mileage log for the period, reconciled again whenever sessions or trips change
+export const useMileageLog = (period: ReportPeriod) => {
+  const sessions = useTimerSessions();
+  const trips = useTrips();
+
+  return useMemo(() => buildMileageLog(sessions, trips, period), [sessions, trips, period]);
+};
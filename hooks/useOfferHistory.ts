@@ -0,0 +1,37 @@
+import { useCallback, useState } from 'react';
+import { useFocusEffect } from '@react-navigation/native';
+import { dbSync } from '../services/database';
+import type { OfferLogEntry, OfferOutcome } from '../services/offers/offerLog';
+
+// Offer history from SQLite, reloaded whenever the screen comes into focus
+export const useOfferHistory = (outcome?: OfferOutcome) => {
+  const [entries, setEntries] = useState<OfferLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      let cancelled = false;
+      setIsLoading(true);
+      dbSync
+        .getOfferLog(outcome)
+        .then((loaded) => {
+          if (!cancelled) {
+            setEntries(loaded);
+          }
+        })
+        .catch((error: unknown) => {
+          console.error('[OfferHistory] Failed to load offers:', error);
+        })
+        .finally(() => {
+          if (!cancelled) {
+            setIsLoading(false);
+          }
+        });
+      return () => {
+        cancelled = true;
+      };
+    }, [outcome]),
+  );
+
+  return { entries, isLoading };
+};
@@ -0,0 +1,62 @@
+import { useMemo } from 'react';
+import {
+  useCostProfile,
+  useCurrentOffer,
+  useExpenses,
+  useOfferRules,
+  useTrips,
+  useVehicleInUse,
+} from '../store/useAppStore';
+import { calculateProfitability } from '../services/offers/profitability';
+import type { ProfitabilityResult } from '../services/offers/profitability';
+import { evaluateOfferRules } from '../services/offers/rules';
+import type { TripOffer } from '../services/offers/types';
+import { getDeviceTimeZone, toLocalDateKey } from '../services/session/dayBucketing';
+import { withVehicleCosts } from '../services/vehicles';
+
+// Profitability of an offer against the driver's cost profile and the costs of the car in use
+export const useOfferProfitability = (offer: TripOffer | null) => {
+  const costProfile = useCostProfile();
+  const vehicle = useVehicleInUse();
+  const trips = useTrips();
+  const expenses = useExpenses();
+
+  return useMemo(
+    () =>
+      offer
+        ? calculateProfitability(
+            offer,
+            withVehicleCosts(
+              costProfile,
+              vehicle,
+              trips,
+              expenses,
+              toLocalDateKey(Date.now(), getDeviceTimeZone()),
+            ),
+          )
+        : null,
+    [offer, costProfile, vehicle, trips, expenses],
+  );
+};
+
+// The driver's preference rules applied to an offer
+export const useOfferRuleEvaluation = (
+  offer: TripOffer | null,
+  result: ProfitabilityResult | null,
+) => {
+  const rules = useOfferRules();
+
+  return useMemo(
+    () => (offer && result ? evaluateOfferRules(offer, result, rules) : null),
+    [offer, result, rules],
+  );
+};
+
+// The offer currently on screen, with its profitability and rule decision - for the home screen
+export const useCurrentOfferProfitability = () => {
+  const offer = useCurrentOffer();
+  const result = useOfferProfitability(offer);
+  const evaluation = useOfferRuleEvaluation(offer, result);
+
+  return { offer, result, evaluation };
+};
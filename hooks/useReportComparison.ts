@@ -0,0 +1,17 @@
+import { useMemo } from 'react';
+import { buildReportComparison } from '../services/reports';
+import type { ReportPeriod } from '../services/reports';
+import { getDeviceTimeZone } from '../services/session/dayBucketing';
+import { useExpenses, useTimerSessions, useTrips } from '../store/useAppStore';
+
+// Report for the period and the one before it, recomputed whenever trips, expenses or sessions change
+export const useReportComparison = (period: ReportPeriod) => {
+  const trips = useTrips();
+  const expenses = useExpenses();
+  const sessions = useTimerSessions();
+
+  return useMemo(
+    () => buildReportComparison({ trips, expenses, sessions }, period, getDeviceTimeZone()),
+    [trips, expenses, sessions, period],
+  );
+};
@@ -0,0 +1,52 @@
+import { useCallback, useState } from 'react';
+import { useFocusEffect } from '@react-navigation/native';
+import { dbSync } from '../services/database';
+import type { LocationFix } from '../services/location';
+
+// A session's stored GPS trail, reloaded on focus and after reload() (e.g. once a GPX is imported)
+export const useSessionBreadcrumbs = (sessionId: string | null) => {
+  const [points, setPoints] = useState<LocationFix[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = useCallback(
+    (isCancelled: () => boolean) => {
+      if (!sessionId) {
+        setPoints([]);
+        return;
+      }
+      setIsLoading(true);
+      dbSync
+        .getBreadcrumbs(sessionId)
+        .then((loaded) => {
+          if (!isCancelled()) {
+            setPoints(loaded);
+          }
+        })
+        .catch((error: unknown) => {
+          console.error('[Routes] Failed to load breadcrumbs:', error);
+        })
+        .finally(() => {
+          if (!isCancelled()) {
+            setIsLoading(false);
+          }
+        });
+    },
+    [sessionId],
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      let cancelled = false;
+      load(() => cancelled);
+      return () => {
+        cancelled = true;
+      };
+    }, [load]),
+  );
+
+  const reload = useCallback(() => {
+    load(() => false);
+  }, [load]);
+
+  return { points, isLoading, reload };
+};
@@ -0,0 +1,67 @@
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { router } from 'expo-router';
+import { useAppStore } from '../store/useAppStore';
+import { SessionTimeoutMonitor } from '../services/session/SessionTimeoutMonitor';
+
+// Shows the wind-down screen if a timeout or crash left a notice for the driver
+const showPendingWindDown = () => {
+  if (useAppStore.getState().windDownNotice) {
+    router.push('/wind-down');
+  }
+};
+
+export const useSessionTimeoutMonitor = () => {
+  useEffect(() => {
+    const monitor = new SessionTimeoutMonitor();
+
+    // A timeout while the driver is looking at the app is surfaced right away
+    const unsubscribeNotice = useAppStore.subscribe((state, prevState) => {
+      if (state.windDownNotice && !prevState.windDownNotice && AppState.currentState === 'active') {
+        router.push('/wind-down');
+      }
+    });
+
+    // Close sessions orphaned by a crash before the first heartbeat overwrites the evidence
+    const startMonitor = () => {
+      // Notices raised from now on are pushed by the subscription above
+      const hadNotice = useAppStore.getState().windDownNotice !== null;
+      monitor.recoverInterruptedSession();
+      monitor.check();
+      monitor.start();
+      if (hadNotice) {
+        showPendingWindDown();
+      }
+    };
+
+    // The persisted timer must be restored before it can be judged
+    const unsubscribeHydration = useAppStore.persist.hasHydrated()
+      ? null
+      : useAppStore.persist.onFinishHydration(startMonitor);
+    if (!unsubscribeHydration) {
+      startMonitor();
+    }
+
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      const now = new Date().toISOString();
+
+      if (nextState === 'active') {
+        const hadNotice = useAppStore.getState().windDownNotice !== null;
+        useAppStore.getState().recordHeartbeat(now, false);
+        monitor.check();
+        if (hadNotice) {
+          showPendingWindDown();
+        }
+      } else if (nextState === 'background') {
+        useAppStore.getState().recordHeartbeat(now, true);
+      }
+    });
+
+    return () => {
+      unsubscribeHydration?.();
+      unsubscribeNotice();
+      subscription.remove();
+      monitor.stop();
+    };
+  }, []);
+};
@@ -0,0 +1,23 @@
+import { useMemo } from 'react';
+import { getDeviceTimeZone, toLocalDateKey } from '../services/session/dayBucketing';
+import { buildTaxEstimate } from '../services/tax';
+import { useExpenses, useTaxSettings, useTimerSessions, useTrips } from '../store/useAppStore';
+
+// The year's tax estimate, recomputed whenever the ledgers or the tax setup change
+export const useTaxEstimate = (year: number) => {
+  const trips = useTrips();
+  const expenses = useExpenses();
+  const sessions = useTimerSessions();
+  const settings = useTaxSettings();
+
+  return useMemo(() => {
+    const timeZone = getDeviceTimeZone();
+    return buildTaxEstimate(
+      { trips, expenses, sessions },
+      settings,
+      year,
+      timeZone,
+      toLocalDateKey(Date.now(), timeZone),
+    );
+  }, [trips, expenses, sessions, settings, year]);
+};
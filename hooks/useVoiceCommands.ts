@@ -0,0 +1,15 @@
+import { useEffect } from 'react';
+import { voiceCommands } from '../services/voice';
+
+// Keeps the voice command listener running while the assistant toggle is on
+export const useVoiceCommands = (isActive: boolean) => {
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+    voiceCommands.start();
+    return () => {
+      voiceCommands.stop();
+    };
+  }, [isActive]);
+};
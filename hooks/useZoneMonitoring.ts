@@ -0,0 +1,35 @@
+import { useEffect } from 'react';
+import { zoneMonitor } from '../services/zones';
+import { useCurrentTimer, useZones } from '../store/useAppStore';
+
+// Watches the enabled zones while the location toggle is on; between sessions the provider
+// is only kept running when a zone starts sessions on exit
+export const useZoneMonitoring = (isActive: boolean) => {
+  const { isRunning } = useCurrentTimer();
+  const zones = useZones();
+  const hasZones = zones.some((zone) => zone.enabled);
+  const startsSessions = zones.some(
+    (zone) => zone.enabled && zone.actions.includes('start_session_on_exit'),
+  );
+
+  useEffect(() => {
+    if (!isActive || !hasZones) {
+      return;
+    }
+    zoneMonitor.start();
+    return () => {
+      zoneMonitor.stop();
+    };
+  }, [isActive, hasZones]);
+
+  // A running session hands the provider to the tracker
+  useEffect(() => {
+    if (!isActive || isRunning || !startsSessions) {
+      return;
+    }
+    zoneMonitor.watch();
+    return () => {
+      zoneMonitor.unwatch();
+    };
+  }, [isActive, isRunning, startsSessions]);
+};
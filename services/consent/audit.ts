@@ -0,0 +1,50 @@
+import type { TimerSession } from '../../store/useAppStore';
+import type { ConsentRecord } from './consent';
+import type { ConsentDisclosure } from './disclosure';
+import { findDisclosure } from './disclosure';
+
+/**
+ * LGPD audit export - every consent with the exact disclosure text the driver agreed to
+ */
+
+export interface ConsentAuditEntry extends ConsentRecord {
+  sessionStartTime: string | null; // null for a session still running at export time
+  sessionEndTime: string | null;
+}
+
+export interface ConsentAudit {
+  generatedAt: string;
+  subjectId: string | null; // user the ledger belongs to, when signed in
+  disclosures: ConsentDisclosure[]; // only the versions referenced by the records
+  records: ConsentAuditEntry[];
+}
+
+export const buildConsentAudit = (
+  ledger: ConsentRecord[],
+  sessions: TimerSession[],
+  subjectId: string | null,
+  generatedAt: string = new Date().toISOString(),
+): ConsentAudit => {
+  const sessionsById = new Map(sessions.map((session) => [session.id, session]));
+  const versions = [...new Set(ledger.map((record) => record.disclosureVersion))];
+
+  return {
+    generatedAt,
+    subjectId,
+    disclosures: versions
+      .map(findDisclosure)
+      .filter((disclosure): disclosure is ConsentDisclosure => disclosure !== null),
+    records: [...ledger]
+      .sort((a, b) => a.grantedAt.localeCompare(b.grantedAt))
+      .map((record) => {
+        const session = sessionsById.get(record.sessionId);
+        return {
+          ...record,
+          sessionStartTime: session?.startTime ?? null,
+          sessionEndTime: session?.endTime ?? null,
+        };
+      }),
+  };
+};
+
+export const serializeConsentAudit = (audit: ConsentAudit) => JSON.stringify(audit, null, 2);
@@ -0,0 +1,100 @@
+import type { TripOffer } from '../offers/types';
+import { CURRENT_DISCLOSURE } from './disclosure';
+
+/**
+ * Screen reading consent ledger - the driver opts in again for every TimerSession
+ * Records are never deleted, revoking only closes them, so the ledger doubles as the LGPD audit trail
+ */
+
+// What may be read off another app's screen
+export type ConsentCategory =
+  | 'offer_terms' // fare, distances, times and surge; needed for any offer parsing
+  | 'addresses' // pickup address and destination
+  | 'passenger_rating';
+
+export type ConsentRevokeReason = 'driver' | 'session_ended';
+
+export interface ConsentRecord {
+  id: string;
+  sessionId: string; // TimerSession the consent was given for
+  disclosureVersion: string; // ConsentDisclosure the driver was shown
+  categories: ConsentCategory[];
+  grantedAt: string;
+  revokedAt: string | null; // null while consent is active
+  revokeReason: ConsentRevokeReason | null;
+}
+
+export const CONSENT_CATEGORIES: ConsentCategory[] = [
+  'offer_terms',
+  'addresses',
+  'passenger_rating',
+];
+
+// Thrown when something tries to read another app's screen without an active consent
+export class ConsentRequiredError extends Error {
+  readonly category: ConsentCategory;
+
+  constructor(category: ConsentCategory) {
+    super(`Screen reading requires active consent for "${category}"`);
+    this.name = 'ConsentRequiredError';
+    this.category = category;
+  }
+}
+
+export const createConsentRecord = (
+  sessionId: string,
+  categories: ConsentCategory[],
+  grantedAt: string = new Date().toISOString(),
+): ConsentRecord => ({
+  id: `consent_${String(new Date(grantedAt).getTime())}`,
+  sessionId,
+  disclosureVersion: CURRENT_DISCLOSURE.version,
+  categories: CONSENT_CATEGORIES.filter((category) => categories.includes(category)),
+  grantedAt,
+  revokedAt: null,
+  revokeReason: null,
+});
+
+export const revokeConsentRecord = (
+  record: ConsentRecord,
+  reason: ConsentRevokeReason,
+  revokedAt: string = new Date().toISOString(),
+): ConsentRecord => (record.revokedAt ? record : { ...record, revokedAt, revokeReason: reason });
+
+/**
+ * The consent currently covering a session
+ * @returns The open record, or null when the driver has not opted in for this session
+ */
+export const getActiveConsent = (
+  ledger: ConsentRecord[],
+  sessionId: string | null,
+): ConsentRecord | null =>
+  sessionId === null
+    ? null
+    : (ledger.find((record) => record.sessionId === sessionId && record.revokedAt === null) ??
+      null);
+
+export const hasConsentFor = (consent: ConsentRecord | null, category: ConsentCategory) =>
+  consent !== null && consent.revokedAt === null && consent.categories.includes(category);
+
+/**
+ * Throws unless the consent is active and covers the category
+ */
+export function assertConsent(
+  consent: ConsentRecord | null,
+  category: ConsentCategory,
+): asserts consent is ConsentRecord {
+  if (!hasConsentFor(consent, category)) {
+    throw new ConsentRequiredError(category);
+  }
+}
+
+/**
+ * Blanks the offer fields the driver did not agree to share
+ */
+export const redactOffer = (offer: TripOffer, consent: ConsentRecord): TripOffer => ({
+  ...offer,
+  pickupAddress: hasConsentFor(consent, 'addresses') ? offer.pickupAddress : null,
+  destination: hasConsentFor(consent, 'addresses') ? offer.destination : null,
+  passengerRating: hasConsentFor(consent, 'passenger_rating') ? offer.passengerRating : null,
+});
@@ -0,0 +1,30 @@
+/**
+ * Disclosure texts shown before the driver lets Cherry Picker read other apps
+ * Never edit a published version - add a new one so the ledger still shows what was agreed to
+ */
+
+export interface ConsentDisclosure {
+  version: string;
+  publishedAt: string; // YYYY-MM-DD
+  text: string;
+}
+
+const DISCLOSURE_2026_10: ConsentDisclosure = {
+  version: '2026-10',
+  publishedAt: '2026-10-01',
+  text:
+    'Durante esta sessão, o Cherry Picker vai ler o texto das ofertas de corrida exibidas ' +
+    'pelos apps Uber e 99 para calcular se cada corrida compensa. Somente as categorias de ' +
+    'dados que você marcar serão lidas. Os dados ficam apenas neste aparelho, não são ' +
+    'compartilhados com terceiros e a leitura para assim que você revogar o consentimento ' +
+    'ou encerrar a sessão. Você pode exportar o histórico de consentimentos a qualquer momento.',
+};
+
+// Oldest first; the last one is shown to the driver
+export const CONSENT_DISCLOSURES: ConsentDisclosure[] = [DISCLOSURE_2026_10];
+
+// The disclosure new consents are granted against
+export const CURRENT_DISCLOSURE = DISCLOSURE_2026_10;
+
+export const findDisclosure = (version: string): ConsentDisclosure | null =>
+  CONSENT_DISCLOSURES.find((disclosure) => disclosure.version === version) ?? null;
@@ -1,5 +1,11 @@
 import { createClient } from '@supabase/supabase-js';
 import { open } from '@op-engineering/op-sqlite';
+import type { Expense, Trip } from '../../store/useAppStore';
+import type { OfferLogEntry, OfferLogRetention, OfferOutcome } from '../offers/offerLog';
+import { OFFER_LOG_RETENTION } from '../offers/offerLog';
+import { BREADCRUMB_MAX_AGE_DAYS } from '../location/trail';
+import type { LocationFix } from '../location/types';
+import type { Tombstone } from './syncMerge';
 
 interface SyncQueueRow {
   id: string | number;
@@ -10,6 +16,12 @@ interface SyncQueueRow {
   created_at: number;
 }
 
+interface DeletionRow {
+  table_name: string;
+  record_id: string;
+  deleted_at: string;
+}
+
 interface ActivityRow {
   id: string;
   title: string;
@@ -19,18 +31,333 @@ interface ActivityRow {
   updated_at: string | number;
 }
 
+interface TripRow {
+  id: string;
+  session_id: string | null;
+  vehicle_id: string | null;
+  platform: string;
+  pickup_address: string;
+  pickup_lat: number | null;
+  pickup_lng: number | null;
+  dropoff_address: string;
+  dropoff_lat: number | null;
+  dropoff_lng: number | null;
+  distance_km: number;
+  duration_minutes: number;
+  fare: number;
+  tip: number;
+  platform_fee: number;
+  payment_method: string;
+  started_at: string;
+  origin_zone_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const tripToRow = (trip: Trip): TripRow => ({
+  id: trip.id,
+  session_id: trip.sessionId,
+  vehicle_id: trip.vehicleId,
+  platform: trip.platform,
+  pickup_address: trip.pickup.address,
+  pickup_lat: trip.pickup.latitude ?? null,
+  pickup_lng: trip.pickup.longitude ?? null,
+  dropoff_address: trip.dropoff.address,
+  dropoff_lat: trip.dropoff.latitude ?? null,
+  dropoff_lng: trip.dropoff.longitude ?? null,
+  distance_km: trip.distanceKm,
+  duration_minutes: trip.durationMinutes,
+  fare: trip.fare,
+  tip: trip.tip,
+  platform_fee: trip.platformFee,
+  payment_method: trip.paymentMethod,
+  started_at: trip.startedAt,
+  origin_zone_id: trip.originZoneId,
+  created_at: trip.createdAt,
+  updated_at: trip.updatedAt,
+});
+
+const rowToTrip = (row: TripRow): Trip => ({
+  id: row.id,
+  sessionId: row.session_id,
+  vehicleId: row.vehicle_id,
+  platform: row.platform as Trip['platform'],
+  pickup: {
+    address: row.pickup_address,
+    ...(row.pickup_lat !== null && row.pickup_lng !== null
+      ? { latitude: row.pickup_lat, longitude: row.pickup_lng }
+      : {}),
+  },
+  dropoff: {
+    address: row.dropoff_address,
+    ...(row.dropoff_lat !== null && row.dropoff_lng !== null
+      ? { latitude: row.dropoff_lat, longitude: row.dropoff_lng }
+      : {}),
+  },
+  distanceKm: row.distance_km,
+  durationMinutes: row.duration_minutes,
+  fare: row.fare,
+  tip: row.tip,
+  platformFee: row.platform_fee,
+  paymentMethod: row.payment_method as Trip['paymentMethod'],
+  startedAt: row.started_at,
+  originZoneId: row.origin_zone_id,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const TRIP_COLUMNS: (keyof TripRow)[] = [
+  'id',
+  'session_id',
+  'vehicle_id',
+  'platform',
+  'pickup_address',
+  'pickup_lat',
+  'pickup_lng',
+  'dropoff_address',
+  'dropoff_lat',
+  'dropoff_lng',
+  'distance_km',
+  'duration_minutes',
+  'fare',
+  'tip',
+  'platform_fee',
+  'payment_method',
+  'started_at',
+  'origin_zone_id',
+  'created_at',
+  'updated_at',
+];
+
+interface ExpenseRow {
+  id: string;
+  session_id: string | null;
+  vehicle_id: string | null;
+  status: string;
+  category: string;
+  amount: number;
+  payment_method: string;
+  vendor: string;
+  date: string;
+  receipt_uri: string | null;
+  extraction_json: string | null;
+  odometer_km: number | null;
+  fuel: string | null;
+  liters: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const expenseToRow = (expense: Expense): ExpenseRow => ({
+  id: expense.id,
+  session_id: expense.sessionId,
+  vehicle_id: expense.vehicleId,
+  status: expense.status,
+  category: expense.category,
+  amount: expense.amount,
+  payment_method: expense.paymentMethod,
+  vendor: expense.vendor,
+  date: expense.date,
+  receipt_uri: expense.receiptUri,
+  extraction_json: expense.extraction ? JSON.stringify(expense.extraction) : null,
+  odometer_km: expense.odometerKm,
+  fuel: expense.fuel,
+  liters: expense.liters,
+  created_at: expense.createdAt,
+  updated_at: expense.updatedAt,
+});
+
+const rowToExpense = (row: ExpenseRow): Expense => ({
+  id: row.id,
+  sessionId: row.session_id,
+  vehicleId: row.vehicle_id,
+  status: row.status as Expense['status'],
+  category: row.category as Expense['category'],
+  amount: row.amount,
+  paymentMethod: row.payment_method as Expense['paymentMethod'],
+  vendor: row.vendor,
+  date: row.date,
+  receiptUri: row.receipt_uri,
+  extraction: row.extraction_json
+    ? (JSON.parse(row.extraction_json) as Expense['extraction'])
+    : null,
+  odometerKm: row.odometer_km,
+  fuel: row.fuel as Expense['fuel'],
+  liters: row.liters,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const EXPENSE_COLUMNS: (keyof ExpenseRow)[] = [
+  'id',
+  'session_id',
+  'vehicle_id',
+  'status',
+  'category',
+  'amount',
+  'payment_method',
+  'vendor',
+  'date',
+  'receipt_uri',
+  'extraction_json',
+  'odometer_km',
+  'fuel',
+  'liters',
+  'created_at',
+  'updated_at',
+];
+
+interface OfferLogRow {
+  id: string;
+  session_id: string | null;
+  platform: string;
+  fare: number;
+  net_profit: number;
+  offer_json: string;
+  profitability_json: string;
+  suggestion: string;
+  matched_rule_ids: string;
+  outcome: string | null;
+  decided_by: string | null;
+  channel: string | null;
+  detected_at: string;
+  decided_at: string | null;
+  latency_ms: number | null;
+}
+
+const offerLogToRow = (entry: OfferLogEntry): OfferLogRow => ({
+  id: entry.id,
+  session_id: entry.sessionId,
+  platform: entry.offer.platform,
+  fare: entry.offer.fare,
+  net_profit: entry.profitability.netProfit,
+  offer_json: JSON.stringify(entry.offer),
+  profitability_json: JSON.stringify(entry.profitability),
+  suggestion: entry.suggestion,
+  matched_rule_ids: JSON.stringify(entry.matchedRuleIds),
+  outcome: entry.outcome,
+  decided_by: entry.decidedBy,
+  channel: entry.channel,
+  detected_at: entry.offer.detectedAt,
+  decided_at: entry.decidedAt,
+  latency_ms: entry.latencyMs,
+});
+
+const rowToOfferLog = (row: OfferLogRow): OfferLogEntry => ({
+  id: row.id,
+  sessionId: row.session_id,
+  offer: JSON.parse(row.offer_json) as OfferLogEntry['offer'],
+  profitability: JSON.parse(row.profitability_json) as OfferLogEntry['profitability'],
+  suggestion: row.suggestion as OfferLogEntry['suggestion'],
+  matchedRuleIds: JSON.parse(row.matched_rule_ids) as string[],
+  outcome: row.outcome as OfferLogEntry['outcome'],
+  decidedBy: row.decided_by as OfferLogEntry['decidedBy'],
+  channel: row.channel as OfferLogEntry['channel'],
+  decidedAt: row.decided_at,
+  latencyMs: row.latency_ms,
+});
+
+const OFFER_LOG_COLUMNS: (keyof OfferLogRow)[] = [
+  'id',
+  'session_id',
+  'platform',
+  'fare',
+  'net_profit',
+  'offer_json',
+  'profitability_json',
+  'suggestion',
+  'matched_rule_ids',
+  'outcome',
+  'decided_by',
+  'channel',
+  'detected_at',
+  'decided_at',
+  'latency_ms',
+];
+
+// Breadcrumbs are the bulk of the database, so each row is a handful of integers:
+// seconds, 1e-5 degrees (about a metre), whole metres and cm/s
+interface BreadcrumbRow {
+  session_id: string;
+  t: number;
+  lat: number;
+  lon: number;
+  alt: number | null;
+  accuracy: number | null;
+  speed: number | null;
+}
+
+const COORDINATE_SCALE = 1e5;
+
+const roundOrNull = (value: number | null, scale = 1) =>
+  value !== null ? Math.round(value * scale) : null;
+
+const breadcrumbToRow = (sessionId: string, fix: LocationFix): BreadcrumbRow => ({
+  session_id: sessionId,
+  t: Math.round(fix.timestamp / 1000),
+  lat: Math.round(fix.latitude * COORDINATE_SCALE),
+  lon: Math.round(fix.longitude * COORDINATE_SCALE),
+  alt: roundOrNull(fix.altitude),
+  accuracy: roundOrNull(fix.accuracy),
+  speed: roundOrNull(fix.speed, 100),
+});
+
+const rowToBreadcrumb = (row: BreadcrumbRow): LocationFix => ({
+  latitude: row.lat / COORDINATE_SCALE,
+  longitude: row.lon / COORDINATE_SCALE,
+  altitude: row.alt,
+  accuracy: row.accuracy,
+  speed: row.speed !== null ? row.speed / 100 : null,
+  timestamp: row.t * 1000,
+});
+
+const BREADCRUMB_COLUMNS: (keyof BreadcrumbRow)[] = [
+  'session_id',
+  't',
+  'lat',
+  'lon',
+  'alt',
+  'accuracy',
+  'speed',
+];
+
+// Columns added to tables after their first release
+const ADDED_COLUMNS: { table: string; column: string; type: string }[] = [
+  { table: 'trips', column: 'vehicle_id', type: 'TEXT' },
+  { table: 'expenses', column: 'vehicle_id', type: 'TEXT' },
+  { table: 'expenses', column: 'fuel', type: 'TEXT' },
+  { table: 'expenses', column: 'liters', type: 'REAL' },
+  { table: 'trips', column: 'origin_zone_id', type: 'TEXT' },
+];
+
+// Tables whose deletions are pulled from other devices
+type TombstonedTable = 'trips' | 'expenses';
+
+// Trips and expenses a pull from Supabase brought in, as the store holds them, and the ones
+// other devices deleted since the last pull
+export interface PulledRecords {
+  trips: Trip[];
+  expenses: Expense[];
+  deletedTrips: Tombstone[];
+  deletedExpenses: Tombstone[];
+}
+
 // Example sync layer architecture
+// Works offline-only when no Supabase credentials are configured
 export class DatabaseSync {
   private readonly db;
   private readonly supabase;
   private syncInProgress = false;
 
-  constructor(supabaseUrl: string, supabaseKey: string) {
+  constructor(supabaseUrl?: string, supabaseKey?: string) {
     this.db = open({ name: 'dask.db' });
-    this.supabase = createClient(supabaseUrl, supabaseKey);
-    this.initializeTables().catch((error: unknown) => {
-      console.error('Failed to initialize database tables:', error);
-    });
+    this.supabase = supabaseUrl && supabaseKey ? createClient(supabaseUrl, supabaseKey) : null;
+    this.initializeTables()
+      .then(() => this.pruneOfferLog(OFFER_LOG_RETENTION))
+      .then(() => this.pruneBreadcrumbs(BREADCRUMB_MAX_AGE_DAYS))
+      .catch((error: unknown) => {
+        console.error('Failed to initialize database tables:', error);
+      });
   }
 
   private async initializeTables() {
@@ -47,6 +374,91 @@ export class DatabaseSync {
         version INTEGER DEFAULT 1
       );
       
+      CREATE TABLE IF NOT EXISTS trips (
+        id TEXT PRIMARY KEY,
+        session_id TEXT,
+        vehicle_id TEXT,
+        platform TEXT,
+        pickup_address TEXT,
+        pickup_lat REAL,
+        pickup_lng REAL,
+        dropoff_address TEXT,
+        dropoff_lat REAL,
+        dropoff_lng REAL,
+        distance_km REAL,
+        duration_minutes REAL,
+        fare REAL,
+        tip REAL,
+        platform_fee REAL,
+        payment_method TEXT,
+        started_at TEXT,
+        origin_zone_id TEXT,
+        created_at TEXT,
+        updated_at TEXT,
+        sync_status TEXT DEFAULT 'pending',
+        version INTEGER DEFAULT 1
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_trips_session_id ON trips (session_id);
+
+      CREATE TABLE IF NOT EXISTS expenses (
+        id TEXT PRIMARY KEY,
+        session_id TEXT,
+        vehicle_id TEXT,
+        status TEXT,
+        category TEXT,
+        amount REAL,
+        payment_method TEXT,
+        vendor TEXT,
+        date TEXT,
+        receipt_uri TEXT,
+        extraction_json TEXT,
+        odometer_km REAL,
+        fuel TEXT,
+        liters REAL,
+        created_at TEXT,
+        updated_at TEXT,
+        sync_status TEXT DEFAULT 'pending',
+        version INTEGER DEFAULT 1
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_expenses_date ON expenses (date);
+
+      -- Offer history stays on the device and is never queued for sync
+      CREATE TABLE IF NOT EXISTS offer_log (
+        id TEXT PRIMARY KEY,
+        session_id TEXT,
+        platform TEXT,
+        fare REAL,
+        net_profit REAL,
+        offer_json TEXT,
+        profitability_json TEXT,
+        suggestion TEXT,
+        matched_rule_ids TEXT,
+        outcome TEXT,
+        decided_by TEXT,
+        channel TEXT,
+        detected_at TEXT,
+        decided_at TEXT,
+        latency_ms INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_offer_log_detected_at ON offer_log (detected_at);
+
+      -- GPS trails stay on the device too; keyed by session and second, with no rowid
+      CREATE TABLE IF NOT EXISTS breadcrumbs (
+        session_id TEXT NOT NULL,
+        t INTEGER NOT NULL,
+        lat INTEGER NOT NULL,
+        lon INTEGER NOT NULL,
+        alt INTEGER,
+        accuracy INTEGER,
+        speed INTEGER,
+        PRIMARY KEY (session_id, t)
+      ) WITHOUT ROWID;
+
+      CREATE INDEX IF NOT EXISTS idx_breadcrumbs_t ON breadcrumbs (t);
+
       CREATE TABLE IF NOT EXISTS sync_queue (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         table_name TEXT,
@@ -55,7 +467,149 @@ export class DatabaseSync {
         data TEXT,
         created_at INTEGER
       );
+
+      CREATE TABLE IF NOT EXISTS sync_metadata (
+        key TEXT PRIMARY KEY,
+        value TEXT
+      );
     `);
+    await this.addMissingColumns();
+  }
+
+  // CREATE TABLE IF NOT EXISTS leaves tables from older installs as they were
+  private async addMissingColumns() {
+    for (const { table, column, type } of ADDED_COLUMNS) {
+      const info = await this.db.execute(`PRAGMA table_info(${table})`);
+      if (!info.rows.some((row) => row['name'] === column)) {
+        await this.db.execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+      }
+    }
+  }
+
+  // Trips
+  async saveTrip(trip: Trip, operation: 'insert' | 'update' = 'insert') {
+    const row = tripToRow(trip);
+    await this.upsertTripRow(row, 'pending');
+    await this.trackChange('trips', operation, trip.id, row);
+  }
+
+  async deleteTrip(id: string) {
+    await this.db.execute('DELETE FROM trips WHERE id = ?', [id]);
+    await this.trackChange('trips', 'delete', id, { id });
+  }
+
+  async getTrips(sessionId?: string): Promise<Trip[]> {
+    const result = sessionId
+      ? await this.db.execute('SELECT * FROM trips WHERE session_id = ? ORDER BY started_at', [
+          sessionId,
+        ])
+      : await this.db.execute('SELECT * FROM trips ORDER BY started_at');
+    return result.rows.map((row) => rowToTrip(row as unknown as TripRow));
+  }
+
+  private async upsertTripRow(row: TripRow, syncStatus: 'pending' | 'synced') {
+    const placeholders = TRIP_COLUMNS.map(() => '?').join(', ');
+    await this.db.execute(
+      `INSERT OR REPLACE INTO trips (${TRIP_COLUMNS.join(', ')}, sync_status)
+       VALUES (${placeholders}, ?)`,
+      [...TRIP_COLUMNS.map((column) => row[column]), syncStatus],
+    );
+  }
+
+  // Expenses
+  async saveExpense(expense: Expense, operation: 'insert' | 'update' = 'insert') {
+    const row = expenseToRow(expense);
+    await this.upsertExpenseRow(row, 'pending');
+    await this.trackChange('expenses', operation, expense.id, row);
+  }
+
+  async deleteExpense(id: string) {
+    await this.db.execute('DELETE FROM expenses WHERE id = ?', [id]);
+    await this.trackChange('expenses', 'delete', id, { id });
+  }
+
+  async getExpenses(sessionId?: string): Promise<Expense[]> {
+    const result = sessionId
+      ? await this.db.execute('SELECT * FROM expenses WHERE session_id = ? ORDER BY date', [
+          sessionId,
+        ])
+      : await this.db.execute('SELECT * FROM expenses ORDER BY date');
+    return result.rows.map((row) => rowToExpense(row as unknown as ExpenseRow));
+  }
+
+  private async upsertExpenseRow(row: ExpenseRow, syncStatus: 'pending' | 'synced') {
+    const placeholders = EXPENSE_COLUMNS.map(() => '?').join(', ');
+    await this.db.execute(
+      `INSERT OR REPLACE INTO expenses (${EXPENSE_COLUMNS.join(', ')}, sync_status)
+       VALUES (${placeholders}, ?)`,
+      [...EXPENSE_COLUMNS.map((column) => row[column]), syncStatus],
+    );
+  }
+
+  // Offer history
+  async saveOfferLogEntry(entry: OfferLogEntry) {
+    const row = offerLogToRow(entry);
+    const placeholders = OFFER_LOG_COLUMNS.map(() => '?').join(', ');
+    await this.db.execute(
+      `INSERT OR REPLACE INTO offer_log (${OFFER_LOG_COLUMNS.join(', ')}) VALUES (${placeholders})`,
+      OFFER_LOG_COLUMNS.map((column) => row[column]),
+    );
+  }
+
+  async getOfferLog(outcome?: OfferOutcome, limit = 200): Promise<OfferLogEntry[]> {
+    const result = outcome
+      ? await this.db.execute(
+          'SELECT * FROM offer_log WHERE outcome = ? ORDER BY detected_at DESC LIMIT ?',
+          [outcome, limit],
+        )
+      : await this.db.execute('SELECT * FROM offer_log ORDER BY detected_at DESC LIMIT ?', [limit]);
+    return result.rows.map((row) => rowToOfferLog(row as unknown as OfferLogRow));
+  }
+
+  // Drops entries past the age limit, then the oldest beyond the entry limit
+  async pruneOfferLog(retention: OfferLogRetention, now = Date.now()) {
+    const cutoff = new Date(now - retention.maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+    await this.db.execute('DELETE FROM offer_log WHERE detected_at < ?', [cutoff]);
+    await this.db.execute(
+      `DELETE FROM offer_log WHERE id NOT IN (
+         SELECT id FROM offer_log ORDER BY detected_at DESC LIMIT ?
+       )`,
+      [retention.maxEntries],
+    );
+  }
+
+  // GPS breadcrumbs
+  async saveBreadcrumbs(sessionId: string, fixes: LocationFix[]) {
+    if (fixes.length === 0) {
+      return;
+    }
+    const placeholders = BREADCRUMB_COLUMNS.map(() => '?').join(', ');
+    await this.db.executeBatch([
+      [
+        `INSERT OR REPLACE INTO breadcrumbs (${BREADCRUMB_COLUMNS.join(', ')}) VALUES (${placeholders})`,
+        fixes.map((fix) => {
+          const row = breadcrumbToRow(sessionId, fix);
+          return BREADCRUMB_COLUMNS.map((column) => row[column]);
+        }),
+      ],
+    ]);
+  }
+
+  async getBreadcrumbs(sessionId: string): Promise<LocationFix[]> {
+    const result = await this.db.execute(
+      'SELECT * FROM breadcrumbs WHERE session_id = ? ORDER BY t',
+      [sessionId],
+    );
+    return result.rows.map((row) => rowToBreadcrumb(row as unknown as BreadcrumbRow));
+  }
+
+  async deleteBreadcrumbs(sessionId: string) {
+    await this.db.execute('DELETE FROM breadcrumbs WHERE session_id = ?', [sessionId]);
+  }
+
+  async pruneBreadcrumbs(maxAgeDays: number, now = Date.now()) {
+    const cutoff = Math.round((now - maxAgeDays * 24 * 60 * 60 * 1000) / 1000);
+    await this.db.execute('DELETE FROM breadcrumbs WHERE t < ?', [cutoff]);
   }
 
   // Track local changes
@@ -68,10 +622,11 @@ export class DatabaseSync {
 
   // Sync to Supabase
   async syncToCloud() {
-    if (this.syncInProgress) {
+    if (!this.supabase || this.syncInProgress) {
       return;
     }
     this.syncInProgress = true;
+    const { supabase } = this;
 
     try {
       const changes = await this.db.execute('SELECT * FROM sync_queue ORDER BY created_at');
@@ -82,20 +637,22 @@ export class DatabaseSync {
 
         switch (change.operation) {
           case 'insert':
-            await this.supabase.from(change.table_name).insert(data);
+            await supabase.from(change.table_name).insert(data);
             break;
           case 'update':
-            await this.supabase
-              .from(change.table_name)
-              .update(data)
-              .eq('id', change.record_id);
+            await supabase.from(change.table_name).update(data).eq('id', change.record_id);
             break;
-          case 'delete':
-            await this.supabase
-              .from(change.table_name)
-              .delete()
-              .eq('id', change.record_id);
+          case 'delete': {
+            await supabase.from(change.table_name).delete().eq('id', change.record_id);
+            // A deleted row no longer turns up in pulls, so other devices learn of it from this
+            const deletion: DeletionRow = {
+              table_name: change.table_name,
+              record_id: change.record_id,
+              deleted_at: new Date(change.created_at).toISOString(),
+            };
+            await supabase.from('deletions').upsert(deletion);
             break;
+          }
         }
 
         // Remove from queue after successful sync
@@ -106,8 +663,11 @@ export class DatabaseSync {
     }
   }
 
-  // Pull from Supabase
-  async syncFromCloud() {
+  // Pull from Supabase; the trips and expenses pulled are returned for the store to merge
+  async syncFromCloud(): Promise<PulledRecords> {
+    if (!this.supabase) {
+      return { trips: [], expenses: [], deletedTrips: [], deletedExpenses: [] };
+    }
     const lastSync = await this.getLastSyncTime();
 
     const { data: activities } = await this.supabase
@@ -132,11 +692,63 @@ export class DatabaseSync {
       );
     }
 
+    const { data: trips } = await this.supabase
+      .from('trips')
+      .select('*')
+      .gt('updated_at', lastSync);
+
+    const pulledTrips: Trip[] = [];
+    for (const tripData of trips ?? []) {
+      await this.upsertTripRow(tripData as TripRow, 'synced');
+      pulledTrips.push(rowToTrip(tripData as TripRow));
+    }
+
+    const { data: expenses } = await this.supabase
+      .from('expenses')
+      .select('*')
+      .gt('updated_at', lastSync);
+
+    const pulledExpenses: Expense[] = [];
+    for (const expenseData of expenses ?? []) {
+      await this.upsertExpenseRow(expenseData as ExpenseRow, 'synced');
+      pulledExpenses.push(rowToExpense(expenseData as ExpenseRow));
+    }
+
+    const deletedTrips = await this.pullDeletions('trips', lastSync);
+    const deletedExpenses = await this.pullDeletions('expenses', lastSync);
+
     await this.setLastSyncTime(Date.now());
+    return { trips: pulledTrips, expenses: pulledExpenses, deletedTrips, deletedExpenses };
+  }
+
+  // Drops local rows other devices deleted, unless they were changed here after
+  private async pullDeletions(table: TombstonedTable, lastSync: string): Promise<Tombstone[]> {
+    if (!this.supabase) {
+      return [];
+    }
+    const { data: deletions } = await this.supabase
+      .from('deletions')
+      .select('*')
+      .eq('table_name', table)
+      .gt('deleted_at', lastSync);
+
+    const tombstones: Tombstone[] = [];
+    for (const deletionData of deletions ?? []) {
+      const deletion = deletionData as DeletionRow;
+      await this.db.execute(`DELETE FROM ${table} WHERE id = ? AND updated_at <= ?`, [
+        deletion.record_id,
+        deletion.deleted_at,
+      ]);
+      tombstones.push({ id: deletion.record_id, deletedAt: deletion.deleted_at });
+    }
+    return tombstones;
   }
 
   // Real-time subscription
   subscribeToChanges(table: string, callback: (payload: unknown) => void) {
+    if (!this.supabase) {
+      return null;
+    }
     return this.supabase
       .channel(`${table}_changes`)
       .on('postgres_changes', { event: '*', schema: 'public', table }, callback)
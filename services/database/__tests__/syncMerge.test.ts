@@ -0,0 +1,61 @@
+import { describe, expect, it } from '@jest/globals';
+import { mergePulled } from '../syncMerge';
+
+const record = (id: string, updatedAt: string, note = '') => ({ id, updatedAt, note });
+
+describe('mergePulled', () => {
+  it('adds new records and takes the newer copy of known ones', () => {
+    const local = [
+      record('a', '2025-03-14T10:00:00.000Z', 'local'),
+      record('b', '2025-03-14T12:00:00.000Z', 'local'),
+    ];
+    const pulled = [
+      record('a', '2025-03-14T11:00:00.000Z', 'cloud'),
+      record('b', '2025-03-14T11:00:00.000Z', 'cloud'),
+      record('c', '2025-03-14T11:00:00.000Z', 'cloud'),
+    ];
+
+    expect(mergePulled(local, pulled).map(({ id, note }) => `${id} ${note}`)).toEqual([
+      'a cloud',
+      'b local',
+      'c cloud',
+    ]);
+  });
+
+  it('drops records deleted on another device', () => {
+    const local = [
+      record('a', '2025-03-14T10:00:00.000Z'),
+      record('b', '2025-03-14T10:00:00.000Z'),
+    ];
+
+    const merged = mergePulled(local, [], [{ id: 'a', deletedAt: '2025-03-14T11:00:00.000Z' }]);
+
+    expect(merged.map(({ id }) => id)).toEqual(['b']);
+  });
+
+  it('keeps a record edited here after it was deleted elsewhere', () => {
+    const local = [record('a', '2025-03-14T12:00:00.000Z')];
+
+    const merged = mergePulled(local, [], [{ id: 'a', deletedAt: '2025-03-14T11:00:00.000Z' }]);
+
+    expect(merged).toEqual(local);
+  });
+
+  it('drops a pulled record its own tombstone came after', () => {
+    const merged = mergePulled(
+      [],
+      [record('a', '2025-03-14T10:00:00.000Z')],
+      [{ id: 'a', deletedAt: '2025-03-14T11:00:00.000Z' }],
+    );
+
+    expect(merged).toEqual([]);
+  });
+
+  it('ignores tombstones for records it never had', () => {
+    const local = [record('a', '2025-03-14T10:00:00.000Z')];
+
+    expect(mergePulled(local, [], [{ id: 'z', deletedAt: '2025-03-14T11:00:00.000Z' }])).toEqual(
+      local,
+    );
+  });
+});
@@ -0,0 +1,7 @@
+import { DatabaseSync } from './DatabaseSync';
+
+// Shared local database; cloud sync is enabled when Supabase credentials are configured
+export const dbSync = new DatabaseSync(
+  process.env.EXPO_PUBLIC_SUPABASE_URL,
+  process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY,
+);
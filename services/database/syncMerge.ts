@@ -0,0 +1,33 @@
+/**
+ * A record deleted on another device, as listed in the deletions table in Supabase
+ */
+export interface Tombstone {
+  id: string;
+  deletedAt: string; // ISO, when the deleting device dropped it
+}
+
+/**
+ * Merges records pulled from the cloud into the local ones, last write winning
+ * Pulled records replace local ones by id and tombstones remove them, unless the local copy
+ * was changed after
+ */
+export const mergePulled = <T extends { id: string; updatedAt: string }>(
+  local: T[],
+  pulled: T[],
+  deleted: Tombstone[] = [],
+) => {
+  const merged = new Map(local.map((record) => [record.id, record]));
+  for (const record of pulled) {
+    const current = merged.get(record.id);
+    if (!current || current.updatedAt <= record.updatedAt) {
+      merged.set(record.id, record);
+    }
+  }
+  for (const { id, deletedAt } of deleted) {
+    const current = merged.get(id);
+    if (current && current.updatedAt <= deletedAt) {
+      merged.delete(id);
+    }
+  }
+  return [...merged.values()];
+};
@@ -0,0 +1,21 @@
+import type { NewExpense } from '../../store/useAppStore';
+import { getDeviceTimeZone, toLocalDateKey } from '../session/dayBucketing';
+
+/**
+ * A blank expense for the driver to fill in, dated today
+ * Fuel is the default since it is by far the most common receipt
+ */
+export const createExpenseDraft = (overrides: Partial<NewExpense> = {}): NewExpense => ({
+  status: 'draft',
+  category: 'fuel',
+  amount: 0,
+  paymentMethod: 'card',
+  vendor: '',
+  date: toLocalDateKey(Date.now(), getDeviceTimeZone()),
+  receiptUri: null,
+  extraction: null,
+  odometerKm: null,
+  fuel: null,
+  liters: null,
+  ...overrides,
+});
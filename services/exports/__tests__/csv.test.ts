@@ -0,0 +1,50 @@
+import { describe, expect, it } from '@jest/globals';
+import type { CsvColumn } from '../csv';
+import { toCsv } from '../csv';
+
+interface Row {
+  vendor: string;
+  amount: number;
+}
+
+const COLUMNS: CsvColumn<Row>[] = [
+  { id: 'vendor', label: 'Vendor', value: (row) => row.vendor },
+  { id: 'amount', label: 'Amount (R$)', value: (row) => row.amount },
+];
+
+const csvOf = (rows: Row[], decimalComma = true) =>
+  toCsv(rows, COLUMNS, { columns: ['vendor', 'amount'], decimalComma }, 'America/Sao_Paulo');
+
+describe('toCsv', () => {
+  it('writes a header row and uses the decimal comma with semicolons', () => {
+    expect(csvOf([{ vendor: 'Posto Ipiranga', amount: 45.9 }])).toBe(
+      'Vendor;Amount (R$)\r\nPosto Ipiranga;45,9\r\n',
+    );
+  });
+
+  it('quotes fields holding the delimiter or quotes', () => {
+    expect(csvOf([{ vendor: 'Auto Posto "Central", Ltda', amount: 10 }], false)).toBe(
+      'Vendor,Amount (R$)\r\n"Auto Posto ""Central"", Ltda",10\r\n',
+    );
+  });
+
+  it('keeps text a spreadsheet would run as a formula as plain text', () => {
+    const lines = csvOf([
+      { vendor: '=HYPERLINK("http://example.com")', amount: 1 },
+      { vendor: '+55 11 5555-0000', amount: 1 },
+      { vendor: '-Oficina', amount: 1 },
+      { vendor: '@SUM(A1:A2)', amount: 1 },
+    ]).split('\r\n');
+
+    expect(lines.slice(1, 5)).toEqual([
+      '"\'=HYPERLINK(""http://example.com"")";1',
+      "'+55 11 5555-0000;1",
+      "'-Oficina;1",
+      "'@SUM(A1:A2);1",
+    ]);
+  });
+
+  it('leaves negative amounts as numbers', () => {
+    expect(csvOf([{ vendor: 'Estorno', amount: -12.5 }])).toContain('Estorno;-12,5\r\n');
+  });
+});
@@ -0,0 +1,174 @@
+import { EXPENSE_CATEGORY_LABELS, PAYMENT_METHOD_LABELS } from '../../constants/Expenses';
+import { PLATFORM_LABELS } from '../../constants/Platforms';
+import { FUEL_TYPE_LABELS } from '../../constants/Vehicles';
+import type { Expense, TimerSession, Trip } from '../../store/useAppStore';
+import { toLocalDateKey, toLocalTimeKey } from '../session/dayBucketing';
+
+/**
+ * CSV export of the trip, expense and session ledgers, one file per ledger
+ * Columns are picked by id so the driver's choice survives new columns being added
+ */
+
+export type ExportDataset = 'trips' | 'expenses' | 'sessions';
+
+type CsvValue = string | number | null;
+
+export interface CsvColumn<T> {
+  id: string;
+  label: string; // header row text
+  value: (row: T, timeZone: string) => CsvValue;
+}
+
+export interface CsvOptions {
+  columns: string[]; // column ids, in output order; unknown ids are skipped
+  // pt-BR spreadsheets read "1234,50" and split on ";", since "," is the decimal mark
+  decimalComma: boolean;
+}
+
+export interface ExportSettings {
+  csvColumns: Record<ExportDataset, string[]>;
+  decimalComma: boolean;
+}
+
+const money = (value: number) => Math.round(value * 100) / 100;
+
+const localDateTime = (iso: string, timeZone: string) =>
+  `${toLocalDateKey(iso, timeZone)} ${toLocalTimeKey(iso, timeZone)}`;
+
+export const TRIP_COLUMNS: CsvColumn<Trip>[] = [
+  { id: 'date', label: 'Date', value: (trip, zone) => toLocalDateKey(trip.startedAt, zone) },
+  { id: 'time', label: 'Time', value: (trip, zone) => toLocalTimeKey(trip.startedAt, zone) },
+  { id: 'platform', label: 'Platform', value: (trip) => PLATFORM_LABELS[trip.platform] },
+  { id: 'pickup', label: 'Pickup', value: (trip) => trip.pickup.address },
+  { id: 'dropoff', label: 'Dropoff', value: (trip) => trip.dropoff.address },
+  { id: 'distance_km', label: 'Distance (km)', value: (trip) => trip.distanceKm },
+  { id: 'duration_min', label: 'Duration (min)', value: (trip) => trip.durationMinutes },
+  { id: 'fare', label: 'Fare (R$)', value: (trip) => money(trip.fare) },
+  { id: 'tip', label: 'Tip (R$)', value: (trip) => money(trip.tip) },
+  { id: 'platform_fee', label: 'Platform fee (R$)', value: (trip) => money(trip.platformFee) },
+  {
+    id: 'earnings',
+    label: 'Earnings (R$)',
+    value: (trip) => money(trip.fare + trip.tip - trip.platformFee),
+  },
+  {
+    id: 'payment_method',
+    label: 'Paid with',
+    value: (trip) => PAYMENT_METHOD_LABELS[trip.paymentMethod],
+  },
+  { id: 'session_id', label: 'Session', value: (trip) => trip.sessionId },
+];
+
+export const EXPENSE_COLUMNS: CsvColumn<Expense>[] = [
+  { id: 'date', label: 'Date', value: (expense) => expense.date },
+  {
+    id: 'category',
+    label: 'Category',
+    value: (expense) => EXPENSE_CATEGORY_LABELS[expense.category],
+  },
+  { id: 'vendor', label: 'Vendor', value: (expense) => expense.vendor },
+  { id: 'cnpj', label: 'CNPJ', value: (expense) => expense.extraction?.cnpj?.value ?? null },
+  { id: 'amount', label: 'Amount (R$)', value: (expense) => money(expense.amount) },
+  {
+    id: 'payment_method',
+    label: 'Paid with',
+    value: (expense) => PAYMENT_METHOD_LABELS[expense.paymentMethod],
+  },
+  {
+    id: 'fuel',
+    label: 'Fuel',
+    value: (expense) => (expense.fuel ? FUEL_TYPE_LABELS[expense.fuel] : null),
+  },
+  { id: 'liters', label: 'Liters', value: (expense) => expense.liters },
+  {
+    id: 'price_per_liter',
+    label: 'Price per liter (R$)',
+    value: (expense) => expense.extraction?.pricePerLiter?.value ?? null,
+  },
+  { id: 'odometer_km', label: 'Odometer (km)', value: (expense) => expense.odometerKm },
+  {
+    id: 'access_key',
+    label: 'NFC-e access key',
+    value: (expense) => expense.extraction?.accessKey?.value ?? null,
+  },
+  { id: 'session_id', label: 'Session', value: (expense) => expense.sessionId },
+];
+
+export const SESSION_COLUMNS: CsvColumn<TimerSession>[] = [
+  { id: 'date', label: 'Date', value: (session) => session.date },
+  {
+    id: 'start',
+    label: 'Start',
+    value: (session) => localDateTime(session.startTime, session.timeZone),
+  },
+  { id: 'end', label: 'End', value: (session) => localDateTime(session.endTime, session.timeZone) },
+  {
+    id: 'hours_worked',
+    label: 'Hours worked',
+    value: (session) => money(session.activeDuration / 3600),
+  },
+  {
+    id: 'break_hours',
+    label: 'Break hours',
+    value: (session) => money(session.breakDuration / 3600),
+  },
+  { id: 'end_reason', label: 'Ended by', value: (session) => session.endReason },
+  { id: 'time_zone', label: 'Time zone', value: (session) => session.timeZone },
+  { id: 'session_id', label: 'Session', value: (session) => session.id },
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  csvColumns: {
+    trips: TRIP_COLUMNS.map((column) => column.id).filter((id) => id !== 'session_id'),
+    expenses: EXPENSE_COLUMNS.map((column) => column.id).filter((id) => id !== 'session_id'),
+    sessions: SESSION_COLUMNS.map((column) => column.id).filter((id) => id !== 'session_id'),
+  },
+  decimalComma: true,
+};
+
+// Spreadsheets run text starting with these as a formula, e.g. a vendor named "=HYPERLINK(...)"
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const formatValue = (value: CsvValue, decimalComma: boolean) => {
+  if (value === null) {
+    return '';
+  }
+  if (typeof value === 'number') {
+    const text = String(value);
+    return decimalComma ? text.replace('.', ',') : text;
+  }
+  // A leading quote makes the cell plain text; numbers, negative ones included, are left alone
+  return FORMULA_PREFIX.test(value) ? `'${value}` : value;
+};
+
+// Quotes a field only when it needs it, doubling any quotes inside
+const escapeField = (text: string, delimiter: string) =>
+  text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+/**
+ * Serializes rows to CSV with a header row
+ * Uses CRLF line endings, which every spreadsheet accepts
+ * @param timeZone Zone for trip dates and times; sessions always use their own
+ */
+export const toCsv = <T>(
+  rows: T[],
+  available: CsvColumn<T>[],
+  options: CsvOptions,
+  timeZone: string,
+): string => {
+  const delimiter = options.decimalComma ? ';' : ',';
+  const columns = options.columns
+    .map((id) => available.find((column) => column.id === id))
+    .filter((column): column is CsvColumn<T> => column !== undefined);
+
+  const lines = [
+    columns.map((column) => escapeField(column.label, delimiter)),
+    ...rows.map((row) =>
+      columns.map((column) =>
+        escapeField(formatValue(column.value(row, timeZone), options.decimalComma), delimiter),
+      ),
+    ),
+  ];
+
+  return `${lines.map((fields) => fields.join(delimiter)).join('\r\n')}\r\n`;
+};
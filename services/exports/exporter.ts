@@ -0,0 +1,83 @@
+import type { ReportData, ReportPeriod } from '../reports';
+import { selectReportData } from '../reports';
+import type { CsvColumn, ExportDataset, ExportSettings } from './csv';
+import { EXPENSE_COLUMNS, SESSION_COLUMNS, toCsv, TRIP_COLUMNS } from './csv';
+import { toOfx } from './ofx';
+import type { ExportFile } from './share';
+
+/**
+ * Builds export files for the accountant from the same period selection the reports use
+ */
+
+export type ExportFormat = 'csv' | 'ofx';
+
+export interface ExportRequest {
+  format: ExportFormat;
+  dataset: ExportDataset; // CSV only; OFX always covers trips and expenses
+  period: ReportPeriod;
+}
+
+export interface ExportContext {
+  settings: ExportSettings;
+  timeZone: string;
+  generatedAt: string; // ISO timestamp
+  accountId: string; // OFX account number, usually the driver's user id
+}
+
+// Byte order mark, so Excel opens UTF-8 accents correctly
+const BOM = '\uFEFF';
+
+export const CSV_COLUMNS: { [K in ExportDataset]: CsvColumn<ReportData[K][number]>[] } = {
+  trips: TRIP_COLUMNS,
+  expenses: EXPENSE_COLUMNS,
+  sessions: SESSION_COLUMNS,
+};
+
+const toDatasetCsv = (
+  data: ReportData,
+  dataset: ExportDataset,
+  settings: ExportSettings,
+  timeZone: string,
+) => {
+  const options = {
+    columns: settings.csvColumns[dataset],
+    decimalComma: settings.decimalComma,
+  };
+  switch (dataset) {
+    case 'trips':
+      return toCsv(data.trips, CSV_COLUMNS.trips, options, timeZone);
+    case 'expenses':
+      return toCsv(data.expenses, CSV_COLUMNS.expenses, options, timeZone);
+    case 'sessions':
+      return toCsv(data.sessions, CSV_COLUMNS.sessions, options, timeZone);
+  }
+};
+
+/**
+ * Serializes one period of the books
+ * @param data Everything in the store; narrowed to the period here
+ */
+export const buildExportFile = (
+  data: ReportData,
+  request: ExportRequest,
+  context: ExportContext,
+): ExportFile => {
+  const selected = selectReportData(data, request.period, context.timeZone);
+  const range = `${request.period.start}_${request.period.end}`;
+
+  if (request.format === 'ofx') {
+    return {
+      fileName: `statement_${range}.ofx`,
+      mimeType: 'application/x-ofx',
+      uti: 'public.data',
+      contents: toOfx(selected, request.period, context),
+    };
+  }
+
+  return {
+    fileName: `${request.dataset}_${range}.csv`,
+    mimeType: 'text/csv',
+    uti: 'public.comma-separated-values-text',
+    contents: BOM + toDatasetCsv(selected, request.dataset, context.settings, context.timeZone),
+  };
+};
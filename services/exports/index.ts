@@ -0,0 +1,16 @@
+export {
+  DEFAULT_EXPORT_SETTINGS,
+  EXPENSE_COLUMNS,
+  SESSION_COLUMNS,
+  toCsv,
+  TRIP_COLUMNS,
+} from './csv';
+export type { CsvColumn, CsvOptions, ExportDataset, ExportSettings } from './csv';
+export { buildExportFile, CSV_COLUMNS } from './exporter';
+export type { ExportContext, ExportFormat, ExportRequest } from './exporter';
+export { toOfx } from './ofx';
+export type { OfxOptions } from './ofx';
+export { buildRouteExportFile } from './routes';
+export type { RouteExportFormat } from './routes';
+export { shareFile, writeAndShareExport, writeExportFile } from './share';
+export type { ExportFile } from './share';
@@ -0,0 +1,167 @@
+import { EXPENSE_CATEGORY_LABELS } from '../../constants/Expenses';
+import { PLATFORM_LABELS } from '../../constants/Platforms';
+import type { ReportData, ReportPeriod } from '../reports';
+import { getTimeZoneOffsetMs, toLocalDateKey, toLocalTimeKey } from '../session/dayBucketing';
+
+/**
+ * OFX 1.0.2 bank statement - the format Brazilian accounting software imports from banks
+ * Trips become credits with their platform fee as a separate charge, expenses become debits,
+ * so the statement's totals match the earnings report for the same period
+ */
+
+export interface OfxOptions {
+  accountId: string; // shown as the account number in the accountant's software
+  generatedAt: string; // ISO timestamp
+  timeZone: string; // zone for trip timestamps, usually the device's
+}
+
+interface OfxTransaction {
+  type: 'CREDIT' | 'DEBIT' | 'FEE';
+  postedAt: string; // OFX datetime
+  amount: number; // R$, negative for money going out
+  id: string; // FITID, stable across exports so re-imports are deduplicated
+  name: string;
+  memo: string;
+}
+
+const HEADER = [
+  'OFXHEADER:100',
+  'DATA:OFXSGML',
+  'VERSION:102',
+  'SECURITY:NONE',
+  'ENCODING:USASCII',
+  'CHARSET:1252',
+  'COMPRESSION:NONE',
+  'OLDFILEUID:NONE',
+  'NEWFILEUID:NONE',
+].join('\r\n');
+
+// OFX NAME is limited to 32 characters
+const MAX_NAME_LENGTH = 32;
+
+// Plain ASCII without SGML markup characters, since the header declares USASCII
+const toOfxText = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, ' ')
+    .replace(/[<>&]/g, ' ')
+    .trim();
+
+const toOfxDate = (dateKey: string) => dateKey.replace(/-/g, '');
+
+// e.g. "20261019143000[-3]"
+const toOfxDateTime = (iso: string, timeZone: string) => {
+  const offsetHours = getTimeZoneOffsetMs(new Date(iso).getTime(), timeZone) / 3600000;
+  const time = toLocalTimeKey(iso, timeZone).replace(':', '');
+  return `${toOfxDate(toLocalDateKey(iso, timeZone))}${time}00[${String(offsetHours)}]`;
+};
+
+const formatAmount = (amount: number) => amount.toFixed(2);
+
+const toTransactions = (data: ReportData, timeZone: string): OfxTransaction[] => {
+  const trips = data.trips.flatMap((trip): OfxTransaction[] => {
+    const postedAt = toOfxDateTime(trip.startedAt, timeZone);
+    const platform = PLATFORM_LABELS[trip.platform];
+    const route = `${trip.pickup.address} - ${trip.dropoff.address}`;
+    const credit: OfxTransaction = {
+      type: 'CREDIT',
+      postedAt,
+      amount: trip.fare + trip.tip,
+      id: trip.id,
+      name: `${platform} trip`,
+      memo: trip.tip > 0 ? `${route} (tip ${formatAmount(trip.tip)})` : route,
+    };
+    if (trip.platformFee <= 0) {
+      return [credit];
+    }
+    return [
+      credit,
+      {
+        type: 'FEE',
+        postedAt,
+        amount: -trip.platformFee,
+        id: `${trip.id}-fee`,
+        name: `${platform} fee`,
+        memo: route,
+      },
+    ];
+  });
+
+  const expenses = data.expenses.map((expense): OfxTransaction => ({
+    type: 'DEBIT',
+    postedAt: toOfxDate(expense.date),
+    amount: -expense.amount,
+    id: expense.id,
+    name: expense.vendor || EXPENSE_CATEGORY_LABELS[expense.category],
+    memo: EXPENSE_CATEGORY_LABELS[expense.category],
+  }));
+
+  return [...trips, ...expenses].sort((a, b) => a.postedAt.localeCompare(b.postedAt));
+};
+
+const transactionBlock = (transaction: OfxTransaction) =>
+  [
+    '<STMTTRN>',
+    `<TRNTYPE>${transaction.type}`,
+    `<DTPOSTED>${transaction.postedAt}`,
+    `<TRNAMT>${formatAmount(transaction.amount)}`,
+    `<FITID>${toOfxText(transaction.id)}`,
+    `<NAME>${toOfxText(transaction.name).slice(0, MAX_NAME_LENGTH)}`,
+    `<MEMO>${toOfxText(transaction.memo)}`,
+    '</STMTTRN>',
+  ].join('\r\n');
+
+/**
+ * Serializes a period's trips and expenses as an OFX statement
+ * @param data Already narrowed to the period, see selectReportData
+ */
+export const toOfx = (data: ReportData, period: ReportPeriod, options: OfxOptions): string => {
+  const transactions = toTransactions(data, options.timeZone);
+  const balance = transactions.reduce((sum, transaction) => sum + transaction.amount, 0);
+  const generatedAt = toOfxDateTime(options.generatedAt, options.timeZone);
+
+  return [
+    HEADER,
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1>',
+    '<SONRS>',
+    '<STATUS>',
+    '<CODE>0',
+    '<SEVERITY>INFO',
+    '</STATUS>',
+    `<DTSERVER>${generatedAt}`,
+    '<LANGUAGE>POR',
+    '</SONRS>',
+    '</SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1>',
+    '<STMTTRNRS>',
+    '<TRNUID>1',
+    '<STATUS>',
+    '<CODE>0',
+    '<SEVERITY>INFO',
+    '</STATUS>',
+    '<STMTRS>',
+    '<CURDEF>BRL',
+    '<BANKACCTFROM>',
+    '<BANKID>0000',
+    `<ACCTID>${toOfxText(options.accountId)}`,
+    '<ACCTTYPE>CHECKING',
+    '</BANKACCTFROM>',
+    '<BANKTRANLIST>',
+    `<DTSTART>${toOfxDate(period.start)}`,
+    `<DTEND>${toOfxDate(period.end)}`,
+    ...transactions.map(transactionBlock),
+    '</BANKTRANLIST>',
+    '<LEDGERBAL>',
+    `<BALAMT>${formatAmount(balance)}`,
+    `<DTASOF>${generatedAt}`,
+    '</LEDGERBAL>',
+    '</STMTRS>',
+    '</STMTTRNRS>',
+    '</BANKMSGSRSV1>',
+    '</OFX>',
+    '',
+  ].join('\r\n');
+};
@@ -0,0 +1,41 @@
+import { toGeoJson } from '../location/geojson';
+import { toGpx } from '../location/gpx';
+import type { RouteTrack } from '../location/route';
+import { withDerivedSpeeds } from '../location/route';
+import type { ExportFile } from './share';
+
+/**
+ * Route exports - a session's or trip's GPS track for mapping tools, or as evidence in a
+ * dispute with a platform over a fare
+ */
+
+export type RouteExportFormat = 'gpx' | 'geojson';
+
+/**
+ * Serializes a route; points the receiver gave no speed for get one from their neighbours
+ * @param generatedAt ISO timestamp written into the GPX metadata
+ */
+export const buildRouteExportFile = (
+  track: RouteTrack,
+  format: RouteExportFormat,
+  generatedAt: string,
+): ExportFile => {
+  const routed = { ...track, points: withDerivedSpeeds(track.points) };
+  const baseName = `route_${track.tripId ?? track.sessionId}`;
+
+  if (format === 'geojson') {
+    return {
+      fileName: `${baseName}.geojson`,
+      mimeType: 'application/geo+json',
+      uti: 'public.json',
+      contents: JSON.stringify(toGeoJson(routed), null, 2),
+    };
+  }
+
+  return {
+    fileName: `${baseName}.gpx`,
+    mimeType: 'application/gpx+xml',
+    uti: 'com.topografix.gpx',
+    contents: toGpx(routed, generatedAt),
+  };
+};
@@ -0,0 +1,45 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+// Exports stay in the document directory so the share sheet can still reach them after a retry
+const EXPORTS_DIRECTORY = `${FileSystem.documentDirectory ?? ''}exports/`;
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string; // Android share intent type
+  uti: string; // iOS Uniform Type Identifier
+  contents: string;
+}
+
+/**
+ * Writes an export to app storage, replacing an earlier one with the same name
+ * @returns The file's uri
+ */
+export const writeExportFile = async (file: ExportFile) => {
+  await FileSystem.makeDirectoryAsync(EXPORTS_DIRECTORY, { intermediates: true });
+  const uri = `${EXPORTS_DIRECTORY}${file.fileName}`;
+  await FileSystem.writeAsStringAsync(uri, file.contents, {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+  return uri;
+};
+
+/**
+ * Opens the OS share sheet for a file already on disk
+ */
+export const shareFile = async (uri: string, file: Pick<ExportFile, 'mimeType' | 'uti'>) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(uri, { mimeType: file.mimeType, UTI: file.uti });
+};
+
+/**
+ * Writes an export and hands it to the share sheet
+ * @returns The file's uri, kept so the driver can share it again
+ */
+export const writeAndShareExport = async (file: ExportFile) => {
+  const uri = await writeExportFile(file);
+  await shareFile(uri, file);
+  return uri;
+};
@@ -0,0 +1,116 @@
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import type { LocationFix, LocationProvider } from './types';
+
+// Often enough to follow turns; the trail filter drops the jitter in between
+const FIX_INTERVAL_MS = 5 * 1000;
+
+const LOCATION_TASK = 'dask1-location-updates';
+
+// Where the task sends its fixes; null until a provider starts, which is also the case when
+// the OS relaunches a killed app in the background to deliver them
+let taskListener: ((fix: LocationFix) => void) | null = null;
+const relaunchHandlers = new Set<() => void>();
+
+const toFix = ({ coords, timestamp }: Location.LocationObject): LocationFix => ({
+  latitude: coords.latitude,
+  longitude: coords.longitude,
+  altitude: coords.altitude,
+  accuracy: coords.accuracy,
+  // Negative when the receiver has no speed reading
+  speed: coords.speed !== null && coords.speed >= 0 ? coords.speed : null,
+  timestamp,
+});
+
+// Defined when the bundle loads, as the OS may run the task before any screen mounts
+TaskManager.defineTask<{ locations: Location.LocationObject[] }>(
+  LOCATION_TASK,
+  ({ data, error }) => {
+    if (error) {
+      console.error('[Location] Background updates failed:', error);
+      return Promise.resolve();
+    }
+    if (!taskListener) {
+      for (const handler of relaunchHandlers) {
+        handler();
+      }
+    }
+    if (!taskListener) {
+      // Nothing is recording any more, so the updates were left running by mistake
+      return Location.stopLocationUpdatesAsync(LOCATION_TASK);
+    }
+    for (const location of data.locations) {
+      taskListener(toFix(location));
+    }
+    return Promise.resolve();
+  },
+);
+
+/**
+ * Runs a handler when the OS delivers fixes to an app it relaunched in the background, before
+ * they are handed on, so whatever was recording can start its provider again
+ * @returns Unsubscribe function
+ */
+export const onBackgroundRelaunch = (handler: () => void) => {
+  relaunchHandlers.add(handler);
+  return () => {
+    relaunchHandlers.delete(handler);
+  };
+};
+
+/**
+ * Reads the device's location receiver via expo-location, through a background task
+ * Keeps going with the app in the background; on Android a notification shows while it does
+ */
+export class ExpoLocationProvider implements LocationProvider {
+  // Bumped on every start and stop, so a start still waiting its turn can tell it was overtaken
+  private generation = 0;
+  // The OS calls run one at a time, so a stop cannot land after the start that followed it
+  private queue: Promise<void> = Promise.resolve();
+
+  start(onFix: (fix: LocationFix) => void) {
+    this.generation += 1;
+    const generation = this.generation;
+    taskListener = onFix;
+    return this.enqueue(async () => {
+      const foreground = await Location.requestForegroundPermissionsAsync();
+      if (!foreground.granted) {
+        throw new Error('Location permission denied');
+      }
+      // Asked after the foreground one, as Android only offers "Allow all the time" then
+      const background = await Location.requestBackgroundPermissionsAsync();
+      if (!background.granted) {
+        throw new Error('Background location permission denied');
+      }
+      if (generation !== this.generation) {
+        return;
+      }
+      await Location.startLocationUpdatesAsync(LOCATION_TASK, {
+        accuracy: Location.Accuracy.High,
+        timeInterval: FIX_INTERVAL_MS,
+        activityType: Location.ActivityType.AutomotiveNavigation,
+        showsBackgroundLocationIndicator: true,
+        foregroundService: {
+          notificationTitle: 'Following your location',
+          notificationBody: 'Used for the mileage of your sessions and to watch your zones.',
+        },
+      });
+    });
+  }
+
+  stop() {
+    this.generation += 1;
+    taskListener = null;
+    return this.enqueue(async () => {
+      if (await Location.hasStartedLocationUpdatesAsync(LOCATION_TASK)) {
+        await Location.stopLocationUpdatesAsync(LOCATION_TASK);
+      }
+    });
+  }
+
+  private enqueue(work: () => Promise<void>) {
+    const result = this.queue.then(work);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
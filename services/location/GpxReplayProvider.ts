@@ -0,0 +1,96 @@
+import type { Clock } from '../session/sessionTimeout';
+import { systemClock } from '../session/sessionTimeout';
+import { parseGpx } from './gpx';
+import type { LocationFix, LocationProvider } from './types';
+
+interface GpxReplayOptions {
+  // 1 replays in real time, 10 ten times faster; 0 delivers every fix at once on start
+  playbackRate?: number;
+  // Shift timestamps so the track starts when the replay does, as a live receiver would
+  rebaseTime?: boolean;
+  clock?: Clock;
+}
+
+/**
+ * Stand-in provider that plays back a recorded GPX track
+ * For tests, desktop runs and devices without a location module; starts silent until a
+ * track is loaded
+ */
+export class GpxReplayProvider implements LocationProvider {
+  private points: LocationFix[] = [];
+  private readonly playbackRate: number;
+  private readonly rebaseTime: boolean;
+  private readonly clock: Clock;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listener: ((fix: LocationFix) => void) | null = null;
+
+  constructor(track: string | LocationFix[] = [], options: GpxReplayOptions = {}) {
+    this.playbackRate = options.playbackRate ?? 1;
+    this.rebaseTime = options.rebaseTime ?? true;
+    this.clock = options.clock ?? systemClock;
+    this.load(track);
+  }
+
+  get isReplaying() {
+    return this.listener !== null;
+  }
+
+  /**
+   * Replaces the track; takes effect on the next start
+   * @param track GPX text or fixes in time order
+   */
+  load(track: string | LocationFix[]) {
+    this.points = typeof track === 'string' ? parseGpx(track).points : [...track];
+  }
+
+  start(onFix: (fix: LocationFix) => void) {
+    this.stopTimer();
+    this.listener = onFix;
+    const first = this.points[0];
+    if (!first) {
+      return Promise.resolve();
+    }
+    const offset = this.rebaseTime ? this.clock() - first.timestamp : 0;
+    const fixes = this.points.map((point) => ({ ...point, timestamp: point.timestamp + offset }));
+
+    if (this.playbackRate <= 0) {
+      for (const fix of fixes) {
+        onFix(fix);
+      }
+      return Promise.resolve();
+    }
+    this.schedule(fixes, 0);
+    return Promise.resolve();
+  }
+
+  stop() {
+    this.stopTimer();
+    this.listener = null;
+    return Promise.resolve();
+  }
+
+  // Delivers fixes one after another, spaced as they were recorded
+  private schedule(fixes: LocationFix[], index: number) {
+    const fix = fixes[index];
+    if (!fix) {
+      this.timer = null;
+      return;
+    }
+    const previous = fixes[index - 1];
+    const delayMs = previous ? (fix.timestamp - previous.timestamp) / this.playbackRate : 0;
+    this.timer = setTimeout(
+      () => {
+        this.listener?.(fix);
+        this.schedule(fixes, index + 1);
+      },
+      Math.max(0, delayMs),
+    );
+  }
+
+  private stopTimer() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,151 @@
+import { useAppStore } from '../../store/useAppStore';
+import { dbSync } from '../database';
+import type { DatabaseSync } from '../database/DatabaseSync';
+import type { FixVerdict, TrailConfig, TrailState } from './trail';
+import { addFix, DEFAULT_TRAIL_CONFIG, EMPTY_TRAIL } from './trail';
+import type { LocationFix, LocationProvider } from './types';
+
+type AppStore = Pick<typeof useAppStore, 'getState'>;
+type BreadcrumbDatabase = Pick<DatabaseSync, 'saveBreadcrumbs'>;
+
+interface LocationTrackerOptions {
+  provider: LocationProvider;
+  store?: AppStore;
+  database?: BreadcrumbDatabase;
+  config?: TrailConfig;
+  flushSize?: number; // accepted fixes buffered before they are written; 1 writes each at once
+}
+
+export type LocationListener = (fix: LocationFix, verdict: FixVerdict) => void;
+
+export interface TrackerSnapshot {
+  sessionId: string | null;
+  distanceKm: number;
+  isStationary: boolean;
+  lastFix: LocationFix | null; // last accepted fix
+}
+
+// The app can be killed in the background at any point, so nothing waits in memory
+const DEFAULT_FLUSH_SIZE = 1;
+
+/**
+ * Records the GPS breadcrumb trail of the running session
+ * Fixes go through the trail filters; accepted ones are written to SQLite as they come, and
+ * the distance is kept on the session in the store as it grows
+ */
+export class LocationTracker {
+  private readonly provider: LocationProvider;
+  private readonly store: AppStore;
+  private readonly database: BreadcrumbDatabase;
+  private readonly config: TrailConfig;
+  private readonly flushSize: number;
+  private readonly listeners = new Set<LocationListener>();
+  private trail: TrailState = EMPTY_TRAIL;
+  private sessionId: string | null = null;
+  private pending: LocationFix[] = [];
+  private tracking = false;
+
+  constructor(options: LocationTrackerOptions) {
+    this.provider = options.provider;
+    this.store = options.store ?? useAppStore;
+    this.database = options.database ?? dbSync;
+    this.config = options.config ?? DEFAULT_TRAIL_CONFIG;
+    this.flushSize = options.flushSize ?? DEFAULT_FLUSH_SIZE;
+  }
+
+  get isTracking() {
+    return this.tracking;
+  }
+
+  /**
+   * Starts recording for the running session; does nothing without one
+   * Picks up the session's distance so far, so a restarted app carries on from it
+   */
+  start() {
+    const { currentTimer } = this.store.getState();
+    if (this.tracking || !currentTimer.isRunning || !currentTimer.sessionId) {
+      return;
+    }
+    if (currentTimer.sessionId !== this.sessionId) {
+      this.sessionId = currentTimer.sessionId;
+      this.trail = { ...EMPTY_TRAIL, distanceM: (currentTimer.gpsKm ?? 0) * 1000 };
+    }
+    this.tracking = true;
+    this.provider
+      .start((fix) => {
+        this.handleFix(fix);
+      })
+      .catch((error: unknown) => {
+        this.tracking = false;
+        console.error('[Location] Failed to start tracking:', error);
+      });
+  }
+
+  stop() {
+    if (!this.tracking) {
+      return;
+    }
+    this.tracking = false;
+    this.flush();
+    this.provider.stop().catch((error: unknown) => {
+      console.error('[Location] Failed to stop tracking:', error);
+    });
+  }
+
+  /**
+   * Runs one fix from the provider through the trail filters
+   */
+  handleFix(fix: LocationFix): FixVerdict | null {
+    if (!this.tracking) {
+      return null;
+    }
+    const { trail, verdict } = addFix(this.trail, fix, this.config);
+    this.trail = trail;
+    if (verdict === 'accepted') {
+      this.pending.push(fix);
+      if (this.pending.length >= this.flushSize) {
+        this.flush();
+      }
+      this.store.getState().recordGpsDistance(trail.distanceM / 1000);
+    }
+    for (const listener of this.listeners) {
+      listener(fix, verdict);
+    }
+    return verdict;
+  }
+
+  /**
+   * Writes buffered fixes to the database
+   */
+  flush() {
+    const { sessionId } = this;
+    const fixes = this.pending;
+    this.pending = [];
+    if (!sessionId || fixes.length === 0) {
+      return;
+    }
+    this.database.saveBreadcrumbs(sessionId, fixes).catch((error: unknown) => {
+      console.error('[Location] Failed to save breadcrumbs:', error);
+    });
+  }
+
+  getSnapshot(): TrackerSnapshot {
+    return {
+      sessionId: this.sessionId,
+      distanceKm: this.trail.distanceM / 1000,
+      isStationary: this.trail.isStationary,
+      lastFix: this.trail.last,
+    };
+  }
+
+  /**
+   * Hears every fix the provider delivers, with what the filters made of it
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: LocationListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
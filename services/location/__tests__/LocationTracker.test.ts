@@ -0,0 +1,126 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import type { useAppStore } from '../../../store/useAppStore';
+import { GpxReplayProvider } from '../GpxReplayProvider';
+import { LocationTracker } from '../LocationTracker';
+import type { LocationFix } from '../types';
+
+// The real store and database open SQLite and MMKV; the tracker is handed stand-ins instead
+jest.mock('../../../store/useAppStore', () => ({ useAppStore: {} }));
+jest.mock('../../database', () => ({ dbSync: {} }));
+
+type AppState = ReturnType<typeof useAppStore.getState>;
+
+const START = Date.parse('2025-03-14T12:00:00.000Z');
+const METRES_PER_DEGREE = 111_195;
+
+const fixAt = (northM: number, seconds: number, accuracy = 5): LocationFix => ({
+  latitude: -23.55 + northM / METRES_PER_DEGREE,
+  longitude: -46.63,
+  altitude: null,
+  accuracy,
+  speed: null,
+  timestamp: START + seconds * 1000,
+});
+
+const setup = (
+  track: LocationFix[],
+  currentTimer: Partial<AppState['currentTimer']> = { isRunning: true, sessionId: 'session_1' },
+  flushSize?: number,
+) => {
+  const recordGpsDistance = jest.fn<(km: number) => void>();
+  const saveBreadcrumbs = jest.fn((_sessionId: string, _fixes: LocationFix[]) => Promise.resolve());
+  const state = { currentTimer, recordGpsDistance } as unknown as AppState;
+  // Delivers the whole track on start, with its own timestamps
+  const provider = new GpxReplayProvider(track, { playbackRate: 0, rebaseTime: false });
+  const tracker = new LocationTracker({
+    provider,
+    store: { getState: () => state },
+    database: { saveBreadcrumbs },
+    ...(flushSize !== undefined && { flushSize }),
+  });
+  return { tracker, provider, recordGpsDistance, saveBreadcrumbs };
+};
+
+describe('LocationTracker', () => {
+  it('records nothing without a running session', () => {
+    const { tracker, provider, recordGpsDistance } = setup([fixAt(0, 0), fixAt(100, 10)], {
+      isRunning: false,
+      sessionId: null,
+    });
+    tracker.start();
+
+    expect(tracker.isTracking).toBe(false);
+    expect(provider.isReplaying).toBe(false);
+    expect(recordGpsDistance).not.toHaveBeenCalled();
+  });
+
+  it('keeps the session distance up to date as fixes are accepted', () => {
+    const { tracker, recordGpsDistance } = setup([fixAt(0, 0), fixAt(100, 10), fixAt(105, 15)]);
+    tracker.start();
+
+    expect(recordGpsDistance).toHaveBeenCalledTimes(2);
+    expect(recordGpsDistance.mock.calls[1]?.[0]).toBeCloseTo(0.1, 3);
+    expect(tracker.getSnapshot()).toMatchObject({ sessionId: 'session_1', isStationary: false });
+  });
+
+  it('writes only accepted fixes, on stop', () => {
+    const track = [fixAt(0, 0), fixAt(5, 5), fixAt(100, 10, 90), fixAt(100, 15)];
+    const { tracker, provider, saveBreadcrumbs } = setup(track, undefined, 20);
+    tracker.start();
+    expect(saveBreadcrumbs).not.toHaveBeenCalled();
+
+    tracker.stop();
+    expect(saveBreadcrumbs).toHaveBeenCalledWith('session_1', [track[0], track[3]]);
+    expect(provider.isReplaying).toBe(false);
+  });
+
+  it('writes in batches while tracking', () => {
+    const track = [fixAt(0, 0), fixAt(100, 10), fixAt(200, 20), fixAt(300, 30), fixAt(400, 40)];
+    const { tracker, saveBreadcrumbs } = setup(track, undefined, 2);
+    tracker.start();
+
+    expect(saveBreadcrumbs).toHaveBeenCalledTimes(2);
+    tracker.stop();
+    expect(saveBreadcrumbs).toHaveBeenCalledTimes(3);
+    expect(saveBreadcrumbs.mock.calls[2]?.[1]).toEqual([track[4]]);
+  });
+
+  it('writes each accepted fix as it comes by default', () => {
+    const track = [fixAt(0, 0), fixAt(5, 5), fixAt(100, 10)];
+    const { tracker, saveBreadcrumbs } = setup(track);
+    tracker.start();
+
+    expect(saveBreadcrumbs.mock.calls).toEqual([
+      ['session_1', [track[0]]],
+      ['session_1', [track[2]]],
+    ]);
+  });
+
+  it('carries on from the distance the session already has', () => {
+    const { tracker, recordGpsDistance } = setup([fixAt(0, 0), fixAt(1000, 60)], {
+      isRunning: true,
+      sessionId: 'session_1',
+      gpsKm: 12,
+    });
+    tracker.start();
+
+    expect(recordGpsDistance.mock.calls[1]?.[0]).toBeCloseTo(13, 3);
+  });
+
+  it('tells listeners what the filters made of each fix', () => {
+    const { tracker } = setup([fixAt(0, 0), fixAt(5, 5), fixAt(5000, 10)]);
+    const verdicts: string[] = [];
+    tracker.subscribe((_fix, verdict) => verdicts.push(verdict));
+    tracker.start();
+
+    expect(verdicts).toEqual(['accepted', 'jitter', 'implausible']);
+  });
+
+  it('ignores fixes that arrive after stopping', () => {
+    const { tracker } = setup([]);
+    tracker.start();
+    tracker.stop();
+
+    expect(tracker.handleFix(fixAt(0, 0))).toBeNull();
+  });
+});
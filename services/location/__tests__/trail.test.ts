@@ -0,0 +1,101 @@
+import { describe, expect, it } from '@jest/globals';
+import { addFix, distanceMeters, EMPTY_TRAIL, getTrailDistanceM } from '../trail';
+import type { FixVerdict, TrailState } from '../trail';
+import type { LocationFix } from '../types';
+
+const START = Date.parse('2025-03-14T12:00:00.000Z');
+const METRES_PER_DEGREE = 111_195;
+
+// A fix the given distance north of a point in São Paulo, the given seconds into the drive
+const fixAt = (northM: number, seconds: number, accuracy: number | null = 5): LocationFix => ({
+  latitude: -23.55 + northM / METRES_PER_DEGREE,
+  longitude: -46.63,
+  altitude: null,
+  accuracy,
+  speed: null,
+  timestamp: START + seconds * 1000,
+});
+
+const run = (fixes: LocationFix[]) => {
+  let trail: TrailState = EMPTY_TRAIL;
+  const verdicts: FixVerdict[] = [];
+  for (const fix of fixes) {
+    const result = addFix(trail, fix);
+    trail = result.trail;
+    verdicts.push(result.verdict);
+  }
+  return { trail, verdicts };
+};
+
+describe('distanceMeters', () => {
+  it('measures along the ground', () => {
+    expect(distanceMeters(fixAt(0, 0), fixAt(1000, 0))).toBeCloseTo(1000, 0);
+  });
+});
+
+describe('addFix', () => {
+  it('accepts the first fix and counts moves from there', () => {
+    const { trail, verdicts } = run([fixAt(0, 0), fixAt(100, 10), fixAt(250, 20)]);
+
+    expect(verdicts).toEqual(['accepted', 'accepted', 'accepted']);
+    expect(trail.distanceM).toBeCloseTo(250, 0);
+    expect(trail.accepted).toBe(3);
+  });
+
+  it('drops fixes less accurate than the limit', () => {
+    const { trail, verdicts } = run([fixAt(0, 0), fixAt(100, 10, 80)]);
+
+    expect(verdicts).toEqual(['accepted', 'inaccurate']);
+    expect(trail.distanceM).toBe(0);
+    expect(trail.dropped).toBe(1);
+  });
+
+  it('treats small moves as jitter', () => {
+    const { trail, verdicts } = run([fixAt(0, 0), fixAt(10, 5), fixAt(-8, 10)]);
+
+    expect(verdicts).toEqual(['accepted', 'jitter', 'jitter']);
+    expect(trail.distanceM).toBe(0);
+  });
+
+  it('treats moves within the fix accuracy as jitter', () => {
+    expect(run([fixAt(0, 0), fixAt(30, 10, 40)]).verdicts).toEqual(['accepted', 'jitter']);
+  });
+
+  it('drops fixes that arrive out of order', () => {
+    expect(run([fixAt(0, 10), fixAt(100, 5)]).verdicts).toEqual(['accepted', 'jitter']);
+  });
+
+  it('drops jumps faster than a car can drive', () => {
+    const { trail, verdicts } = run([fixAt(0, 0), fixAt(1000, 5), fixAt(100, 10)]);
+
+    expect(verdicts).toEqual(['accepted', 'implausible', 'accepted']);
+    expect(trail.distanceM).toBeCloseTo(100, 0);
+  });
+
+  it('stops counting once parked and picks up when driving off', () => {
+    const { trail, verdicts } = run([
+      fixAt(0, 0),
+      fixAt(5, 60),
+      fixAt(-5, 130),
+      fixAt(25, 200),
+      fixAt(300, 230),
+    ]);
+
+    expect(verdicts).toEqual(['accepted', 'jitter', 'stationary', 'stationary', 'accepted']);
+    expect(trail.isStationary).toBe(false);
+    expect(trail.distanceM).toBeCloseTo(300, 0);
+  });
+
+  it('reports the vehicle as stopped while parked', () => {
+    const { trail } = run([fixAt(0, 0), fixAt(5, 60), fixAt(-5, 130)]);
+
+    expect(trail.isStationary).toBe(true);
+  });
+});
+
+describe('getTrailDistanceM', () => {
+  it('adds up the legs of a stored trail', () => {
+    expect(getTrailDistanceM([fixAt(0, 0), fixAt(100, 10), fixAt(50, 20)])).toBeCloseTo(150, 0);
+    expect(getTrailDistanceM([])).toBe(0);
+  });
+});
@@ -0,0 +1,73 @@
+import type { RouteTrack } from './route';
+import { summarizeRoute } from './route';
+
+/**
+ * GeoJSON (RFC 7946) output of a route
+ * One LineString feature; per-point times and speeds go in coordinateProperties, the layout
+ * togeojson and Mapbox tools read back
+ */
+
+type Position = [number, number] | [number, number, number];
+
+export interface RouteFeature {
+  type: 'Feature';
+  geometry: { type: 'LineString'; coordinates: Position[] };
+  properties: {
+    name: string;
+    sessionId: string;
+    tripId: string | null;
+    startTime: string | null;
+    endTime: string | null;
+    distanceKm: number;
+    coordinateProperties: {
+      times: string[]; // ISO, one per coordinate
+      speeds: (number | null)[]; // m/s, one per coordinate
+    };
+  };
+}
+
+export interface RouteFeatureCollection {
+  type: 'FeatureCollection';
+  features: RouteFeature[];
+}
+
+const round = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+/**
+ * Builds the GeoJSON object for a route; coordinates are longitude first, as the spec requires
+ */
+export const toGeoJson = (track: RouteTrack): RouteFeatureCollection => {
+  const summary = summarizeRoute(track.points);
+  return {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        geometry: {
+          type: 'LineString',
+          coordinates: track.points.map((point): Position => {
+            const position: [number, number] = [
+              round(point.longitude, 6),
+              round(point.latitude, 6),
+            ];
+            return point.altitude !== null ? [...position, round(point.altitude, 1)] : position;
+          }),
+        },
+        properties: {
+          name: track.name,
+          sessionId: track.sessionId,
+          tripId: track.tripId,
+          startTime: summary.startTime,
+          endTime: summary.endTime,
+          distanceKm: round(summary.distanceKm, 3),
+          coordinateProperties: {
+            times: track.points.map((point) => new Date(point.timestamp).toISOString()),
+            speeds: track.points.map((point) =>
+              point.speed !== null ? round(point.speed, 2) : null,
+            ),
+          },
+        },
+      },
+    ],
+  };
+};
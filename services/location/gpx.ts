@@ -0,0 +1,135 @@
+import type { LocationFix } from './types';
+
+/**
+ * GPX track reading and writing
+ * Only what the tracker records is read back - track points with their time, elevation and
+ * speed - so a small pattern-based reader is enough and no XML parser is bundled
+ */
+
+export interface GpxTrack {
+  name: string | null;
+  points: LocationFix[];
+}
+
+const TRACK_POINT = /<trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/trkpt>)/g;
+const LATITUDE = /\blat\s*=\s*["']([^"']*)["']/;
+const LONGITUDE = /\blon\s*=\s*["']([^"']*)["']/;
+// Elements match whatever namespace prefix they carry, e.g. gpxtpx:speed
+const TIME = /<(?:[\w-]+:|)time>\s*([^<]*?)\s*<\//;
+const ELEVATION = /<(?:[\w-]+:|)ele>\s*([^<]*?)\s*<\//;
+const SPEED = /<(?:[\w-]+:|)speed>\s*([^<]*?)\s*<\//;
+const NAME = /<name>\s*([^<]*?)\s*<\/name>/;
+
+const read = (text: string, pattern: RegExp) => pattern.exec(text)?.[1] ?? null;
+
+const toNumber = (text: string | null) => {
+  if (text === null || text === '') {
+    return null;
+  }
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+};
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+/**
+ * Reads the track points of a GPX 1.0 or 1.1 file, in file order
+ * Points without coordinates or a time are skipped; replay and distance both need them
+ * @throws When the text is not GPX
+ */
+export const parseGpx = (xml: string): GpxTrack => {
+  if (!/<gpx\b/.test(xml)) {
+    throw new Error('Not a GPX file');
+  }
+
+  const points: LocationFix[] = [];
+  for (const match of xml.matchAll(TRACK_POINT)) {
+    const attributes = match[1] ?? '';
+    const body = match[2] ?? '';
+    const latitude = toNumber(read(attributes, LATITUDE));
+    const longitude = toNumber(read(attributes, LONGITUDE));
+    const time = read(body, TIME);
+    const timestamp = time ? Date.parse(time) : NaN;
+    if (latitude === null || longitude === null || Number.isNaN(timestamp)) {
+      continue;
+    }
+    points.push({
+      latitude,
+      longitude,
+      altitude: toNumber(read(body, ELEVATION)),
+      // GPX only has dilution of precision, which is not a distance
+      accuracy: null,
+      // GPX 1.0 has <speed>; 1.1 moved it into Garmin's TrackPointExtension
+      speed: toNumber(read(body, SPEED)),
+      timestamp,
+    });
+  }
+
+  // The first name before any point is the track's, not a waypoint's
+  const name = read(xml.replace(/<trkpt\b[\s\S]*$/, ''), NAME);
+  return { name: name !== null ? decodeEntities(name) : null, points };
+};
+
+const encodeEntities = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// GPX 1.1 has no speed element, so speed goes in Garmin's extension, which most tools read
+const toTrackPoint = (point: LocationFix) => {
+  const lines = [
+    `      <trkpt lat="${point.latitude.toFixed(6)}" lon="${point.longitude.toFixed(6)}">`,
+  ];
+  if (point.altitude !== null) {
+    lines.push(`        <ele>${point.altitude.toFixed(1)}</ele>`);
+  }
+  lines.push(`        <time>${new Date(point.timestamp).toISOString()}</time>`);
+  if (point.speed !== null) {
+    lines.push(
+      '        <extensions>',
+      '          <gpxtpx:TrackPointExtension>',
+      `            <gpxtpx:speed>${point.speed.toFixed(2)}</gpxtpx:speed>`,
+      '          </gpxtpx:TrackPointExtension>',
+      '        </extensions>',
+    );
+  }
+  lines.push('      </trkpt>');
+  return lines.join('\n');
+};
+
+/**
+ * Writes a track as a GPX 1.1 file, one segment, with times and speeds (m/s) on every point
+ * @param generatedAt ISO timestamp for the file's metadata
+ */
+export const toGpx = (track: GpxTrack, generatedAt: string): string => {
+  const name = encodeEntities(track.name ?? 'Route');
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Dask"',
+    '  xmlns="http://www.topografix.com/GPX/1/1"',
+    '  xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2"',
+    '  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '  xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">',
+    '  <metadata>',
+    `    <name>${name}</name>`,
+    `    <time>${generatedAt}</time>`,
+    '  </metadata>',
+    '  <trk>',
+    `    <name>${name}</name>`,
+    '    <trkseg>',
+    ...track.points.map(toTrackPoint),
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,65 @@
+import { useAppStore } from '../../store/useAppStore';
+import { dbSync } from '../database';
+import type { DatabaseSync } from '../database/DatabaseSync';
+import { parseGpx } from './gpx';
+import type { TrailConfig } from './trail';
+import { addFix, DEFAULT_TRAIL_CONFIG, EMPTY_TRAIL } from './trail';
+import type { LocationFix } from './types';
+
+type AppStore = Pick<typeof useAppStore, 'getState'>;
+
+interface ImportGpxOptions {
+  store?: AppStore;
+  database?: Pick<DatabaseSync, 'saveBreadcrumbs' | 'deleteBreadcrumbs'>;
+  config?: TrailConfig;
+}
+
+export interface GpxImportResult {
+  accepted: number;
+  dropped: number;
+  distanceKm: number;
+}
+
+/**
+ * Backfills a session's trail from a GPX file, e.g. one recorded by another app or device
+ * Points go through the same filters as live fixes, so the distance compares with tracked
+ * sessions; only points inside the session's time span are kept, and they replace any trail
+ * the session already had
+ * @throws When the text is not GPX or the session is not a finished one
+ */
+export const importGpxTrack = async (
+  xml: string,
+  sessionId: string,
+  options: ImportGpxOptions = {},
+): Promise<GpxImportResult> => {
+  const store = options.store ?? useAppStore;
+  const database = options.database ?? dbSync;
+  // Only finished sessions; a running one is still being tracked live
+  const session = store.getState().timerSessions.find((candidate) => candidate.id === sessionId);
+  if (!session) {
+    throw new Error(`Session ${sessionId} not found`);
+  }
+  const start = new Date(session.startTime).getTime();
+  const end = new Date(session.endTime).getTime();
+
+  let trail = EMPTY_TRAIL;
+  const accepted: LocationFix[] = [];
+  for (const point of parseGpx(xml).points) {
+    if (point.timestamp < start || point.timestamp > end) {
+      continue;
+    }
+    const result = addFix(trail, point, options.config ?? DEFAULT_TRAIL_CONFIG);
+    trail = result.trail;
+    if (result.verdict === 'accepted') {
+      accepted.push(point);
+    }
+  }
+
+  const distanceKm = trail.distanceM / 1000;
+  if (accepted.length > 0) {
+    await database.deleteBreadcrumbs(sessionId);
+    await database.saveBreadcrumbs(sessionId, accepted);
+    store.getState().setSessionGpsKm(sessionId, distanceKm);
+  }
+  return { accepted: accepted.length, dropped: trail.dropped, distanceKm };
+};
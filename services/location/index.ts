@@ -0,0 +1,41 @@
+import { Platform } from 'react-native';
+import { ExpoLocationProvider, onBackgroundRelaunch } from './ExpoLocationProvider';
+import { GpxReplayProvider } from './GpxReplayProvider';
+import { LocationTracker } from './LocationTracker';
+import type { LocationProvider } from './types';
+
+export { ExpoLocationProvider, onBackgroundRelaunch } from './ExpoLocationProvider';
+export { toGeoJson } from './geojson';
+export type { RouteFeature, RouteFeatureCollection } from './geojson';
+export { parseGpx, toGpx } from './gpx';
+export type { GpxTrack } from './gpx';
+export { GpxReplayProvider } from './GpxReplayProvider';
+export { importGpxTrack } from './importGpx';
+export type { GpxImportResult } from './importGpx';
+export { LocationTracker } from './LocationTracker';
+export type { LocationListener, TrackerSnapshot } from './LocationTracker';
+export { selectTripPoints, summarizeRoute, withDerivedSpeeds } from './route';
+export type { RouteSummary, RouteTrack } from './route';
+export {
+  addFix,
+  BREADCRUMB_MAX_AGE_DAYS,
+  DEFAULT_TRAIL_CONFIG,
+  distanceMeters,
+  EMPTY_TRAIL,
+  getTrailDistanceM,
+} from './trail';
+export type { FixVerdict, TrailConfig, TrailState } from './trail';
+export type { LocationFix, LocationProvider } from './types';
+
+// Desktop browsers have no receiver worth tracking a drive with, so there a GPX track loaded
+// on the Routes screen is replayed instead
+export const replayProvider = Platform.OS === 'web' ? new GpxReplayProvider() : null;
+
+export const locationProvider: LocationProvider = replayProvider ?? new ExpoLocationProvider();
+
+export const locationTracker = new LocationTracker({ provider: locationProvider });
+
+// The store keeps the running session across a restart, so the tracker picks it up again
+onBackgroundRelaunch(() => {
+  locationTracker.start();
+});
@@ -0,0 +1,56 @@
+import type { Trip } from '../../store/useAppStore';
+import { distanceMeters, getTrailDistanceM } from './trail';
+import type { LocationFix } from './types';
+
+/**
+ * Routes - a session's or trip's stretch of the breadcrumb trail, ready to be written out
+ */
+
+export interface RouteTrack {
+  name: string;
+  sessionId: string;
+  tripId: string | null; // null for a whole session
+  points: LocationFix[];
+}
+
+export interface RouteSummary {
+  startTime: string | null; // ISO
+  endTime: string | null;
+  distanceKm: number;
+}
+
+/**
+ * The part of a session's trail driven during a trip, from pickup to drop-off
+ */
+export const selectTripPoints = (points: LocationFix[], trip: Trip): LocationFix[] => {
+  const start = new Date(trip.startedAt).getTime();
+  const end = start + trip.durationMinutes * 60 * 1000;
+  return points.filter((point) => point.timestamp >= start && point.timestamp <= end);
+};
+
+/**
+ * Fills in speeds the receiver left out, from the distance to the previous point
+ */
+export const withDerivedSpeeds = (points: LocationFix[]): LocationFix[] =>
+  points.map((point, index) => {
+    if (point.speed !== null) {
+      return point;
+    }
+    // The first point has nothing to measure from
+    const previous = points[index - 1];
+    if (!previous || point.timestamp <= previous.timestamp) {
+      return { ...point, speed: 0 };
+    }
+    const seconds = (point.timestamp - previous.timestamp) / 1000;
+    return { ...point, speed: distanceMeters(previous, point) / seconds };
+  });
+
+export const summarizeRoute = (points: LocationFix[]): RouteSummary => {
+  const first = points[0];
+  const last = points[points.length - 1];
+  return {
+    startTime: first ? new Date(first.timestamp).toISOString() : null,
+    endTime: last ? new Date(last.timestamp).toISOString() : null,
+    distanceKm: getTrailDistanceM(points) / 1000,
+  };
+};
@@ -0,0 +1,138 @@
+import type { LocationFix } from './types';
+
+/**
+ * Breadcrumb trail filtering - turns raw fixes into the points worth keeping and the distance
+ * actually driven
+ * A parked phone still "moves" a few metres a second as the fix wanders, which adds up to
+ * kilometres over a shift, so small moves and long stops are left out of both
+ */
+
+export interface TrailConfig {
+  maxAccuracyM: number; // fixes less accurate than this are dropped
+  minMoveM: number; // moves shorter than this, or than the fix's own accuracy, are jitter
+  maxSpeedMs: number; // implied speeds above this are a bad fix, not driving
+  stationaryRadiusM: number; // staying within this of one spot...
+  stationaryAfterMs: number; // ...for this long means the vehicle has stopped
+}
+
+export const DEFAULT_TRAIL_CONFIG: TrailConfig = {
+  maxAccuracyM: 50,
+  minMoveM: 20,
+  maxSpeedMs: 55, // about 200 km/h
+  stationaryRadiusM: 30,
+  stationaryAfterMs: 2 * 60 * 1000,
+};
+
+// Trails older than this are pruned; the session keeps its tracked distance
+export const BREADCRUMB_MAX_AGE_DAYS = 180;
+
+// What happened to a fix: only accepted ones are stored and counted
+export type FixVerdict = 'accepted' | 'inaccurate' | 'jitter' | 'implausible' | 'stationary';
+
+export interface TrailState {
+  last: LocationFix | null; // last accepted fix
+  anchor: LocationFix | null; // where the vehicle may have stopped
+  isStationary: boolean;
+  distanceM: number;
+  accepted: number;
+  dropped: number;
+}
+
+export const EMPTY_TRAIL: TrailState = {
+  last: null,
+  anchor: null,
+  isStationary: false,
+  distanceM: 0,
+  accepted: 0,
+  dropped: 0,
+};
+
+const EARTH_RADIUS_M = 6_371_000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two positions
+ */
+export const distanceMeters = (
+  a: Pick<LocationFix, 'latitude' | 'longitude'>,
+  b: Pick<LocationFix, 'latitude' | 'longitude'>,
+): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Runs one fix through the filters
+ * Stops are detected by the fix staying near an anchor point, not by the reported speed,
+ * which many receivers leave out or smooth over several seconds
+ */
+export const addFix = (
+  trail: TrailState,
+  fix: LocationFix,
+  config: TrailConfig = DEFAULT_TRAIL_CONFIG,
+): { trail: TrailState; verdict: FixVerdict } => {
+  const drop = (verdict: FixVerdict, updates: Partial<TrailState> = {}) => ({
+    trail: { ...trail, ...updates, dropped: trail.dropped + 1 },
+    verdict,
+  });
+
+  if (fix.accuracy !== null && fix.accuracy > config.maxAccuracyM) {
+    return drop('inaccurate');
+  }
+
+  const { last } = trail;
+  if (!last) {
+    return {
+      trail: { ...trail, last: fix, anchor: fix, accepted: trail.accepted + 1 },
+      verdict: 'accepted',
+    };
+  }
+
+  const elapsedMs = fix.timestamp - last.timestamp;
+  if (elapsedMs <= 0) {
+    return drop('jitter');
+  }
+
+  // Stopped once the fix has stayed near the anchor long enough; moving off it starts over
+  const anchor = trail.anchor ?? last;
+  const nearAnchor = distanceMeters(anchor, fix) <= config.stationaryRadiusM;
+  const isStationary = nearAnchor && fix.timestamp - anchor.timestamp >= config.stationaryAfterMs;
+  const nextAnchor = nearAnchor ? anchor : fix;
+  if (isStationary) {
+    return drop('stationary', { anchor: nextAnchor, isStationary });
+  }
+
+  const moved = distanceMeters(last, fix);
+  if (moved / (elapsedMs / 1000) > config.maxSpeedMs) {
+    return drop('implausible');
+  }
+  if (moved < Math.max(config.minMoveM, fix.accuracy ?? 0)) {
+    return drop('jitter', { anchor: nextAnchor, isStationary });
+  }
+
+  return {
+    trail: {
+      ...trail,
+      last: fix,
+      anchor: nextAnchor,
+      isStationary,
+      distanceM: trail.distanceM + moved,
+      accepted: trail.accepted + 1,
+    },
+    verdict: 'accepted',
+  };
+};
+
+/**
+ * Distance along a stored trail, for points that already went through the filters
+ */
+export const getTrailDistanceM = (points: LocationFix[]): number =>
+  points.reduce((sum, point, index) => {
+    const previous = points[index - 1];
+    return previous ? sum + distanceMeters(previous, point) : sum;
+  }, 0);
@@ -0,0 +1,20 @@
+/**
+ * A position reported by the device's location receiver
+ */
+export interface LocationFix {
+  latitude: number;
+  longitude: number;
+  altitude: number | null; // m above sea level
+  accuracy: number | null; // m, horizontal; null when the receiver does not say
+  speed: number | null; // m/s as measured by the receiver, not derived from positions
+  timestamp: number; // epoch ms
+}
+
+/**
+ * Source of location fixes the tracker records from
+ */
+export interface LocationProvider {
+  // Starts delivering fixes; onFix fires for every one, in time order
+  start: (onFix: (fix: LocationFix) => void) => Promise<void>;
+  stop: () => Promise<void>;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from '@jest/globals';
+import type { TimerSession, Trip } from '../../../store/useAppStore';
+import type { ReportPeriod } from '../../reports/period';
+import { buildMileageLog, createOdometerReading } from '../mileageLog';
+
+const DAY: ReportPeriod = { kind: 'day', start: '2025-03-14', end: '2025-03-14' };
+
+const session = (
+  id: string,
+  startKm: number,
+  endKm: number,
+  pickupKm: number,
+  startTime = '2025-03-14T08:00:00-03:00',
+): TimerSession => ({
+  id,
+  startTime,
+  endTime: '2025-03-14T18:00:00-03:00',
+  duration: 10 * 3600,
+  activeDuration: 10 * 3600,
+  breakDuration: 0,
+  breaks: [],
+  date: '2025-03-14',
+  timeZone: 'America/Sao_Paulo',
+  endReason: 'user',
+  vehicleId: 'car',
+  odometerStart: createOdometerReading(startKm, 'session', null, startTime),
+  odometerEnd: createOdometerReading(endKm, 'session', null),
+  pickupKm,
+  gpsKm: null,
+});
+
+const trip = (sessionId: string, distanceKm: number): Trip => ({
+  id: `${sessionId}_${String(distanceKm)}`,
+  sessionId,
+  vehicleId: 'car',
+  platform: 'uber',
+  pickup: { address: 'Rua Augusta, 1500' },
+  dropoff: { address: 'Av. Paulista, 1000' },
+  distanceKm,
+  durationMinutes: 20,
+  fare: 20,
+  tip: 0,
+  platformFee: 5,
+  paymentMethod: 'in_app',
+  startedAt: '2025-03-14T10:00:00-03:00',
+  originZoneId: null,
+  createdAt: '2025-03-14T13:00:00.000Z',
+  updatedAt: '2025-03-14T13:00:00.000Z',
+});
+
+describe('buildMileageLog', () => {
+  it('splits the odometer km into passenger, pickup and unaccounted km', () => {
+    const log = buildMileageLog([session('shift', 1000, 1100, 20)], [trip('shift', 60)], DAY);
+
+    expect(log.sessions[0]?.issue).toBeNull();
+    expect(log.totals).toEqual({
+      passengerKm: 60,
+      pickupKm: 20,
+      unaccountedKm: 20,
+      personalKm: 0,
+      totalKm: 100,
+    });
+  });
+
+  it('counts no more than the odometer saw for a session whose trips exceed it', () => {
+    const log = buildMileageLog([session('shift', 1000, 1100, 30)], [trip('shift', 90)], DAY);
+
+    expect(log.sessions[0]).toMatchObject({ issue: 'trips_exceed', passengerKm: 90, pickupKm: 30 });
+    expect(log.totals).toMatchObject({ passengerKm: 90, pickupKm: 10, totalKm: 100 });
+    expect(log.businessKm).toBe(100);
+    expect(log.unreconciled).toBe(1);
+  });
+
+  it('caps the trips too when they alone exceed the odometer', () => {
+    const log = buildMileageLog([session('shift', 1000, 1100, 30)], [trip('shift', 130)], DAY);
+
+    expect(log.totals).toMatchObject({ passengerKm: 100, pickupKm: 0, totalKm: 100 });
+    expect(log.days[0]?.totalKm).toBe(100);
+  });
+
+  it('adds the km between sessions as personal', () => {
+    const log = buildMileageLog(
+      [
+        session('morning', 1000, 1100, 0),
+        session('evening', 1130, 1200, 0, '2025-03-14T19:00:00-03:00'),
+      ],
+      [],
+      DAY,
+    );
+
+    expect(log.totals.personalKm).toBe(30);
+    expect(log.businessShare).toBeCloseTo(170 / 200, 6);
+  });
+});
@@ -0,0 +1,11 @@
+export { buildMileageLog, createOdometerReading, reconcileSessions } from './mileageLog';
+export type {
+  MileageDay,
+  MileageIssue,
+  MileageLog,
+  MileageTotals,
+  OdometerEdge,
+  OdometerReading,
+  OdometerSource,
+  SessionMileage,
+} from './mileageLog';
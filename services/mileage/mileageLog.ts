@@ -0,0 +1,215 @@
+import type { TimerSession, Trip } from '../../store/useAppStore';
+import type { ReportPeriod } from '../reports/period';
+import { isInPeriod, listPeriodDays } from '../reports/period';
+
+/**
+ * Mileage log - odometer readings at the start and end of each session, reconciled against
+ * the km the driver can account for
+ * Tax deductions and rental contracts both want the km driven per day split into km with a
+ * passenger, km driving to pickups and personal km, and the odometer is the only thing that
+ * sees all of it
+ */
+
+export type OdometerEdge = 'start' | 'end';
+
+// 'session' readings were taken as the session started or stopped, 'manual' ones typed in later
+export type OdometerSource = 'session' | 'manual';
+
+export interface OdometerReading {
+  km: number;
+  recordedAt: string;
+  source: OdometerSource;
+  correctedFrom: number | null; // km of the reading this one replaced, kept for the audit trail
+}
+
+// Why a session's km could not be fully reconciled
+export type MileageIssue = 'missing_start' | 'missing_end' | 'reversed' | 'trips_exceed';
+
+export interface SessionMileage {
+  sessionId: string;
+  date: string; // YYYY-MM-DD the session started on
+  vehicleId: string | null;
+  odometerStart: OdometerReading | null;
+  odometerEnd: OdometerReading | null;
+  odometerKm: number | null; // end minus start; null while a reading is missing or wrong
+  passengerKm: number; // summed trip distances
+  pickupKm: number; // pickup legs of the offers accepted in the session
+  unaccountedKm: number | null; // odometer km on neither a trip nor a pickup leg
+  personalKm: number | null; // since the vehicle's previous session ended
+  issue: MileageIssue | null;
+}
+
+export interface MileageTotals {
+  passengerKm: number;
+  pickupKm: number;
+  unaccountedKm: number;
+  personalKm: number;
+  totalKm: number;
+}
+
+export interface MileageDay extends MileageTotals {
+  date: string; // YYYY-MM-DD
+}
+
+export interface MileageLog {
+  period: ReportPeriod;
+  sessions: SessionMileage[];
+  days: MileageDay[];
+  totals: MileageTotals;
+  businessKm: number; // everything driven while working, the km that can be deducted
+  businessShare: number | null; // business km over all km; null when nothing was driven
+  unreconciled: number; // sessions with an issue, whose km are only partly counted
+}
+
+const EMPTY_TOTALS: MileageTotals = {
+  passengerKm: 0,
+  pickupKm: 0,
+  unaccountedKm: 0,
+  personalKm: 0,
+  totalKm: 0,
+};
+
+// GPS trip distances run a little long; this much over the odometer still reconciles
+const TRIP_DISTANCE_TOLERANCE = 1.05;
+
+/**
+ * Creates a reading, remembering the one it replaces
+ */
+export const createOdometerReading = (
+  km: number,
+  source: OdometerSource,
+  previous: OdometerReading | null,
+  at: string = new Date().toISOString(),
+): OdometerReading => ({
+  km,
+  recordedAt: at,
+  source,
+  correctedFrom: previous && previous.km !== km ? previous.km : (previous?.correctedFrom ?? null),
+});
+
+/**
+ * Reconciles every session against its trips
+ * Personal km are the gap between a vehicle's previous end reading and its next start reading,
+ * so sessions are walked in order per vehicle
+ */
+export const reconcileSessions = (sessions: TimerSession[], trips: Trip[]): SessionMileage[] => {
+  const passengerKm = new Map<string, number>();
+  for (const trip of trips) {
+    if (trip.sessionId) {
+      passengerKm.set(trip.sessionId, (passengerKm.get(trip.sessionId) ?? 0) + trip.distanceKm);
+    }
+  }
+
+  const lastEnd = new Map<string | null, OdometerReading | null>();
+  return [...sessions]
+    .sort((a, b) => a.startTime.localeCompare(b.startTime))
+    .map((session) => {
+      const { odometerStart, odometerEnd } = session;
+      const passenger = passengerKm.get(session.id) ?? 0;
+
+      let issue: MileageIssue | null = null;
+      let odometerKm: number | null = null;
+      let unaccountedKm: number | null = null;
+      if (!odometerStart) {
+        issue = 'missing_start';
+      } else if (!odometerEnd) {
+        issue = 'missing_end';
+      } else if (odometerEnd.km < odometerStart.km) {
+        issue = 'reversed';
+      } else {
+        odometerKm = odometerEnd.km - odometerStart.km;
+        const accounted = passenger + session.pickupKm;
+        if (accounted > odometerKm * TRIP_DISTANCE_TOLERANCE) {
+          issue = 'trips_exceed';
+        }
+        unaccountedKm = Math.max(0, odometerKm - accounted);
+      }
+
+      const previousEnd = lastEnd.get(session.vehicleId);
+      const personalKm =
+        previousEnd && odometerStart && odometerStart.km >= previousEnd.km
+          ? odometerStart.km - previousEnd.km
+          : null;
+      lastEnd.set(session.vehicleId, odometerEnd);
+
+      return {
+        sessionId: session.id,
+        date: session.date,
+        vehicleId: session.vehicleId,
+        odometerStart,
+        odometerEnd,
+        odometerKm,
+        passengerKm: passenger,
+        pickupKm: session.pickupKm,
+        unaccountedKm,
+        personalKm,
+        issue,
+      };
+    });
+};
+
+/**
+ * The passenger and pickup km a session adds to the totals
+ * When they come to more than the odometer saw, only the odometer km are counted: pickup legs
+ * are estimated from the offers, so they give way before the trips do
+ */
+const getAccountedKm = (session: SessionMileage) => {
+  if (session.issue !== 'trips_exceed' || session.odometerKm === null) {
+    return { passengerKm: session.passengerKm, pickupKm: session.pickupKm };
+  }
+  const passengerKm = Math.min(session.passengerKm, session.odometerKm);
+  return {
+    passengerKm,
+    pickupKm: Math.min(session.pickupKm, session.odometerKm - passengerKm),
+  };
+};
+
+const addSession = (totals: MileageTotals, session: SessionMileage): MileageTotals => {
+  const accounted = getAccountedKm(session);
+  const unaccountedKm = totals.unaccountedKm + (session.unaccountedKm ?? 0);
+  const personalKm = totals.personalKm + (session.personalKm ?? 0);
+  const passengerKm = totals.passengerKm + accounted.passengerKm;
+  const pickupKm = totals.pickupKm + accounted.pickupKm;
+  return {
+    passengerKm,
+    pickupKm,
+    unaccountedKm,
+    personalKm,
+    totalKm: passengerKm + pickupKm + unaccountedKm + personalKm,
+  };
+};
+
+/**
+ * Mileage log for a period, per day and in total
+ * Personal km are filed on the day of the session they lead up to
+ */
+export const buildMileageLog = (
+  sessions: TimerSession[],
+  trips: Trip[],
+  period: ReportPeriod,
+): MileageLog => {
+  const reconciled = reconcileSessions(sessions, trips).filter((session) =>
+    isInPeriod(session.date, period),
+  );
+
+  const byDay = new Map<string, MileageTotals>();
+  for (const session of reconciled) {
+    byDay.set(session.date, addSession(byDay.get(session.date) ?? EMPTY_TOTALS, session));
+  }
+  const days = listPeriodDays(period)
+    .filter((date) => byDay.has(date))
+    .map((date) => ({ date, ...(byDay.get(date) ?? EMPTY_TOTALS) }));
+
+  const totals = reconciled.reduce(addSession, EMPTY_TOTALS);
+  const businessKm = totals.totalKm - totals.personalKm;
+
+  return {
+    period,
+    sessions: reconciled,
+    days,
+    totals,
+    businessKm,
+    businessShare: totals.totalKm > 0 ? businessKm / totals.totalKm : null,
+    unreconciled: reconciled.filter((session) => session.issue !== null).length,
+  };
+};
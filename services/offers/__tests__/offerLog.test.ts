@@ -0,0 +1,59 @@
+import { describe, expect, it } from '@jest/globals';
+import { DEFAULT_COST_PROFILE, calculateProfitability } from '../profitability';
+import { createOfferLogEntry, isOfferRecapture } from '../offerLog';
+import type { TripOffer } from '../types';
+
+const offer = (overrides: Partial<TripOffer> = {}): TripOffer => ({
+  id: 'offer_uber_30.00_8.0',
+  platform: 'uber',
+  fare: 30,
+  pickupDistanceKm: 2,
+  pickupMinutes: 5,
+  tripDistanceKm: 8,
+  tripMinutes: 20,
+  pickupAddress: null,
+  destination: null,
+  surge: null,
+  passengerRating: null,
+  detectedAt: '2025-03-14T21:00:00.000Z',
+  ...overrides,
+});
+
+const entryFor = (logged: TripOffer) =>
+  createOfferLogEntry(
+    logged,
+    calculateProfitability(logged, DEFAULT_COST_PROFILE),
+    { decision: 'accept', source: 'profitability', matches: [] },
+    null,
+  );
+
+describe('createOfferLogEntry', () => {
+  it('tells apart offers with the same terms seen at different times', () => {
+    const first = entryFor(offer());
+    const later = entryFor(offer({ detectedAt: '2025-03-14T23:00:00.000Z' }));
+
+    expect(first.id).not.toBe(later.id);
+  });
+});
+
+describe('isOfferRecapture', () => {
+  const entry = entryFor(offer());
+
+  it('matches the same offer read again while it is up', () => {
+    const again = offer({ pickupDistanceKm: 1.8, detectedAt: '2025-03-14T21:00:20.000Z' });
+
+    expect(isOfferRecapture(entry, again, '2025-03-14T21:00:10.000Z')).toBe(true);
+  });
+
+  it('takes the same terms after the window for a new offer', () => {
+    const later = offer({ detectedAt: '2025-03-14T21:05:00.000Z' });
+
+    expect(isOfferRecapture(entry, later, '2025-03-14T21:00:10.000Z')).toBe(false);
+  });
+
+  it('takes other terms for a new offer', () => {
+    const other = offer({ id: 'offer_uber_32.00_8.0', detectedAt: '2025-03-14T21:00:20.000Z' });
+
+    expect(isOfferRecapture(entry, other, '2025-03-14T21:00:10.000Z')).toBe(false);
+  });
+});
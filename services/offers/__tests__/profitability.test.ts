@@ -0,0 +1,104 @@
+import { describe, expect, it } from '@jest/globals';
+import { calculateProfitability, DEFAULT_COST_PROFILE, getPickupLeg } from '../profitability';
+import type { TripOffer } from '../types';
+
+const offer = (overrides: Partial<TripOffer> = {}): TripOffer => ({
+  id: 'offer_1',
+  platform: 'uber',
+  fare: 30,
+  pickupDistanceKm: 2,
+  pickupMinutes: 5,
+  tripDistanceKm: 8,
+  tripMinutes: 20,
+  pickupAddress: null,
+  destination: null,
+  surge: null,
+  passengerRating: null,
+  detectedAt: '2025-03-14T21:00:00.000Z',
+  ...overrides,
+});
+
+describe('getPickupLeg', () => {
+  it('uses the pickup the platform shows', () => {
+    expect(getPickupLeg(offer())).toEqual({ km: 2, minutes: 5 });
+  });
+
+  it('fills in a missing distance or time at urban speed', () => {
+    expect(getPickupLeg(offer({ pickupDistanceKm: null, pickupMinutes: 6 }))).toEqual({
+      km: 2.5,
+      minutes: 6,
+    });
+    expect(getPickupLeg(offer({ pickupDistanceKm: 5, pickupMinutes: null }))).toEqual({
+      km: 5,
+      minutes: 12,
+    });
+    expect(getPickupLeg(offer({ pickupDistanceKm: null, pickupMinutes: null }))).toEqual({
+      km: 0,
+      minutes: 0,
+    });
+  });
+});
+
+describe('calculateProfitability', () => {
+  it('counts the pickup leg in the per-km and per-hour figures', () => {
+    const result = calculateProfitability(offer(), DEFAULT_COST_PROFILE);
+
+    expect(result).toMatchObject({
+      totalKm: 10,
+      totalMinutes: 25,
+      fuelCost: 6,
+      maintenanceCost: 2.5,
+      netProfit: 21.5,
+      grossPerKm: 3,
+      netPerKm: 2.15,
+      netPerHour: 51.6,
+      recommendation: 'accept',
+    });
+    expect(result.reasons).toEqual(['R$ 51,60/h net meets your R$ 30,00/h target']);
+  });
+
+  it('prices fuel from the consumption and the pump price', () => {
+    const thirsty = { ...DEFAULT_COST_PROFILE, kmPerLiter: 8, fuelPricePerLiter: 6.4 };
+
+    expect(calculateProfitability(offer(), thirsty).fuelCost).toBe(8);
+  });
+
+  it('leaves fuel out when the consumption is unknown', () => {
+    const unknown = { ...DEFAULT_COST_PROFILE, kmPerLiter: 0 };
+
+    expect(calculateProfitability(offer(), unknown).fuelCost).toBe(0);
+  });
+
+  it('declines below the hourly target', () => {
+    const result = calculateProfitability(offer({ fare: 20 }), DEFAULT_COST_PROFILE);
+
+    expect(result.netPerHour).toBe(27.6);
+    expect(result.recommendation).toBe('decline');
+    expect(result.reasons).toEqual(['R$ 27,60/h net is below your R$ 30,00/h target']);
+  });
+
+  it('declines below the per-km minimum', () => {
+    const profile = { ...DEFAULT_COST_PROFILE, targetHourlyRate: 0, minGrossPerKm: 3.5 };
+    const result = calculateProfitability(offer(), profile);
+
+    expect(result.recommendation).toBe('decline');
+    expect(result.reasons).toEqual(['R$ 3,00/km is below your R$ 3,50/km minimum']);
+  });
+
+  it('declines an offer that loses money', () => {
+    const result = calculateProfitability(offer({ fare: 5 }), DEFAULT_COST_PROFILE);
+
+    expect(result.netProfit).toBe(-3.5);
+    expect(result.reasons[0]).toBe('Loses money: costs R$ 8,50 for a R$ 5,00 fare');
+  });
+
+  it('declines when the pickup is longer than the trip', () => {
+    const result = calculateProfitability(
+      offer({ fare: 60, pickupDistanceKm: 9, pickupMinutes: 12, tripDistanceKm: 6 }),
+      DEFAULT_COST_PROFILE,
+    );
+
+    expect(result.recommendation).toBe('decline');
+    expect(result.reasons).toEqual(['Pickup (9.0 km) is longer than the trip itself']);
+  });
+});
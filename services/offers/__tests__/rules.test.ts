@@ -0,0 +1,50 @@
+import { describe, expect, it } from '@jest/globals';
+import { calculateProfitability, DEFAULT_COST_PROFILE } from '../profitability';
+import type { OfferRule, OfferRuleCondition } from '../rules';
+import { evaluateOfferRules } from '../rules';
+import type { TripOffer } from '../types';
+
+const OFFER: TripOffer = {
+  id: 'offer_uber_12.50_8.0',
+  platform: 'uber',
+  fare: 12.5,
+  pickupDistanceKm: 3.5,
+  pickupMinutes: 8,
+  tripDistanceKm: 8,
+  tripMinutes: 20,
+  pickupAddress: null,
+  destination: null,
+  surge: null,
+  passengerRating: 4.75,
+  detectedAt: '2025-03-14T21:00:00.000Z',
+};
+
+const reasonFor = (condition: OfferRuleCondition) => {
+  const rule: OfferRule = {
+    id: 'rule',
+    name: 'Rule',
+    enabled: true,
+    effect: 'decline',
+    timeWindow: null,
+    platforms: [],
+    ...condition,
+  };
+  const profitability = calculateProfitability(OFFER, DEFAULT_COST_PROFILE);
+  return evaluateOfferRules(OFFER, profitability, [rule]).matches[0]?.reason;
+};
+
+describe('evaluateOfferRules', () => {
+  it('explains matches with amounts in reais', () => {
+    expect(reasonFor({ type: 'min_fare', value: 15 })).toBe('Fare R$ 12,50 below R$ 15,00');
+    // R$ 12.50 over 11.5 km
+    expect(reasonFor({ type: 'min_gross_per_km', value: 1.5 })).toBe('R$ 1,09/km below R$ 1,50/km');
+    expect(reasonFor({ type: 'min_net_per_hour', value: 1000 })).toMatch(
+      /^R\$ \d+,\d{2}\/h below R\$ 1\.000,00\/h$/,
+    );
+  });
+
+  it('writes distances and ratings with the decimal comma', () => {
+    expect(reasonFor({ type: 'max_pickup_km', value: 2 })).toBe('Pickup 3,5 km over 2,0 km');
+    expect(reasonFor({ type: 'min_passenger_rating', value: 4.8 })).toBe('Rating 4,75 below 4,80');
+  });
+});
@@ -0,0 +1,96 @@
+import type { ProfitabilityResult } from './profitability';
+import type { RuleDecision, RuleEvaluation } from './rules';
+import type { TripOffer } from './types';
+
+/**
+ * Offer history - every detected offer with what Cherry Picker advised and what happened
+ * Kept on the device only; declined offers reveal where passengers wanted to go
+ */
+
+export type OfferOutcome = 'accepted' | 'declined' | 'expired';
+export type OfferDecisionMaker = 'driver' | 'rule';
+export type OfferDecisionChannel = 'tap' | 'voice' | 'auto';
+
+export interface OfferLogEntry {
+  id: string; // the offer id and when it was first seen, as the same terms can come up again
+  sessionId: string | null;
+  offer: TripOffer;
+  profitability: ProfitabilityResult;
+  suggestion: RuleDecision; // what the rules and profitability engine advised
+  matchedRuleIds: string[];
+  outcome: OfferOutcome | null; // null while the offer is still on screen
+  decidedBy: OfferDecisionMaker | null;
+  channel: OfferDecisionChannel | null;
+  decidedAt: string | null;
+  latencyMs: number | null; // from detection to decision
+}
+
+export interface OfferDecision {
+  outcome: OfferOutcome;
+  decidedBy: OfferDecisionMaker | null; // null when the offer expired untouched
+  channel: OfferDecisionChannel | null;
+}
+
+export interface OfferLogRetention {
+  maxAgeDays: number;
+  maxEntries: number;
+}
+
+// Enough for a few months of full-time driving without the table growing unbounded
+export const OFFER_LOG_RETENTION: OfferLogRetention = {
+  maxAgeDays: 90,
+  maxEntries: 5000,
+};
+
+// Longer than any app keeps an offer up, so a re-read of the same terms after it is a new offer
+export const OFFER_RECAPTURE_WINDOW_MS = 60 * 1000;
+
+/**
+ * Whether an offer read off the screen is the logged one read again
+ * @param lastSeenAt When the logged offer was last read, ISO timestamp
+ */
+export const isOfferRecapture = (entry: OfferLogEntry, offer: TripOffer, lastSeenAt: string) =>
+  entry.offer.id === offer.id &&
+  Date.parse(offer.detectedAt) - Date.parse(lastSeenAt) <= OFFER_RECAPTURE_WINDOW_MS;
+
+/**
+ * Log entry for an offer that has just appeared on screen
+ */
+export const createOfferLogEntry = (
+  offer: TripOffer,
+  profitability: ProfitabilityResult,
+  evaluation: RuleEvaluation,
+  sessionId: string | null,
+): OfferLogEntry => ({
+  id: `${offer.id}_${String(Date.parse(offer.detectedAt))}`,
+  sessionId,
+  offer,
+  profitability,
+  suggestion: evaluation.decision,
+  matchedRuleIds: evaluation.matches.map((match) => match.ruleId),
+  outcome: null,
+  decidedBy: null,
+  channel: null,
+  decidedAt: null,
+  latencyMs: null,
+});
+
+/**
+ * Records how an offer was resolved
+ * @param entry The pending log entry
+ * @param decision What happened and who decided
+ * @param decidedAt When it happened, ISO timestamp
+ */
+export const resolveOfferLogEntry = (
+  entry: OfferLogEntry,
+  decision: OfferDecision,
+  decidedAt: string,
+): OfferLogEntry => ({
+  ...entry,
+  ...decision,
+  decidedAt,
+  latencyMs: Math.max(
+    0,
+    new Date(decidedAt).getTime() - new Date(entry.offer.detectedAt).getTime(),
+  ),
+});
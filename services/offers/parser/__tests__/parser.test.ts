@@ -0,0 +1,88 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  CONSENT_CATEGORIES,
+  ConsentRequiredError,
+  createConsentRecord,
+} from '../../../consent/consent';
+import { OFFER_FIXTURES } from '../fixtures';
+import { parseOfferText } from '../index';
+
+const FULL_CONSENT = createConsentRecord('timer_1', CONSENT_CATEGORIES, '2025-03-14T21:00:00.000Z');
+
+describe('parseOfferText', () => {
+  it.each(OFFER_FIXTURES.map((fixture) => [fixture.name, fixture] as const))(
+    '%s',
+    (_name, fixture) => {
+      const offer = parseOfferText(fixture.snapshot, FULL_CONSENT);
+      if (fixture.expected === null) {
+        expect(offer).toBeNull();
+        return;
+      }
+      expect(offer).not.toBeNull();
+      const { id, ...fields } = offer ?? { id: '' };
+      expect(id).toEqual(expect.any(String));
+      expect(fields).toEqual(fixture.expected);
+    },
+  );
+
+  it('gives the same offer read again the same id, and other terms another', () => {
+    const [fixture] = OFFER_FIXTURES;
+    if (!fixture) {
+      return;
+    }
+    const first = parseOfferText(fixture.snapshot, FULL_CONSENT);
+    const again = parseOfferText(
+      {
+        ...fixture.snapshot,
+        capturedAt: '2025-03-14T21:40:05.000Z',
+        // The pickup leg shrinks as the driver keeps moving
+        text: fixture.snapshot.text.replace('7 min (2,1 km)', '6 min (1,8 km)'),
+      },
+      FULL_CONSENT,
+    );
+    const other = parseOfferText(
+      { ...fixture.snapshot, text: fixture.snapshot.text.replace('R$ 18,45', 'R$ 21,90') },
+      FULL_CONSENT,
+    );
+
+    expect(again?.id).toBe(first?.id);
+    expect(other?.id).not.toBe(first?.id);
+  });
+
+  it('throws without consent', () => {
+    const [fixture] = OFFER_FIXTURES;
+    expect(fixture).toBeDefined();
+    if (!fixture) {
+      return;
+    }
+    expect(() => parseOfferText(fixture.snapshot, null)).toThrow(ConsentRequiredError);
+  });
+
+  it('throws once consent is revoked', () => {
+    const [fixture] = OFFER_FIXTURES;
+    if (!fixture) {
+      return;
+    }
+    const revoked = {
+      ...FULL_CONSENT,
+      revokedAt: '2025-03-14T21:30:00.000Z',
+      revokeReason: 'driver' as const,
+    };
+    expect(() => parseOfferText(fixture.snapshot, revoked)).toThrow(ConsentRequiredError);
+  });
+
+  it('blanks addresses and rating outside the consent', () => {
+    const fixture = OFFER_FIXTURES.find((candidate) => candidate.expected?.pickupAddress);
+    if (!fixture) {
+      throw new Error('No fixture with an address');
+    }
+    const offer = parseOfferText(
+      fixture.snapshot,
+      createConsentRecord('timer_1', ['offer_terms'], '2025-03-14T21:00:00.000Z'),
+    );
+    expect(offer?.fare).toBe(fixture.expected?.fare);
+    expect(offer?.pickupAddress).toBeNull();
+    expect(offer?.destination).toBeNull();
+    expect(offer?.passengerRating).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import { parseBrazilianNumber } from '../../../utils/currency';
+
+/**
+ * Field extractors shared by the platform adapters
+ * Platforms localise their screens for Brazil, so amounts read "R$ 35,50" and distances "2,3 km"
+ */
+
+/**
+ * Splits snapshot text into trimmed, non-empty lines
+ */
+export const toLines = (text: string): string[] =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+/**
+ * Index of the first line matching the pattern, or -1
+ */
+export const findLineIndex = (lines: string[], pattern: RegExp): number =>
+  lines.findIndex((line) => pattern.test(line));
+
+/**
+ * First amount in reais on the line, e.g. 35.5 for "R$ 35,50"
+ */
+export const parseMoney = (line: string): number | null => {
+  const match = /R\$\s*([\d.]+,\d{2})/.exec(line);
+  return match?.[1] ? parseBrazilianNumber(match[1]) : null;
+};
+
+/**
+ * First distance on the line in km, converting metres, e.g. 0.8 for "800 m"
+ */
+export const parseDistanceKm = (line: string): number | null => {
+  const match = /([\d.,]+)\s*(km|m)\b/i.exec(line);
+  if (!match?.[1] || !match[2]) {
+    return null;
+  }
+  const value = parseBrazilianNumber(match[1]);
+  if (value === null) {
+    return null;
+  }
+  return match[2].toLowerCase() === 'm' ? value / 1000 : value;
+};
+
+/**
+ * Duration on the line in minutes, e.g. 65 for "1 h 5 min"
+ */
+export const parseMinutes = (line: string): number | null => {
+  const hours = /(\d+)\s*h\b/i.exec(line);
+  const minutes = /(\d+)\s*min/i.exec(line);
+  if (!hours && !minutes) {
+    return null;
+  }
+  return parseInt(hours?.[1] ?? '0', 10) * 60 + parseInt(minutes?.[1] ?? '0', 10);
+};
+
+/**
+ * Passenger rating shown next to a star, e.g. 4.92 for "★ 4,92 (120)"
+ */
+export const parseRating = (line: string): number | null => {
+  if (!line.includes('★')) {
+    return null;
+  }
+  const match = /([1-5],\d{1,2})/.exec(line);
+  return match?.[1] ? parseBrazilianNumber(match[1]) : null;
+};
+
+/**
+ * Surge multiplier or dynamic pricing tag as shown, e.g. "1,4x" or "Dinâmico"
+ */
+export const parseSurge = (lines: string[]): string | null => {
+  const multiplier = lines
+    .map((line) => /(\d,\d{1,2})\s?x\b/i.exec(line)?.[1])
+    .find((value) => value !== undefined);
+  if (multiplier) {
+    return `${multiplier}x`;
+  }
+  const tag = lines.find((line) => /din[aâ]mic/i.test(line));
+  return tag ?? null;
+};
+
+/**
+ * Offer ids come from the offer's terms, so the screen read again while it is up gives the same id
+ * The pickup leg is left out, as it shrinks while the driver keeps moving
+ */
+export const createOfferId = (platform: string, fare: number, tripDistanceKm: number) =>
+  `offer_${platform}_${fare.toFixed(2)}_${tripDistanceKm.toFixed(1)}`;
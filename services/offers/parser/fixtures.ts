@@ -0,0 +1,168 @@
+import type { TripOffer } from '../types';
+import type { ScreenSnapshot } from './types';
+
+/**
+ * Sample offer screens for regression-checking the parser adapters
+ * Captured text with personal details replaced; add a fixture whenever a platform changes its layout
+ */
+
+export interface OfferFixture {
+  name: string;
+  snapshot: ScreenSnapshot;
+  // What parseOfferText should return under full consent, without the generated id; null for screens
+  // that are not offers
+  expected: Omit<TripOffer, 'id'> | null;
+}
+
+const CAPTURED_AT = '2025-03-14T21:40:00.000Z';
+
+export const OFFER_FIXTURES: OfferFixture[] = [
+  {
+    name: 'Uber - UberX with pickup and rating',
+    snapshot: {
+      packageName: 'com.ubercab.driver',
+      capturedAt: CAPTURED_AT,
+      text: [
+        'UberX',
+        'R$ 18,45',
+        '★ 4,92 (120)',
+        '7 min (2,1 km) de distância',
+        'Rua Augusta, 1500 - Consolação',
+        'Viagem de 18 min (8,4 km)',
+        'Av. Paulista, 1000 - Bela Vista',
+        'Aceitar',
+      ].join('\n'),
+    },
+    expected: {
+      platform: 'uber',
+      fare: 18.45,
+      pickupDistanceKm: 2.1,
+      pickupMinutes: 7,
+      tripDistanceKm: 8.4,
+      tripMinutes: 18,
+      pickupAddress: 'Rua Augusta, 1500 - Consolação',
+      destination: 'Av. Paulista, 1000 - Bela Vista',
+      surge: null,
+      passengerRating: 4.92,
+      detectedAt: CAPTURED_AT,
+    },
+  },
+  {
+    name: 'Uber - surge, pickup in metres, trip over an hour',
+    snapshot: {
+      packageName: 'com.ubercab.driver',
+      capturedAt: CAPTURED_AT,
+      text: [
+        'Comfort',
+        '1,8x',
+        'R$ 1.050,00',
+        '★ 5,00',
+        '2 min (800 m) de distância',
+        'Aeroporto de Guarulhos - Terminal 2',
+        'Viagem de 1 h 35 min (112,5 km)',
+        'Santos, SP',
+        'Aceitar',
+      ].join('\n'),
+    },
+    expected: {
+      platform: 'uber',
+      fare: 1050,
+      pickupDistanceKm: 0.8,
+      pickupMinutes: 2,
+      tripDistanceKm: 112.5,
+      tripMinutes: 95,
+      pickupAddress: 'Aeroporto de Guarulhos - Terminal 2',
+      destination: 'Santos, SP',
+      surge: '1,8x',
+      passengerRating: 5,
+      detectedAt: CAPTURED_AT,
+    },
+  },
+  {
+    name: 'Uber - home screen while offline is not an offer',
+    snapshot: {
+      packageName: 'com.ubercab.driver',
+      capturedAt: CAPTURED_AT,
+      text: ['Você está offline', 'Ganhos de hoje', 'R$ 142,80', 'Ficar online'].join('\n'),
+    },
+    expected: null,
+  },
+  {
+    name: '99 - labelled destination with dynamic pricing',
+    snapshot: {
+      packageName: 'com.app99.driver',
+      capturedAt: CAPTURED_AT,
+      text: [
+        '99Pop',
+        'R$ 22,30',
+        'Dinâmico 1,3x',
+        '4,85 ★',
+        'A 5 min · 1,8 km',
+        'Rua dos Pinheiros, 300',
+        'Corrida 25 min · 11,2 km',
+        'Destino: Shopping Ibirapuera',
+        'Aceitar corrida',
+      ].join('\n'),
+    },
+    expected: {
+      platform: '99',
+      fare: 22.3,
+      pickupDistanceKm: 1.8,
+      pickupMinutes: 5,
+      tripDistanceKm: 11.2,
+      tripMinutes: 25,
+      pickupAddress: 'Rua dos Pinheiros, 300',
+      destination: 'Shopping Ibirapuera',
+      surge: '1,3x',
+      passengerRating: 4.85,
+      detectedAt: CAPTURED_AT,
+    },
+  },
+  {
+    name: '99 - older layout without rating or labels, detected from text only',
+    snapshot: {
+      packageName: null,
+      capturedAt: CAPTURED_AT,
+      text: [
+        '99 Poupa',
+        'R$ 9,90',
+        'Até o passageiro 3 min · 950 m',
+        'Rua Vergueiro, 2000',
+        'Viagem 12 min · 4,6 km',
+        'Vila Mariana',
+        'Aceitar',
+      ].join('\n'),
+    },
+    expected: {
+      platform: '99',
+      fare: 9.9,
+      pickupDistanceKm: 0.95,
+      pickupMinutes: 3,
+      tripDistanceKm: 4.6,
+      tripMinutes: 12,
+      pickupAddress: 'Rua Vergueiro, 2000',
+      destination: 'Vila Mariana',
+      surge: null,
+      passengerRating: null,
+      detectedAt: CAPTURED_AT,
+    },
+  },
+  {
+    name: '99 - offer without a trip leg is rejected',
+    snapshot: {
+      packageName: 'com.app99.driver',
+      capturedAt: CAPTURED_AT,
+      text: ['99Pop', 'R$ 15,00', 'A 4 min · 1,2 km', 'Procurando corridas...'].join('\n'),
+    },
+    expected: null,
+  },
+  {
+    name: 'Unsupported app is ignored',
+    snapshot: {
+      packageName: 'com.whatsapp',
+      capturedAt: CAPTURED_AT,
+      text: ['Corrida 25 min · 11,2 km', 'R$ 30,00'].join('\n'),
+    },
+    expected: null,
+  },
+];
@@ -0,0 +1,31 @@
+import type { ConsentRecord } from '../../consent/consent';
+import { assertConsent, redactOffer } from '../../consent/consent';
+import type { TripOffer } from '../types';
+import { ninetyNineAdapter } from './ninetyNine';
+import type { OfferParserAdapter, ScreenSnapshot } from './types';
+import { uberAdapter } from './uber';
+
+export type { OfferParserAdapter, ScreenSnapshot } from './types';
+
+// Tried in order; the first adapter that claims the snapshot parses it
+export const OFFER_PARSER_ADAPTERS: OfferParserAdapter[] = [uberAdapter, ninetyNineAdapter];
+
+/**
+ * Turns raw screen text from a ride-hailing app into a trip offer
+ * @param snapshot Text captured by the accessibility service
+ * @param consent The driver's consent for the running session
+ * @param adapters Platform adapters to try, defaults to all supported platforms
+ * @returns The offer with fields outside the consent blanked, or null when the screen is not an
+ * offer from a supported platform
+ * @throws ConsentRequiredError when there is no active consent to read offers
+ */
+export const parseOfferText = (
+  snapshot: ScreenSnapshot,
+  consent: ConsentRecord | null,
+  adapters: OfferParserAdapter[] = OFFER_PARSER_ADAPTERS,
+): TripOffer | null => {
+  assertConsent(consent, 'offer_terms');
+  const adapter = adapters.find((candidate) => candidate.matches(snapshot));
+  const offer = adapter ? adapter.parse(snapshot) : null;
+  return offer ? redactOffer(offer, consent) : null;
+};
@@ -0,0 +1,70 @@
+import type { OfferParserAdapter } from './types';
+import {
+  createOfferId,
+  findLineIndex,
+  parseDistanceKm,
+  parseMinutes,
+  parseMoney,
+  parseRating,
+  parseSurge,
+  toLines,
+} from './fields';
+
+const NINETY_NINE_DRIVER_PACKAGE = 'com.app99.driver';
+
+const DESTINATION_PREFIX = /^destino:?\s*/i;
+
+/**
+ * 99 Motorista offer card, e.g.
+ *   99Pop / R$ 22,30 / Dinâmico 1,3x / 4,85 ★ / A 5 min · 1,8 km / <pickup>
+ *   Corrida 25 min · 11,2 km / Destino: <destination> / Aceitar corrida
+ */
+export const ninetyNineAdapter: OfferParserAdapter = {
+  platform: '99',
+
+  matches: (snapshot) =>
+    snapshot.packageName === NINETY_NINE_DRIVER_PACKAGE ||
+    (snapshot.packageName === null && /\b99\s?(Pop|Poupa|Comfort|Top)\b/i.test(snapshot.text)),
+
+  parse: (snapshot) => {
+    const lines = toLines(snapshot.text);
+    const fareLine = lines.find((line) => parseMoney(line) !== null);
+    const tripIndex = findLineIndex(lines, /^(corrida|viagem)\b/i);
+    const tripLine = lines[tripIndex];
+    const fare = fareLine ? parseMoney(fareLine) : null;
+    const tripDistanceKm = tripLine ? parseDistanceKm(tripLine) : null;
+    const tripMinutes = tripLine ? parseMinutes(tripLine) : null;
+
+    if (fare === null || tripDistanceKm === null || tripMinutes === null) {
+      return null;
+    }
+
+    // 99 leads the pickup leg with "A 5 min" or labels it "Até o passageiro"
+    const pickupIndex = findLineIndex(lines, /^(a\s+\d+\s*min|at[eé] o passageiro)/i);
+    const pickupLine = lines[pickupIndex];
+    const pickupAddress =
+      pickupLine && pickupIndex + 1 < tripIndex ? (lines[pickupIndex + 1] ?? null) : null;
+
+    // Newer versions label the destination, older ones put it below the trip leg
+    const labelledDestination = lines.find((line) => DESTINATION_PREFIX.test(line));
+    const destination = labelledDestination
+      ? labelledDestination.replace(DESTINATION_PREFIX, '')
+      : (lines[tripIndex + 1] ?? null);
+    const ratingLine = lines.find((line) => parseRating(line) !== null);
+
+    return {
+      id: createOfferId('99', fare, tripDistanceKm),
+      platform: '99',
+      fare,
+      pickupDistanceKm: pickupLine ? parseDistanceKm(pickupLine) : null,
+      pickupMinutes: pickupLine ? parseMinutes(pickupLine) : null,
+      tripDistanceKm,
+      tripMinutes,
+      pickupAddress,
+      destination,
+      surge: parseSurge(lines),
+      passengerRating: ratingLine ? parseRating(ratingLine) : null,
+      detectedAt: snapshot.capturedAt,
+    };
+  },
+};
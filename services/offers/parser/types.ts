@@ -0,0 +1,22 @@
+import type { TripPlatform } from '../../../store/useAppStore';
+import type { TripOffer } from '../types';
+
+/**
+ * Text read off the driver's screen by the accessibility service
+ */
+export interface ScreenSnapshot {
+  packageName: string | null; // Android package of the app in the foreground
+  text: string; // visible text nodes, one per line, top to bottom
+  capturedAt: string;
+}
+
+/**
+ * Turns one platform's offer screen into a TripOffer
+ */
+export interface OfferParserAdapter {
+  platform: TripPlatform;
+  // Whether the snapshot came from this platform's driver app
+  matches: (snapshot: ScreenSnapshot) => boolean;
+  // Null when the screen is not showing an offer, or is missing the fare or trip
+  parse: (snapshot: ScreenSnapshot) => TripOffer | null;
+}
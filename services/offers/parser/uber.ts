@@ -0,0 +1,62 @@
+import type { OfferParserAdapter } from './types';
+import {
+  createOfferId,
+  findLineIndex,
+  parseDistanceKm,
+  parseMinutes,
+  parseMoney,
+  parseRating,
+  parseSurge,
+  toLines,
+} from './fields';
+
+const UBER_DRIVER_PACKAGE = 'com.ubercab.driver';
+
+/**
+ * Uber Driver offer card, e.g.
+ *   UberX / R$ 18,45 / ★ 4,92 (120) / 7 min (2,1 km) de distância / <pickup>
+ *   Viagem de 18 min (8,4 km) / <destination> / Aceitar
+ */
+export const uberAdapter: OfferParserAdapter = {
+  platform: 'uber',
+
+  matches: (snapshot) =>
+    snapshot.packageName === UBER_DRIVER_PACKAGE ||
+    (snapshot.packageName === null && /\bUber[A-Z]?/.test(snapshot.text)),
+
+  parse: (snapshot) => {
+    const lines = toLines(snapshot.text);
+    const fareLine = lines.find((line) => parseMoney(line) !== null);
+    const tripIndex = findLineIndex(lines, /^viagem/i);
+    const tripLine = lines[tripIndex];
+    const fare = fareLine ? parseMoney(fareLine) : null;
+    const tripDistanceKm = tripLine ? parseDistanceKm(tripLine) : null;
+    const tripMinutes = tripLine ? parseMinutes(tripLine) : null;
+
+    if (fare === null || tripDistanceKm === null || tripMinutes === null) {
+      return null;
+    }
+
+    const pickupIndex = findLineIndex(lines, /dist[aâ]ncia/i);
+    const pickupLine = lines[pickupIndex];
+    // Addresses sit on the line right below their leg
+    const pickupAddress =
+      pickupLine && pickupIndex + 1 < tripIndex ? (lines[pickupIndex + 1] ?? null) : null;
+    const ratingLine = lines.find((line) => parseRating(line) !== null);
+
+    return {
+      id: createOfferId('uber', fare, tripDistanceKm),
+      platform: 'uber',
+      fare,
+      pickupDistanceKm: pickupLine ? parseDistanceKm(pickupLine) : null,
+      pickupMinutes: pickupLine ? parseMinutes(pickupLine) : null,
+      tripDistanceKm,
+      tripMinutes,
+      pickupAddress,
+      destination: lines[tripIndex + 1] ?? null,
+      surge: parseSurge(lines),
+      passengerRating: ratingLine ? parseRating(ratingLine) : null,
+      detectedAt: snapshot.capturedAt,
+    };
+  },
+};
@@ -0,0 +1,115 @@
+import type { TripOffer } from './types';
+import { formatBRL } from '../../utils/currency';
+
+/**
+ * Cherry Picker profitability engine
+ * Pure functions only - no native modules, so it runs anywhere the store does
+ */
+
+export interface DriverCostProfile {
+  fuelPricePerLiter: number; // R$
+  kmPerLiter: number;
+  maintenancePerKm: number; // R$ for tyres, oil, depreciation
+  targetHourlyRate: number; // R$ net per hour the driver wants to make
+  minGrossPerKm: number; // R$ per km below which an offer is never worth it
+}
+
+export const DEFAULT_COST_PROFILE: DriverCostProfile = {
+  fuelPricePerLiter: 6.0,
+  kmPerLiter: 10,
+  maintenancePerKm: 0.25,
+  targetHourlyRate: 30,
+  minGrossPerKm: 1.5,
+};
+
+export type OfferRecommendation = 'accept' | 'decline';
+
+export interface ProfitabilityResult {
+  totalKm: number; // pickup + trip
+  totalMinutes: number; // pickup + trip
+  fuelCost: number;
+  maintenanceCost: number;
+  netProfit: number;
+  grossPerKm: number;
+  netPerKm: number;
+  netPerHour: number;
+  recommendation: OfferRecommendation;
+  reasons: string[];
+}
+
+// Used when the offer shows a pickup distance but no ETA
+const URBAN_AVERAGE_SPEED_KMH = 25;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Estimates the pickup leg, filling in whichever of distance/time the platform left out
+ */
+export const getPickupLeg = (offer: TripOffer) => {
+  const km = offer.pickupDistanceKm ?? ((offer.pickupMinutes ?? 0) / 60) * URBAN_AVERAGE_SPEED_KMH;
+  const minutes = offer.pickupMinutes ?? (km / URBAN_AVERAGE_SPEED_KMH) * 60;
+  return { km, minutes };
+};
+
+/**
+ * Calculates what an offer really pays once dead miles and running costs are counted
+ * @param offer The trip offer
+ * @param profile The driver's cost profile
+ */
+export const calculateProfitability = (
+  offer: TripOffer,
+  profile: DriverCostProfile,
+): ProfitabilityResult => {
+  const pickup = getPickupLeg(offer);
+  const totalKm = pickup.km + offer.tripDistanceKm;
+  const totalMinutes = pickup.minutes + offer.tripMinutes;
+
+  const fuelCost =
+    profile.kmPerLiter > 0 ? (totalKm / profile.kmPerLiter) * profile.fuelPricePerLiter : 0;
+  const maintenanceCost = totalKm * profile.maintenancePerKm;
+  const netProfit = offer.fare - fuelCost - maintenanceCost;
+
+  const grossPerKm = totalKm > 0 ? offer.fare / totalKm : 0;
+  const netPerKm = totalKm > 0 ? netProfit / totalKm : 0;
+  const netPerHour = totalMinutes > 0 ? netProfit / (totalMinutes / 60) : 0;
+
+  const reasons: string[] = [];
+  if (netProfit <= 0) {
+    reasons.push(
+      `Loses money: costs ${formatBRL(fuelCost + maintenanceCost)} for a ${formatBRL(offer.fare)} fare`,
+    );
+  }
+  if (grossPerKm < profile.minGrossPerKm) {
+    reasons.push(
+      `${formatBRL(grossPerKm)}/km is below your ${formatBRL(profile.minGrossPerKm)}/km minimum`,
+    );
+  }
+  if (netPerHour < profile.targetHourlyRate) {
+    reasons.push(
+      `${formatBRL(netPerHour)}/h net is below your ${formatBRL(profile.targetHourlyRate)}/h target`,
+    );
+  }
+  if (offer.tripDistanceKm > 0 && pickup.km > offer.tripDistanceKm) {
+    reasons.push(`Pickup (${pickup.km.toFixed(1)} km) is longer than the trip itself`);
+  }
+
+  const recommendation: OfferRecommendation = reasons.length === 0 ? 'accept' : 'decline';
+  if (recommendation === 'accept') {
+    reasons.push(
+      `${formatBRL(netPerHour)}/h net meets your ${formatBRL(profile.targetHourlyRate)}/h target`,
+    );
+  }
+
+  return {
+    totalKm: round2(totalKm),
+    totalMinutes: Math.round(totalMinutes),
+    fuelCost: round2(fuelCost),
+    maintenanceCost: round2(maintenanceCost),
+    netProfit: round2(netProfit),
+    grossPerKm: round2(grossPerKm),
+    netPerKm: round2(netPerKm),
+    netPerHour: round2(netPerHour),
+    recommendation,
+    reasons,
+  };
+};
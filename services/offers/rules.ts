@@ -0,0 +1,167 @@
+import type { TripPlatform } from '../../store/useAppStore';
+import { formatBRL } from '../../utils/currency';
+import type { OfferRecommendation, ProfitabilityResult } from './profitability';
+import type { TripOffer } from './types';
+
+/**
+ * Driver preference rules for offer filtering
+ * A rule fires when its condition matches; the strictest fired effect wins (decline > ask > accept)
+ */
+
+export type RuleDecision = 'accept' | 'decline' | 'ask';
+
+export interface TimeWindow {
+  start: string; // HH:MM, local time
+  end: string; // HH:MM, may be earlier than start to wrap past midnight
+}
+
+interface OfferRuleBase {
+  id: string;
+  name: string;
+  enabled: boolean;
+  effect: RuleDecision;
+  timeWindow: TimeWindow | null; // only applies inside this window
+  platforms: TripPlatform[]; // only applies to these platforms, empty for all
+}
+
+export type OfferRuleCondition =
+  | { type: 'min_gross_per_km'; value: number } // fires below R$/km
+  | { type: 'min_net_per_hour'; value: number } // fires below R$/h
+  | { type: 'min_fare'; value: number } // fires below R$
+  | { type: 'max_pickup_km'; value: number } // fires above km
+  | { type: 'min_passenger_rating'; value: number } // fires below rating
+  | { type: 'destination_area'; areas: string[] } // fires when the destination names an area
+  | { type: 'always' }; // fires for every offer in scope, e.g. a platform filter
+
+export type OfferRule = OfferRuleBase & OfferRuleCondition;
+
+export type OfferRuleType = OfferRuleCondition['type'];
+
+export interface RuleMatch {
+  ruleId: string;
+  ruleName: string;
+  effect: RuleDecision;
+  reason: string;
+}
+
+export interface RuleEvaluation {
+  decision: RuleDecision;
+  source: 'rules' | 'profitability'; // profitability decides when no rule fires
+  matches: RuleMatch[];
+}
+
+const DECISION_PRIORITY: Record<RuleDecision, number> = { accept: 0, ask: 1, decline: 2 };
+
+const toMinutes = (time: string) => {
+  const [hours = '0', minutes = '0'] = time.split(':');
+  return parseInt(hours, 10) * 60 + parseInt(minutes, 10);
+};
+
+/**
+ * Whether a local time of day falls inside a window; windows may wrap past midnight
+ */
+export const isWithinTimeWindow = (window: TimeWindow, at: Date): boolean => {
+  const minute = at.getHours() * 60 + at.getMinutes();
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  return start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+};
+
+/**
+ * Lowercases and strips accents so "Jardim Ângela" matches "jardim angela"
+ */
+export const normalizePlaceName = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+
+// Distances and ratings read the pt-BR way too, e.g. "2,5 km"
+const formatDecimal = (value: number, digits: number) => value.toFixed(digits).replace('.', ',');
+
+// Returns why the condition fired, or null when it did not
+const matchCondition = (
+  rule: OfferRule,
+  offer: TripOffer,
+  profitability: ProfitabilityResult,
+): string | null => {
+  switch (rule.type) {
+    case 'min_gross_per_km':
+      return profitability.grossPerKm < rule.value
+        ? `${formatBRL(profitability.grossPerKm)}/km below ${formatBRL(rule.value)}/km`
+        : null;
+    case 'min_net_per_hour':
+      return profitability.netPerHour < rule.value
+        ? `${formatBRL(profitability.netPerHour)}/h below ${formatBRL(rule.value)}/h`
+        : null;
+    case 'min_fare':
+      return offer.fare < rule.value
+        ? `Fare ${formatBRL(offer.fare)} below ${formatBRL(rule.value)}`
+        : null;
+    case 'max_pickup_km':
+      return offer.pickupDistanceKm !== null && offer.pickupDistanceKm > rule.value
+        ? `Pickup ${formatDecimal(offer.pickupDistanceKm, 1)} km over ${formatDecimal(rule.value, 1)} km`
+        : null;
+    case 'min_passenger_rating':
+      return offer.passengerRating !== null && offer.passengerRating < rule.value
+        ? `Rating ${formatDecimal(offer.passengerRating, 2)} below ${formatDecimal(rule.value, 2)}`
+        : null;
+    case 'destination_area': {
+      if (!offer.destination) {
+        return null;
+      }
+      const destination = normalizePlaceName(offer.destination);
+      const area = rule.areas.find((name) => destination.includes(normalizePlaceName(name)));
+      return area ? `Destination in ${area}` : null;
+    }
+    case 'always':
+      return 'Matches every offer';
+  }
+};
+
+/**
+ * Whether the rule is enabled and in scope for this offer's platform and time
+ */
+const isRuleInScope = (rule: OfferRule, offer: TripOffer, at: Date) =>
+  rule.enabled &&
+  (rule.platforms.length === 0 || rule.platforms.includes(offer.platform)) &&
+  (!rule.timeWindow || isWithinTimeWindow(rule.timeWindow, at));
+
+/**
+ * Runs the driver's rules against an offer
+ * @param offer The trip offer
+ * @param profitability Profitability of the offer for this driver
+ * @param rules The driver's rules
+ * @param at Local time to evaluate time windows at, defaults to when the offer was detected
+ */
+export const evaluateOfferRules = (
+  offer: TripOffer,
+  profitability: ProfitabilityResult,
+  rules: OfferRule[],
+  at: Date = new Date(offer.detectedAt),
+): RuleEvaluation => {
+  const matches: RuleMatch[] = [];
+
+  for (const rule of rules) {
+    if (!isRuleInScope(rule, offer, at)) {
+      continue;
+    }
+    const reason = matchCondition(rule, offer, profitability);
+    if (reason) {
+      matches.push({ ruleId: rule.id, ruleName: rule.name, effect: rule.effect, reason });
+    }
+  }
+
+  if (matches.length === 0) {
+    const fallback: OfferRecommendation = profitability.recommendation;
+    return { decision: fallback, source: 'profitability', matches };
+  }
+
+  const decision = matches.reduce<RuleDecision>(
+    (strictest, match) =>
+      DECISION_PRIORITY[match.effect] > DECISION_PRIORITY[strictest] ? match.effect : strictest,
+    'accept',
+  );
+  return { decision, source: 'rules', matches };
+};
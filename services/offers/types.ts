@@ -0,0 +1,20 @@
+import type { TripPlatform } from '../../store/useAppStore';
+
+/**
+ * A ride request shown to the driver by a platform, before it is accepted
+ * Unknown values are null - platforms do not always show every field
+ */
+export interface TripOffer {
+  id: string;
+  platform: TripPlatform;
+  fare: number; // R$ the driver is paid for the ride
+  pickupDistanceKm: number | null; // dead miles to reach the passenger
+  pickupMinutes: number | null;
+  tripDistanceKm: number;
+  tripMinutes: number;
+  pickupAddress: string | null;
+  destination: string | null;
+  surge: string | null; // dynamic pricing tag as shown, e.g. "1,4x" or "Dinâmico"
+  passengerRating: number | null;
+  detectedAt: string;
+}
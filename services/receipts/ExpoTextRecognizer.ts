@@ -0,0 +1,17 @@
+import { extractTextFromImage, isSupported } from 'expo-text-extractor';
+import type { TextRecognizer } from './types';
+
+/**
+ * On-device OCR via expo-text-extractor - ML Kit on Android, Vision on iOS
+ * Needs a development build, as Expo Go lacks the native module
+ */
+export class ExpoTextRecognizer implements TextRecognizer {
+  async recognize(uri: string) {
+    if (!isSupported) {
+      return null;
+    }
+    const lines = await extractTextFromImage(uri);
+    const text = lines.join('\n').trim();
+    return text || null;
+  }
+}
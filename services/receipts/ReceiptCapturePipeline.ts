@@ -0,0 +1,94 @@
+import { useAppStore } from '../../store/useAppStore';
+import type { Expense, NewExpense } from '../../store/useAppStore';
+import { createExpenseDraft } from '../expenses/drafts';
+import { getDeviceTimeZone, toLocalDateKey } from '../session/dayBucketing';
+import { decodeNfceQrCode, nfceToExtraction } from './nfce';
+import { saveReceiptImage } from './storage';
+import type { ReceiptExtraction, ReceiptExtractor, TextRecognizer } from './types';
+
+type AppStore = Pick<typeof useAppStore, 'getState'>;
+
+interface ReceiptCapturePipelineOptions {
+  extractor: ReceiptExtractor;
+  recognizer?: TextRecognizer;
+  store?: AppStore;
+}
+
+// For extractors that work on the image itself
+const NO_TEXT_RECOGNIZER: TextRecognizer = { recognize: () => Promise.resolve(null) };
+
+// Fills in whatever the extractor managed to read, leaving the rest of the draft as it was
+export const applyExtraction = (extraction: ReceiptExtraction): Partial<NewExpense> => ({
+  extraction,
+  ...(extraction.amount && { amount: extraction.amount.value }),
+  ...(extraction.date && { date: extraction.date.value }),
+  ...(extraction.vendor && { vendor: extraction.vendor.value }),
+  ...(extraction.category && { category: extraction.category.value }),
+  ...(extraction.liters && { liters: extraction.liters.value }),
+  ...(extraction.fuel && { fuel: extraction.fuel.value }),
+});
+
+/**
+ * Turns a receipt photo into an expense draft for the driver to review
+ * Photo -> app storage -> draft linked to the running session -> OCR -> extractor fills the draft in
+ */
+export class ReceiptCapturePipeline {
+  private readonly extractor: ReceiptExtractor;
+  private readonly recognizer: TextRecognizer;
+  private readonly store: AppStore;
+
+  constructor(options: ReceiptCapturePipelineOptions) {
+    this.extractor = options.extractor;
+    this.recognizer = options.recognizer ?? NO_TEXT_RECOGNIZER;
+    this.store = options.store ?? useAppStore;
+  }
+
+  /**
+   * @param photoUri Photo as returned by the camera, usually in the cache directory
+   * @returns The draft, filled in as far as the extractor could read it
+   */
+  async capture(photoUri: string, capturedAt: string = new Date().toISOString()): Promise<Expense> {
+    const receiptUri = await saveReceiptImage(photoUri, capturedAt);
+
+    const draft = this.store
+      .getState()
+      .addExpense(
+        createExpenseDraft({ date: toLocalDateKey(capturedAt, getDeviceTimeZone()), receiptUri }),
+      );
+
+    // An unreadable receipt still leaves a draft to fill in by hand
+    try {
+      const text = await this.recognizer.recognize(receiptUri);
+      const extraction = await this.extractor.extract({ uri: receiptUri, capturedAt, text });
+      this.store.getState().updateExpense(draft.id, applyExtraction(extraction));
+    } catch (error) {
+      console.error('[Receipts] Failed to read receipt:', error);
+    }
+
+    return this.store.getState().expenses.find((expense) => expense.id === draft.id) ?? draft;
+  }
+
+  /**
+   * Creates a draft straight from an NFC-e QR code - no photo, no OCR, no network
+   * Scanning the same coupon twice returns the draft from the first scan
+   * @param data Raw QR payload
+   * @returns The draft, or null when the code is not a valid NFC-e code
+   */
+  captureNfce(data: string, scannedAt: string = new Date().toISOString()): Expense | null {
+    const code = decodeNfceQrCode(data);
+    if (!code) {
+      return null;
+    }
+
+    const { expenses, addExpense } = this.store.getState();
+    const existing = expenses.find(
+      (expense) => expense.extraction?.accessKey?.value === code.accessKey.key,
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const scanDate = toLocalDateKey(scannedAt, getDeviceTimeZone());
+    return addExpense(createExpenseDraft(applyExtraction(nfceToExtraction(code, scanDate))));
+  }
+}
@@ -0,0 +1,29 @@
+import type { ReceiptExtraction, ReceiptExtractor } from './types';
+
+/**
+ * Extractor that reads nothing, or always returns the same result when given one
+ * Stands in until a real extractor is available, and keeps the capture flow predictable in tests
+ */
+export class StubReceiptExtractor implements ReceiptExtractor {
+  readonly name = 'stub';
+  private readonly result: Omit<ReceiptExtraction, 'extractor'>;
+
+  constructor(result: Partial<Omit<ReceiptExtraction, 'extractor'>> = {}) {
+    this.result = {
+      amount: null,
+      date: null,
+      vendor: null,
+      category: null,
+      cnpj: null,
+      liters: null,
+      pricePerLiter: null,
+      fuel: null,
+      accessKey: null,
+      ...result,
+    };
+  }
+
+  extract() {
+    return Promise.resolve({ extractor: this.name, ...this.result });
+  }
+}
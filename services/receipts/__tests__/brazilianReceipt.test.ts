@@ -0,0 +1,33 @@
+import { describe, expect, it } from '@jest/globals';
+import { extractBrazilianReceipt } from '../brazilianReceipt';
+import { RECEIPT_FIXTURES } from '../fixtures';
+
+describe('extractBrazilianReceipt', () => {
+  it.each(RECEIPT_FIXTURES.map((fixture) => [fixture.name, fixture] as const))(
+    '%s',
+    (_name, fixture) => {
+      const fields = extractBrazilianReceipt(fixture.text);
+      const values = Object.fromEntries(
+        Object.entries(fields).map(([name, field]) => [name, field?.value ?? null]),
+      );
+      expect(values).toEqual(fixture.expected);
+    },
+  );
+
+  it('is confident in fuel figures that multiply out to the total', () => {
+    const fixture = RECEIPT_FIXTURES.find((candidate) => candidate.expected.liters !== null);
+    if (!fixture) {
+      throw new Error('No fuel fixture');
+    }
+    const fields = extractBrazilianReceipt(fixture.text);
+    expect(fields.liters?.confidence).toBeGreaterThanOrEqual(0.98);
+    expect(fields.amount?.confidence).toBeGreaterThanOrEqual(0.98);
+  });
+
+  it('finds nothing in text that is not a receipt', () => {
+    const fields = extractBrazilianReceipt('Lista de compras\nPão\nLeite');
+    expect(fields.amount).toBeNull();
+    expect(fields.cnpj).toBeNull();
+    expect(fields.accessKey).toBeNull();
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from '@jest/globals';
+import { formatCnpj, isValidCnpj, normalizeCnpj } from '../cnpj';
+
+describe('isValidCnpj', () => {
+  it('accepts a CNPJ whose check digits match, punctuated or not', () => {
+    expect(isValidCnpj('12.345.678/0001-95')).toBe(true);
+    expect(isValidCnpj('12345678000195')).toBe(true);
+    expect(isValidCnpj('33456789000149')).toBe(true);
+  });
+
+  it('rejects a wrong first or second check digit', () => {
+    expect(isValidCnpj('12345678000185')).toBe(false);
+    expect(isValidCnpj('12345678000194')).toBe(false);
+  });
+
+  // A first-digit remainder under 2 makes the digit 0 rather than 10 or 11
+  it('uses 0 for low remainders', () => {
+    expect(isValidCnpj('11222333000181')).toBe(true);
+    expect(isValidCnpj('00000000000191')).toBe(true);
+  });
+
+  it('rejects the wrong length and repeated digits', () => {
+    expect(isValidCnpj('1234567800019')).toBe(false);
+    expect(isValidCnpj('123456780001950')).toBe(false);
+    expect(isValidCnpj('11111111111111')).toBe(false);
+    expect(isValidCnpj('')).toBe(false);
+  });
+});
+
+describe('formatCnpj', () => {
+  it('round-trips with normalizeCnpj', () => {
+    expect(formatCnpj('12345678000195')).toBe('12.345.678/0001-95');
+    expect(normalizeCnpj(formatCnpj('12345678000195'))).toBe('12345678000195');
+  });
+});
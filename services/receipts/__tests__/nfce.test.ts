@@ -0,0 +1,100 @@
+import { describe, expect, it } from '@jest/globals';
+import { decodeNfceQrCode, nfceToExtraction, parseAccessKey } from '../nfce';
+
+// SP, March 2025, CNPJ 12.345.678/0001-95, model 65, series 001, number 000000123
+const KEY = '35250312345678000195650010000001231123456783';
+const BASE_URL = 'https://www.nfce.fazenda.sp.gov.br/qrcode';
+
+const toHex = (text: string) =>
+  Array.from(text, (char) => char.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+
+describe('parseAccessKey', () => {
+  it('splits a key whose check digit matches', () => {
+    expect(parseAccessKey(KEY)).toEqual({
+      key: KEY,
+      state: 'SP',
+      emissionMonth: '2025-03',
+      cnpj: '12345678000195',
+      model: '65',
+      series: '001',
+      number: '000000123',
+    });
+  });
+
+  it('accepts the key as printed, in groups of four', () => {
+    expect(parseAccessKey(KEY.replace(/(\d{4})/g, '$1 ').trim())?.key).toBe(KEY);
+  });
+
+  it('rejects a wrong check digit', () => {
+    expect(parseAccessKey(`${KEY.slice(0, 43)}4`)).toBeNull();
+  });
+
+  it('rejects keys of the wrong length or with other characters', () => {
+    expect(parseAccessKey(KEY.slice(0, 43))).toBeNull();
+    expect(parseAccessKey(`${KEY}0`)).toBeNull();
+    expect(parseAccessKey(KEY.replace('3', 'x'))).toBeNull();
+  });
+});
+
+describe('decodeNfceQrCode', () => {
+  it('reads a v1 code with the hex-encoded emission date and total', () => {
+    const url =
+      `${BASE_URL}?chNFe=${KEY}&nVersao=100&tpAmb=1` +
+      `&dhEmi=${toHex('2025-03-14T21:40:12-03:00')}&vNF=119.83&vICMS=0.00&digVal=abc&cIdToken=000001`;
+    expect(decodeNfceQrCode(url)).toEqual({
+      accessKey: parseAccessKey(KEY),
+      version: 1,
+      emissionDate: '2025-03-14',
+      total: 119.83,
+    });
+  });
+
+  it('reads a v2 online code, which has neither date nor total', () => {
+    const code = decodeNfceQrCode(`${BASE_URL}?p=${KEY}|2|1|1|3A4B5C6D7E8F`);
+    expect(code).toEqual({
+      accessKey: parseAccessKey(KEY),
+      version: 2,
+      emissionDate: null,
+      total: null,
+    });
+  });
+
+  it('reads a v2 offline code with the day of emission and total', () => {
+    const code = decodeNfceQrCode(`${BASE_URL}?p=${KEY}|2|1|14|119.83|6a6b6c|1|3A4B5C6D7E8F`);
+    expect(code?.version).toBe(2);
+    expect(code?.emissionDate).toBe('2025-03-14');
+    expect(code?.total).toBe(119.83);
+  });
+
+  it('reads a percent-encoded payload', () => {
+    expect(decodeNfceQrCode(`${BASE_URL}?p=${KEY}%7C2%7C1%7C1%7C3A4B`)?.accessKey.key).toBe(KEY);
+  });
+
+  it('returns null for codes that are not NFC-e', () => {
+    expect(decodeNfceQrCode('https://example.com/?discount=100%')).toBeNull();
+    expect(decodeNfceQrCode('https://example.com/menu')).toBeNull();
+    expect(decodeNfceQrCode('WIFI:S:Cafe;T:WPA;P:senha;;')).toBeNull();
+    expect(decodeNfceQrCode('')).toBeNull();
+  });
+
+  it('returns null when the key check digit does not match', () => {
+    expect(decodeNfceQrCode(`${BASE_URL}?p=${KEY.slice(0, 43)}4|2|1|1|3A4B`)).toBeNull();
+  });
+});
+
+describe('nfceToExtraction', () => {
+  it('falls back to the scan date within the emission month', () => {
+    const code = decodeNfceQrCode(`${BASE_URL}?p=${KEY}|2|1|1|3A4B5C6D7E8F`);
+    if (!code) {
+      throw new Error('Code did not decode');
+    }
+    expect(nfceToExtraction(code, '2025-03-20').date).toEqual({
+      value: '2025-03-20',
+      confidence: 0.6,
+    });
+    expect(nfceToExtraction(code, '2025-04-02').date).toEqual({
+      value: '2025-03-01',
+      confidence: 0.3,
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import type { ExpenseCategory, PumpFuel } from '../../store/useAppStore';
+import { parseBrazilianNumber } from '../../utils/currency';
+import { findLineIndex, toLines } from '../offers/parser/fields';
+import { isValidCnpj, normalizeCnpj } from './cnpj';
+import { parseAccessKey } from './nfce';
+import type { ExtractedField, ReceiptExtraction, ReceiptExtractor, ReceiptImage } from './types';
+
+/**
+ * Rule-based extractor for Brazilian receipts - NFC-e/SAT coupons as printed by fuel stations,
+ * toll plazas and car parks. Works on OCR text, so every pattern tolerates stray spacing
+ */
+
+type ExtractedFields = Omit<ReceiptExtraction, 'extractor'>;
+
+// Amounts in reais, e.g. "1.234,56"
+const AMOUNT_PATTERN = /[\d.]+,\d{2}(?!\d)/g;
+// dd/mm/yyyy or dd/mm/yy
+const DATE_PATTERN = /(\d{2})\/(\d{2})\/(\d{4}|\d{2})(?!\d)/;
+// With or without punctuation; the leading group keeps it from matching inside longer numbers
+const CNPJ_PATTERN = /(?:^|\D)(\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2})(?!\d)/;
+// Litres pumped, e.g. "20,345 L" or "20,345LT"
+const LITERS_PATTERN = /(\d{1,3},\d{2,3})\s*(?:L|LT|LTS|LITROS?)\b/;
+const FUEL_PATTERN = /\b(GASOLINA|ETANOL|ALCOOL|DIESEL|GNV)\b/;
+const PRICE_PER_LITER_LABEL = /(?:PRECO|VL\.?\s*UNIT|R\$)\s*\/?\s*L(?:ITRO)?\b\D*(\d{1,2},\d{2,3})/;
+
+// Header lines that are never the business name
+const NOT_A_VENDOR =
+  /DANFE|NFC-?E|CNPJ|CUPOM|DOCUMENTO|EXTRATO|\bSAT\b|\bIE\b|INSCR|CPF|CONSUMIDOR/;
+const LIKELY_VENDOR = /POSTO|COMBUST|LTDA|EIRELI|\bS\.?A\b|\bME\b|ESTACIONAMENTO|CONCESSION/;
+
+// Keywords that give away the kind of business; fuel is detected from the item lines instead
+const CATEGORY_KEYWORDS: [RegExp, ExpenseCategory][] = [
+  [/PEDAGIO|CONCESSIONARIA|RODOVIA/, 'tolls'],
+  [/ESTACIONAMENTO|PARKING|ZONA AZUL/, 'parking'],
+  [/LAVA\s?JATO|LAVAGEM|LAVA RAPIDO/, 'car_wash'],
+  [/OFICINA|PNEU|AUTO\s?PECAS|TROCA DE OLEO|MECANICA/, 'maintenance'],
+  [/POSTO|COMBUSTIVEIS/, 'fuel'],
+];
+
+// Litres x price per litre within this of the total confirms all three
+const CROSS_CHECK_TOLERANCE = 0.05;
+
+const field = <T>(value: T, confidence: number): ExtractedField<T> => ({ value, confidence });
+
+// Uppercase without accents, so "Emissão" and "EMISSAO" read the same
+const toPlain = (line: string) =>
+  line
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase();
+
+const findAmounts = (line: string): number[] =>
+  (line.match(AMOUNT_PATTERN) ?? [])
+    .map(parseBrazilianNumber)
+    .filter((amount): amount is number => amount !== null);
+
+const extractTotal = (plain: string[]): ExtractedField<number> | null => {
+  // "VALOR TOTAL R$ 119,83", or the value alone on the next line
+  const labels: [RegExp, number][] = [
+    [/VALOR\s*TOTAL/, 0.95],
+    [/VALOR\s*A\s*PAGAR/, 0.9],
+    [/^TOTAL\b/, 0.6],
+  ];
+  for (const [label, confidence] of labels) {
+    const index = findLineIndex(plain, label);
+    if (index < 0) {
+      continue;
+    }
+    const sameLine = findAmounts(plain[index] ?? '').pop();
+    if (sameLine !== undefined) {
+      return field(sameLine, confidence);
+    }
+    const nextLine = findAmounts(plain[index + 1] ?? '').pop();
+    if (nextLine !== undefined) {
+      return field(nextLine, confidence - 0.1);
+    }
+  }
+  return null;
+};
+
+const toDateKey = (day: string, month: string, year: string): string | null => {
+  const fullYear = year.length === 2 ? `20${year}` : year;
+  const date = new Date(Date.UTC(Number(fullYear), Number(month) - 1, Number(day)));
+  // Rejects OCR misreads like 31/02
+  if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) {
+    return null;
+  }
+  return `${fullYear}-${month}-${day}`;
+};
+
+const extractDate = (plain: string[]): ExtractedField<string> | null => {
+  // The emission date is the one that matters; others may be validity or due dates
+  const ordered = [
+    ...plain.filter((line) => /EMISS|DATA/.test(line)).map((line) => [line, 0.95] as const),
+    ...plain.map((line) => [line, 0.7] as const),
+  ];
+  for (const [line, confidence] of ordered) {
+    const match = DATE_PATTERN.exec(line);
+    if (match?.[1] && match[2] && match[3]) {
+      const date = toDateKey(match[1], match[2], match[3]);
+      if (date) {
+        return field(date, confidence);
+      }
+    }
+  }
+  return null;
+};
+
+const extractCnpj = (
+  plain: string[],
+): { cnpj: ExtractedField<string>; lineIndex: number } | null => {
+  for (const [lineIndex, line] of plain.entries()) {
+    // The customer's own CPF/CNPJ is printed further down
+    if (/CONSUMIDOR|DESTINAT/.test(line)) {
+      continue;
+    }
+    const match = CNPJ_PATTERN.exec(line);
+    if (match?.[1] && isValidCnpj(match[1])) {
+      return {
+        cnpj: field(normalizeCnpj(match[1]), line.includes('CNPJ') ? 0.95 : 0.8),
+        lineIndex,
+      };
+    }
+  }
+  return null;
+};
+
+// The business name heads the receipt, just above its CNPJ
+const extractVendor = (
+  lines: string[],
+  plain: string[],
+  cnpjLineIndex: number | null,
+): ExtractedField<string> | null => {
+  const end = cnpjLineIndex ?? Math.min(plain.length, 4);
+  for (let index = 0; index < end; index++) {
+    const line = plain[index] ?? '';
+    const letters = line.replace(/[^A-Z]/g, '').length;
+    if (letters < 3 || letters / line.length < 0.6 || NOT_A_VENDOR.test(line)) {
+      continue;
+    }
+    const vendor = (lines[index] ?? '').replace(/\s+/g, ' ').trim();
+    const confidence = LIKELY_VENDOR.test(line) ? 0.85 : index === end - 1 ? 0.7 : 0.5;
+    return field(vendor, confidence);
+  }
+  return null;
+};
+
+// Grades a car can run on; diesel is sold at the same pumps but no passenger car takes it
+const PUMP_FUELS: Record<string, PumpFuel | undefined> = {
+  GASOLINA: 'gasoline',
+  ETANOL: 'ethanol',
+  ALCOOL: 'ethanol',
+  GNV: 'gnv',
+};
+
+const extractFuel = (plain: string[]) => {
+  const index = findLineIndex(plain, FUEL_PATTERN);
+  if (index < 0) {
+    return { isFuel: false, liters: null, pricePerLiter: null, fuel: null };
+  }
+  const grade = PUMP_FUELS[FUEL_PATTERN.exec(plain[index] ?? '')?.[1] ?? ''];
+  const fuel: ExtractedField<PumpFuel> | null = grade ? field(grade, 0.9) : null;
+
+  // Quantity and prices may wrap onto the line under the description
+  const item = `${plain[index] ?? ''} ${plain[index + 1] ?? ''}`;
+
+  let liters: ExtractedField<number> | null = null;
+  let pricePerLiter: ExtractedField<number> | null = null;
+  const litersMatch = LITERS_PATTERN.exec(item);
+  const litersValue = litersMatch?.[1] ? parseBrazilianNumber(litersMatch[1]) : null;
+  if (litersMatch && litersValue !== null) {
+    liters = field(litersValue, 0.85);
+    // "20,345 L x 5,890 119,83" - the unit price follows the quantity
+    const after = item.slice(litersMatch.index + litersMatch[0].length);
+    const priceMatch = /(\d{1,2},\d{2,3})(?!\d)/.exec(after);
+    const priceValue = priceMatch?.[1] ? parseBrazilianNumber(priceMatch[1]) : null;
+    if (priceValue !== null) {
+      pricePerLiter = field(priceValue, 0.75);
+    }
+  }
+
+  const labelled = plain.map((line) => PRICE_PER_LITER_LABEL.exec(line)?.[1]).find(Boolean);
+  const labelledValue = labelled ? parseBrazilianNumber(labelled) : null;
+  if (labelledValue !== null) {
+    pricePerLiter = field(labelledValue, 0.9);
+  }
+
+  return { isFuel: true, liters, pricePerLiter, fuel };
+};
+
+// Printed in blocks of four under "CHAVE DE ACESSO"; only trusted when its check digit matches
+const extractAccessKey = (plain: string[]): ExtractedField<string> | null => {
+  for (const [index, line] of plain.entries()) {
+    const candidates = [line, `${line} ${plain[index + 1] ?? ''}`];
+    for (const candidate of candidates) {
+      const digits = candidate.replace(/\D/g, '');
+      const accessKey = digits.length === 44 ? parseAccessKey(digits) : null;
+      if (accessKey) {
+        return field(accessKey.key, 0.95);
+      }
+    }
+  }
+  return null;
+};
+
+const extractCategory = (
+  plain: string[],
+  isFuel: boolean,
+): ExtractedField<ExpenseCategory> | null => {
+  if (isFuel) {
+    return field('fuel', 0.9);
+  }
+  const text = plain.join('\n');
+  const match = CATEGORY_KEYWORDS.find(([pattern]) => pattern.test(text));
+  return match ? field(match[1], 0.6) : null;
+};
+
+/**
+ * Reads a Brazilian receipt
+ * @param text OCR text, one printed line per line
+ * @returns Every field that could be found, each with its own confidence
+ */
+export const extractBrazilianReceipt = (text: string): ExtractedFields => {
+  const lines = toLines(text);
+  const plain = lines.map(toPlain);
+
+  let amount = extractTotal(plain);
+  const cnpjMatch = extractCnpj(plain);
+  const fuel = extractFuel(plain);
+  let { liters, pricePerLiter } = fuel;
+
+  // Pump quantity times price should come to the total; if so all three are almost certainly right
+  if (amount && liters && pricePerLiter) {
+    const matches =
+      Math.abs(liters.value * pricePerLiter.value - amount.value) <= CROSS_CHECK_TOLERANCE;
+    const confidence = matches ? 0.98 : 0.4;
+    liters = field(liters.value, confidence);
+    pricePerLiter = field(pricePerLiter.value, confidence);
+    if (matches) {
+      amount = field(amount.value, Math.max(amount.confidence, 0.98));
+    }
+  }
+
+  return {
+    amount,
+    date: extractDate(plain),
+    vendor: extractVendor(lines, plain, cnpjMatch?.lineIndex ?? null),
+    category: extractCategory(plain, fuel.isFuel),
+    cnpj: cnpjMatch?.cnpj ?? null,
+    liters,
+    pricePerLiter,
+    fuel: fuel.fuel,
+    accessKey: extractAccessKey(plain),
+  };
+};
+
+/**
+ * Receipt extractor backed by extractBrazilianReceipt
+ * Needs OCR text; a photo nobody has read yet comes back empty
+ */
+export class RuleBasedReceiptExtractor implements ReceiptExtractor {
+  readonly name = 'rules';
+
+  extract(image: ReceiptImage) {
+    return Promise.resolve({ extractor: this.name, ...extractBrazilianReceipt(image.text ?? '') });
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * CNPJ - the 14-digit Brazilian company registration number printed on every receipt
+ * The last two digits are mod-11 check digits over the first twelve
+ */
+
+const FIRST_DIGIT_WEIGHTS = [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+const SECOND_DIGIT_WEIGHTS = [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+
+const checkDigit = (digits: number[], weights: number[]) => {
+  const remainder =
+    weights.reduce((sum, weight, index) => sum + weight * (digits[index] ?? 0), 0) % 11;
+  return remainder < 2 ? 0 : 11 - remainder;
+};
+
+/**
+ * Strips the punctuation from a CNPJ, e.g. "12345678000195" for "12.345.678/0001-95"
+ */
+export const normalizeCnpj = (text: string): string => text.replace(/\D/g, '');
+
+/**
+ * Whether the CNPJ has 14 digits and both check digits match
+ */
+export const isValidCnpj = (text: string): boolean => {
+  const cnpj = normalizeCnpj(text);
+  // Repeated digits pass the arithmetic but are never issued
+  if (cnpj.length !== 14 || /^(\d)\1+$/.test(cnpj)) {
+    return false;
+  }
+  const digits = cnpj.split('').map(Number);
+  return (
+    checkDigit(digits, FIRST_DIGIT_WEIGHTS) === digits[12] &&
+    checkDigit(digits, SECOND_DIGIT_WEIGHTS) === digits[13]
+  );
+};
+
+/**
+ * Formats 14 digits the way receipts print them, e.g. "12.345.678/0001-95"
+ */
+export const formatCnpj = (cnpj: string): string =>
+  normalizeCnpj(cnpj).replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5');
@@ -0,0 +1,25 @@
+import { RuleBasedReceiptExtractor } from './brazilianReceipt';
+import { ExpoTextRecognizer } from './ExpoTextRecognizer';
+import { ReceiptCapturePipeline } from './ReceiptCapturePipeline';
+
+export { extractBrazilianReceipt, RuleBasedReceiptExtractor } from './brazilianReceipt';
+export { formatCnpj, isValidCnpj, normalizeCnpj } from './cnpj';
+export { decodeNfceQrCode, nfceToExtraction, parseAccessKey } from './nfce';
+export type { NfceAccessKey, NfceQrCode } from './nfce';
+export { ExpoTextRecognizer } from './ExpoTextRecognizer';
+export { applyExtraction, ReceiptCapturePipeline } from './ReceiptCapturePipeline';
+export { StubReceiptExtractor } from './StubReceiptExtractor';
+export { deleteReceiptImage, saveReceiptImage } from './storage';
+export type {
+  ExtractedField,
+  ReceiptExtraction,
+  ReceiptExtractor,
+  ReceiptImage,
+  TextRecognizer,
+} from './types';
+
+// Where the OCR engine is unsupported (the web), the photo is kept and the draft opens empty
+export const receiptPipeline = new ReceiptCapturePipeline({
+  extractor: new RuleBasedReceiptExtractor(),
+  recognizer: new ExpoTextRecognizer(),
+});
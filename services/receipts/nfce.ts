@@ -0,0 +1,201 @@
+import type { ExtractedField, ReceiptExtraction } from './types';
+
+/**
+ * NFC-e - Brazil's electronic consumer invoice. Every coupon carries a QR code whose payload starts
+ * with the 44-digit access key, which itself encodes the state, emission month and issuer's CNPJ
+ */
+
+export interface NfceAccessKey {
+  key: string; // all 44 digits
+  state: string; // UF, e.g. "SP"
+  emissionMonth: string; // YYYY-MM
+  cnpj: string;
+  model: string; // "65" for NFC-e, "55" for NF-e
+  series: string;
+  number: string;
+}
+
+export interface NfceQrCode {
+  accessKey: NfceAccessKey;
+  version: number; // QR code layout version: 1, 2 or 3
+  emissionDate: string | null; // YYYY-MM-DD, only in v1 and offline v2/v3 codes
+  total: number | null; // R$, only in v1 and offline v2/v3 codes
+}
+
+// IBGE state codes, the first two digits of the key
+const STATES: Record<string, string> = {
+  '11': 'RO',
+  '12': 'AC',
+  '13': 'AM',
+  '14': 'RR',
+  '15': 'PA',
+  '16': 'AP',
+  '17': 'TO',
+  '21': 'MA',
+  '22': 'PI',
+  '23': 'CE',
+  '24': 'RN',
+  '25': 'PB',
+  '26': 'PE',
+  '27': 'AL',
+  '28': 'SE',
+  '29': 'BA',
+  '31': 'MG',
+  '32': 'ES',
+  '33': 'RJ',
+  '35': 'SP',
+  '41': 'PR',
+  '42': 'SC',
+  '43': 'RS',
+  '50': 'MS',
+  '51': 'MT',
+  '52': 'GO',
+  '53': 'DF',
+};
+
+/**
+ * Check digit of an access key: weights 2 to 9, repeating, from the rightmost of the first 43 digits
+ */
+const accessKeyCheckDigit = (digits: string) => {
+  let sum = 0;
+  let weight = 2;
+  for (let index = digits.length - 1; index >= 0; index--) {
+    sum += Number(digits[index]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  const remainder = sum % 11;
+  return remainder < 2 ? 0 : 11 - remainder;
+};
+
+/**
+ * Splits an access key into its parts
+ * @returns The parts, or null when the key is malformed or its check digit does not match
+ */
+export const parseAccessKey = (text: string): NfceAccessKey | null => {
+  const key = text.replace(/\s/g, '');
+  if (!/^\d{44}$/.test(key) || accessKeyCheckDigit(key.slice(0, 43)) !== Number(key[43])) {
+    return null;
+  }
+  const state = STATES[key.slice(0, 2)];
+  const month = Number(key.slice(4, 6));
+  if (!state || month < 1 || month > 12) {
+    return null;
+  }
+  return {
+    key,
+    state,
+    emissionMonth: `20${key.slice(2, 4)}-${key.slice(4, 6)}`,
+    cnpj: key.slice(6, 20),
+    model: key.slice(20, 22),
+    series: key.slice(22, 25),
+    number: key.slice(25, 34),
+  };
+};
+
+const parseTotal = (text: string | undefined): number | null => {
+  const total = Number(text);
+  return text && Number.isFinite(total) && total > 0 ? total : null;
+};
+
+// v1 sends the emission timestamp hex-encoded, e.g. "323032352d30332d3134..." for "2025-03-14..."
+const decodeHexDate = (hex: string | null): string | null => {
+  if (!hex || !/^[\da-f]+$/i.test(hex) || hex.length % 2 !== 0) {
+    return null;
+  }
+  const text = (hex.match(/../g) ?? [])
+    .map((pair) => String.fromCharCode(parseInt(pair, 16)))
+    .join('');
+  return /^\d{4}-\d{2}-\d{2}/.exec(text)?.[0] ?? null;
+};
+
+/**
+ * The query parameters of a URL, names lower-cased
+ * @returns The parameters, or null when a value is not valid percent-encoding, e.g. "100%"
+ */
+const parseQuery = (url: string): Map<string, string> | null => {
+  const query = url.slice(url.indexOf('?') + 1);
+  try {
+    return new Map(
+      query.split('&').map((pair) => {
+        const [name = '', value = ''] = pair.split('=');
+        return [name.toLowerCase(), decodeURIComponent(value)] as const;
+      }),
+    );
+  } catch {
+    // Any QR code can end up in front of the camera, not just well-formed NFC-e ones
+    return null;
+  }
+};
+
+/**
+ * Reads an NFC-e QR code
+ * v1: "...?chNFe=<key>&nVersao=100&tpAmb=1&dhEmi=<hex>&vNF=119.83&..."
+ * v2/v3 online: "...?p=<key>|2|1|1|<hash>"; offline: "...?p=<key>|2|1|<day>|<total>|<digVal>|1|<hash>"
+ * @param data Raw QR payload
+ * @returns The decoded code, or null when it is not an NFC-e code or its key is invalid
+ */
+export const decodeNfceQrCode = (data: string): NfceQrCode | null => {
+  const params = parseQuery(data);
+  if (!params) {
+    return null;
+  }
+
+  const p = params.get('p');
+  if (p) {
+    const [keyText = '', versionText, , dayText, totalText] = p.split('|');
+    const accessKey = parseAccessKey(keyText);
+    if (!accessKey) {
+      return null;
+    }
+    // Offline codes carry the day of emission and the total after the environment field
+    const isOffline = p.split('|').length > 5;
+    const day = isOffline && dayText && /^\d{2}$/.test(dayText) ? dayText : null;
+    return {
+      accessKey,
+      version: Number(versionText) || 2,
+      emissionDate: day ? `${accessKey.emissionMonth}-${day}` : null,
+      total: isOffline ? parseTotal(totalText) : null,
+    };
+  }
+
+  const accessKey = parseAccessKey(params.get('chnfe') ?? '');
+  if (!accessKey) {
+    return null;
+  }
+  return {
+    accessKey,
+    version: 1,
+    emissionDate: decodeHexDate(params.get('dhemi') ?? null),
+    total: parseTotal(params.get('vnf')),
+  };
+};
+
+/**
+ * What an NFC-e QR code says about the expense, read without any network lookup
+ * The key only has the emission month, so codes without a day fall back to the scan date
+ * @param scanDate YYYY-MM-DD the code was scanned on
+ */
+export const nfceToExtraction = (code: NfceQrCode, scanDate: string): ReceiptExtraction => {
+  const { accessKey } = code;
+  let date: ExtractedField<string>;
+  if (code.emissionDate) {
+    date = { value: code.emissionDate, confidence: 1 };
+  } else if (scanDate.startsWith(accessKey.emissionMonth)) {
+    date = { value: scanDate, confidence: 0.6 };
+  } else {
+    date = { value: `${accessKey.emissionMonth}-01`, confidence: 0.3 };
+  }
+
+  return {
+    extractor: 'nfce-qr',
+    amount: code.total !== null ? { value: code.total, confidence: 1 } : null,
+    date,
+    vendor: null,
+    category: null,
+    cnpj: { value: accessKey.cnpj, confidence: 1 },
+    liters: null,
+    pricePerLiter: null,
+    fuel: null,
+    accessKey: { value: accessKey.key, confidence: 1 },
+  };
+};
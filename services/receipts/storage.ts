@@ -0,0 +1,19 @@
+import * as FileSystem from 'expo-file-system';
+
+// Receipts live in the document directory so the OS never clears them like it does the cache
+const RECEIPTS_DIRECTORY = `${FileSystem.documentDirectory ?? ''}receipts/`;
+
+/**
+ * Moves a freshly taken photo out of the camera cache into app storage
+ * @returns The photo's new uri
+ */
+export const saveReceiptImage = async (photoUri: string, capturedAt: string) => {
+  await FileSystem.makeDirectoryAsync(RECEIPTS_DIRECTORY, { intermediates: true });
+  const extension = /\.(\w+)$/.exec(photoUri)?.[1] ?? 'jpg';
+  const uri = `${RECEIPTS_DIRECTORY}receipt_${String(new Date(capturedAt).getTime())}.${extension}`;
+  await FileSystem.moveAsync({ from: photoUri, to: uri });
+  return uri;
+};
+
+export const deleteReceiptImage = (uri: string) =>
+  FileSystem.deleteAsync(uri, { idempotent: true });
@@ -0,0 +1,40 @@
+import type { ExpenseCategory, PumpFuel } from '../../store/useAppStore';
+
+/**
+ * Receipt extraction - reading amount, date and vendor off a photographed receipt
+ * Extractors are swappable so an on-device model can replace the rule-based ones later
+ */
+
+export interface ExtractedField<T> {
+  value: T;
+  confidence: number; // 0-1, how sure the extractor is about this value
+}
+
+export interface ReceiptExtraction {
+  extractor: string; // name of the extractor that produced this
+  amount: ExtractedField<number> | null; // R$ total
+  date: ExtractedField<string> | null; // YYYY-MM-DD
+  vendor: ExtractedField<string> | null;
+  category: ExtractedField<ExpenseCategory> | null;
+  cnpj: ExtractedField<string> | null; // issuer's CNPJ, digits only, check digits verified
+  liters: ExtractedField<number> | null; // fuel coupons only
+  pricePerLiter: ExtractedField<number> | null; // R$/L, fuel coupons only
+  fuel: ExtractedField<PumpFuel> | null; // fuel coupons only; diesel is left out
+  accessKey: ExtractedField<string> | null; // 44-digit NFC-e access key, check digit verified
+}
+
+export interface ReceiptImage {
+  uri: string; // photo in app storage
+  capturedAt: string;
+  text: string | null; // recognised text, when an OCR pass has run
+}
+
+// OCR engine that turns a receipt photo into text lines, top to bottom
+export interface TextRecognizer {
+  recognize: (uri: string) => Promise<string | null>;
+}
+
+export interface ReceiptExtractor {
+  readonly name: string;
+  extract: (image: ReceiptImage) => Promise<ReceiptExtraction>;
+}
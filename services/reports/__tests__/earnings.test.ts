@@ -0,0 +1,149 @@
+import { describe, expect, it } from '@jest/globals';
+import type { Expense, TimerSession, Trip } from '../../../store/useAppStore';
+import { buildEarningsReport } from '../earnings';
+import type { ReportData } from '../earnings';
+import { getPeriod } from '../period';
+import type { ReportPeriod } from '../period';
+
+const TIME_ZONE = 'America/Sao_Paulo';
+
+const trip = (id: string, startedAt: string, overrides: Partial<Trip> = {}): Trip => ({
+  id,
+  sessionId: 'session',
+  vehicleId: null,
+  platform: 'uber',
+  pickup: { address: 'Rua Augusta, 1500' },
+  dropoff: { address: 'Av. Paulista, 1000' },
+  distanceKm: 10,
+  durationMinutes: 20,
+  fare: 20,
+  tip: 0,
+  platformFee: 5,
+  paymentMethod: 'in_app',
+  startedAt,
+  originZoneId: null,
+  createdAt: startedAt,
+  updatedAt: startedAt,
+  ...overrides,
+});
+
+const expense = (id: string, date: string, overrides: Partial<Expense> = {}): Expense => ({
+  id,
+  sessionId: null,
+  vehicleId: null,
+  status: 'confirmed',
+  category: 'fuel',
+  amount: 50,
+  paymentMethod: 'card',
+  vendor: 'Posto Ipiranga',
+  date,
+  receiptUri: null,
+  extraction: null,
+  odometerKm: null,
+  fuel: null,
+  liters: null,
+  createdAt: `${date}T12:00:00.000Z`,
+  updatedAt: `${date}T12:00:00.000Z`,
+  ...overrides,
+});
+
+// A four-hour shift from 22:00 on Friday to 02:00 on Saturday
+const SHIFT: TimerSession = {
+  id: 'session',
+  startTime: '2025-03-14T22:00:00-03:00',
+  endTime: '2025-03-15T02:00:00-03:00',
+  duration: 4 * 3600,
+  activeDuration: 4 * 3600,
+  breakDuration: 0,
+  breaks: [],
+  date: '2025-03-14',
+  timeZone: TIME_ZONE,
+  endReason: 'user',
+  vehicleId: null,
+  odometerStart: null,
+  odometerEnd: null,
+  pickupKm: 0,
+  gpsKm: null,
+};
+
+const DATA: ReportData = {
+  trips: [
+    // 01:30 UTC, but still Friday in São Paulo
+    trip('friday', '2025-03-14T22:30:00-03:00', { tip: 5 }),
+    trip('saturday', '2025-03-15T01:00:00-03:00', {
+      platform: '99',
+      fare: 30,
+      platformFee: 6,
+      distanceKm: 15,
+      durationMinutes: 30,
+    }),
+  ],
+  expenses: [
+    expense('fuel', '2025-03-14'),
+    expense('draft', '2025-03-14', { status: 'draft', amount: 100 }),
+    expense('toll', '2025-03-15', { category: 'tolls', amount: 8 }),
+  ],
+  sessions: [SHIFT],
+};
+
+const WEEKEND: ReportPeriod = { kind: 'custom', start: '2025-03-14', end: '2025-03-15' };
+
+describe('buildEarningsReport', () => {
+  it('nets fees, tips and confirmed expenses', () => {
+    const report = buildEarningsReport(DATA, WEEKEND, TIME_ZONE);
+
+    expect(report).toMatchObject({
+      trips: 2,
+      gross: 55,
+      tips: 5,
+      platformFees: 11,
+      earnings: 44,
+      expenses: 58,
+      expensesByCategory: { fuel: 50, tolls: 8 },
+      net: -14,
+      hours: 4,
+      distanceKm: 25,
+      netPerHour: -3.5,
+    });
+    expect(report.netPerKm).toBeCloseTo(-0.56, 6);
+  });
+
+  it('puts trips and expenses on the local day, across midnight', () => {
+    const report = buildEarningsReport(DATA, WEEKEND, TIME_ZONE);
+
+    expect(report.days).toEqual([
+      { date: '2025-03-14', earnings: 20, expenses: 50, net: -30 },
+      { date: '2025-03-15', earnings: 24, expenses: 8, net: 16 },
+    ]);
+  });
+
+  it('counts only the hours of a shift worked on the day reported', () => {
+    const friday = buildEarningsReport(DATA, getPeriod('day', '2025-03-14'), TIME_ZONE);
+    const saturday = buildEarningsReport(DATA, getPeriod('day', '2025-03-15'), TIME_ZONE);
+
+    expect([friday.hours, friday.trips, friday.net]).toEqual([2, 1, -30]);
+    expect([saturday.hours, saturday.trips, saturday.net]).toEqual([2, 1, 16]);
+  });
+
+  it('shares the hours out between platforms by time on their trips', () => {
+    const { platforms } = buildEarningsReport(DATA, WEEKEND, TIME_ZONE);
+
+    expect(platforms.map(({ platform, earnings, hours }) => [platform, earnings, hours])).toEqual([
+      ['99', 24, 2.4],
+      ['uber', 20, 1.6],
+    ]);
+    expect(platforms[0]?.earningsPerHour).toBeCloseTo(10, 6);
+  });
+
+  it('leaves the ratios out when nothing was worked', () => {
+    const report = buildEarningsReport(
+      { trips: [], expenses: [], sessions: [] },
+      WEEKEND,
+      TIME_ZONE,
+    );
+
+    expect(report.netPerHour).toBeNull();
+    expect(report.netPerKm).toBeNull();
+    expect(report.days).toHaveLength(2);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  getCustomPeriod,
+  getNextPeriod,
+  getPeriod,
+  getPeriodLength,
+  getPreviousPeriod,
+  isDateKey,
+  listPeriodDays,
+} from '../period';
+
+describe('isDateKey', () => {
+  it('accepts real days only', () => {
+    expect(isDateKey('2024-02-29')).toBe(true);
+    expect(isDateKey('2025-02-29')).toBe(false);
+    expect(isDateKey('2025-13-01')).toBe(false);
+    expect(isDateKey('14/03/2025')).toBe(false);
+    expect(isDateKey('2025-3-14')).toBe(false);
+  });
+});
+
+describe('getCustomPeriod', () => {
+  it('spans the days chosen, both included', () => {
+    const period = getCustomPeriod('2025-03-10', '2025-03-16');
+
+    expect(period).toEqual({ kind: 'custom', start: '2025-03-10', end: '2025-03-16' });
+    expect(period && getPeriodLength(period)).toBe(7);
+  });
+
+  it('allows a single day', () => {
+    const period = getCustomPeriod('2025-03-10', '2025-03-10');
+
+    expect(period && listPeriodDays(period)).toEqual(['2025-03-10']);
+  });
+
+  it('rejects a range that runs backwards', () => {
+    expect(getCustomPeriod('2025-03-16', '2025-03-10')).toBeNull();
+  });
+
+  it('rejects days that do not exist', () => {
+    expect(getCustomPeriod('2025-02-27', '2025-02-30')).toBeNull();
+    expect(getCustomPeriod('', '2025-03-10')).toBeNull();
+  });
+
+  it('steps by its own length', () => {
+    const period = getCustomPeriod('2025-02-25', '2025-03-03');
+    if (!period) {
+      throw new Error('Expected a period');
+    }
+
+    expect(getPreviousPeriod(period)).toEqual({
+      kind: 'custom',
+      start: '2025-02-18',
+      end: '2025-02-24',
+    });
+    expect(getNextPeriod(period)).toEqual({
+      kind: 'custom',
+      start: '2025-03-04',
+      end: '2025-03-10',
+    });
+  });
+});
+
+describe('getPeriod', () => {
+  it('runs weeks Monday to Sunday', () => {
+    expect(getPeriod('week', '2025-03-16')).toEqual({
+      kind: 'week',
+      start: '2025-03-10',
+      end: '2025-03-16',
+    });
+  });
+
+  it('ends months on their last day', () => {
+    expect(getPeriod('month', '2024-02-10')).toEqual({
+      kind: 'month',
+      start: '2024-02-01',
+      end: '2024-02-29',
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import type {
+  Expense,
+  ExpenseCategory,
+  TimerSession,
+  Trip,
+  TripPlatform,
+} from '../../store/useAppStore';
+import { splitSessionByDay, toLocalDateKey } from '../session/dayBucketing';
+import type { ReportPeriod } from './period';
+import { getPreviousPeriod, isInPeriod, listPeriodDays } from './period';
+
+/**
+ * Earnings reports over any period - the "Review & Report" step of the driver's day
+ * Pure functions over store data so screens, exports and statements all show the same figures
+ */
+
+export interface ReportData {
+  trips: Trip[];
+  expenses: Expense[];
+  sessions: TimerSession[];
+}
+
+export interface PlatformReport {
+  platform: TripPlatform;
+  trips: number;
+  gross: number; // R$ fares plus tips
+  platformFees: number; // R$
+  earnings: number; // R$ gross minus platform fees
+  distanceKm: number;
+  hours: number; // share of the hours worked, by time spent on this platform's trips
+  earningsPerHour: number | null; // null when no time was worked
+  earningsPerKm: number | null; // null when no distance was driven
+}
+
+export interface DayReport {
+  date: string; // YYYY-MM-DD
+  earnings: number; // R$ after platform fees
+  expenses: number; // R$
+  net: number; // R$
+}
+
+export interface EarningsReport {
+  period: ReportPeriod;
+  trips: number;
+  gross: number; // R$ fares plus tips
+  tips: number; // R$
+  platformFees: number; // R$
+  earnings: number; // R$ gross minus platform fees
+  expensesByCategory: Partial<Record<ExpenseCategory, number>>;
+  expenses: number; // R$, confirmed expenses only
+  net: number; // R$ earnings minus expenses
+  hours: number; // active session hours, breaks excluded
+  distanceKm: number;
+  netPerHour: number | null;
+  netPerKm: number | null;
+  platforms: PlatformReport[]; // highest earnings first
+  days: DayReport[]; // every day of the period, including empty ones
+}
+
+export type ComparedMetric =
+  'gross' | 'platformFees' | 'expenses' | 'net' | 'hours' | 'netPerHour' | 'netPerKm';
+
+export interface MetricChange {
+  current: number | null;
+  previous: number | null;
+  difference: number | null;
+  percent: number | null; // null when there is nothing to compare against
+}
+
+export interface ReportComparison {
+  current: EarningsReport;
+  previous: EarningsReport;
+  changes: Record<ComparedMetric, MetricChange>;
+}
+
+const COMPARED_METRICS: ComparedMetric[] = [
+  'gross',
+  'platformFees',
+  'expenses',
+  'net',
+  'hours',
+  'netPerHour',
+  'netPerKm',
+];
+
+const ratio = (value: number, per: number) => (per > 0 ? value / per : null);
+
+const sum = <T>(items: T[], pick: (item: T) => number) =>
+  items.reduce((total, item) => total + pick(item), 0);
+
+/**
+ * The trips, expenses and sessions that count towards a period
+ * Reports and exports both start from this, so their numbers always agree
+ * @param timeZone Zone to read trip start times in, usually the device's
+ */
+export const selectReportData = (
+  data: ReportData,
+  period: ReportPeriod,
+  timeZone: string,
+): ReportData => ({
+  trips: data.trips.filter((trip) => isInPeriod(toLocalDateKey(trip.startedAt, timeZone), period)),
+  // Drafts have not been checked by the driver yet
+  expenses: data.expenses.filter(
+    (expense) => expense.status === 'confirmed' && isInPeriod(expense.date, period),
+  ),
+  // Includes sessions that only partly fall inside, e.g. a shift past midnight on the last day
+  sessions: data.sessions.filter((session) =>
+    splitSessionByDay(session).some((portion) => isInPeriod(portion.date, period)),
+  ),
+});
+
+/**
+ * Aggregates trips, expenses and sessions over a period
+ * Trips are bucketed by the local day they started; sessions crossing midnight are split by day
+ * @param timeZone Zone to read trip start times in, usually the device's
+ */
+export const buildEarningsReport = (
+  data: ReportData,
+  period: ReportPeriod,
+  timeZone: string,
+): EarningsReport => {
+  const selected = selectReportData(data, period, timeZone);
+  const trips = selected.trips.map((trip) => ({
+    trip,
+    date: toLocalDateKey(trip.startedAt, timeZone),
+  }));
+  const { expenses } = selected;
+  const portions = selected.sessions
+    .flatMap(splitSessionByDay)
+    .filter((portion) => isInPeriod(portion.date, period));
+
+  const gross = sum(trips, ({ trip }) => trip.fare + trip.tip);
+  const platformFees = sum(trips, ({ trip }) => trip.platformFee);
+  const earnings = gross - platformFees;
+  const expenseTotal = sum(expenses, (expense) => expense.amount);
+  const net = earnings - expenseTotal;
+  const hours = sum(portions, (portion) => portion.activeDuration) / 3600;
+  const distanceKm = sum(trips, ({ trip }) => trip.distanceKm);
+
+  const expensesByCategory: Partial<Record<ExpenseCategory, number>> = {};
+  for (const expense of expenses) {
+    expensesByCategory[expense.category] =
+      (expensesByCategory[expense.category] ?? 0) + expense.amount;
+  }
+
+  // Sessions are not tied to a platform, so hours are shared out by time spent on trips
+  const tripMinutes = sum(trips, ({ trip }) => trip.durationMinutes);
+  const byPlatform = new Map<TripPlatform, Trip[]>();
+  for (const { trip } of trips) {
+    byPlatform.set(trip.platform, [...(byPlatform.get(trip.platform) ?? []), trip]);
+  }
+  const platforms = [...byPlatform.entries()]
+    .map(([platform, platformTrips]): PlatformReport => {
+      const platformGross = sum(platformTrips, (trip) => trip.fare + trip.tip);
+      const platformFeesTotal = sum(platformTrips, (trip) => trip.platformFee);
+      const platformEarnings = platformGross - platformFeesTotal;
+      const platformKm = sum(platformTrips, (trip) => trip.distanceKm);
+      const platformHours =
+        tripMinutes > 0
+          ? (hours * sum(platformTrips, (trip) => trip.durationMinutes)) / tripMinutes
+          : 0;
+      return {
+        platform,
+        trips: platformTrips.length,
+        gross: platformGross,
+        platformFees: platformFeesTotal,
+        earnings: platformEarnings,
+        distanceKm: platformKm,
+        hours: platformHours,
+        earningsPerHour: ratio(platformEarnings, platformHours),
+        earningsPerKm: ratio(platformEarnings, platformKm),
+      };
+    })
+    .sort((a, b) => b.earnings - a.earnings);
+
+  const days = listPeriodDays(period).map((date): DayReport => {
+    const dayEarnings = sum(
+      trips.filter((entry) => entry.date === date),
+      ({ trip }) => trip.fare + trip.tip - trip.platformFee,
+    );
+    const dayExpenses = sum(
+      expenses.filter((expense) => expense.date === date),
+      (expense) => expense.amount,
+    );
+    return { date, earnings: dayEarnings, expenses: dayExpenses, net: dayEarnings - dayExpenses };
+  });
+
+  return {
+    period,
+    trips: trips.length,
+    gross,
+    tips: sum(trips, ({ trip }) => trip.tip),
+    platformFees,
+    earnings,
+    expensesByCategory,
+    expenses: expenseTotal,
+    net,
+    hours,
+    distanceKm,
+    netPerHour: ratio(net, hours),
+    netPerKm: ratio(net, distanceKm),
+    platforms,
+    days,
+  };
+};
+
+const compareMetric = (current: number | null, previous: number | null): MetricChange => {
+  if (current === null || previous === null) {
+    return { current, previous, difference: null, percent: null };
+  }
+  const difference = current - previous;
+  return {
+    current,
+    previous,
+    difference,
+    percent: previous !== 0 ? (difference / Math.abs(previous)) * 100 : null,
+  };
+};
+
+/**
+ * Report for a period alongside the one before it, e.g. this week against last week
+ */
+export const buildReportComparison = (
+  data: ReportData,
+  period: ReportPeriod,
+  timeZone: string,
+): ReportComparison => {
+  const current = buildEarningsReport(data, period, timeZone);
+  const previous = buildEarningsReport(data, getPreviousPeriod(period), timeZone);
+
+  const changes = {} as Record<ComparedMetric, MetricChange>;
+  for (const metric of COMPARED_METRICS) {
+    changes[metric] = compareMetric(current[metric], previous[metric]);
+  }
+
+  return { current, previous, changes };
+};
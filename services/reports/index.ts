@@ -0,0 +1,22 @@
+export { buildEarningsReport, buildReportComparison, selectReportData } from './earnings';
+export type {
+  ComparedMetric,
+  DayReport,
+  EarningsReport,
+  MetricChange,
+  PlatformReport,
+  ReportComparison,
+  ReportData,
+} from './earnings';
+export {
+  addDays,
+  getCustomPeriod,
+  getNextPeriod,
+  getPeriod,
+  getPeriodLength,
+  getPreviousPeriod,
+  isDateKey,
+  isInPeriod,
+  listPeriodDays,
+} from './period';
+export type { ReportPeriod, ReportPeriodKind } from './period';
@@ -0,0 +1,123 @@
+/**
+ * Reporting periods as inclusive ranges of calendar days
+ * Days are YYYY-MM-DD keys, so periods never depend on the device's current zone
+ */
+
+export type ReportPeriodKind = 'day' | 'week' | 'month' | 'custom';
+
+export interface ReportPeriod {
+  kind: ReportPeriodKind;
+  start: string; // YYYY-MM-DD, first day included
+  end: string; // YYYY-MM-DD, last day included
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Day keys are handled as UTC midnights so DST never shifts a day
+const toUtcMs = (dateKey: string) => {
+  const [year = 1970, month = 1, day = 1] = dateKey.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+const fromUtcMs = (ms: number) => {
+  const date = new Date(ms);
+  return `${String(date.getUTCFullYear())}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+/**
+ * Whether text is a YYYY-MM-DD key of a day that exists, so "2025-02-30" is not
+ */
+export const isDateKey = (text: string): boolean =>
+  DATE_KEY_PATTERN.test(text) && fromUtcMs(toUtcMs(text)) === text;
+
+/**
+ * Moves a day key by a number of days
+ */
+export const addDays = (dateKey: string, days: number): string =>
+  fromUtcMs(toUtcMs(dateKey) + days * DAY_MS);
+
+/**
+ * Number of days in a period, counting both ends
+ */
+export const getPeriodLength = (period: ReportPeriod): number =>
+  Math.round((toUtcMs(period.end) - toUtcMs(period.start)) / DAY_MS) + 1;
+
+/**
+ * Every day key in a period, in order
+ */
+export const listPeriodDays = (period: ReportPeriod): string[] =>
+  Array.from({ length: getPeriodLength(period) }, (_, index) => addDays(period.start, index));
+
+export const isInPeriod = (dateKey: string, period: ReportPeriod): boolean =>
+  dateKey >= period.start && dateKey <= period.end;
+
+/**
+ * The day, week or month containing a day
+ * Weeks run Monday to Sunday, the way most platforms pay out
+ * @param anchor Any YYYY-MM-DD inside the period
+ */
+export const getPeriod = (
+  kind: Exclude<ReportPeriodKind, 'custom'>,
+  anchor: string,
+): ReportPeriod => {
+  if (kind === 'day') {
+    return { kind, start: anchor, end: anchor };
+  }
+  if (kind === 'week') {
+    const weekday = new Date(toUtcMs(anchor)).getUTCDay(); // 0 is Sunday
+    const start = addDays(anchor, -((weekday + 6) % 7));
+    return { kind, start, end: addDays(start, 6) };
+  }
+  const [year = 1970, month = 1] = anchor.split('-').map(Number);
+  return {
+    kind,
+    start: `${String(year)}-${pad(month)}-01`,
+    end: fromUtcMs(Date.UTC(year, month, 0)),
+  };
+};
+
+/**
+ * A range of days chosen by the driver
+ * @returns The period, or null when either day is not a real date or the range runs backwards
+ */
+export const getCustomPeriod = (start: string, end: string): ReportPeriod | null => {
+  if (!isDateKey(start) || !isDateKey(end) || end < start) {
+    return null;
+  }
+  return { kind: 'custom', start, end };
+};
+
+/**
+ * The period of the same kind right before this one
+ * Months step by calendar month; custom ranges step back by their own length
+ */
+export const getPreviousPeriod = (period: ReportPeriod): ReportPeriod => {
+  if (period.kind === 'custom') {
+    const length = getPeriodLength(period);
+    return {
+      kind: 'custom',
+      start: addDays(period.start, -length),
+      end: addDays(period.end, -length),
+    };
+  }
+  return getPeriod(period.kind, addDays(period.start, -1));
+};
+
+/**
+ * The period of the same kind right after this one
+ */
+export const getNextPeriod = (period: ReportPeriod): ReportPeriod => {
+  if (period.kind === 'custom') {
+    const length = getPeriodLength(period);
+    return {
+      kind: 'custom',
+      start: addDays(period.start, length),
+      end: addDays(period.end, length),
+    };
+  }
+  return getPeriod(period.kind, addDays(period.end, 1));
+};
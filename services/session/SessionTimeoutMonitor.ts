@@ -0,0 +1,135 @@
+import { useAppStore } from '../../store/useAppStore';
+import { speechAnnouncer } from '../speech';
+import type { SpeechAnnouncer } from '../speech';
+import { getCurrentTimerSeconds } from './sessionTime';
+import type { Clock, TimeoutOutcome } from './sessionTimeout';
+import { detectInterruptedSession, evaluateSessionTimeout, systemClock } from './sessionTimeout';
+
+type AppStore = Pick<typeof useAppStore, 'getState'>;
+
+interface SessionTimeoutMonitorOptions {
+  clock?: Clock;
+  store?: AppStore;
+  intervalMs?: number;
+  announcer?: SpeechAnnouncer;
+}
+
+const DEFAULT_CHECK_INTERVAL = 60 * 1000; // 1 minute
+const REMINDER_INTERVAL_SECONDS = 60 * 60; // spoken reminder every hour of driving
+
+/**
+ * Applies the session timeout rules to the store on a schedule
+ * Also writes the heartbeat used to tell crashes apart from normal app restarts,
+ * and speaks a reminder for every hour of active driving
+ */
+export class SessionTimeoutMonitor {
+  private readonly clock: Clock;
+  private readonly store: AppStore;
+  private readonly intervalMs: number;
+  private readonly announcer: SpeechAnnouncer;
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private reminder = { sessionId: null as string | null, hoursAnnounced: 0 };
+
+  constructor(options: SessionTimeoutMonitorOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.store = options.store ?? useAppStore;
+    this.intervalMs = options.intervalMs ?? DEFAULT_CHECK_INTERVAL;
+    this.announcer = options.announcer ?? speechAnnouncer;
+  }
+
+  start() {
+    if (this.interval) {
+      return;
+    }
+    this.interval = setInterval(() => {
+      this.check();
+    }, this.intervalMs);
+  }
+
+  stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Closes a session orphaned by a crash - run once on launch, before the first heartbeat
+   */
+  recoverInterruptedSession(): TimeoutOutcome {
+    const state = this.store.getState();
+    const outcome = detectInterruptedSession(
+      state.currentTimer,
+      state.sessionTimeout,
+      this.clock(),
+    );
+
+    if (outcome.type === 'crash') {
+      const { sessionId } = state.currentTimer;
+      state.stopTimer({ reason: 'crash', endTime: outcome.endedAt });
+      if (sessionId) {
+        state.setWindDownNotice({
+          sessionId,
+          reason: 'crash',
+          occurredAt: outcome.endedAt,
+          sessionEnded: true,
+        });
+      }
+    }
+    return outcome;
+  }
+
+  /**
+   * Evaluates the timeout and pauses or stops the session at the limit
+   */
+  check(): TimeoutOutcome {
+    const now = this.clock();
+    const state = this.store.getState();
+    const outcome = evaluateSessionTimeout(state.currentTimer, state.sessionTimeout, now);
+
+    if (outcome.type === 'timeout') {
+      const { sessionId } = state.currentTimer;
+      const sessionEnded = state.sessionTimeout.action === 'stop';
+
+      if (sessionEnded) {
+        state.stopTimer({ reason: 'timeout', endTime: outcome.expiredAt });
+      } else {
+        state.pauseTimer(outcome.expiredAt);
+      }
+      if (sessionId) {
+        state.setWindDownNotice({
+          sessionId,
+          reason: 'timeout',
+          occurredAt: outcome.expiredAt,
+          sessionEnded,
+        });
+      }
+    }
+
+    if (this.store.getState().currentTimer.isRunning) {
+      this.store.getState().recordHeartbeat(new Date(now).toISOString());
+      this.remindIfDue(now);
+    }
+    return outcome;
+  }
+
+  private remindIfDue(now: number) {
+    const timer = this.store.getState().currentTimer;
+    if (timer.isPaused) {
+      return;
+    }
+    if (this.reminder.sessionId !== timer.sessionId) {
+      this.reminder = { sessionId: timer.sessionId, hoursAnnounced: 0 };
+    }
+
+    const { active } = getCurrentTimerSeconds(timer, now);
+    const hours = Math.floor(active / REMINDER_INTERVAL_SECONDS);
+    if (hours > this.reminder.hoursAnnounced) {
+      this.reminder.hoursAnnounced = hours;
+      this.announcer.announce({
+        text: this.announcer.templates.timerReminder(active / 60),
+        priority: 'reminder',
+      });
+    }
+  }
+}
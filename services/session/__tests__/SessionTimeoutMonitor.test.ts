@@ -0,0 +1,185 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import type { CurrentTimer, useAppStore } from '../../../store/useAppStore';
+import { RecordingSpeechBackend, SpeechAnnouncer } from '../../speech';
+import { SessionTimeoutMonitor } from '../SessionTimeoutMonitor';
+import { DEFAULT_SESSION_TIMEOUT } from '../sessionTimeout';
+import type { SessionTimeoutConfig } from '../sessionTimeout';
+
+// The real store opens SQLite and MMKV; the monitor is handed a stand-in instead
+jest.mock('../../../store/useAppStore', () => ({ useAppStore: {} }));
+
+type AppState = ReturnType<typeof useAppStore.getState>;
+
+const START = Date.parse('2025-03-14T08:00:00.000Z');
+const MINUTE = 60 * 1000;
+const at = (minutes: number) => new Date(START + minutes * MINUTE).toISOString();
+
+const runningTimer = (overrides: Partial<CurrentTimer> = {}): CurrentTimer => ({
+  sessionId: 'session_1',
+  isRunning: true,
+  isPaused: false,
+  startTime: at(0),
+  timeZone: 'America/Sao_Paulo',
+  pausedAt: null,
+  breaks: [],
+  timeoutExtensionMinutes: 0,
+  lastHeartbeat: null,
+  inBackground: false,
+  vehicleId: null,
+  odometerStart: null,
+  pickupKm: 0,
+  gpsKm: null,
+  ...overrides,
+});
+
+const setup = (timer: CurrentTimer, config: Partial<SessionTimeoutConfig> = {}) => {
+  let now = START;
+  const state = {
+    currentTimer: timer,
+    sessionTimeout: { ...DEFAULT_SESSION_TIMEOUT, limitMinutes: 60, ...config },
+    stopTimer: jest.fn(() => {
+      state.currentTimer = { ...state.currentTimer, isRunning: false, sessionId: null };
+    }),
+    pauseTimer: jest.fn((pausedAt?: string) => {
+      state.currentTimer = { ...state.currentTimer, isPaused: true, pausedAt: pausedAt ?? null };
+    }),
+    recordHeartbeat: jest.fn((heartbeat: string) => {
+      state.currentTimer = { ...state.currentTimer, lastHeartbeat: heartbeat };
+    }),
+    setWindDownNotice: jest.fn(),
+  } as unknown as AppState;
+  const backend = new RecordingSpeechBackend();
+  const monitor = new SessionTimeoutMonitor({
+    clock: () => now,
+    store: { getState: () => state },
+    announcer: new SpeechAnnouncer(backend),
+  });
+  const advanceTo = (minutes: number) => {
+    now = START + minutes * MINUTE;
+  };
+  return { state, monitor, backend, advanceTo };
+};
+
+describe('SessionTimeoutMonitor.check', () => {
+  it('leaves a session under the limit running and writes the heartbeat', () => {
+    const { state, monitor, advanceTo } = setup(runningTimer());
+    advanceTo(30);
+
+    expect(monitor.check()).toEqual({ type: 'none', remainingSeconds: 30 * 60 });
+    expect(state.pauseTimer).not.toHaveBeenCalled();
+    expect(state.recordHeartbeat).toHaveBeenCalledWith(at(30));
+  });
+
+  it('pauses at the limit, back-dated to when it was reached', () => {
+    const { state, monitor, advanceTo } = setup(runningTimer());
+    // The app only checked again ten minutes after the limit
+    advanceTo(70);
+
+    expect(monitor.check()).toEqual({ type: 'timeout', expiredAt: at(60) });
+    expect(state.pauseTimer).toHaveBeenCalledWith(at(60));
+    expect(state.stopTimer).not.toHaveBeenCalled();
+    expect(state.setWindDownNotice).toHaveBeenCalledWith({
+      sessionId: 'session_1',
+      reason: 'timeout',
+      occurredAt: at(60),
+      sessionEnded: false,
+    });
+  });
+
+  it('stops at the limit when set to', () => {
+    const { state, monitor, advanceTo } = setup(runningTimer(), { action: 'stop' });
+    advanceTo(70);
+    monitor.check();
+
+    expect(state.stopTimer).toHaveBeenCalledWith({ reason: 'timeout', endTime: at(60) });
+    expect(state.pauseTimer).not.toHaveBeenCalled();
+    expect(state.setWindDownNotice).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionEnded: true }),
+    );
+    expect(state.recordHeartbeat).not.toHaveBeenCalled();
+  });
+
+  it('does not count breaks towards the limit', () => {
+    const { monitor, advanceTo } = setup(
+      runningTimer({ breaks: [{ startTime: at(20), endTime: at(40) }] }),
+    );
+    advanceTo(70);
+
+    expect(monitor.check()).toEqual({ type: 'none', remainingSeconds: 10 * 60 });
+  });
+
+  it('never times out a paused session', () => {
+    const { state, monitor, advanceTo } = setup(runningTimer({ isPaused: true, pausedAt: at(50) }));
+    advanceTo(300);
+
+    expect(monitor.check().type).toBe('none');
+    expect(state.pauseTimer).not.toHaveBeenCalled();
+  });
+
+  it('grants the extension after a timeout', () => {
+    const { monitor, advanceTo } = setup(runningTimer({ timeoutExtensionMinutes: 30 }));
+    advanceTo(70);
+
+    expect(monitor.check()).toEqual({ type: 'none', remainingSeconds: 20 * 60 });
+  });
+
+  it('does nothing when the timeout is turned off', () => {
+    const { monitor, advanceTo } = setup(runningTimer(), { enabled: false });
+    advanceTo(300);
+
+    expect(monitor.check()).toEqual({ type: 'none', remainingSeconds: null });
+  });
+
+  it('reminds the driver once per hour of driving', () => {
+    const { monitor, backend, advanceTo } = setup(runningTimer(), { enabled: false });
+    advanceTo(59);
+    monitor.check();
+    advanceTo(61);
+    monitor.check();
+    advanceTo(62);
+    monitor.check();
+
+    expect(backend.spoken).toHaveLength(1);
+  });
+});
+
+describe('SessionTimeoutMonitor.recoverInterruptedSession', () => {
+  it('ends a foreground session at its last heartbeat once the grace period has passed', () => {
+    const { state, monitor, advanceTo } = setup(runningTimer({ lastHeartbeat: at(45) }));
+    advanceTo(61);
+
+    expect(monitor.recoverInterruptedSession()).toEqual({ type: 'crash', endedAt: at(45) });
+    expect(state.stopTimer).toHaveBeenCalledWith({ reason: 'crash', endTime: at(45) });
+    expect(state.setWindDownNotice).toHaveBeenCalledWith({
+      sessionId: 'session_1',
+      reason: 'crash',
+      occurredAt: at(45),
+      sessionEnded: true,
+    });
+  });
+
+  it('leaves a session with a recent heartbeat alone', () => {
+    const { state, monitor, advanceTo } = setup(runningTimer({ lastHeartbeat: at(45) }));
+    advanceTo(59);
+
+    expect(monitor.recoverInterruptedSession().type).toBe('none');
+    expect(state.stopTimer).not.toHaveBeenCalled();
+  });
+
+  it('leaves a backgrounded session alone, however long the gap', () => {
+    const { state, monitor, advanceTo } = setup(
+      runningTimer({ lastHeartbeat: at(45), inBackground: true }),
+    );
+    advanceTo(600);
+
+    expect(monitor.recoverInterruptedSession().type).toBe('none');
+    expect(state.stopTimer).not.toHaveBeenCalled();
+  });
+
+  it('leaves a session without a heartbeat alone', () => {
+    const { monitor, advanceTo } = setup(runningTimer());
+    advanceTo(600);
+
+    expect(monitor.recoverInterruptedSession().type).toBe('none');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from '@jest/globals';
+import type { TimerSession } from '../../../store/useAppStore';
+import { getStartOfNextLocalDay, splitSessionByDay, toLocalDateKey } from '../dayBucketing';
+
+const session = (
+  startTime: string,
+  endTime: string,
+  timeZone: string,
+  overrides: Partial<TimerSession> = {},
+): TimerSession => {
+  const duration = (new Date(endTime).getTime() - new Date(startTime).getTime()) / 1000;
+  return {
+    id: 'session',
+    startTime,
+    endTime,
+    duration,
+    activeDuration: duration,
+    breakDuration: 0,
+    breaks: [],
+    date: toLocalDateKey(startTime, timeZone),
+    timeZone,
+    endReason: 'user',
+    vehicleId: null,
+    odometerStart: null,
+    odometerEnd: null,
+    pickupKm: 0,
+    gpsKm: null,
+    ...overrides,
+  };
+};
+
+describe('getStartOfNextLocalDay', () => {
+  it('finds local midnight', () => {
+    const next = getStartOfNextLocalDay(
+      Date.parse('2025-03-14T22:00:00-03:00'),
+      'America/Sao_Paulo',
+    );
+
+    expect(new Date(next).toISOString()).toBe('2025-03-15T03:00:00.000Z');
+  });
+
+  it('starts the day at 01:00 when DST skips midnight', () => {
+    // Santiago went from 23:59:59 -04:00 straight to 01:00 -03:00 on 8 September 2024
+    const next = getStartOfNextLocalDay(
+      Date.parse('2024-09-07T20:00:00-04:00'),
+      'America/Santiago',
+    );
+
+    expect(new Date(next).toISOString()).toBe('2024-09-08T04:00:00.000Z');
+    expect(toLocalDateKey(next, 'America/Santiago')).toBe('2024-09-08');
+    expect(toLocalDateKey(next - 1, 'America/Santiago')).toBe('2024-09-07');
+  });
+
+  it('handles midnight happening twice when DST ends', () => {
+    // Santiago went back from 00:00 -03:00 to 23:00 -04:00 on 6 April 2024
+    const next = getStartOfNextLocalDay(
+      Date.parse('2024-04-06T12:00:00-03:00'),
+      'America/Santiago',
+    );
+
+    expect(toLocalDateKey(next, 'America/Santiago')).toBe('2024-04-07');
+    expect(toLocalDateKey(next - 1, 'America/Santiago')).toBe('2024-04-06');
+  });
+});
+
+describe('splitSessionByDay', () => {
+  it('splits a shift at local midnight, with its breaks on the right day', () => {
+    const portions = splitSessionByDay(
+      session('2025-03-14T22:00:00-03:00', '2025-03-15T02:00:00-03:00', 'America/Sao_Paulo', {
+        breaks: [{ startTime: '2025-03-15T01:00:00-03:00', endTime: '2025-03-15T01:30:00-03:00' }],
+      }),
+    );
+
+    expect(
+      portions.map(({ date, duration, breakDuration }) => [date, duration, breakDuration]),
+    ).toEqual([
+      ['2025-03-14', 7200, 0],
+      ['2025-03-15', 7200, 1800],
+    ]);
+  });
+
+  it('ends when DST skips midnight', () => {
+    const portions = splitSessionByDay(
+      session('2024-09-07T20:00:00-04:00', '2024-09-08T03:00:00-03:00', 'America/Santiago'),
+    );
+
+    expect(portions.map(({ date, duration }) => [date, duration])).toEqual([
+      ['2024-09-07', 4 * 3600],
+      ['2024-09-08', 2 * 3600],
+    ]);
+  });
+});
@@ -0,0 +1,226 @@
+import type { BreakInterval, TimerSession } from '../../store/useAppStore';
+
+/**
+ * Timezone-aware day bucketing for work sessions
+ * Day keys are calendar dates in the session's IANA zone, never the UTC date
+ */
+
+export interface SessionDayPortion {
+  sessionId: string;
+  date: string; // YYYY-MM-DD in the session's time zone
+  startTime: string;
+  endTime: string;
+  duration: number; // in seconds
+  activeDuration: number; // in seconds
+  breakDuration: number; // in seconds
+}
+
+export interface DayTotals {
+  date: string;
+  duration: number;
+  activeDuration: number;
+  breakDuration: number;
+  sessionIds: string[];
+}
+
+const FALLBACK_TIME_ZONE = 'UTC';
+
+// Intl formatters are expensive to build, so keep one per zone
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const getLocalParts = (ms: number, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(ms))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return {
+    year: parts['year'] ?? 1970,
+    month: parts['month'] ?? 1,
+    day: parts['day'] ?? 1,
+    hour: parts['hour'] ?? 0,
+    minute: parts['minute'] ?? 0,
+    second: parts['second'] ?? 0,
+  };
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * Returns the device's IANA time zone, e.g. "America/Sao_Paulo"
+ */
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || FALLBACK_TIME_ZONE;
+  } catch {
+    return FALLBACK_TIME_ZONE;
+  }
+};
+
+/**
+ * Offset of the zone from UTC at the given instant, in milliseconds (negative west of UTC)
+ */
+export const getTimeZoneOffsetMs = (ms: number, timeZone: string): number => {
+  const local = getLocalParts(ms, timeZone);
+  const localAsUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second,
+  );
+  return localAsUtc - (ms - (ms % 1000));
+};
+
+/**
+ * Calendar date of an instant in the given zone
+ * @param time ISO timestamp or milliseconds
+ * @param timeZone IANA zone name
+ * @returns Date in YYYY-MM-DD format
+ */
+export const toLocalDateKey = (time: string | number, timeZone: string): string => {
+  const ms = typeof time === 'number' ? time : new Date(time).getTime();
+  const { year, month, day } = getLocalParts(ms, timeZone);
+  return `${String(year)}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Wall-clock time of an instant in the given zone
+ * @param time ISO timestamp or milliseconds
+ * @param timeZone IANA zone name
+ * @returns Time in HH:mm format, 24-hour
+ */
+export const toLocalTimeKey = (time: string | number, timeZone: string): string => {
+  const ms = typeof time === 'number' ? time : new Date(time).getTime();
+  const { hour, minute } = getLocalParts(ms, timeZone);
+  return `${pad(hour)}:${pad(minute)}`;
+};
+
+// Widest DST shift searched around a local midnight
+const MAX_DST_SHIFT_MS = 3 * 60 * 60 * 1000;
+
+/**
+ * First instant of the local day following the one containing ms
+ * Where a DST change skips 00:00 (America/Santiago, for one) the day starts at 01:00 instead
+ */
+export const getStartOfNextLocalDay = (ms: number, timeZone: string): number => {
+  const { year, month, day } = getLocalParts(ms, timeZone);
+  const dayKey = `${String(year)}-${pad(month)}-${pad(day)}`;
+  const nextMidnightAsUtc = Date.UTC(year, month - 1, day + 1);
+  // Refine with the offset at the boundary itself in case a DST change happens that day
+  const guess = nextMidnightAsUtc - getTimeZoneOffsetMs(ms, timeZone);
+  const candidate = nextMidnightAsUtc - getTimeZoneOffsetMs(guess, timeZone);
+
+  const isLater = (at: number) => toLocalDateKey(at, timeZone) > dayKey;
+  if (candidate > ms && isLater(candidate) && !isLater(candidate - 1)) {
+    return candidate;
+  }
+
+  // Midnight did not exist: search for where the date key changes
+  let before = Math.max(ms, candidate - MAX_DST_SHIFT_MS);
+  if (isLater(before)) {
+    before = ms;
+  }
+  let after = Math.max(candidate, ms) + MAX_DST_SHIFT_MS;
+  while (!isLater(after)) {
+    after += MAX_DST_SHIFT_MS;
+  }
+  while (after - before > 1) {
+    const middle = Math.floor((before + after) / 2);
+    if (isLater(middle)) {
+      after = middle;
+    } else {
+      before = middle;
+    }
+  }
+  return after;
+};
+
+const overlapMs = (startMs: number, endMs: number, interval: BreakInterval) => {
+  const from = Math.max(startMs, new Date(interval.startTime).getTime());
+  const to = Math.min(endMs, new Date(interval.endTime).getTime());
+  return Math.max(0, to - from);
+};
+
+/**
+ * Splits a session into one portion per local calendar day it touches
+ * A shift from 22:00 to 02:00 yields two portions with their breaks attributed to the right day
+ */
+export const splitSessionByDay = (session: TimerSession): SessionDayPortion[] => {
+  const timeZone = session.timeZone || FALLBACK_TIME_ZONE;
+  const sessionEndMs = new Date(session.endTime).getTime();
+  const portions: SessionDayPortion[] = [];
+
+  let portionStartMs = new Date(session.startTime).getTime();
+  while (portionStartMs < sessionEndMs) {
+    const nextDayMs = getStartOfNextLocalDay(portionStartMs, timeZone);
+    // Every pass has to move forward; should the zone data misbehave, the rest is one portion
+    const portionEndMs =
+      nextDayMs > portionStartMs ? Math.min(nextDayMs, sessionEndMs) : sessionEndMs;
+    const breakMs = session.breaks.reduce(
+      (sum, interval) => sum + overlapMs(portionStartMs, portionEndMs, interval),
+      0,
+    );
+    const duration = Math.floor((portionEndMs - portionStartMs) / 1000);
+    const breakDuration = Math.min(duration, Math.floor(breakMs / 1000));
+
+    portions.push({
+      sessionId: session.id,
+      date: toLocalDateKey(portionStartMs, timeZone),
+      startTime: new Date(portionStartMs).toISOString(),
+      endTime: new Date(portionEndMs).toISOString(),
+      duration,
+      activeDuration: duration - breakDuration,
+      breakDuration,
+    });
+    portionStartMs = portionEndMs;
+  }
+
+  return portions;
+};
+
+/**
+ * Totals per local day across sessions, sorted by date
+ */
+export const bucketSessionsByDay = (sessions: TimerSession[]): DayTotals[] => {
+  const days = new Map<string, DayTotals>();
+
+  for (const portion of sessions.flatMap(splitSessionByDay)) {
+    const totals = days.get(portion.date) ?? {
+      date: portion.date,
+      duration: 0,
+      activeDuration: 0,
+      breakDuration: 0,
+      sessionIds: [],
+    };
+    totals.duration += portion.duration;
+    totals.activeDuration += portion.activeDuration;
+    totals.breakDuration += portion.breakDuration;
+    if (!totals.sessionIds.includes(portion.sessionId)) {
+      totals.sessionIds.push(portion.sessionId);
+    }
+    days.set(portion.date, totals);
+  }
+
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
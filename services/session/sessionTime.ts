@@ -0,0 +1,70 @@
+import type { BreakInterval, CurrentTimer } from '../../store/useAppStore';
+
+/**
+ * Time accounting helpers for work sessions and their breaks
+ */
+
+export interface SessionSeconds {
+  total: number; // wall-clock seconds since the session started
+  active: number; // seconds worked, excluding breaks
+  onBreak: number; // seconds spent on breaks, including one in progress
+}
+
+const toMs = (iso: string) => new Date(iso).getTime();
+
+/**
+ * Returns the break list with the break in progress (if any) closed at endTime
+ * @param timer The current timer state
+ * @param endTime ISO timestamp to close the open break at
+ */
+export const closeOpenBreak = (
+  timer: Pick<CurrentTimer, 'isPaused' | 'pausedAt' | 'breaks'>,
+  endTime: string,
+): BreakInterval[] => {
+  if (timer.isPaused && timer.pausedAt) {
+    return [...timer.breaks, { startTime: timer.pausedAt, endTime }];
+  }
+  return timer.breaks;
+};
+
+/**
+ * Splits the elapsed time of a session into active and break seconds
+ * @param startTime ISO timestamp the session started at
+ * @param breaks Completed breaks
+ * @param pausedAt Start of the break in progress, or null when running
+ * @param nowMs Reference time in milliseconds
+ */
+export const getSessionSeconds = (
+  startTime: string,
+  breaks: BreakInterval[],
+  pausedAt: string | null,
+  nowMs: number,
+): SessionSeconds => {
+  const total = Math.max(0, Math.floor((nowMs - toMs(startTime)) / 1000));
+
+  const closedBreakMs = breaks.reduce(
+    (sum, interval) => sum + Math.max(0, toMs(interval.endTime) - toMs(interval.startTime)),
+    0,
+  );
+  const openBreakMs = pausedAt ? Math.max(0, nowMs - toMs(pausedAt)) : 0;
+  const onBreak = Math.min(total, Math.floor((closedBreakMs + openBreakMs) / 1000));
+
+  return { total, active: total - onBreak, onBreak };
+};
+
+/**
+ * Convenience wrapper for the live timer
+ * @param timer The current timer state
+ * @param nowMs Reference time in milliseconds
+ */
+export const getCurrentTimerSeconds = (timer: CurrentTimer, nowMs: number): SessionSeconds => {
+  if (!timer.isRunning || !timer.startTime) {
+    return { total: 0, active: 0, onBreak: 0 };
+  }
+  return getSessionSeconds(
+    timer.startTime,
+    timer.breaks,
+    timer.isPaused ? timer.pausedAt : null,
+    nowMs,
+  );
+};
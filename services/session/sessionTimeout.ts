@@ -0,0 +1,84 @@
+import type { CurrentTimer } from '../../store/useAppStore';
+import { getCurrentTimerSeconds } from './sessionTime';
+
+/**
+ * Session timeout rules
+ * Pure functions - the current time is always passed in so they can run against any clock
+ */
+
+export type Clock = () => number;
+
+export const systemClock: Clock = () => Date.now();
+
+export type SessionEndReason = 'user' | 'timeout' | 'crash';
+
+export interface SessionTimeoutConfig {
+  enabled: boolean;
+  limitMinutes: number; // worked time before the session times out
+  action: 'pause' | 'stop'; // what happens to the session at the limit
+  crashGraceMinutes: number; // heartbeat gap after which a foreground session counts as crashed
+}
+
+export const DEFAULT_SESSION_TIMEOUT: SessionTimeoutConfig = {
+  enabled: true,
+  limitMinutes: 4 * 60,
+  action: 'pause',
+  crashGraceMinutes: 15,
+};
+
+export type TimeoutOutcome =
+  | { type: 'none'; remainingSeconds: number | null }
+  | { type: 'timeout'; expiredAt: string }
+  | { type: 'crash'; endedAt: string };
+
+/**
+ * Checks whether the running session has used up its allowed worked time
+ * Breaks do not count towards the limit and a paused session never expires
+ * @param timer The current timer state
+ * @param config Timeout configuration
+ * @param nowMs Reference time in milliseconds
+ */
+export const evaluateSessionTimeout = (
+  timer: CurrentTimer,
+  config: SessionTimeoutConfig,
+  nowMs: number,
+): TimeoutOutcome => {
+  if (!config.enabled || !timer.isRunning || !timer.startTime) {
+    return { type: 'none', remainingSeconds: null };
+  }
+
+  const limitSeconds = (config.limitMinutes + timer.timeoutExtensionMinutes) * 60;
+  const { active } = getCurrentTimerSeconds(timer, nowMs);
+
+  if (timer.isPaused || active < limitSeconds) {
+    return { type: 'none', remainingSeconds: Math.max(0, limitSeconds - active) };
+  }
+
+  // Back-date the expiry to the moment the limit was reached, not when we noticed
+  const expiredAtMs = nowMs - (active - limitSeconds) * 1000;
+  return { type: 'timeout', expiredAt: new Date(expiredAtMs).toISOString() };
+};
+
+/**
+ * Detects a session left running by an app that died while in the foreground
+ * A backgrounded app may be suspended by the OS at any time, so only foreground gaps count
+ * @param timer The current timer state as restored on launch
+ * @param config Timeout configuration
+ * @param nowMs Reference time in milliseconds
+ */
+export const detectInterruptedSession = (
+  timer: CurrentTimer,
+  config: SessionTimeoutConfig,
+  nowMs: number,
+): TimeoutOutcome => {
+  if (!timer.isRunning || timer.inBackground || !timer.lastHeartbeat) {
+    return { type: 'none', remainingSeconds: null };
+  }
+
+  const gapMs = nowMs - new Date(timer.lastHeartbeat).getTime();
+  if (gapMs <= config.crashGraceMinutes * 60 * 1000) {
+    return { type: 'none', remainingSeconds: null };
+  }
+
+  return { type: 'crash', endedAt: timer.lastHeartbeat };
+};
@@ -0,0 +1,107 @@
+import type { SpeechLocale } from './templates';
+import { ANNOUNCEMENT_TEMPLATES } from './templates';
+import type { Announcement, AnnouncementPriority, SpeechBackend } from './types';
+
+const PRIORITY_RANK: Record<AnnouncementPriority, number> = {
+  reminder: 0,
+  session: 1,
+  offer: 2,
+};
+
+/**
+ * Speaks announcements one at a time, most urgent first
+ * An offer cuts off a timer reminder mid-sentence; the interrupted announcement is dropped
+ */
+export class SpeechAnnouncer {
+  private readonly backend: SpeechBackend;
+  private readonly locale: SpeechLocale;
+  private queue: Announcement[] = [];
+  private current: Announcement | null = null;
+
+  constructor(backend: SpeechBackend, locale: SpeechLocale = 'pt-BR') {
+    this.backend = backend;
+    this.locale = locale;
+  }
+
+  get templates() {
+    return ANNOUNCEMENT_TEMPLATES[this.locale];
+  }
+
+  get isSpeaking() {
+    return this.current !== null;
+  }
+
+  get pending(): readonly Announcement[] {
+    return this.queue;
+  }
+
+  announce(announcement: Announcement) {
+    const rank = PRIORITY_RANK[announcement.priority];
+    if (announcement.key) {
+      this.queue = this.queue.filter((queued) => queued.key !== announcement.key);
+    }
+
+    // Behind everything of equal or higher priority, so each priority stays first-in first-out
+    const index = this.queue.findIndex((queued) => PRIORITY_RANK[queued.priority] < rank);
+    if (index === -1) {
+      this.queue.push(announcement);
+    } else {
+      this.queue.splice(index, 0, announcement);
+    }
+
+    const supersedesCurrent =
+      this.current !== null &&
+      (PRIORITY_RANK[this.current.priority] < rank ||
+        (announcement.key !== undefined && this.current.key === announcement.key));
+    if (supersedesCurrent) {
+      this.stopSpeaking();
+    } else {
+      this.speakNext();
+    }
+  }
+
+  /**
+   * Drops queued announcements with the key and silences the one speaking, e.g. once an offer is decided
+   */
+  cancel(key: string) {
+    this.queue = this.queue.filter((queued) => queued.key !== key);
+    if (this.current?.key === key) {
+      this.stopSpeaking();
+    }
+  }
+
+  clear() {
+    this.queue = [];
+    if (this.current) {
+      this.stopSpeaking();
+    }
+  }
+
+  // The interrupted speak() resolves on stop, which moves the queue along
+  private stopSpeaking() {
+    this.backend.stop().catch((error: unknown) => {
+      console.error('[Speech] Failed to stop speaking:', error);
+    });
+  }
+
+  private speakNext() {
+    if (this.current) {
+      return;
+    }
+    const next = this.queue.shift();
+    if (!next) {
+      return;
+    }
+
+    this.current = next;
+    this.backend
+      .speak(next.text, this.locale)
+      .catch((error: unknown) => {
+        console.error('[Speech] Failed to speak announcement:', error);
+      })
+      .finally(() => {
+        this.current = null;
+        this.speakNext();
+      });
+  }
+}
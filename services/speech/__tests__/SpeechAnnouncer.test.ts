@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { RecordingSpeechBackend } from '../backends';
+import { SpeechAnnouncer } from '../SpeechAnnouncer';
+
+const UTTERANCE_MS = 1000;
+
+const setup = () => {
+  const backend = new RecordingSpeechBackend(UTTERANCE_MS);
+  const announcer = new SpeechAnnouncer(backend);
+  const spoken = () => backend.spoken.map(({ text }) => text);
+  return { backend, announcer, spoken };
+};
+
+// Lets every queued utterance finish
+const finishAll = () => jest.advanceTimersByTimeAsync(UTTERANCE_MS * 10);
+
+describe('SpeechAnnouncer', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('speaks straight away in the pt-BR voice when idle', () => {
+    const { backend, announcer } = setup();
+    announcer.announce({ text: 'Sessão iniciada.', priority: 'session' });
+
+    expect(backend.spoken).toEqual([{ text: 'Sessão iniciada.', language: 'pt-BR' }]);
+    expect(announcer.isSpeaking).toBe(true);
+  });
+
+  it('plays higher priorities first, each in the order announced', async () => {
+    const { announcer, spoken } = setup();
+    announcer.announce({ text: 'A', priority: 'session' });
+    announcer.announce({ text: 'reminder', priority: 'reminder' });
+    announcer.announce({ text: 'B', priority: 'session' });
+    announcer.announce({ text: 'C', priority: 'session' });
+
+    expect(announcer.pending.map(({ text }) => text)).toEqual(['B', 'C', 'reminder']);
+    await finishAll();
+    expect(spoken()).toEqual(['A', 'B', 'C', 'reminder']);
+    expect(announcer.isSpeaking).toBe(false);
+  });
+
+  it('cuts off a lower priority mid-sentence and drops it', async () => {
+    const { backend, announcer, spoken } = setup();
+    announcer.announce({ text: 'reminder', priority: 'reminder' });
+    announcer.announce({ text: 'offer', priority: 'offer' });
+
+    expect(backend.stopCount).toBe(1);
+    await finishAll();
+    expect(spoken()).toEqual(['reminder', 'offer']);
+  });
+
+  it('lets an equal priority wait its turn', () => {
+    const { backend, announcer } = setup();
+    announcer.announce({ text: 'first offer', priority: 'offer' });
+    announcer.announce({ text: 'second offer', priority: 'offer' });
+
+    expect(backend.stopCount).toBe(0);
+    expect(announcer.pending).toHaveLength(1);
+  });
+
+  it('replaces a queued announcement with the same key', async () => {
+    const { announcer, spoken } = setup();
+    announcer.announce({ text: 'A', priority: 'session' });
+    announcer.announce({ text: 'stale', priority: 'session', key: 'earnings' });
+    announcer.announce({ text: 'fresh', priority: 'session', key: 'earnings' });
+
+    await finishAll();
+    expect(spoken()).toEqual(['A', 'fresh']);
+  });
+
+  it('replaces the announcement speaking with a newer one of the same key', async () => {
+    const { backend, announcer, spoken } = setup();
+    announcer.announce({ text: 'offer v1', priority: 'offer', key: 'offer_1' });
+    announcer.announce({ text: 'offer v2', priority: 'offer', key: 'offer_1' });
+
+    expect(backend.stopCount).toBe(1);
+    await finishAll();
+    expect(spoken()).toEqual(['offer v1', 'offer v2']);
+  });
+
+  it('cancels by key, both queued and speaking', async () => {
+    const { backend, announcer, spoken } = setup();
+    announcer.announce({ text: 'offer', priority: 'offer', key: 'offer_1' });
+    announcer.announce({ text: 'zone', priority: 'session', key: 'zone_1' });
+    announcer.announce({ text: 'other', priority: 'session' });
+
+    announcer.cancel('zone_1');
+    announcer.cancel('offer_1');
+
+    expect(backend.stopCount).toBe(1);
+    await finishAll();
+    expect(spoken()).toEqual(['offer', 'other']);
+  });
+
+  it('clears everything', async () => {
+    const { announcer, spoken } = setup();
+    announcer.announce({ text: 'A', priority: 'session' });
+    announcer.announce({ text: 'B', priority: 'session' });
+    announcer.clear();
+
+    await finishAll();
+    expect(spoken()).toEqual(['A']);
+    expect(announcer.isSpeaking).toBe(false);
+  });
+});
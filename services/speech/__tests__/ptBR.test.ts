@@ -0,0 +1,99 @@
+import { describe, expect, it } from '@jest/globals';
+import { calculateProfitability, DEFAULT_COST_PROFILE } from '../../offers/profitability';
+import { numberToWords, spokenDecimal, spokenDuration, spokenReais } from '../ptBR';
+import { ANNOUNCEMENT_TEMPLATES } from '../templates';
+
+describe('numberToWords', () => {
+  it.each([
+    [0, 'zero'],
+    [16, 'dezesseis'],
+    [21, 'vinte e um'],
+    [100, 'cem'],
+    [101, 'cento e um'],
+    [345, 'trezentos e quarenta e cinco'],
+    [1000, 'mil'],
+    [1500, 'mil e quinhentos'],
+    [1234, 'mil duzentos e trinta e quatro'],
+    [2_000_000, 'dois milhões'],
+    [1_500_000, 'um milhão e quinhentos mil'],
+  ])('spells %d as "%s"', (value, words) => {
+    expect(numberToWords(value)).toBe(words);
+  });
+
+  it('uses feminine forms when asked', () => {
+    expect(numberToWords(2, true)).toBe('duas');
+    expect(numberToWords(201, true)).toBe('duzentas e uma');
+  });
+});
+
+describe('spokenReais', () => {
+  it.each([
+    [35.5, 'trinta e cinco reais e cinquenta centavos'],
+    [1, 'um real'],
+    [1.01, 'um real e um centavo'],
+    [0.5, 'cinquenta centavos'],
+    [1_000_000, 'um milhão de reais'],
+    [-12, 'menos doze reais'],
+  ])('says %d as "%s"', (value, words) => {
+    expect(spokenReais(value)).toBe(words);
+  });
+});
+
+describe('spokenDecimal', () => {
+  it('reads one decimal place', () => {
+    expect(spokenDecimal(8.4)).toBe('oito vírgula quatro');
+    expect(spokenDecimal(12)).toBe('doze');
+  });
+});
+
+describe('spokenDuration', () => {
+  it('reads hours and minutes', () => {
+    expect(spokenDuration(135)).toBe('duas horas e quinze minutos');
+    expect(spokenDuration(60)).toBe('uma hora');
+    expect(spokenDuration(1)).toBe('um minuto');
+  });
+});
+
+describe('pt-BR templates', () => {
+  const templates = ANNOUNCEMENT_TEMPLATES['pt-BR'];
+
+  it('words the day earnings', () => {
+    expect(templates.earningsToday(152.3, 2)).toBe(
+      'Hoje você ganhou cento e cinquenta e dois reais e trinta centavos em duas corridas.',
+    );
+    expect(templates.earningsToday(0, 0)).toBe('Nenhuma corrida registrada hoje.');
+  });
+
+  it('reads out an offer with its hourly net and the advice', () => {
+    const offer = {
+      id: 'offer_1',
+      platform: 'uber' as const,
+      fare: 23.9,
+      pickupDistanceKm: 1.2,
+      pickupMinutes: 4,
+      tripDistanceKm: 8.4,
+      tripMinutes: 18,
+      pickupAddress: null,
+      destination: null,
+      surge: null,
+      passengerRating: null,
+      detectedAt: '2025-03-14T21:00:00.000Z',
+    };
+    const result = calculateProfitability(offer, DEFAULT_COST_PROFILE);
+
+    expect(templates.offer(offer, result, 'accept')).toBe(
+      'Uber, vinte e três reais e noventa centavos por oito vírgula quatro quilômetros. ' +
+        `Passageiro a quatro minutos. Líquido de ${spokenReais(result.netPerHour)} por hora. ` +
+        'Vale a pena.',
+    );
+    expect(templates.offer({ ...offer, pickupMinutes: null }, result, 'ask')).toMatch(
+      /quilômetros\. Líquido .* Você decide\.$/,
+    );
+  });
+
+  it('reminds the driver how long they have driven', () => {
+    expect(templates.timerReminder(61)).toBe(
+      'Você está dirigindo há uma hora e um minuto. Que tal uma pausa?',
+    );
+  });
+});
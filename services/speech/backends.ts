@@ -0,0 +1,64 @@
+import * as Speech from 'expo-speech';
+import type { SpeechBackend } from './types';
+
+/**
+ * Speaks through the platform TTS engine via expo-speech
+ */
+export class ExpoSpeechBackend implements SpeechBackend {
+  speak(text: string, language: string) {
+    return new Promise<void>((resolve) => {
+      Speech.speak(text, {
+        language,
+        onDone: resolve,
+        onStopped: resolve,
+        onError: (error) => {
+          console.error('[Speech] Failed to speak:', error);
+          resolve();
+        },
+      });
+    });
+  }
+
+  stop() {
+    return Speech.stop();
+  }
+}
+
+/**
+ * Silent backend that keeps a transcript of what would have been said
+ * For tests and for devices without a TTS engine; utteranceMs simulates speaking time
+ */
+export class RecordingSpeechBackend implements SpeechBackend {
+  readonly spoken: { text: string; language: string }[] = [];
+  stopCount = 0;
+  private readonly utteranceMs: number;
+  private finishCurrent: (() => void) | null = null;
+
+  constructor(utteranceMs = 0) {
+    this.utteranceMs = utteranceMs;
+  }
+
+  speak(text: string, language: string) {
+    this.spoken.push({ text, language });
+    if (this.utteranceMs <= 0) {
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve) => {
+      const timeout = setTimeout(() => {
+        this.finishCurrent = null;
+        resolve();
+      }, this.utteranceMs);
+      this.finishCurrent = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+    });
+  }
+
+  stop() {
+    this.stopCount += 1;
+    this.finishCurrent?.();
+    this.finishCurrent = null;
+    return Promise.resolve();
+  }
+}
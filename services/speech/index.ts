@@ -0,0 +1,8 @@
+import { ExpoSpeechBackend } from './backends';
+import { SpeechAnnouncer } from './SpeechAnnouncer';
+
+export { ExpoSpeechBackend, RecordingSpeechBackend } from './backends';
+export { SpeechAnnouncer } from './SpeechAnnouncer';
+export type { Announcement, AnnouncementPriority, SpeechBackend } from './types';
+
+export const speechAnnouncer = new SpeechAnnouncer(new ExpoSpeechBackend());
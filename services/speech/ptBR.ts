@@ -0,0 +1,170 @@
+/**
+ * Brazilian Portuguese number wording for spoken announcements
+ * TTS engines read "R$ 35,50" inconsistently, so amounts are spelled out before speaking
+ */
+
+const UNITS = [
+  'zero',
+  'um',
+  'dois',
+  'três',
+  'quatro',
+  'cinco',
+  'seis',
+  'sete',
+  'oito',
+  'nove',
+  'dez',
+  'onze',
+  'doze',
+  'treze',
+  'catorze',
+  'quinze',
+  'dezesseis',
+  'dezessete',
+  'dezoito',
+  'dezenove',
+];
+
+const TENS = [
+  '',
+  '',
+  'vinte',
+  'trinta',
+  'quarenta',
+  'cinquenta',
+  'sessenta',
+  'setenta',
+  'oitenta',
+  'noventa',
+];
+
+const HUNDREDS = [
+  '',
+  'cento',
+  'duzentos',
+  'trezentos',
+  'quatrocentos',
+  'quinhentos',
+  'seiscentos',
+  'setecentos',
+  'oitocentos',
+  'novecentos',
+];
+
+// Feminine nouns (horas) take "uma", "duas", "duzentas"...
+const toFeminine = (words: string) =>
+  words
+    .replace(/\bum\b/g, 'uma')
+    .replace(/\bdois\b/g, 'duas')
+    .replace(/entos\b/g, 'entas');
+
+const belowThousand = (value: number): string => {
+  if (value === 100) {
+    return 'cem';
+  }
+  const parts: string[] = [];
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  if (hundreds > 0) {
+    parts.push(HUNDREDS[hundreds] ?? '');
+  }
+  if (rest >= 20) {
+    parts.push(TENS[Math.floor(rest / 10)] ?? '');
+    if (rest % 10 > 0) {
+      parts.push(UNITS[rest % 10] ?? '');
+    }
+  } else if (rest > 0) {
+    parts.push(UNITS[rest] ?? '');
+  }
+  return parts.join(' e ');
+};
+
+// "e" joins the last group when it is below 100 or a round hundred: "mil e quinhentos"
+const joinGroups = (higher: string, rest: number) => {
+  if (rest === 0) {
+    return higher;
+  }
+  const connector = rest < 100 || rest % 100 === 0 ? ' e ' : ' ';
+  return `${higher}${connector}${belowThousand(rest)}`;
+};
+
+/**
+ * Spells out a whole number in Brazilian Portuguese, e.g. 1234 → "mil duzentos e trinta e quatro"
+ * @param value Non-negative integer below one billion
+ * @param feminine Use feminine forms for feminine nouns, e.g. "duas horas"
+ */
+export const numberToWords = (value: number, feminine = false): string => {
+  const whole = Math.floor(Math.abs(value));
+  let words: string;
+
+  if (whole < 1000) {
+    words = whole === 0 ? 'zero' : belowThousand(whole);
+  } else {
+    const millions = Math.floor(whole / 1_000_000);
+    const thousands = Math.floor((whole % 1_000_000) / 1000);
+    const rest = whole % 1000;
+
+    const groups: string[] = [];
+    if (millions > 0) {
+      groups.push(millions === 1 ? 'um milhão' : `${belowThousand(millions)} milhões`);
+    }
+    if (thousands > 0) {
+      groups.push(thousands === 1 ? 'mil' : `${belowThousand(thousands)} mil`);
+    }
+    // Same "e" rule between millions and thousands: "um milhão e quinhentos mil"
+    const higher =
+      millions > 0 && thousands > 0 && rest === 0 && (thousands < 100 || thousands % 100 === 0)
+        ? groups.join(' e ')
+        : groups.join(' ');
+    words = joinGroups(higher, rest);
+  }
+
+  return feminine ? toFeminine(words) : words;
+};
+
+/**
+ * Spells out an amount in reais, e.g. 35.5 → "trinta e cinco reais e cinquenta centavos"
+ */
+export const spokenReais = (value: number): string => {
+  const totalCents = Math.round(Math.abs(value) * 100);
+  const reais = Math.floor(totalCents / 100);
+  const cents = totalCents % 100;
+  const prefix = value < 0 ? 'menos ' : '';
+
+  const centsText = `${numberToWords(cents)} ${cents === 1 ? 'centavo' : 'centavos'}`;
+  if (reais === 0 && cents > 0) {
+    return `${prefix}${centsText}`;
+  }
+
+  // Round millions take "de": "um milhão de reais"
+  const unit =
+    reais === 1 ? 'real' : reais >= 1_000_000 && reais % 1_000_000 === 0 ? 'de reais' : 'reais';
+  const reaisText = `${numberToWords(reais)} ${unit}`;
+  return cents > 0 ? `${prefix}${reaisText} e ${centsText}` : `${prefix}${reaisText}`;
+};
+
+/**
+ * Spells out a decimal with one place, e.g. 8.4 → "oito vírgula quatro"
+ */
+export const spokenDecimal = (value: number): string => {
+  const tenths = Math.round(Math.abs(value) * 10);
+  const whole = numberToWords(Math.floor(tenths / 10));
+  return tenths % 10 === 0 ? whole : `${whole} vírgula ${numberToWords(tenths % 10)}`;
+};
+
+/**
+ * Spells out a duration, e.g. 135 → "duas horas e quinze minutos"
+ */
+export const spokenDuration = (totalMinutes: number): string => {
+  const rounded = Math.max(0, Math.round(totalMinutes));
+  const hours = Math.floor(rounded / 60);
+  const minutes = rounded % 60;
+
+  const hoursText = `${numberToWords(hours, true)} ${hours === 1 ? 'hora' : 'horas'}`;
+  const minutesText = `${numberToWords(minutes)} ${minutes === 1 ? 'minuto' : 'minutos'}`;
+  if (hours === 0) {
+    return minutesText;
+  }
+  return minutes > 0 ? `${hoursText} e ${minutesText}` : hoursText;
+};
@@ -0,0 +1,79 @@
+import { PLATFORM_LABELS } from '../../constants/Platforms';
+import type { ProfitabilityResult } from '../offers/profitability';
+import type { RuleDecision } from '../offers/rules';
+import type { TripOffer } from '../offers/types';
+import { numberToWords, spokenDecimal, spokenDuration, spokenReais } from './ptBR';
+
+/**
+ * Localised wording for every spoken announcement
+ * Add a locale by implementing AnnouncementTemplates for it
+ */
+
+export type SpeechLocale = 'pt-BR';
+
+export interface AnnouncementTemplates {
+  sessionStarted: () => string;
+  sessionStopped: (activeMinutes: number) => string;
+  timerReminder: (activeMinutes: number) => string;
+  zoneEntered: (zoneName: string) => string;
+  zoneExited: (zoneName: string) => string;
+  offer: (offer: TripOffer, result: ProfitabilityResult, decision: RuleDecision) => string;
+  // Voice command replies
+  sessionPaused: () => string;
+  sessionResumed: () => string;
+  offerAccepted: () => string;
+  offerDeclined: () => string;
+  noOffer: () => string;
+  earningsToday: (total: number, tripCount: number) => string;
+  confirmStopSession: () => string;
+  commandCancelled: () => string;
+}
+
+const ptBR: AnnouncementTemplates = {
+  sessionStarted: () => 'Sessão iniciada. Bom trabalho!',
+
+  sessionStopped: (activeMinutes) =>
+    `Sessão encerrada. Você dirigiu ${spokenDuration(activeMinutes)}.`,
+
+  timerReminder: (activeMinutes) =>
+    `Você está dirigindo há ${spokenDuration(activeMinutes)}. Que tal uma pausa?`,
+
+  zoneEntered: (zoneName) => `Entrando na zona ${zoneName}.`,
+  zoneExited: (zoneName) => `Saindo da zona ${zoneName}.`,
+
+  offer: (offer, result, decision) => {
+    const advice =
+      decision === 'accept'
+        ? 'Vale a pena.'
+        : decision === 'decline'
+          ? 'Não compensa.'
+          : 'Você decide.';
+    const pickup =
+      offer.pickupMinutes !== null
+        ? ` Passageiro a ${numberToWords(offer.pickupMinutes)} ${offer.pickupMinutes === 1 ? 'minuto' : 'minutos'}.`
+        : '';
+    return (
+      `${PLATFORM_LABELS[offer.platform]}, ${spokenReais(offer.fare)} ` +
+      `por ${spokenDecimal(offer.tripDistanceKm)} quilômetros.${pickup} ` +
+      `Líquido de ${spokenReais(result.netPerHour)} por hora. ${advice}`
+    );
+  },
+
+  sessionPaused: () => 'Sessão pausada.',
+  sessionResumed: () => 'Sessão retomada.',
+  offerAccepted: () => 'Corrida aceita.',
+  offerDeclined: () => 'Corrida recusada.',
+  noOffer: () => 'Nenhuma corrida na tela.',
+
+  earningsToday: (total, tripCount) =>
+    tripCount === 0
+      ? 'Nenhuma corrida registrada hoje.'
+      : `Hoje você ganhou ${spokenReais(total)} em ${numberToWords(tripCount, true)} ${tripCount === 1 ? 'corrida' : 'corridas'}.`,
+
+  confirmStopSession: () => 'Encerrar a sessão? Diga sim para confirmar.',
+  commandCancelled: () => 'Cancelado.',
+};
+
+export const ANNOUNCEMENT_TEMPLATES: Record<SpeechLocale, AnnouncementTemplates> = {
+  'pt-BR': ptBR,
+};
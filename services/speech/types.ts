@@ -0,0 +1,18 @@
+/**
+ * Text-to-speech backend the announcer speaks through
+ * speak resolves once the utterance has finished or was stopped
+ */
+export interface SpeechBackend {
+  speak: (text: string, language: string) => Promise<void>;
+  stop: () => Promise<void>;
+}
+
+// Higher priorities pre-empt lower ones that are speaking or queued
+export type AnnouncementPriority = 'reminder' | 'session' | 'offer';
+
+export interface Announcement {
+  text: string;
+  priority: AnnouncementPriority;
+  // A newer announcement with the same key replaces a queued one, e.g. a fresher offer
+  key?: string;
+}
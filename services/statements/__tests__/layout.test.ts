@@ -0,0 +1,82 @@
+import { describe, expect, it } from '@jest/globals';
+import { DEFAULT_STATEMENT_LAYOUT, paginateStatement } from '../layout';
+import type { StatementPage, StatementTable } from '../layout';
+
+const table = (id: string, rowCount: number): StatementTable => ({
+  id,
+  title: id,
+  columns: ['Data', 'Valor'],
+  align: ['left', 'right'],
+  rows: Array.from({ length: rowCount }, (_, index) => [String(index), 'R$ 1,00']),
+});
+
+// Which table each page holds, and how many of its rows
+const describePages = (pages: StatementPage[]) =>
+  pages.map((page) =>
+    page.tables.map(
+      (chunk) => `${chunk.id}${chunk.continued ? '+' : ''}:${String(chunk.rows.length)}`,
+    ),
+  );
+
+describe('paginateStatement', () => {
+  it('keeps short tables on the first page, below the identity block', () => {
+    const pages = paginateStatement([table('summary', 8), table('expenses', 5)]);
+
+    expect(describePages(pages)).toEqual([['summary:8', 'expenses:5']]);
+    expect(pages[0]?.number).toBe(1);
+  });
+
+  it('carries a long table over, marking the continuations', () => {
+    // 42 rows a page: 34 left under the identity block, 2 of every page for title and header
+    const pages = paginateStatement([table('trips', 100)]);
+
+    expect(describePages(pages)).toEqual([['trips:32'], ['trips+:40'], ['trips+:28']]);
+    expect(pages.map((page) => page.number)).toEqual([1, 2, 3]);
+  });
+
+  it('keeps every row, in order', () => {
+    const trips = table('trips', 250);
+    const rows = paginateStatement([table('summary', 8), trips]).flatMap((page) =>
+      page.tables.filter((chunk) => chunk.id === 'trips').flatMap((chunk) => chunk.rows),
+    );
+
+    expect(rows).toEqual(trips.rows);
+  });
+
+  it('moves a table to the next page rather than start it with too few rows', () => {
+    // 4 rows left after the first table: title, header and two rows
+    const pages = paginateStatement([table('days', 28), table('trips', 10)]);
+
+    expect(describePages(pages)).toEqual([['days:28'], ['trips:10']]);
+  });
+
+  it('fits a table of fewer rows than the minimum in the space left', () => {
+    const pages = paginateStatement([table('days', 28), table('expenses', 2)]);
+
+    expect(describePages(pages)).toEqual([['days:28', 'expenses:2']]);
+  });
+
+  it('starts a table on a page of its own when the identity block fills the first', () => {
+    const pages = paginateStatement([table('summary', 3)], {
+      rowsPerPage: 10,
+      firstPageHeaderRows: 9,
+    });
+
+    expect(describePages(pages)).toEqual([[], ['summary:3']]);
+  });
+
+  it.each([0, 2, 4, 12.5])('rejects %d rows per page', (rowsPerPage) => {
+    expect(() =>
+      paginateStatement([table('trips', 10)], { ...DEFAULT_STATEMENT_LAYOUT, rowsPerPage }),
+    ).toThrow(RangeError);
+  });
+
+  it('paginates on the shortest page it accepts', () => {
+    const pages = paginateStatement([table('trips', 10)], {
+      rowsPerPage: 5,
+      firstPageHeaderRows: 0,
+    });
+
+    expect(describePages(pages)).toEqual([['trips:3'], ['trips+:3'], ['trips+:3'], ['trips+:1']]);
+  });
+});
@@ -0,0 +1,184 @@
+import { createHash } from 'crypto';
+import { describe, expect, it } from '@jest/globals';
+import type { Expense, Trip } from '../../../store/useAppStore';
+import { buildStatementTables, paginateStatement, renderStatementHtml } from '../layout';
+import {
+  buildIncomeStatement,
+  hashStatement,
+  serializeStatement,
+  verifyStatementHash,
+} from '../statement';
+import type { StatementDigest } from '../statement';
+
+const sha256: StatementDigest = (text) =>
+  Promise.resolve(createHash('sha256').update(text).digest('hex'));
+
+const TIME_ZONE = 'America/Sao_Paulo';
+
+const trip = (id: string, startedAt: string, overrides: Partial<Trip> = {}): Trip => ({
+  id,
+  sessionId: null,
+  vehicleId: null,
+  platform: 'uber',
+  pickup: { address: 'Rua Augusta, 100' },
+  dropoff: { address: 'Av. Paulista, 1000' },
+  distanceKm: 8.4,
+  durationMinutes: 20,
+  fare: 25,
+  tip: 0,
+  platformFee: 5,
+  paymentMethod: 'in_app',
+  startedAt,
+  originZoneId: null,
+  createdAt: startedAt,
+  updatedAt: startedAt,
+  ...overrides,
+});
+
+const expense = (id: string, date: string, overrides: Partial<Expense> = {}): Expense => ({
+  id,
+  sessionId: null,
+  vehicleId: null,
+  status: 'confirmed',
+  category: 'fuel',
+  amount: 100,
+  paymentMethod: 'card',
+  vendor: 'Posto Ipiranga',
+  date,
+  receiptUri: null,
+  extraction: null,
+  odometerKm: null,
+  fuel: null,
+  liters: null,
+  createdAt: `${date}T12:00:00.000Z`,
+  updatedAt: `${date}T12:00:00.000Z`,
+  ...overrides,
+});
+
+const buildStatement = () =>
+  buildIncomeStatement({
+    data: {
+      trips: [
+        trip('trip_2', '2025-03-20T15:00:00.000Z', {
+          platform: '99',
+          fare: 40,
+          tip: 5,
+          platformFee: 8,
+        }),
+        trip('trip_1', '2025-03-03T12:00:00.000Z'),
+        // 22:30 on the 31st in São Paulo, still March
+        trip('trip_3', '2025-04-01T01:30:00.000Z', { fare: 30, platformFee: 6 }),
+        trip('trip_4', '2025-04-02T12:00:00.000Z'),
+      ],
+      expenses: [
+        expense('expense_1', '2025-03-03', { amount: 80 }),
+        expense('expense_2', '2025-03-10', { category: 'car_wash', amount: 30 }),
+        expense('expense_3', '2025-03-10', { status: 'draft', amount: 500 }),
+        expense('expense_4', '2025-03-12', { category: 'tolls', amount: 120.5 }),
+      ],
+      sessions: [],
+    },
+    user: { id: 'user_1', name: 'Ana Souza', email: 'ana@example.com' },
+    month: '2025-03',
+    timeZone: TIME_ZONE,
+    generatedAt: '2025-04-05T10:00:00.000Z',
+  });
+
+describe('buildIncomeStatement', () => {
+  it('totals the month in the driver’s time zone, leaving drafts out', () => {
+    const statement = buildStatement();
+
+    expect(statement).toMatchObject({ month: '2025-03', start: '2025-03-01', end: '2025-03-31' });
+    expect(statement.totals).toEqual({
+      trips: 3,
+      distanceKm: 25.2,
+      hours: 0,
+      gross: 100,
+      platformFees: 19,
+      earnings: 81,
+      expenses: 230.5,
+      net: -149.5,
+    });
+  });
+
+  it('lists trips in the order they happened, by local date', () => {
+    expect(buildStatement().trips.map(({ id, date }) => `${id} ${date}`)).toEqual([
+      'trip_1 2025-03-03',
+      'trip_2 2025-03-20',
+      'trip_3 2025-03-31',
+    ]);
+  });
+
+  it('puts the biggest expense category first', () => {
+    expect(buildStatement().expenses).toEqual([
+      { category: 'tolls', amount: 120.5 },
+      { category: 'fuel', amount: 80 },
+      { category: 'car_wash', amount: 30 },
+    ]);
+  });
+
+  it('breaks the totals down by platform and by active day', () => {
+    const statement = buildStatement();
+
+    expect(
+      statement.platforms.map(({ platform, trips, earnings }) => ({ platform, trips, earnings })),
+    ).toEqual(
+      expect.arrayContaining([
+        { platform: 'uber', trips: 2, earnings: 44 },
+        { platform: '99', trips: 1, earnings: 37 },
+      ]),
+    );
+    expect(statement.days.map(({ date, trips, net }) => ({ date, trips, net }))).toEqual([
+      { date: '2025-03-03', trips: 1, net: -60 },
+      { date: '2025-03-10', trips: 0, net: -30 },
+      { date: '2025-03-12', trips: 0, net: -120.5 },
+      { date: '2025-03-20', trips: 1, net: 37 },
+      { date: '2025-03-31', trips: 1, net: 24 },
+    ]);
+  });
+});
+
+describe('statement hash', () => {
+  it('is the SHA-256 of the serialized statement', async () => {
+    const statement = buildStatement();
+
+    expect(await hashStatement(statement, sha256)).toBe(
+      createHash('sha256').update(serializeStatement(statement)).digest('hex'),
+    );
+  });
+
+  it('is the same for the same data', async () => {
+    expect(await hashStatement(buildStatement(), sha256)).toBe(
+      await hashStatement(buildStatement(), sha256),
+    );
+  });
+
+  it('verifies a printed hash, however it was copied', async () => {
+    const statement = buildStatement();
+    const hash = await hashStatement(statement, sha256);
+
+    expect(await verifyStatementHash(statement, ` ${hash.toUpperCase()}\n`, sha256)).toBe(true);
+  });
+
+  it('fails verification once a figure changes', async () => {
+    const statement = buildStatement();
+    const hash = await hashStatement(statement, sha256);
+    const tampered = { ...statement, totals: { ...statement.totals, net: 1000 } };
+
+    expect(await verifyStatementHash(tampered, hash, sha256)).toBe(false);
+  });
+
+  it('is printed in the footer of every page', async () => {
+    const statement = buildStatement();
+    const hash = await hashStatement(statement, sha256);
+    const pages = paginateStatement(buildStatementTables(statement), {
+      rowsPerPage: 12,
+      firstPageHeaderRows: 8,
+    });
+    const html = renderStatementHtml(statement, pages, hash);
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(html.split(hash)).toHaveLength(pages.length + 1);
+    expect(html).toContain(`Página ${String(pages.length)} de ${String(pages.length)}`);
+  });
+});
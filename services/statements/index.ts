@@ -0,0 +1,32 @@
+export {
+  buildStatementTables,
+  DEFAULT_STATEMENT_LAYOUT,
+  formatStatementDate,
+  formatStatementMonth,
+  paginateStatement,
+  renderStatementHtml,
+} from './layout';
+export type {
+  ColumnAlign,
+  StatementLayoutOptions,
+  StatementPage,
+  StatementTable,
+  StatementTableChunk,
+} from './layout';
+export { generateStatementPdf, sha256Digest, shareStatementPdf } from './pdf';
+export type { GeneratedStatement } from './pdf';
+export {
+  buildIncomeStatement,
+  hashStatement,
+  serializeStatement,
+  verifyStatementHash,
+} from './statement';
+export type {
+  IncomeStatement,
+  StatementDayLine,
+  StatementDigest,
+  StatementDriver,
+  StatementInput,
+  StatementPlatformLine,
+  StatementTripLine,
+} from './statement';
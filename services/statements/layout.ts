@@ -0,0 +1,305 @@
+import type { ExpenseCategory, TripPlatform } from '../../store/useAppStore';
+import { formatBRL } from '../../utils/currency';
+import type { IncomeStatement } from './statement';
+
+/**
+ * Page layout and HTML for the income statement PDF
+ * Pagination is done here by counting table rows rather than left to the print engine, so the
+ * page count and the "page x of y" footers are known before rendering and can be checked in tests
+ * The document is in Portuguese - it is handed to Brazilian banks and rental companies
+ */
+
+export type ColumnAlign = 'left' | 'right';
+
+export interface StatementTable {
+  id: string;
+  title: string;
+  columns: string[];
+  align: ColumnAlign[];
+  rows: string[][];
+}
+
+// Part of a table that fits on one page
+export interface StatementTableChunk extends StatementTable {
+  continued: boolean; // true when the table started on an earlier page
+}
+
+export interface StatementPage {
+  number: number; // 1-based
+  tables: StatementTableChunk[];
+}
+
+export interface StatementLayoutOptions {
+  rowsPerPage: number; // table rows that fit on an A4 page at the statement's font size
+  firstPageHeaderRows: number; // rows taken by the driver identity block on the first page
+}
+
+export const DEFAULT_STATEMENT_LAYOUT: StatementLayoutOptions = {
+  rowsPerPage: 42,
+  firstPageHeaderRows: 8,
+};
+
+// Title and column header of every table or table continuation
+const TABLE_CHROME_ROWS = 2;
+// Never start a table with fewer rows than this left on the page
+const MIN_ROWS_TO_START = 3;
+
+const PLATFORM_NAMES: Record<TripPlatform, string> = {
+  uber: 'Uber',
+  '99': '99',
+  indrive: 'inDrive',
+  private: 'Particular',
+};
+
+const EXPENSE_NAMES: Record<ExpenseCategory, string> = {
+  fuel: 'Combustível',
+  tolls: 'Pedágios',
+  parking: 'Estacionamento',
+  maintenance: 'Manutenção',
+  car_wash: 'Lavagem',
+  phone_plan: 'Plano de celular',
+  insurance: 'Seguro',
+  rental: 'Aluguel do veículo',
+  food: 'Alimentação',
+};
+
+const MONTH_NAMES = [
+  'janeiro',
+  'fevereiro',
+  'março',
+  'abril',
+  'maio',
+  'junho',
+  'julho',
+  'agosto',
+  'setembro',
+  'outubro',
+  'novembro',
+  'dezembro',
+];
+
+// "2026-10-19" -> "19/10/2026"
+export const formatStatementDate = (dateKey: string) => dateKey.split('-').reverse().join('/');
+
+// "2026-10" -> "outubro de 2026"
+export const formatStatementMonth = (month: string) => {
+  const [year = '', monthNumber = '1'] = month.split('-');
+  return `${MONTH_NAMES[Number(monthNumber) - 1] ?? monthNumber} de ${year}`;
+};
+
+const formatHours = (hours: number) => {
+  const minutes = Math.round(hours * 60);
+  return `${String(Math.floor(minutes / 60))}h${String(minutes % 60).padStart(2, '0')}`;
+};
+
+const formatKm = (km: number) => `${km.toFixed(1).replace('.', ',')} km`;
+
+/**
+ * The statement's tables, in print order
+ */
+export const buildStatementTables = (statement: IncomeStatement): StatementTable[] => {
+  const { totals } = statement;
+
+  const tables: StatementTable[] = [
+    {
+      id: 'summary',
+      title: 'Resumo do mês',
+      columns: ['Descrição', 'Valor'],
+      align: ['left', 'right'],
+      rows: [
+        ['Corridas realizadas', String(totals.trips)],
+        ['Horas trabalhadas', formatHours(totals.hours)],
+        ['Distância percorrida em corridas', formatKm(totals.distanceKm)],
+        ['Receita bruta (tarifas e gorjetas)', formatBRL(totals.gross)],
+        ['Taxas das plataformas', formatBRL(-totals.platformFees)],
+        ['Receita líquida das plataformas', formatBRL(totals.earnings)],
+        ['Despesas operacionais', formatBRL(-totals.expenses)],
+        ['Resultado líquido', formatBRL(totals.net)],
+      ],
+    },
+    {
+      id: 'platforms',
+      title: 'Receita por plataforma',
+      columns: ['Plataforma', 'Corridas', 'Horas', 'Bruto', 'Taxas', 'Líquido'],
+      align: ['left', 'right', 'right', 'right', 'right', 'right'],
+      rows: statement.platforms.map((line) => [
+        PLATFORM_NAMES[line.platform],
+        String(line.trips),
+        formatHours(line.hours),
+        formatBRL(line.gross),
+        formatBRL(line.platformFees),
+        formatBRL(line.earnings),
+      ]),
+    },
+    {
+      id: 'expenses',
+      title: 'Despesas por categoria',
+      columns: ['Categoria', 'Valor'],
+      align: ['left', 'right'],
+      rows: statement.expenses.map((line) => [
+        EXPENSE_NAMES[line.category],
+        formatBRL(line.amount),
+      ]),
+    },
+    {
+      id: 'days',
+      title: 'Movimento diário',
+      columns: ['Data', 'Corridas', 'Receita líquida', 'Despesas', 'Resultado'],
+      align: ['left', 'right', 'right', 'right', 'right'],
+      rows: statement.days.map((line) => [
+        formatStatementDate(line.date),
+        String(line.trips),
+        formatBRL(line.earnings),
+        formatBRL(line.expenses),
+        formatBRL(line.net),
+      ]),
+    },
+    {
+      id: 'trips',
+      title: 'Corridas',
+      columns: ['Data', 'Plataforma', 'Distância', 'Bruto', 'Taxa', 'Líquido'],
+      align: ['left', 'left', 'right', 'right', 'right', 'right'],
+      rows: statement.trips.map((line) => [
+        formatStatementDate(line.date),
+        PLATFORM_NAMES[line.platform],
+        formatKm(line.distanceKm),
+        formatBRL(line.gross),
+        formatBRL(line.platformFee),
+        formatBRL(line.earnings),
+      ]),
+    },
+  ];
+
+  // Empty sections are left out rather than printed as blank tables
+  return tables.filter((table) => table.rows.length > 0);
+};
+
+/**
+ * Splits the tables into pages, carrying long tables over with their header repeated
+ * @throws RangeError when a page is too short to start a table on
+ */
+export const paginateStatement = (
+  tables: StatementTable[],
+  options: StatementLayoutOptions = DEFAULT_STATEMENT_LAYOUT,
+): StatementPage[] => {
+  // Anything shorter would never fit a row below the table header and paginate forever
+  if (
+    !Number.isInteger(options.rowsPerPage) ||
+    options.rowsPerPage < TABLE_CHROME_ROWS + MIN_ROWS_TO_START
+  ) {
+    throw new RangeError(
+      `rowsPerPage must be a whole number of at least ${String(TABLE_CHROME_ROWS + MIN_ROWS_TO_START)}`,
+    );
+  }
+
+  const pages: StatementPage[] = [{ number: 1, tables: [] }];
+  let remaining = options.rowsPerPage - options.firstPageHeaderRows;
+
+  const newPage = () => {
+    pages.push({ number: pages.length + 1, tables: [] });
+    remaining = options.rowsPerPage;
+  };
+
+  for (const table of tables) {
+    let offset = 0;
+    while (offset < table.rows.length) {
+      if (remaining < TABLE_CHROME_ROWS + Math.min(MIN_ROWS_TO_START, table.rows.length - offset)) {
+        newPage();
+      }
+      const count = Math.min(table.rows.length - offset, remaining - TABLE_CHROME_ROWS);
+      pages[pages.length - 1]?.tables.push({
+        ...table,
+        rows: table.rows.slice(offset, offset + count),
+        continued: offset > 0,
+      });
+      offset += count;
+      remaining -= TABLE_CHROME_ROWS + count;
+    }
+  }
+
+  return pages;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const STYLES = `
+  @page { size: A4; margin: 16mm 14mm; }
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; font-size: 10pt; color: #111; margin: 0; }
+  .page { position: relative; height: 265mm; page-break-after: always; }
+  .page:last-child { page-break-after: auto; }
+  h1 { font-size: 16pt; margin: 0 0 2mm; }
+  .identity { border: 1px solid #ccc; border-radius: 2mm; padding: 3mm 4mm; margin-bottom: 5mm; }
+  .identity p { margin: 0.6mm 0; }
+  h2 { font-size: 11pt; margin: 4mm 0 1.5mm; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 0.9mm 1.5mm; border-bottom: 1px solid #e2e2e2; }
+  th { background: #f2f2f2; font-weight: 600; }
+  .right { text-align: right; }
+  .left { text-align: left; }
+  footer { position: absolute; bottom: 0; left: 0; right: 0; font-size: 7.5pt; color: #555; border-top: 1px solid #ccc; padding-top: 1.5mm; }
+  footer .hash { font-family: Menlo, Courier, monospace; word-break: break-all; }
+`;
+
+const renderTable = (chunk: StatementTableChunk) => {
+  const header = chunk.columns
+    .map(
+      (column, index) => `<th class="${chunk.align[index] ?? 'left'}">${escapeHtml(column)}</th>`,
+    )
+    .join('');
+  const rows = chunk.rows
+    .map(
+      (row) =>
+        `<tr>${row
+          .map(
+            (cell, index) => `<td class="${chunk.align[index] ?? 'left'}">${escapeHtml(cell)}</td>`,
+          )
+          .join('')}</tr>`,
+    )
+    .join('');
+  const title = chunk.continued ? `${chunk.title} (continuação)` : chunk.title;
+  return `<h2>${escapeHtml(title)}</h2><table><thead><tr>${header}</tr></thead><tbody>${rows}</tbody></table>`;
+};
+
+const renderIdentity = (statement: IncomeStatement) => {
+  const { driver } = statement;
+  return [
+    '<h1>Demonstrativo de Rendimentos</h1>',
+    '<div class="identity">',
+    `<p><strong>Motorista:</strong> ${escapeHtml(driver.name)}</p>`,
+    `<p><strong>E-mail:</strong> ${escapeHtml(driver.email)}</p>`,
+    `<p><strong>Identificador:</strong> ${escapeHtml(driver.id)}</p>`,
+    `<p><strong>Período:</strong> ${formatStatementDate(statement.start)} a ${formatStatementDate(statement.end)} (${formatStatementMonth(statement.month)})</p>`,
+    `<p><strong>Emitido em:</strong> ${escapeHtml(statement.generatedAt)} (${escapeHtml(statement.timeZone)})</p>`,
+    '</div>',
+  ].join('');
+};
+
+/**
+ * Full HTML for the PDF, one .page element per page
+ * Self-contained - no fonts, images or scripts are fetched, so it prints offline
+ * @param hash SHA-256 of the statement, printed in every page footer
+ */
+export const renderStatementHtml = (
+  statement: IncomeStatement,
+  pages: StatementPage[],
+  hash: string,
+): string => {
+  const body = pages
+    .map((page) =>
+      [
+        '<section class="page">',
+        page.number === 1 ? renderIdentity(statement) : '',
+        ...page.tables.map(renderTable),
+        '<footer>',
+        `<div>Página ${String(page.number)} de ${String(pages.length)} · ${escapeHtml(statement.driver.name)} · ${formatStatementMonth(statement.month)}</div>`,
+        `<div>Hash de verificação (SHA-256): <span class="hash">${escapeHtml(hash)}</span></div>`,
+        '</footer>',
+        '</section>',
+      ].join(''),
+    )
+    .join('');
+
+  return `<!DOCTYPE html><html lang="pt-BR"><head><meta charset="utf-8" /><style>${STYLES}</style></head><body>${body}</body></html>`;
+};
@@ -0,0 +1,52 @@
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import { shareFile } from '../exports';
+import type { StatementLayoutOptions } from './layout';
+import {
+  buildStatementTables,
+  DEFAULT_STATEMENT_LAYOUT,
+  paginateStatement,
+  renderStatementHtml,
+} from './layout';
+import type { IncomeStatement, StatementDigest } from './statement';
+import { hashStatement } from './statement';
+
+// Kept alongside the other exports so a statement can be shared again without regenerating it
+const STATEMENTS_DIRECTORY = `${FileSystem.documentDirectory ?? ''}statements/`;
+
+// A4 in points
+const A4_WIDTH = 595;
+const A4_HEIGHT = 842;
+
+export interface GeneratedStatement {
+  uri: string;
+  hash: string;
+  pages: number;
+}
+
+export const sha256Digest: StatementDigest = (text) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, text);
+
+/**
+ * Renders the statement to a PDF in app storage, entirely on the device
+ */
+export const generateStatementPdf = async (
+  statement: IncomeStatement,
+  layout: StatementLayoutOptions = DEFAULT_STATEMENT_LAYOUT,
+  digest: StatementDigest = sha256Digest,
+): Promise<GeneratedStatement> => {
+  const hash = await hashStatement(statement, digest);
+  const pages = paginateStatement(buildStatementTables(statement), layout);
+  const html = renderStatementHtml(statement, pages, hash);
+
+  const printed = await Print.printToFileAsync({ html, width: A4_WIDTH, height: A4_HEIGHT });
+  await FileSystem.makeDirectoryAsync(STATEMENTS_DIRECTORY, { intermediates: true });
+  const uri = `${STATEMENTS_DIRECTORY}statement_${statement.month}_${hash.slice(0, 8)}.pdf`;
+  await FileSystem.moveAsync({ from: printed.uri, to: uri });
+
+  return { uri, hash, pages: pages.length };
+};
+
+export const shareStatementPdf = (uri: string) =>
+  shareFile(uri, { mimeType: 'application/pdf', uti: 'com.adobe.pdf' });
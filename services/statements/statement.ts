@@ -0,0 +1,169 @@
+import type { ExpenseCategory, TripPlatform } from '../../store/useAppStore';
+import type { ReportData } from '../reports';
+import { buildEarningsReport, getPeriod, selectReportData } from '../reports';
+import { toLocalDateKey } from '../session/dayBucketing';
+
+/**
+ * Monthly income statement - proof of income for banks and car rental companies
+ * Everything printed on the PDF comes from this object, and its hash is what gets embedded,
+ * so anyone holding the same data can regenerate the statement and check the hash
+ */
+
+export interface StatementDriver {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface StatementPlatformLine {
+  platform: TripPlatform;
+  trips: number;
+  gross: number; // R$ fares plus tips
+  platformFees: number; // R$
+  earnings: number; // R$
+  hours: number;
+}
+
+export interface StatementDayLine {
+  date: string; // YYYY-MM-DD
+  trips: number;
+  earnings: number; // R$ after platform fees
+  expenses: number; // R$
+  net: number; // R$
+}
+
+export interface StatementTripLine {
+  id: string;
+  date: string; // YYYY-MM-DD, local
+  platform: TripPlatform;
+  distanceKm: number;
+  gross: number; // R$
+  platformFee: number; // R$
+  earnings: number; // R$
+}
+
+export interface IncomeStatement {
+  version: 1; // bumped whenever the hashed content changes shape
+  driver: StatementDriver;
+  month: string; // YYYY-MM
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD
+  generatedAt: string; // ISO timestamp
+  timeZone: string;
+  platforms: StatementPlatformLine[];
+  expenses: { category: ExpenseCategory; amount: number }[]; // highest first
+  totals: {
+    trips: number;
+    distanceKm: number;
+    hours: number;
+    gross: number;
+    platformFees: number;
+    earnings: number;
+    expenses: number;
+    net: number;
+  };
+  days: StatementDayLine[]; // only days with trips or expenses
+  trips: StatementTripLine[]; // in the order they happened
+}
+
+export interface StatementInput {
+  data: ReportData;
+  user: StatementDriver; // usually currentUser; anything else on it is left out
+  month: string; // YYYY-MM
+  timeZone: string;
+  generatedAt: string; // ISO timestamp
+}
+
+// Hashes a string, hex encoded; SHA-256 in the app, anything deterministic in tests
+export type StatementDigest = (text: string) => Promise<string>;
+
+// Cents, so floating point noise never changes the hash
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Builds the statement for one calendar month
+ * Uses the same selection and totals as the Reports screen, so the figures always match it
+ */
+export const buildIncomeStatement = (input: StatementInput): IncomeStatement => {
+  const { data, user, month, timeZone, generatedAt } = input;
+  const period = getPeriod('month', `${month}-01`);
+  const report = buildEarningsReport(data, period, timeZone);
+  const selected = selectReportData(data, period, timeZone);
+
+  const trips = [...selected.trips]
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt))
+    .map((trip): StatementTripLine => ({
+      id: trip.id,
+      date: toLocalDateKey(trip.startedAt, timeZone),
+      platform: trip.platform,
+      distanceKm: round(trip.distanceKm),
+      gross: round(trip.fare + trip.tip),
+      platformFee: round(trip.platformFee),
+      earnings: round(trip.fare + trip.tip - trip.platformFee),
+    }));
+
+  const tripsPerDay = new Map<string, number>();
+  for (const trip of trips) {
+    tripsPerDay.set(trip.date, (tripsPerDay.get(trip.date) ?? 0) + 1);
+  }
+
+  return {
+    version: 1,
+    driver: { id: user.id, name: user.name, email: user.email },
+    month,
+    start: period.start,
+    end: period.end,
+    generatedAt,
+    timeZone,
+    platforms: report.platforms.map((platform) => ({
+      platform: platform.platform,
+      trips: platform.trips,
+      gross: round(platform.gross),
+      platformFees: round(platform.platformFees),
+      earnings: round(platform.earnings),
+      hours: round(platform.hours),
+    })),
+    expenses: (Object.entries(report.expensesByCategory) as [ExpenseCategory, number][])
+      .map(([category, amount]) => ({ category, amount: round(amount) }))
+      .sort((a, b) => b.amount - a.amount),
+    totals: {
+      trips: report.trips,
+      distanceKm: round(report.distanceKm),
+      hours: round(report.hours),
+      gross: round(report.gross),
+      platformFees: round(report.platformFees),
+      earnings: round(report.earnings),
+      expenses: round(report.expenses),
+      net: round(report.net),
+    },
+    days: report.days
+      .filter((day) => day.earnings !== 0 || day.expenses !== 0)
+      .map((day) => ({
+        date: day.date,
+        trips: tripsPerDay.get(day.date) ?? 0,
+        earnings: round(day.earnings),
+        expenses: round(day.expenses),
+        net: round(day.net),
+      })),
+    trips,
+  };
+};
+
+/**
+ * The exact text that gets hashed
+ * Key order is fixed by buildIncomeStatement, so the same data always serializes the same way
+ */
+export const serializeStatement = (statement: IncomeStatement): string => JSON.stringify(statement);
+
+export const hashStatement = (statement: IncomeStatement, digest: StatementDigest) =>
+  digest(serializeStatement(statement));
+
+/**
+ * Checks a hash printed on a statement against a statement rebuilt from the same data
+ * Regenerating needs the original generatedAt and timeZone, which are printed on the document
+ */
+export const verifyStatementHash = async (
+  statement: IncomeStatement,
+  printedHash: string,
+  digest: StatementDigest,
+) => (await hashStatement(statement, digest)) === printedHash.trim().toLowerCase();
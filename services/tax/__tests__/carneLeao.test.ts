@@ -0,0 +1,78 @@
+import { describe, expect, it } from '@jest/globals';
+import { calculateIrpfReduction, estimateCarneLeao } from '../carneLeao';
+import type { CarneLeaoMethod } from '../carneLeao';
+import type { TaxLedger, TaxMonth } from '../ledger';
+import { getIrpfTable, resolveTaxTable } from '../tables';
+
+const TABLE_2025 = resolveTaxTable([], 2025).table;
+const TABLE_2026 = resolveTaxTable([], 2026).table;
+
+// A year with income in June only
+const juneLedger = (year: number, income: number, deductible = 0): TaxLedger => {
+  const months = Array.from({ length: 12 }, (_, index): TaxMonth => ({
+    month: index + 1,
+    key: `${String(year)}-${String(index + 1).padStart(2, '0')}`,
+    trips: index === 5 ? 1 : 0,
+    income: index === 5 ? income : 0,
+    deductible: index === 5 ? deductible : 0,
+    nonDeductible: 0,
+    deductibleByCategory: {},
+  }));
+  return { year, months, income, deductible, nonDeductible: 0 };
+};
+
+const juneTax = (ledger: TaxLedger, table = TABLE_2026, method: CarneLeaoMethod = 'livro_caixa') =>
+  estimateCarneLeao(ledger, table, method).months[5]?.tax;
+
+describe('2026 table', () => {
+  it('is built in, with the 2026 minimum wage', () => {
+    const resolved = resolveTaxTable([], 2026);
+
+    expect(resolved.isProvisional).toBe(false);
+    expect(resolved.table.minimumWage).toBe(1621);
+  });
+});
+
+describe('calculateIrpfReduction', () => {
+  const irpf = getIrpfTable(TABLE_2026, 6);
+
+  it('waives the whole tax up to R$ 5,000', () => {
+    expect(calculateIrpfReduction(312.89, 5000, irpf)).toBe(312.89);
+    expect(calculateIrpfReduction(100, 4000, irpf)).toBe(100);
+  });
+
+  it('tapers off between R$ 5,000 and R$ 7,350', () => {
+    expect(calculateIrpfReduction(574.29, 6000, irpf)).toBe(179.75);
+    expect(calculateIrpfReduction(1000, 7350, irpf)).toBe(0);
+  });
+
+  it('takes nothing off above R$ 7,350', () => {
+    expect(calculateIrpfReduction(1000, 8000, irpf)).toBe(0);
+  });
+
+  it('takes nothing off before 2026', () => {
+    expect(calculateIrpfReduction(312.89, 5000, getIrpfTable(TABLE_2025, 6))).toBe(0);
+  });
+});
+
+describe('estimateCarneLeao', () => {
+  it('charges nothing on R$ 5,000 of income in 2026', () => {
+    expect(juneTax(juneLedger(2026, 5000))).toBe(0);
+    expect(juneTax(juneLedger(2025, 5000), TABLE_2025)).toBe(312.89);
+  });
+
+  it('reduces the tax on income in the taper', () => {
+    expect(juneTax(juneLedger(2026, 6000))).toBe(394.54);
+    expect(juneTax(juneLedger(2025, 6000), TABLE_2025)).toBe(574.29);
+  });
+
+  it('goes by income before deductions, not the base left after them', () => {
+    // R$ 3,000 of costs leave a R$ 5,000 base, but R$ 8,000 was earned
+    expect(juneTax(juneLedger(2026, 8000, 3000))).toBe(466.27);
+  });
+
+  it('goes by the taxable share under the presumed method', () => {
+    // 60% of R$ 8,000 is R$ 4,800 of taxable income, under the waiver
+    expect(juneTax(juneLedger(2026, 8000), TABLE_2026, 'presumed')).toBe(0);
+  });
+});
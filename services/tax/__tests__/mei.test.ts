@@ -0,0 +1,136 @@
+import { describe, expect, it } from '@jest/globals';
+import type { TaxLedger } from '../ledger';
+import {
+  buildDasSchedule,
+  calculateDas,
+  getDasDueDate,
+  getMeiLimit,
+  getMeiLimitUsage,
+  isMeiLevelRaised,
+} from '../mei';
+import { resolveTaxTable } from '../tables';
+
+const TABLE_2025 = resolveTaxTable([], 2025).table;
+const TABLE_2026 = resolveTaxTable([], 2026).table;
+
+// Only the year's total is read for the limit
+const ledgerOf = (year: number, income: number): TaxLedger => ({
+  year,
+  months: [],
+  income,
+  deductible: 0,
+  nonDeductible: 0,
+});
+
+describe('calculateDas', () => {
+  it('charges 5% of the minimum wage plus the activity taxes', () => {
+    expect(calculateDas(TABLE_2026, 'services')).toEqual({
+      inss: 81.05,
+      icms: 0,
+      iss: 5,
+      total: 86.05,
+    });
+    expect(calculateDas(TABLE_2026, 'commerce').total).toBe(82.05);
+    expect(calculateDas(TABLE_2026, 'both').total).toBe(87.05);
+  });
+});
+
+describe('getDasDueDate', () => {
+  it('falls on the 20th of the following month', () => {
+    expect(getDasDueDate(2025, 1)).toBe('2025-02-20');
+    expect(getDasDueDate(2025, 12)).toBe('2026-01-20');
+  });
+
+  it('moves to Monday when the 20th is a weekend', () => {
+    expect(getDasDueDate(2025, 3)).toBe('2025-04-21'); // Sunday
+    expect(getDasDueDate(2025, 8)).toBe('2025-09-22'); // Saturday
+  });
+});
+
+describe('buildDasSchedule', () => {
+  it('starts at the month the MEI was opened', () => {
+    const schedule = buildDasSchedule(TABLE_2025, 'services', [], '2025-03', '2025-05-10');
+
+    expect(schedule.map((entry) => entry.key)[0]).toBe('2025-03');
+    expect(schedule).toHaveLength(10);
+  });
+
+  it('tells paid, overdue, pending and future months apart', () => {
+    const statuses = (today: string) =>
+      buildDasSchedule(TABLE_2025, 'services', ['2025-03'], '2025-03', today)
+        .slice(0, 4)
+        .map((entry) => entry.status);
+
+    expect(statuses('2025-05-10')).toEqual(['paid', 'pending', 'pending', 'future']);
+    expect(statuses('2025-05-21')).toEqual(['paid', 'overdue', 'pending', 'future']);
+  });
+});
+
+describe('getMeiLimit', () => {
+  it('is the full limit when the MEI predates the year', () => {
+    expect(getMeiLimit(TABLE_2025, null)).toBe(81000);
+    expect(getMeiLimit(TABLE_2025, '2024-04')).toBe(81000);
+  });
+
+  it('is prorated by month in the year the MEI was opened, that month included', () => {
+    expect(getMeiLimit(TABLE_2025, '2025-04')).toBe(60750);
+    expect(getMeiLimit(TABLE_2025, '2025-12')).toBe(6750);
+  });
+});
+
+describe('getMeiLimitUsage', () => {
+  const usage = (ledger: TaxLedger, today: string, openedOn: string | null = null) =>
+    getMeiLimitUsage(ledger, resolveTaxTable([], ledger.year).table, openedOn, 0.8, today);
+
+  it('moves through the levels as revenue grows', () => {
+    const level = (income: number) => usage(ledgerOf(2025, income), '2026-03-01').level;
+
+    expect(level(60000)).toBe('ok');
+    expect(level(64800)).toBe('approaching');
+    expect(level(81000)).toBe('approaching');
+    expect(level(81001)).toBe('exceeded');
+    expect(level(97200)).toBe('exceeded');
+    expect(level(97201)).toBe('excluded');
+  });
+
+  it('projects a past year at its actual revenue', () => {
+    const result = usage(ledgerOf(2025, 50000), '2026-03-01');
+
+    expect(result.projected).toBe(50000);
+    expect(result.remaining).toBe(31000);
+  });
+
+  it('does not project from the first weeks of the year', () => {
+    // R$ 6,000 in the first week would be R$ 312,857 at that pace
+    const result = usage(ledgerOf(2026, 6000), '2026-01-07');
+
+    expect(result.projected).toBeNull();
+    expect(result.projectedOver).toBe(false);
+    expect(result.level).toBe('ok');
+  });
+
+  it('warns on the pace once enough of the year has gone by', () => {
+    const result = usage(ledgerOf(2026, 7000), '2026-01-30');
+
+    expect(result.projected).toBeCloseTo(85166.67, 2);
+    expect(result.projectedOver).toBe(true);
+    expect(result.level).toBe('approaching');
+  });
+
+  it('counts the days from the opening month in the year the MEI was opened', () => {
+    expect(usage(ledgerOf(2026, 3000), '2026-07-15', '2026-07').projected).toBeNull();
+
+    const result = usage(ledgerOf(2026, 6000), '2026-07-31', '2026-07');
+    expect(result.limit).toBe(40500);
+    expect(result.projected).toBe(35612.9);
+  });
+});
+
+describe('isMeiLevelRaised', () => {
+  it('only counts moves up', () => {
+    expect(isMeiLevelRaised('ok', 'approaching')).toBe(true);
+    expect(isMeiLevelRaised('approaching', 'excluded')).toBe(true);
+    expect(isMeiLevelRaised('exceeded', 'approaching')).toBe(false);
+    expect(isMeiLevelRaised('ok', 'ok')).toBe(false);
+  });
+});
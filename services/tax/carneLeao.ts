@@ -0,0 +1,160 @@
+import type { TaxLedger } from './ledger';
+import type { IrpfMonthlyTable, TaxYearTable } from './tables';
+import { getIrpfTable } from './tables';
+
+/**
+ * Carnê-leão - monthly IRPF on income received from individuals and foreign sources,
+ * which is how app drivers without a company pay tax on platform earnings
+ * Two ways to reach the taxable base are estimated so the driver can see which one pays less:
+ * - livro-caixa: income minus the costs of earning it, with unused costs carried into the
+ *   following months of the same year
+ * - presumed: the fixed taxable share of passenger transport revenue, with no cost deductions
+ * Either way the monthly simplified discount is used instead whenever it comes out lower
+ */
+
+export type CarneLeaoMethod = 'livro_caixa' | 'presumed';
+
+export interface CarneLeaoMonth {
+  month: number; // 1-12
+  key: string; // YYYY-MM
+  income: number; // R$
+  deducted: number; // R$ of costs or presumed share taken off the income
+  carriedOver: number; // R$ of livro-caixa costs left for the following months
+  base: number; // R$ the tax was worked out on
+  usedSimplifiedDiscount: boolean;
+  tax: number; // R$
+  dueDate: string; // YYYY-MM-DD
+}
+
+export interface CarneLeaoEstimate {
+  method: CarneLeaoMethod;
+  months: CarneLeaoMonth[];
+  income: number; // R$
+  tax: number; // R$
+  effectiveRate: number | null; // tax / income; null without income
+}
+
+export interface CarneLeaoComparison {
+  livroCaixa: CarneLeaoEstimate;
+  presumed: CarneLeaoEstimate;
+  recommended: CarneLeaoMethod;
+  savings: number; // R$ the recommended method saves over the other
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Monthly IRPF on a base, using the progressive brackets
+ */
+export const calculateIrpf = (base: number, table: IrpfMonthlyTable): number => {
+  if (base <= 0) {
+    return 0;
+  }
+  const bracket =
+    table.brackets.find((entry) => entry.upTo === null || base <= entry.upTo) ??
+    table.brackets[table.brackets.length - 1];
+  if (!bracket) {
+    return 0;
+  }
+  return round(Math.max(0, base * bracket.rate - bracket.deduction));
+};
+
+/**
+ * What the table's reduction takes off the month's tax
+ * @param income Taxable income before any deduction or discount
+ */
+export const calculateIrpfReduction = (
+  tax: number,
+  income: number,
+  table: IrpfMonthlyTable,
+): number => {
+  const { reduction } = table;
+  if (!reduction || income > reduction.taperUpTo) {
+    return 0;
+  }
+  const amount =
+    income <= reduction.fullUpTo
+      ? reduction.maxAmount
+      : reduction.taperBase - reduction.taperRate * income;
+  return round(Math.min(tax, Math.max(0, amount)));
+};
+
+/**
+ * The last weekday of the month after the one the tax refers to
+ */
+export const getCarneLeaoDueDate = (year: number, month: number): string => {
+  const due = new Date(Date.UTC(year, month + 1, 0));
+  while (due.getUTCDay() === 0 || due.getUTCDay() === 6) {
+    due.setUTCDate(due.getUTCDate() - 1);
+  }
+  return due.toISOString().slice(0, 10);
+};
+
+/**
+ * Monthly carnê-leão for the year with one method
+ */
+export const estimateCarneLeao = (
+  ledger: TaxLedger,
+  table: TaxYearTable,
+  method: CarneLeaoMethod,
+): CarneLeaoEstimate => {
+  let carried = 0;
+
+  const months = ledger.months.map((entry): CarneLeaoMonth => {
+    const irpf = getIrpfTable(table, entry.month);
+    let deducted: number;
+    let taxable: number;
+    let carriedOver = 0;
+
+    if (method === 'livro_caixa') {
+      const available = carried + entry.deductible;
+      deducted = Math.min(available, Math.max(0, entry.income));
+      carriedOver = available - deducted;
+      taxable = entry.income - deducted;
+    } else {
+      taxable = entry.income * table.transportTaxableShare;
+      deducted = entry.income - taxable;
+    }
+    carried = carriedOver;
+
+    // The simplified discount replaces livro-caixa costs, it is not added to them
+    const grossBase = method === 'livro_caixa' ? entry.income : taxable;
+    const simplifiedBase = Math.max(0, grossBase - irpf.simplifiedDiscount);
+    const legalTax = calculateIrpf(taxable, irpf);
+    const simplifiedTax = calculateIrpf(simplifiedBase, irpf);
+    const usedSimplifiedDiscount = simplifiedTax < legalTax;
+    const tax = usedSimplifiedDiscount ? simplifiedTax : legalTax;
+
+    return {
+      month: entry.month,
+      key: entry.key,
+      income: round(entry.income),
+      deducted: round(deducted),
+      carriedOver: round(carriedOver),
+      base: round(usedSimplifiedDiscount ? simplifiedBase : Math.max(0, taxable)),
+      usedSimplifiedDiscount,
+      tax: round(tax - calculateIrpfReduction(tax, grossBase, irpf)),
+      dueDate: getCarneLeaoDueDate(ledger.year, entry.month),
+    };
+  });
+
+  const income = round(ledger.income);
+  const tax = round(months.reduce((sum, month) => sum + month.tax, 0));
+  return { method, months, income, tax, effectiveRate: income > 0 ? tax / income : null };
+};
+
+/**
+ * Both methods side by side, recommending the one with less tax for the year
+ * Ties go to the presumed share, which needs no receipts to back it up
+ */
+export const compareCarneLeao = (ledger: TaxLedger, table: TaxYearTable): CarneLeaoComparison => {
+  const livroCaixa = estimateCarneLeao(ledger, table, 'livro_caixa');
+  const presumed = estimateCarneLeao(ledger, table, 'presumed');
+  const recommended: CarneLeaoMethod = livroCaixa.tax < presumed.tax ? 'livro_caixa' : 'presumed';
+  return {
+    livroCaixa,
+    presumed,
+    recommended,
+    savings: round(Math.abs(livroCaixa.tax - presumed.tax)),
+  };
+};
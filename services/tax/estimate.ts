@@ -0,0 +1,80 @@
+import type { ReportData } from '../reports';
+import type { CarneLeaoComparison } from './carneLeao';
+import { compareCarneLeao } from './carneLeao';
+import type { TaxLedger } from './ledger';
+import { classifyLedger } from './ledger';
+import type { DasBreakdown, DasMonth, MeiActivity, MeiLimitLevel, MeiLimitUsage } from './mei';
+import { buildDasSchedule, calculateDas, getMeiLimitUsage } from './mei';
+import type { TaxYearTable } from './tables';
+import { resolveTaxTable } from './tables';
+
+/**
+ * The driver's tax setup and the year's estimate built from it
+ * Estimates only - they help the driver set money aside, the accountant files the real thing
+ */
+
+// 'autonomo' drivers have no company and pay IRPF through the carnê-leão
+export type TaxRegime = 'mei' | 'autonomo';
+
+export interface TaxSettings {
+  regime: TaxRegime;
+  meiActivity: MeiActivity;
+  meiOpenedOn: string | null; // YYYY-MM, only needed in the year the MEI was opened
+  alertThreshold: number; // share of the MEI limit that triggers the warning
+  paidDas: string[]; // YYYY-MM months whose DAS the driver marked as paid
+  tables: TaxYearTable[]; // the driver's corrections to the built-in tables
+  lastMeiAlert: { year: number; level: MeiLimitLevel } | null; // the last limit warning shown
+}
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  regime: 'mei',
+  meiActivity: 'services',
+  meiOpenedOn: null,
+  alertThreshold: 0.8,
+  paidDas: [],
+  tables: [],
+  lastMeiAlert: null,
+};
+
+export interface TaxEstimate {
+  year: number;
+  table: TaxYearTable;
+  isProvisional: boolean; // no table for the year, the latest earlier one was used
+  ledger: TaxLedger;
+  das: DasBreakdown;
+  dasSchedule: DasMonth[];
+  meiLimit: MeiLimitUsage;
+  carneLeao: CarneLeaoComparison;
+}
+
+/**
+ * Everything the Taxes screen shows for one calendar year
+ * @param today YYYY-MM-DD in the driver's zone
+ */
+export const buildTaxEstimate = (
+  data: ReportData,
+  settings: TaxSettings,
+  year: number,
+  timeZone: string,
+  today: string,
+): TaxEstimate => {
+  const { table, isProvisional } = resolveTaxTable(settings.tables, year);
+  const ledger = classifyLedger(data, year, table, timeZone);
+
+  return {
+    year,
+    table,
+    isProvisional,
+    ledger,
+    das: calculateDas(table, settings.meiActivity),
+    dasSchedule: buildDasSchedule(
+      table,
+      settings.meiActivity,
+      settings.paidDas,
+      settings.meiOpenedOn,
+      today,
+    ),
+    meiLimit: getMeiLimitUsage(ledger, table, settings.meiOpenedOn, settings.alertThreshold, today),
+    carneLeao: compareCarneLeao(ledger, table),
+  };
+};
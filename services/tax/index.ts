@@ -0,0 +1,44 @@
+export {
+  calculateIrpf,
+  calculateIrpfReduction,
+  compareCarneLeao,
+  estimateCarneLeao,
+  getCarneLeaoDueDate,
+} from './carneLeao';
+export type {
+  CarneLeaoComparison,
+  CarneLeaoEstimate,
+  CarneLeaoMethod,
+  CarneLeaoMonth,
+} from './carneLeao';
+export { buildTaxEstimate, DEFAULT_TAX_SETTINGS } from './estimate';
+export type { TaxEstimate, TaxRegime, TaxSettings } from './estimate';
+export { classifyLedger } from './ledger';
+export type { TaxLedger, TaxMonth } from './ledger';
+export {
+  buildDasSchedule,
+  calculateDas,
+  getDasDueDate,
+  getMeiLimit,
+  getMeiLimitUsage,
+  isMeiLevelRaised,
+  MEI_EXCLUSION_MARGIN,
+  MIN_PROJECTION_DAYS,
+} from './mei';
+export type {
+  DasBreakdown,
+  DasMonth,
+  DasStatus,
+  MeiActivity,
+  MeiLimitLevel,
+  MeiLimitUsage,
+} from './mei';
+export { DEFAULT_TAX_TABLES, getIrpfTable, resolveTaxTable, upsertTaxTable } from './tables';
+export type {
+  IrpfBracket,
+  IrpfMonthlyTable,
+  IrpfReduction,
+  MeiTable,
+  ResolvedTaxTable,
+  TaxYearTable,
+} from './tables';
@@ -0,0 +1,83 @@
+import type { ExpenseCategory } from '../../store/useAppStore';
+import type { ReportData } from '../reports';
+import { getPeriod, selectReportData } from '../reports';
+import type { TaxYearTable } from './tables';
+
+/**
+ * Classifies the trip and expense ledgers into the monthly figures the tax estimates work from
+ * Income is what the platforms actually paid the driver (fares and tips minus their fees), the
+ * same amount the platforms report on their yearly income statements
+ */
+
+export interface TaxMonth {
+  month: number; // 1-12
+  key: string; // YYYY-MM
+  trips: number;
+  income: number; // R$ received from passenger transport
+  deductible: number; // R$ of expenses in livro-caixa categories
+  nonDeductible: number; // R$ of other expenses
+  deductibleByCategory: Partial<Record<ExpenseCategory, number>>;
+}
+
+export interface TaxLedger {
+  year: number;
+  months: TaxMonth[]; // always twelve, January first
+  income: number;
+  deductible: number;
+  nonDeductible: number;
+}
+
+/**
+ * Builds the year's monthly ledger
+ * Uses the Reports selection, so trips fall in the month they started in the driver's zone
+ * and only confirmed expenses count
+ */
+export const classifyLedger = (
+  data: ReportData,
+  year: number,
+  table: TaxYearTable,
+  timeZone: string,
+): TaxLedger => {
+  const deductibleCategories = new Set(table.livroCaixaCategories);
+
+  const months = Array.from({ length: 12 }, (_, index): TaxMonth => {
+    const month = index + 1;
+    const key = `${String(year)}-${String(month).padStart(2, '0')}`;
+    const selected = selectReportData(data, getPeriod('month', `${key}-01`), timeZone);
+
+    const income = selected.trips.reduce(
+      (sum, trip) => sum + trip.fare + trip.tip - trip.platformFee,
+      0,
+    );
+    const deductibleByCategory: Partial<Record<ExpenseCategory, number>> = {};
+    let deductible = 0;
+    let nonDeductible = 0;
+    for (const expense of selected.expenses) {
+      if (deductibleCategories.has(expense.category)) {
+        deductible += expense.amount;
+        deductibleByCategory[expense.category] =
+          (deductibleByCategory[expense.category] ?? 0) + expense.amount;
+      } else {
+        nonDeductible += expense.amount;
+      }
+    }
+
+    return {
+      month,
+      key,
+      trips: selected.trips.length,
+      income,
+      deductible,
+      nonDeductible,
+      deductibleByCategory,
+    };
+  });
+
+  return {
+    year,
+    months,
+    income: months.reduce((sum, month) => sum + month.income, 0),
+    deductible: months.reduce((sum, month) => sum + month.deductible, 0),
+    nonDeductible: months.reduce((sum, month) => sum + month.nonDeductible, 0),
+  };
+};
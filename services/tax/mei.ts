@@ -0,0 +1,178 @@
+import type { TaxLedger } from './ledger';
+import type { TaxYearTable } from './tables';
+
+/**
+ * MEI obligations - the fixed monthly DAS and the annual revenue limit
+ * Pure functions; the reference date is passed in so estimates can be checked for any day
+ */
+
+export type MeiActivity = 'services' | 'commerce' | 'both';
+
+export interface DasBreakdown {
+  inss: number; // R$
+  icms: number; // R$
+  iss: number; // R$
+  total: number; // R$
+}
+
+export type DasStatus = 'paid' | 'overdue' | 'pending' | 'future';
+
+export interface DasMonth {
+  month: number; // 1-12
+  key: string; // YYYY-MM, the month the DAS refers to
+  amount: number; // R$
+  dueDate: string; // YYYY-MM-DD
+  status: DasStatus;
+}
+
+// 'exceeded' is still MEI, paying tax on the excess; past 20% over, the exclusion is backdated
+export type MeiLimitLevel = 'ok' | 'approaching' | 'exceeded' | 'excluded';
+
+export interface MeiLimitUsage {
+  limit: number; // R$, prorated in the year the MEI was opened
+  revenue: number; // R$ so far
+  share: number; // revenue / limit
+  remaining: number; // R$, never below zero
+  projected: number | null; // R$ for the whole year at the pace so far; null too early to tell
+  level: MeiLimitLevel;
+  projectedOver: boolean; // the pace so far ends the year over the limit
+}
+
+export const MEI_EXCLUSION_MARGIN = 0.2;
+
+// A good first week in January would otherwise project to several times the limit
+export const MIN_PROJECTION_DAYS = 30;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const monthKey = (year: number, month: number) =>
+  `${String(year)}-${String(month).padStart(2, '0')}`;
+
+/**
+ * Monthly DAS for an activity
+ * INSS is a share of the minimum wage; ICMS and ISS are fixed amounts
+ */
+export const calculateDas = (table: TaxYearTable, activity: MeiActivity): DasBreakdown => {
+  const inss = round(table.minimumWage * table.mei.inssRate);
+  const icms = activity === 'services' ? 0 : table.mei.icms;
+  const iss = activity === 'commerce' ? 0 : table.mei.iss;
+  return { inss, icms, iss, total: round(inss + icms + iss) };
+};
+
+/**
+ * The 20th of the following month, moved to the next weekday when it falls on a weekend
+ * Bank holidays are not known here, so the real deadline can be a day later
+ */
+export const getDasDueDate = (year: number, month: number): string => {
+  const due = new Date(Date.UTC(year, month, 20));
+  while (due.getUTCDay() === 0 || due.getUTCDay() === 6) {
+    due.setUTCDate(due.getUTCDate() + 1);
+  }
+  return due.toISOString().slice(0, 10);
+};
+
+/**
+ * The DAS for each month of the year, from the month the MEI was opened
+ * @param paidMonths YYYY-MM keys the driver marked as paid
+ * @param today YYYY-MM-DD, local
+ */
+export const buildDasSchedule = (
+  table: TaxYearTable,
+  activity: MeiActivity,
+  paidMonths: string[],
+  openedOn: string | null,
+  today: string,
+): DasMonth[] => {
+  const { total } = calculateDas(table, activity);
+  const paid = new Set(paidMonths);
+  const currentKey = today.slice(0, 7);
+
+  return Array.from({ length: 12 }, (_, index) => index + 1)
+    .map((month): DasMonth => {
+      const key = monthKey(table.year, month);
+      const dueDate = getDasDueDate(table.year, month);
+      let status: DasStatus = 'future';
+      if (paid.has(key)) {
+        status = 'paid';
+      } else if (today > dueDate) {
+        status = 'overdue';
+      } else if (key <= currentKey) {
+        status = 'pending';
+      }
+      return { month, key, amount: total, dueDate, status };
+    })
+    .filter((entry) => openedOn === null || entry.key >= openedOn);
+};
+
+/**
+ * The revenue limit for the year, prorated by month when the MEI was opened during it
+ * @param openedOn YYYY-MM the MEI was opened, or null when it predates the year
+ */
+export const getMeiLimit = (table: TaxYearTable, openedOn: string | null): number => {
+  if (!openedOn || Number(openedOn.slice(0, 4)) !== table.year) {
+    return table.mei.annualLimit;
+  }
+  const activeMonths = 13 - Number(openedOn.slice(5, 7));
+  return round((table.mei.annualLimit / 12) * activeMonths);
+};
+
+const dayOfYear = (date: string) => {
+  const [year = 0, month = 1, day = 1] = date.split('-').map(Number);
+  return (Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 1)) / 86400000 + 1;
+};
+
+/**
+ * How much of the revenue limit the year's income has used, and where it is heading
+ * @param alertThreshold Share of the limit from which the driver is warned, e.g. 0.8
+ * @param today YYYY-MM-DD, local; years already over project their actual revenue
+ */
+export const getMeiLimitUsage = (
+  ledger: TaxLedger,
+  table: TaxYearTable,
+  openedOn: string | null,
+  alertThreshold: number,
+  today: string,
+): MeiLimitUsage => {
+  const limit = getMeiLimit(table, openedOn);
+  const revenue = round(ledger.income);
+  const share = limit > 0 ? revenue / limit : 0;
+
+  const currentYear = Number(today.slice(0, 4));
+  let projected: number | null = revenue;
+  if (currentYear === ledger.year) {
+    const yearDays = dayOfYear(`${String(ledger.year)}-12-31`);
+    const firstDay =
+      openedOn && Number(openedOn.slice(0, 4)) === ledger.year ? dayOfYear(`${openedOn}-01`) : 1;
+    const elapsed = dayOfYear(today) - firstDay + 1;
+    projected =
+      elapsed >= MIN_PROJECTION_DAYS
+        ? round((revenue / elapsed) * (yearDays - firstDay + 1))
+        : null;
+  }
+  const projectedOver = projected !== null && projected > limit;
+
+  let level: MeiLimitLevel = 'ok';
+  if (revenue > limit * (1 + MEI_EXCLUSION_MARGIN)) {
+    level = 'excluded';
+  } else if (revenue > limit) {
+    level = 'exceeded';
+  } else if (share >= alertThreshold || projectedOver) {
+    level = 'approaching';
+  }
+
+  return {
+    limit,
+    revenue,
+    share,
+    remaining: round(Math.max(0, limit - revenue)),
+    projected,
+    level,
+    projectedOver,
+  };
+};
+
+const LEVEL_ORDER: MeiLimitLevel[] = ['ok', 'approaching', 'exceeded', 'excluded'];
+
+// True when moving from one level to the other is a step the driver has not been warned about
+export const isMeiLevelRaised = (from: MeiLimitLevel, to: MeiLimitLevel) =>
+  LEVEL_ORDER.indexOf(to) > LEVEL_ORDER.indexOf(from);
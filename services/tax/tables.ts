@@ -0,0 +1,173 @@
+import type { ExpenseCategory } from '../../store/useAppStore';
+
+/**
+ * Tax tables, one per calendar year
+ * Kept as data rather than constants so the driver (or their accountant) can correct a year
+ * when the minimum wage or the IRPF brackets change, without waiting for an app update
+ */
+
+export interface IrpfBracket {
+  upTo: number | null; // R$ monthly base, inclusive; null for the top bracket
+  rate: number; // 0.075 = 7.5%
+  deduction: number; // R$ "parcela a deduzir"
+}
+
+// Taken off the tax the brackets give, going by the month's taxable income before deductions
+export interface IrpfReduction {
+  fullUpTo: number; // R$ monthly income, inclusive; up to it the whole tax is waived
+  maxAmount: number; // R$ waived up to fullUpTo
+  taperUpTo: number; // R$ monthly income, inclusive; above it nothing is taken off
+  taperBase: number; // R$; in between, taperBase - taperRate * income is taken off
+  taperRate: number;
+}
+
+// Monthly IRPF table in force from a given month of the year
+export interface IrpfMonthlyTable {
+  fromMonth: number; // 1-12
+  brackets: IrpfBracket[]; // lowest first
+  simplifiedDiscount: number; // R$ monthly "desconto simplificado", taken instead of deductions
+  reduction?: IrpfReduction; // from 2026
+}
+
+export interface MeiTable {
+  annualLimit: number; // R$ gross revenue for a full calendar year
+  inssRate: number; // share of the minimum wage paid as INSS in the DAS
+  icms: number; // R$ monthly, commerce and industry activities
+  iss: number; // R$ monthly, service activities
+}
+
+export interface TaxYearTable {
+  year: number;
+  minimumWage: number; // R$ monthly
+  mei: MeiTable;
+  irpf: IrpfMonthlyTable[]; // by fromMonth, the first one starting in January
+  // Share of passenger transport revenue that counts as taxable income when livro-caixa is not used
+  transportTaxableShare: number;
+  // Categories deducted in the livro-caixa; whether vehicle costs qualify is for the accountant to confirm
+  livroCaixaCategories: ExpenseCategory[];
+}
+
+const IRPF_2024: IrpfMonthlyTable = {
+  fromMonth: 1,
+  brackets: [
+    { upTo: 2259.2, rate: 0, deduction: 0 },
+    { upTo: 2826.65, rate: 0.075, deduction: 169.44 },
+    { upTo: 3751.05, rate: 0.15, deduction: 381.44 },
+    { upTo: 4664.68, rate: 0.225, deduction: 662.77 },
+    { upTo: null, rate: 0.275, deduction: 896 },
+  ],
+  simplifiedDiscount: 564.8,
+};
+
+const IRPF_MAY_2025: IrpfMonthlyTable = {
+  fromMonth: 5,
+  brackets: [
+    { upTo: 2428.8, rate: 0, deduction: 0 },
+    { upTo: 2826.65, rate: 0.075, deduction: 182.16 },
+    { upTo: 3751.05, rate: 0.15, deduction: 394.16 },
+    { upTo: 4664.68, rate: 0.225, deduction: 675.49 },
+    { upTo: null, rate: 0.275, deduction: 908.73 },
+  ],
+  simplifiedDiscount: 607.2,
+};
+
+// Same brackets as May 2025; Lei 15.270/2025 waives the tax up to R$ 5,000 a month and
+// tapers the reduction off up to R$ 7,350
+const IRPF_2026: IrpfMonthlyTable = {
+  ...IRPF_MAY_2025,
+  fromMonth: 1,
+  reduction: {
+    fullUpTo: 5000,
+    maxAmount: 312.89,
+    taperUpTo: 7350,
+    taperBase: 978.62,
+    taperRate: 0.133145,
+  },
+};
+
+const DEFAULT_LIVRO_CAIXA: ExpenseCategory[] = [
+  'fuel',
+  'tolls',
+  'parking',
+  'maintenance',
+  'car_wash',
+  'phone_plan',
+  'insurance',
+  'rental',
+];
+
+const TABLE_2024: TaxYearTable = {
+  year: 2024,
+  minimumWage: 1412,
+  mei: { annualLimit: 81000, inssRate: 0.05, icms: 1, iss: 5 },
+  irpf: [IRPF_2024],
+  transportTaxableShare: 0.6,
+  livroCaixaCategories: DEFAULT_LIVRO_CAIXA,
+};
+
+// The May 2025 exemption raise applies from May; January to April kept the 2024 brackets
+const TABLE_2025: TaxYearTable = {
+  year: 2025,
+  minimumWage: 1518,
+  mei: { annualLimit: 81000, inssRate: 0.05, icms: 1, iss: 5 },
+  irpf: [IRPF_2024, IRPF_MAY_2025],
+  transportTaxableShare: 0.6,
+  livroCaixaCategories: DEFAULT_LIVRO_CAIXA,
+};
+
+const TABLE_2026: TaxYearTable = {
+  year: 2026,
+  minimumWage: 1621,
+  mei: { annualLimit: 81000, inssRate: 0.05, icms: 1, iss: 5 },
+  irpf: [IRPF_2026],
+  transportTaxableShare: 0.6,
+  livroCaixaCategories: DEFAULT_LIVRO_CAIXA,
+};
+
+export const DEFAULT_TAX_TABLES: TaxYearTable[] = [TABLE_2024, TABLE_2025, TABLE_2026];
+
+export interface ResolvedTaxTable {
+  table: TaxYearTable;
+  // True when no table exists for the year and the latest earlier one stands in for it
+  isProvisional: boolean;
+}
+
+/**
+ * The table for a year, falling back to the closest earlier year
+ * Before the first known year the earliest table is used, also flagged as provisional
+ * @param overrides Tables the driver edited; they replace the built-in table for their year, so
+ * tables added in app updates still reach drivers who never edited anything
+ */
+export const resolveTaxTable = (overrides: TaxYearTable[], year: number): ResolvedTaxTable => {
+  const byYear = new Map<number, TaxYearTable>();
+  for (const table of [...DEFAULT_TAX_TABLES, ...overrides]) {
+    byYear.set(table.year, table);
+  }
+  const sorted = [...byYear.values()].sort((a, b) => a.year - b.year);
+  const exact = byYear.get(year);
+  if (exact) {
+    return { table: exact, isProvisional: false };
+  }
+  const earlier = sorted.filter((table) => table.year < year).pop();
+  const fallback = earlier ?? sorted[0] ?? TABLE_2024;
+  return { table: { ...fallback, year }, isProvisional: true };
+};
+
+/**
+ * The IRPF table in force in a month
+ */
+export const getIrpfTable = (table: TaxYearTable, month: number): IrpfMonthlyTable => {
+  const inForce = [...table.irpf]
+    .sort((a, b) => a.fromMonth - b.fromMonth)
+    .filter((entry) => entry.fromMonth <= month)
+    .pop();
+  return inForce ?? table.irpf[0] ?? IRPF_2024;
+};
+
+/**
+ * Replaces the driver's correction for a table's year, or adds one
+ */
+export const upsertTaxTable = (overrides: TaxYearTable[], table: TaxYearTable): TaxYearTable[] =>
+  [...overrides.filter((entry) => entry.year !== table.year), table].sort(
+    (a, b) => a.year - b.year,
+  );
@@ -0,0 +1,171 @@
+import { describe, expect, it } from '@jest/globals';
+import { DEFAULT_COST_PROFILE } from '../../offers/profitability';
+import type { ReceiptExtraction } from '../../receipts/types';
+import type { Expense, Vehicle } from '../../../store/useAppStore';
+import { getVehicleCostPerKm, withVehicleCosts } from '../costPerKm';
+
+const TODAY = '2025-03-31';
+
+const CAR: Vehicle = {
+  id: 'car',
+  make: 'Chevrolet',
+  model: 'Onix',
+  fuelType: 'flex',
+  kmPerLiter: 12,
+  kmPerLiterEthanol: null,
+  ownership: 'owned',
+  weeklyRent: null,
+  createdAt: '2025-01-01T12:00:00.000Z',
+  updatedAt: '2025-01-01T12:00:00.000Z',
+};
+
+const priced = (pricePerLiter: number): ReceiptExtraction => ({
+  extractor: 'test',
+  amount: null,
+  date: null,
+  vendor: null,
+  category: null,
+  cnpj: null,
+  liters: null,
+  pricePerLiter: { value: pricePerLiter, confidence: 1 },
+  fuel: null,
+  accessKey: null,
+});
+
+const expense = (id: string, date: string, overrides: Partial<Expense> = {}): Expense => ({
+  id,
+  sessionId: null,
+  vehicleId: CAR.id,
+  status: 'confirmed',
+  category: 'fuel',
+  amount: 200,
+  paymentMethod: 'card',
+  vendor: 'Posto Ipiranga',
+  date,
+  receiptUri: null,
+  extraction: null,
+  odometerKm: null,
+  fuel: 'gasoline',
+  liters: null,
+  createdAt: `${date}T12:00:00.000Z`,
+  updatedAt: `${date}T12:00:00.000Z`,
+  ...overrides,
+});
+
+// Two fills 500 km apart with a service in between
+const LOGGED: Expense[] = [
+  expense('fill-1', '2025-03-01', { odometerKm: 10000, extraction: priced(6.5) }),
+  expense('service', '2025-03-10', { category: 'maintenance', amount: 100 }),
+  expense('fill-2', '2025-03-14', { odometerKm: 10500, amount: 180, extraction: priced(6.2) }),
+];
+
+describe('getVehicleCostPerKm', () => {
+  it('spreads costs over the odometer span, leaving out the last fill', () => {
+    const costs = getVehicleCostPerKm(CAR, [], LOGGED, TODAY);
+
+    expect(costs.distanceSource).toBe('odometer');
+    expect(costs.distanceKm).toBe(500);
+    expect(costs.fuelPerKm).toBe(0.4);
+    expect(costs.maintenancePerKm).toBe(0.2);
+    expect(costs.estimatedFuelPerKm).toBeCloseTo(6.2 / 12, 6);
+  });
+});
+
+describe('withVehicleCosts', () => {
+  it("keeps the driver's profile without a vehicle", () => {
+    expect(withVehicleCosts(DEFAULT_COST_PROFILE, null, [], [], TODAY)).toBe(DEFAULT_COST_PROFILE);
+  });
+
+  it("uses the vehicle's economy, and the driver's figures for what is not logged yet", () => {
+    expect(withVehicleCosts(DEFAULT_COST_PROFILE, CAR, [], [], TODAY)).toEqual({
+      ...DEFAULT_COST_PROFILE,
+      kmPerLiter: 12,
+    });
+  });
+
+  it("falls back to the driver's own economy when the vehicle has none", () => {
+    const profile = withVehicleCosts(
+      DEFAULT_COST_PROFILE,
+      { ...CAR, id: 'other', kmPerLiter: 0 },
+      [],
+      [],
+      TODAY,
+    );
+
+    expect(profile.kmPerLiter).toBe(DEFAULT_COST_PROFILE.kmPerLiter);
+  });
+
+  it('takes the last pump price and the maintenance logged for the vehicle', () => {
+    const profile = withVehicleCosts(DEFAULT_COST_PROFILE, CAR, [], LOGGED, TODAY);
+
+    expect(profile.fuelPricePerLiter).toBe(6.2);
+    expect(profile.maintenancePerKm).toBe(0.2);
+  });
+
+  it("ignores drafts and other vehicles' receipts for the price", () => {
+    const profile = withVehicleCosts(
+      DEFAULT_COST_PROFILE,
+      CAR,
+      [],
+      [
+        expense('fill', '2025-03-01', { extraction: priced(6.1) }),
+        expense('draft', '2025-03-05', { status: 'draft', extraction: priced(5.5) }),
+        expense('other', '2025-03-06', { vehicleId: 'other', extraction: priced(4.9) }),
+      ],
+      TODAY,
+    );
+
+    expect(profile.fuelPricePerLiter).toBe(6.1);
+  });
+
+  it('pairs the economy and the price of the fuel the car was last filled with', () => {
+    const expenses = [
+      ...LOGGED,
+      expense('ethanol', '2025-03-20', { fuel: 'ethanol', extraction: priced(4.3) }),
+    ];
+
+    const profile = withVehicleCosts(
+      DEFAULT_COST_PROFILE,
+      { ...CAR, kmPerLiterEthanol: 8.5 },
+      [],
+      expenses,
+      TODAY,
+    );
+    expect(profile.kmPerLiter).toBe(8.5);
+    expect(profile.fuelPricePerLiter).toBe(4.3);
+
+    // Without an ethanol figure for the car, the usual 70% of its gasoline one
+    expect(withVehicleCosts(DEFAULT_COST_PROFILE, CAR, [], expenses, TODAY).kmPerLiter).toBeCloseTo(
+      8.4,
+      6,
+    );
+  });
+
+  it('takes no price paid for another fuel', () => {
+    const gasolineCar: Vehicle = { ...CAR, fuelType: 'gasoline' };
+    const profile = withVehicleCosts(
+      DEFAULT_COST_PROFILE,
+      gasolineCar,
+      [],
+      [expense('ethanol', '2025-03-20', { fuel: 'ethanol', extraction: priced(4.3) })],
+      TODAY,
+    );
+
+    expect(profile.fuelPricePerLiter).toBe(DEFAULT_COST_PROFILE.fuelPricePerLiter);
+    expect(profile.kmPerLiter).toBe(12);
+  });
+
+  it("adds a rented car's rent to the running cost per km", () => {
+    const rented: Vehicle = { ...CAR, ownership: 'rented', weeklyRent: 700 };
+    const profile = withVehicleCosts(
+      DEFAULT_COST_PROFILE,
+      rented,
+      [],
+      LOGGED.filter((entry) => entry.category === 'fuel'),
+      TODAY,
+    );
+
+    // R$ 100 a day over the 14 days between fills, spread over 500 km
+    expect(profile.maintenancePerKm).toBeCloseTo(DEFAULT_COST_PROFILE.maintenancePerKm + 2.8, 6);
+  });
+});
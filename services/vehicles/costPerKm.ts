@@ -0,0 +1,190 @@
+import type { Expense, PumpFuel, Trip, Vehicle } from '../../store/useAppStore';
+import type { DriverCostProfile } from '../offers/profitability';
+import { ETHANOL_RULE_RATIO, getLastPumpPrice } from './fuelAdvisor';
+
+/**
+ * Running cost per km of a vehicle, from the fuel and maintenance the driver has logged for it
+ * Pure functions over store data, recomputed as new expenses come in
+ */
+
+// The fuel a vehicle runs on now, with its economy and price on that same fuel
+export interface FuelInUse {
+  fuel: PumpFuel | null; // null for electric cars
+  kmPerLiter: number; // the vehicle's figure for this fuel; km/m³ for GNV
+  pricePerLiter: number | null; // R$, last paid for this fuel; null before any fill of it
+}
+
+// Where the distance the costs are spread over came from
+export type DistanceSource = 'odometer' | 'trips' | 'none';
+
+export interface VehicleCostPerKm {
+  distanceKm: number;
+  distanceSource: DistanceSource;
+  fuelCost: number; // R$
+  maintenanceCost: number; // R$
+  rentCost: number; // R$, logged rental expenses or the weekly rent over the days covered
+  fuelPerKm: number | null; // R$/km; null without distance
+  maintenancePerKm: number | null;
+  rentPerKm: number | null;
+  totalPerKm: number | null;
+  // R$/km from the measured economy and the last price paid, available before any km are logged
+  estimatedFuelPerKm: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const perKm = (cost: number, distanceKm: number) => (distanceKm > 0 ? cost / distanceKm : null);
+
+const dayMs = (dateKey: string) => new Date(`${dateKey}T12:00:00Z`).getTime();
+
+/**
+ * The fuel a vehicle runs on now, so its price and km/L are never taken from different fuels
+ * A flex car runs on what it was last filled with, gasoline until a fill says otherwise
+ */
+export const getFuelInUse = (vehicle: Vehicle, expenses: Expense[]): FuelInUse => {
+  const fills = expenses.filter(
+    (expense) =>
+      expense.vehicleId === vehicle.id &&
+      expense.status === 'confirmed' &&
+      expense.category === 'fuel',
+  );
+
+  let fuel: PumpFuel | null = null;
+  let kmPerLiter = vehicle.kmPerLiter;
+  if (vehicle.fuelType === 'flex') {
+    const lastFill = fills
+      .filter((expense) => expense.fuel === 'gasoline' || expense.fuel === 'ethanol')
+      .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt))[0];
+    fuel = lastFill?.fuel ?? 'gasoline';
+    if (fuel === 'ethanol') {
+      kmPerLiter = vehicle.kmPerLiterEthanol ?? vehicle.kmPerLiter * ETHANOL_RULE_RATIO;
+    }
+  } else if (vehicle.fuelType !== 'electric') {
+    fuel = vehicle.fuelType;
+  }
+
+  return {
+    fuel,
+    kmPerLiter,
+    pricePerLiter: fuel ? getLastPumpPrice(vehicle.id, fills, fuel) : null,
+  };
+};
+
+/**
+ * Cost per km for one vehicle
+ * Distance comes from odometer readings on its fuel expenses when there are at least two, going
+ * fill to fill: the last fill has not been driven yet, so its cost is left out. Without readings
+ * the vehicle's trip distances are used, which leave out the km driven between trips
+ * @param today YYYY-MM-DD, the end of the span the weekly rent is spread over
+ */
+export const getVehicleCostPerKm = (
+  vehicle: Vehicle,
+  trips: Trip[],
+  expenses: Expense[],
+  today: string,
+): VehicleCostPerKm => {
+  const vehicleExpenses = expenses.filter(
+    (expense) => expense.vehicleId === vehicle.id && expense.status === 'confirmed',
+  );
+  const vehicleTrips = trips.filter((trip) => trip.vehicleId === vehicle.id);
+  const fuel = vehicleExpenses.filter((expense) => expense.category === 'fuel');
+
+  const readings = fuel
+    .filter((expense) => expense.odometerKm !== null)
+    .sort((a, b) => (a.odometerKm ?? 0) - (b.odometerKm ?? 0));
+  const first = readings[0];
+  const last = readings[readings.length - 1];
+
+  let distanceKm = 0;
+  let distanceSource: DistanceSource = 'none';
+  let fuelCost = fuel.reduce((sum, expense) => sum + expense.amount, 0);
+  let spanStart: string | null = null;
+  let spanEnd = today;
+
+  if (first && last && first !== last && (last.odometerKm ?? 0) > (first.odometerKm ?? 0)) {
+    distanceKm = (last.odometerKm ?? 0) - (first.odometerKm ?? 0);
+    distanceSource = 'odometer';
+    fuelCost -= last.amount;
+    spanStart = first.date;
+    spanEnd = last.date;
+  } else {
+    distanceKm = vehicleTrips.reduce((sum, trip) => sum + trip.distanceKm, 0);
+    distanceSource = distanceKm > 0 ? 'trips' : 'none';
+    const dates = [
+      ...vehicleTrips.map((trip) => trip.startedAt.slice(0, 10)),
+      ...vehicleExpenses.map((expense) => expense.date),
+    ].sort();
+    spanStart = dates[0] ?? null;
+  }
+
+  // Odometer spans only count costs from inside the span
+  const inSpan = (expense: Expense) =>
+    distanceSource !== 'odometer' ||
+    (spanStart !== null && expense.date >= spanStart && expense.date <= spanEnd);
+
+  const maintenanceCost = vehicleExpenses
+    .filter((expense) => expense.category === 'maintenance' && inSpan(expense))
+    .reduce((sum, expense) => sum + expense.amount, 0);
+
+  const loggedRent = vehicleExpenses
+    .filter((expense) => expense.category === 'rental' && inSpan(expense))
+    .reduce((sum, expense) => sum + expense.amount, 0);
+  let rentCost = loggedRent;
+  if (loggedRent === 0 && vehicle.ownership === 'rented' && vehicle.weeklyRent && spanStart) {
+    const days = Math.max(1, Math.round((dayMs(spanEnd) - dayMs(spanStart)) / DAY_MS) + 1);
+    rentCost = (vehicle.weeklyRent / 7) * days;
+  }
+
+  const fuelPerKm = perKm(fuelCost, distanceKm);
+  const maintenancePerKm = perKm(maintenanceCost, distanceKm);
+  const rentPerKm = perKm(rentCost, distanceKm);
+  const fuelInUse = getFuelInUse(vehicle, vehicleExpenses);
+
+  return {
+    distanceKm,
+    distanceSource,
+    fuelCost,
+    maintenanceCost,
+    rentCost,
+    fuelPerKm,
+    maintenancePerKm,
+    rentPerKm,
+    totalPerKm: perKm(fuelCost + maintenanceCost + rentCost, distanceKm),
+    estimatedFuelPerKm:
+      fuelInUse.pricePerLiter !== null && fuelInUse.kmPerLiter > 0
+        ? fuelInUse.pricePerLiter / fuelInUse.kmPerLiter
+        : null,
+  };
+};
+
+/**
+ * The cost profile offers are judged with while driving a vehicle
+ * The driver's own figures stand until the vehicle has better ones: its economy and the last price
+ * paid at the pump, both for the fuel it runs on now, and the maintenance and rent logged for it
+ * @param vehicle The vehicle in use; without one the driver's profile is returned as it is
+ */
+export const withVehicleCosts = (
+  profile: DriverCostProfile,
+  vehicle: Vehicle | null | undefined,
+  trips: Trip[],
+  expenses: Expense[],
+  today: string,
+): DriverCostProfile => {
+  if (!vehicle) {
+    return profile;
+  }
+  const costs = getVehicleCostPerKm(vehicle, trips, expenses, today);
+  const fuelInUse = getFuelInUse(vehicle, expenses);
+  const maintenancePerKm =
+    costs.maintenanceCost > 0 && costs.maintenancePerKm !== null
+      ? costs.maintenancePerKm
+      : profile.maintenancePerKm;
+
+  return {
+    ...profile,
+    kmPerLiter: fuelInUse.kmPerLiter > 0 ? fuelInUse.kmPerLiter : profile.kmPerLiter,
+    fuelPricePerLiter: fuelInUse.pricePerLiter ?? profile.fuelPricePerLiter,
+    // Rent is a running cost of a rented car that the driver's own profile leaves out
+    maintenancePerKm: maintenancePerKm + (costs.rentPerKm ?? 0),
+  };
+};
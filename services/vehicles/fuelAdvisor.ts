@@ -0,0 +1,205 @@
+import type { Expense, PumpFuel, Trip, Vehicle } from '../../store/useAppStore';
+
+/**
+ * Ethanol or gasoline for a flex car, worked out from the car's own fuel economy
+ * The usual advice is to fill with ethanol below 70% of the gasoline price, but the real ratio
+ * depends on the engine and how it is driven, so the driver's logged fills are used whenever
+ * there are enough of them
+ */
+
+export type FlexFuel = 'gasoline' | 'ethanol';
+
+// Where a km/L figure came from, most trustworthy first
+export type EconomySource = 'measured' | 'profile' | 'rule';
+
+export interface FuelEconomy {
+  kmPerLiter: number;
+  source: EconomySource;
+  segments: number; // fill-to-fill segments behind a measured figure
+}
+
+export interface FlexEconomy {
+  gasoline: FuelEconomy;
+  ethanol: FuelEconomy;
+}
+
+export interface FuelPrices {
+  gasoline: number; // R$/L
+  ethanol: number; // R$/L
+}
+
+export interface FuelAdvice {
+  recommended: FlexFuel;
+  costPerKm: Record<FlexFuel, number>; // R$/km
+  priceRatio: number; // ethanol price / gasoline price
+  breakEvenRatio: number; // ethanol km/L / gasoline km/L; ethanol pays below this price ratio
+  breakEvenEthanolPrice: number; // R$/L at which both cost the same per km
+  monthlyKm: number;
+  monthlySaving: number; // R$ the recommended fuel saves over the other in a month
+}
+
+// The rule of thumb, used only when nothing better is known
+export const ETHANOL_RULE_RATIO = 0.7;
+
+// Fewer measured km than this and a profile or rule figure is used instead
+const MIN_MEASURED_KM = 150;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dayMs = (dateKey: string) => new Date(`${dateKey}T12:00:00Z`).getTime();
+
+/**
+ * Measured km/L per fuel from the vehicle's fills, fill to fill
+ * Each fill is assumed to top the tank up, so the liters of a fill are what the km since the
+ * previous fill burned, and those km were driven on the previous fill's fuel
+ */
+export const measureFuelEconomy = (
+  vehicleId: string,
+  expenses: Expense[],
+): Partial<Record<FlexFuel, FuelEconomy>> => {
+  const fills = expenses
+    .filter(
+      (expense) =>
+        expense.vehicleId === vehicleId &&
+        expense.status === 'confirmed' &&
+        expense.category === 'fuel' &&
+        expense.odometerKm !== null &&
+        expense.liters !== null &&
+        expense.liters > 0,
+    )
+    .sort((a, b) => (a.odometerKm ?? 0) - (b.odometerKm ?? 0));
+
+  const totals: Record<FlexFuel, { km: number; liters: number; segments: number }> = {
+    gasoline: { km: 0, liters: 0, segments: 0 },
+    ethanol: { km: 0, liters: 0, segments: 0 },
+  };
+  for (let index = 1; index < fills.length; index += 1) {
+    const previous = fills[index - 1];
+    const current = fills[index];
+    const km = (current?.odometerKm ?? 0) - (previous?.odometerKm ?? 0);
+    const fuel = previous?.fuel;
+    if (!current || km <= 0 || (fuel !== 'gasoline' && fuel !== 'ethanol')) {
+      continue;
+    }
+    totals[fuel].km += km;
+    totals[fuel].liters += current.liters ?? 0;
+    totals[fuel].segments += 1;
+  }
+
+  const result: Partial<Record<FlexFuel, FuelEconomy>> = {};
+  for (const fuel of ['gasoline', 'ethanol'] as const) {
+    const { km, liters, segments } = totals[fuel];
+    if (km >= MIN_MEASURED_KM && liters > 0) {
+      result[fuel] = { kmPerLiter: km / liters, source: 'measured', segments };
+    }
+  }
+  return result;
+};
+
+/**
+ * The km/L to compare on: measured, else the profile's figures, else the 70% rule
+ */
+export const getFlexEconomy = (vehicle: Vehicle, expenses: Expense[]): FlexEconomy => {
+  const measured = measureFuelEconomy(vehicle.id, expenses);
+
+  const gasoline: FuelEconomy = measured.gasoline ?? {
+    kmPerLiter: vehicle.kmPerLiter,
+    source: 'profile',
+    segments: 0,
+  };
+
+  let ethanol: FuelEconomy | undefined = measured.ethanol;
+  if (!ethanol && vehicle.kmPerLiterEthanol !== null) {
+    ethanol = { kmPerLiter: vehicle.kmPerLiterEthanol, source: 'profile', segments: 0 };
+  }
+  // Only the ratio is borrowed from the rule; the gasoline figure is still the car's own
+  ethanol ??= {
+    kmPerLiter: gasoline.kmPerLiter * ETHANOL_RULE_RATIO,
+    source: 'rule',
+    segments: 0,
+  };
+
+  return { gasoline, ethanol };
+};
+
+/**
+ * Price per liter of the vehicle's latest fill of a fuel: the one read off the receipt,
+ * else the amount over the liters
+ */
+export const getLastPumpPrice = (
+  vehicleId: string,
+  expenses: Expense[],
+  fuel: PumpFuel,
+): number | null => {
+  const fill = expenses
+    .filter(
+      (expense) =>
+        expense.vehicleId === vehicleId && expense.category === 'fuel' && expense.fuel === fuel,
+    )
+    .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt))
+    .find(
+      (expense) => (expense.extraction?.pricePerLiter ?? null) !== null || (expense.liters ?? 0) > 0,
+    );
+  if (!fill) {
+    return null;
+  }
+  return fill.extraction?.pricePerLiter?.value ?? fill.amount / (fill.liters ?? 1);
+};
+
+/**
+ * km the vehicle covers in a month
+ * From the odometer readings when they span at least a week, otherwise from the last 30 days
+ * of trips, which leaves out the km between trips
+ * @param today YYYY-MM-DD
+ */
+export const estimateMonthlyKm = (
+  vehicleId: string,
+  trips: Trip[],
+  expenses: Expense[],
+  today: string,
+): number => {
+  const readings = expenses
+    .filter((expense) => expense.vehicleId === vehicleId && expense.odometerKm !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const first = readings[0];
+  const last = readings[readings.length - 1];
+  if (first && last) {
+    const days = (dayMs(last.date) - dayMs(first.date)) / DAY_MS;
+    const km = (last.odometerKm ?? 0) - (first.odometerKm ?? 0);
+    if (days >= 7 && km > 0) {
+      return (km / days) * 30;
+    }
+  }
+
+  const since = new Date(dayMs(today) - 30 * DAY_MS).toISOString().slice(0, 10);
+  return trips
+    .filter((trip) => trip.vehicleId === vehicleId && trip.startedAt >= since)
+    .reduce((sum, trip) => sum + trip.distanceKm, 0);
+};
+
+/**
+ * Which fuel costs less per km at these prices, and what that is worth in a month
+ * Ties go to gasoline, which keeps the range longer
+ */
+export const adviseFuel = (
+  prices: FuelPrices,
+  economy: FlexEconomy,
+  monthlyKm: number,
+): FuelAdvice => {
+  const costPerKm: Record<FlexFuel, number> = {
+    gasoline: prices.gasoline / economy.gasoline.kmPerLiter,
+    ethanol: prices.ethanol / economy.ethanol.kmPerLiter,
+  };
+  const recommended: FlexFuel = costPerKm.ethanol < costPerKm.gasoline ? 'ethanol' : 'gasoline';
+  const breakEvenRatio = economy.ethanol.kmPerLiter / economy.gasoline.kmPerLiter;
+
+  return {
+    recommended,
+    costPerKm,
+    priceRatio: prices.gasoline > 0 ? prices.ethanol / prices.gasoline : 0,
+    breakEvenRatio,
+    breakEvenEthanolPrice: prices.gasoline * breakEvenRatio,
+    monthlyKm,
+    monthlySaving: Math.abs(costPerKm.gasoline - costPerKm.ethanol) * monthlyKm,
+  };
+};
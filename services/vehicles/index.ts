@@ -0,0 +1,18 @@
+export { getFuelInUse, getVehicleCostPerKm, withVehicleCosts } from './costPerKm';
+export type { DistanceSource, FuelInUse, VehicleCostPerKm } from './costPerKm';
+export {
+  ETHANOL_RULE_RATIO,
+  adviseFuel,
+  estimateMonthlyKm,
+  getFlexEconomy,
+  getLastPumpPrice,
+  measureFuelEconomy,
+} from './fuelAdvisor';
+export type {
+  EconomySource,
+  FlexEconomy,
+  FlexFuel,
+  FuelAdvice,
+  FuelEconomy,
+  FuelPrices,
+} from './fuelAdvisor';
@@ -0,0 +1,92 @@
+import {
+  addSpeechRecognitionListener,
+  ExpoSpeechRecognitionModule,
+  isRecognitionAvailable,
+} from 'expo-speech-recognition';
+import { INTENT_PHRASES } from './grammar';
+import type { SpeechRecognizer, TranscriptResult } from './types';
+
+// Biases the engine towards the words the grammar listens for
+const CONTEXTUAL_STRINGS = Object.values(INTENT_PHRASES).flatMap((languages) =>
+  Object.values(languages).flat(),
+);
+
+/**
+ * Listens through the platform speech-to-text engine via expo-speech-recognition
+ * Engines end a session after a stretch of silence, so it restarts until stopped
+ */
+export class ExpoSpeechRecognizer implements SpeechRecognizer {
+  private readonly language: string;
+  private subscriptions: ReturnType<typeof addSpeechRecognitionListener>[] = [];
+  private listening = false;
+  // Bumped on every start and stop, so a start still waiting on the OS can tell it was overtaken
+  private generation = 0;
+
+  constructor(language = 'pt-BR') {
+    this.language = language;
+  }
+
+  async start(onResult: (result: TranscriptResult) => void) {
+    if (!isRecognitionAvailable()) {
+      throw new Error('No speech recognition service on this device');
+    }
+    this.generation += 1;
+    const generation = this.generation;
+    const { granted } = await ExpoSpeechRecognitionModule.requestPermissionsAsync();
+    if (!granted) {
+      throw new Error('Microphone or speech recognition permission denied');
+    }
+    if (generation !== this.generation) {
+      return;
+    }
+
+    this.removeSubscriptions();
+    this.listening = true;
+    this.subscriptions = [
+      addSpeechRecognitionListener('result', (event) => {
+        const [best] = event.results;
+        if (best) {
+          onResult({
+            transcript: best.transcript,
+            // -1 when the engine does not say; the grammar still has to match
+            confidence: best.confidence < 0 ? 1 : best.confidence,
+            isFinal: event.isFinal,
+          });
+        }
+      }),
+      addSpeechRecognitionListener('error', (event) => {
+        console.error('[Voice] Recognition error:', event.error, event.message);
+      }),
+      addSpeechRecognitionListener('end', () => {
+        if (this.listening) {
+          this.listen();
+        }
+      }),
+    ];
+    this.listen();
+  }
+
+  stop() {
+    this.generation += 1;
+    this.listening = false;
+    this.removeSubscriptions();
+    ExpoSpeechRecognitionModule.stop();
+    return Promise.resolve();
+  }
+
+  private listen() {
+    ExpoSpeechRecognitionModule.start({
+      lang: this.language,
+      interimResults: false,
+      continuous: true,
+      contextualStrings: CONTEXTUAL_STRINGS,
+    });
+  }
+
+  private removeSubscriptions() {
+    for (const subscription of this.subscriptions) {
+      subscription.remove();
+    }
+    this.subscriptions = [];
+  }
+}
@@ -0,0 +1,43 @@
+import type { SpeechRecognizer, TranscriptResult } from './types';
+
+/**
+ * Stand-in recognizer that "hears" whatever it is told to
+ * For tests and for devices without a speech-to-text engine; script plays back on start
+ */
+export class ScriptedSpeechRecognizer implements SpeechRecognizer {
+  private readonly script: TranscriptResult[];
+  private listener: ((result: TranscriptResult) => void) | null = null;
+
+  constructor(script: TranscriptResult[] = []) {
+    this.script = script;
+  }
+
+  get isListening() {
+    return this.listener !== null;
+  }
+
+  start(onResult: (result: TranscriptResult) => void) {
+    this.listener = onResult;
+    for (const result of this.script) {
+      onResult(result);
+    }
+    return Promise.resolve();
+  }
+
+  stop() {
+    this.listener = null;
+    return Promise.resolve();
+  }
+
+  /**
+   * Delivers a final transcript, as if the driver had just said it
+   * @returns Whether anyone was listening
+   */
+  say(transcript: string, confidence = 1): boolean {
+    if (!this.listener) {
+      return false;
+    }
+    this.listener({ transcript, confidence, isFinal: true });
+    return true;
+  }
+}
@@ -0,0 +1,190 @@
+import { useAppStore } from '../../store/useAppStore';
+import type { Trip } from '../../store/useAppStore';
+import type { Clock } from '../session/sessionTimeout';
+import { systemClock } from '../session/sessionTimeout';
+import { getDeviceTimeZone, toLocalDateKey } from '../session/dayBucketing';
+import type { SpeechAnnouncer } from '../speech';
+import { speechAnnouncer } from '../speech';
+import { matchIntent } from './grammar';
+import type { IntentMatch, SpeechRecognizer, TranscriptResult, VoiceIntent } from './types';
+
+type AppStore = Pick<typeof useAppStore, 'getState'>;
+
+interface VoiceCommandControllerOptions {
+  recognizer: SpeechRecognizer;
+  store?: AppStore;
+  announcer?: SpeechAnnouncer;
+  clock?: Clock;
+  confirmationTimeoutMs?: number;
+}
+
+export type VoiceCommandOutcome =
+  | { type: 'executed'; intent: VoiceIntent; match: IntentMatch }
+  | { type: 'awaiting_confirmation'; intent: VoiceIntent; match: IntentMatch }
+  | { type: 'cancelled' }
+  | { type: 'ignored'; reason: 'partial' | 'not_understood' | 'nothing_to_confirm' };
+
+// Intents that cannot be undone by voice, so the driver has to confirm them
+const DESTRUCTIVE_INTENTS: ReadonlySet<VoiceIntent> = new Set(['stop_session']);
+
+const DEFAULT_CONFIRMATION_TIMEOUT = 10 * 1000; // 10 seconds
+
+// What the driver took home from today's trips: fares after the platform cut, plus tips
+const getTodayEarnings = (trips: Trip[], nowMs: number) => {
+  const timeZone = getDeviceTimeZone();
+  const today = toLocalDateKey(nowMs, timeZone);
+  const todays = trips.filter((trip) => toLocalDateKey(trip.startedAt, timeZone) === today);
+  return {
+    total: todays.reduce((sum, trip) => sum + trip.fare - trip.platformFee + trip.tip, 0),
+    tripCount: todays.length,
+  };
+};
+
+/**
+ * Listens for spoken commands and dispatches them to the store
+ * Replies are spoken through the announcer so the driver never has to look at the screen
+ */
+export class VoiceCommandController {
+  private readonly recognizer: SpeechRecognizer;
+  private readonly store: AppStore;
+  private readonly announcer: SpeechAnnouncer;
+  private readonly clock: Clock;
+  private readonly confirmationTimeoutMs: number;
+  private listening = false;
+  private pendingConfirmation: {
+    intent: VoiceIntent;
+    match: IntentMatch;
+    expiresAt: number;
+  } | null = null;
+
+  constructor(options: VoiceCommandControllerOptions) {
+    this.recognizer = options.recognizer;
+    this.store = options.store ?? useAppStore;
+    this.announcer = options.announcer ?? speechAnnouncer;
+    this.clock = options.clock ?? systemClock;
+    this.confirmationTimeoutMs = options.confirmationTimeoutMs ?? DEFAULT_CONFIRMATION_TIMEOUT;
+  }
+
+  get isListening() {
+    return this.listening;
+  }
+
+  start() {
+    if (this.listening) {
+      return;
+    }
+    this.listening = true;
+    this.recognizer
+      .start((result) => {
+        this.handleResult(result);
+      })
+      .catch((error: unknown) => {
+        this.listening = false;
+        console.error('[Voice] Failed to start listening:', error);
+      });
+  }
+
+  stop() {
+    if (!this.listening) {
+      return;
+    }
+    this.listening = false;
+    this.pendingConfirmation = null;
+    this.recognizer.stop().catch((error: unknown) => {
+      console.error('[Voice] Failed to stop listening:', error);
+    });
+  }
+
+  /**
+   * Interprets one transcript from the recognizer
+   */
+  handleResult(result: TranscriptResult): VoiceCommandOutcome {
+    if (!result.isFinal) {
+      return { type: 'ignored', reason: 'partial' };
+    }
+    const match = matchIntent(result.transcript, result.confidence);
+    if (!match) {
+      return { type: 'ignored', reason: 'not_understood' };
+    }
+
+    const pending = this.pendingConfirmation;
+    this.pendingConfirmation = null;
+    const pendingIsLive = pending !== null && pending.expiresAt > this.clock();
+
+    if (match.intent === 'confirm') {
+      if (!pending || !pendingIsLive) {
+        return { type: 'ignored', reason: 'nothing_to_confirm' };
+      }
+      this.execute(pending.intent);
+      return { type: 'executed', intent: pending.intent, match: pending.match };
+    }
+    if (match.intent === 'cancel') {
+      if (!pending || !pendingIsLive) {
+        return { type: 'ignored', reason: 'nothing_to_confirm' };
+      }
+      this.reply(this.announcer.templates.commandCancelled());
+      return { type: 'cancelled' };
+    }
+
+    if (DESTRUCTIVE_INTENTS.has(match.intent)) {
+      this.pendingConfirmation = {
+        intent: match.intent,
+        match,
+        expiresAt: this.clock() + this.confirmationTimeoutMs,
+      };
+      this.reply(this.announcer.templates.confirmStopSession());
+      return { type: 'awaiting_confirmation', intent: match.intent, match };
+    }
+
+    this.execute(match.intent);
+    return { type: 'executed', intent: match.intent, match };
+  }
+
+  private execute(intent: VoiceIntent) {
+    const state = this.store.getState();
+    const { templates } = this.announcer;
+
+    switch (intent) {
+      case 'start_session':
+        state.startTimer();
+        break;
+      case 'stop_session':
+        state.stopTimer();
+        break;
+      case 'pause_session':
+        state.pauseTimer();
+        this.reply(templates.sessionPaused());
+        break;
+      case 'resume_session':
+        state.resumeTimer();
+        this.reply(templates.sessionResumed());
+        break;
+      case 'accept_offer':
+      case 'decline_offer':
+        if (!state.currentOffer) {
+          this.reply(templates.noOffer());
+          break;
+        }
+        if (intent === 'accept_offer') {
+          state.decideOffer('accepted', 'driver', 'voice');
+          this.reply(templates.offerAccepted());
+        } else {
+          state.decideOffer('declined', 'driver', 'voice');
+          this.reply(templates.offerDeclined());
+        }
+        break;
+      case 'earnings_today': {
+        const { total, tripCount } = getTodayEarnings(state.trips, this.clock());
+        this.reply(templates.earningsToday(total, tripCount));
+        break;
+      }
+      case 'confirm':
+      case 'cancel':
+        break;
+    }
+  }
+
+  private reply(text: string) {
+    this.announcer.announce({ text, priority: 'session' });
+  }
+}
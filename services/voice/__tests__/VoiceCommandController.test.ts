@@ -0,0 +1,114 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import type { useAppStore } from '../../../store/useAppStore';
+import { RecordingSpeechBackend, SpeechAnnouncer } from '../../speech';
+import { ScriptedSpeechRecognizer } from '../ScriptedSpeechRecognizer';
+import { VoiceCommandController } from '../VoiceCommandController';
+
+// The real store opens SQLite and MMKV; the controller is handed a stand-in instead
+jest.mock('../../../store/useAppStore', () => ({ useAppStore: {} }));
+
+type AppState = ReturnType<typeof useAppStore.getState>;
+
+const setup = (state: Partial<AppState> = {}) => {
+  let now = Date.parse('2025-03-14T12:00:00.000Z');
+  const actions = {
+    startTimer: jest.fn(),
+    stopTimer: jest.fn(),
+    pauseTimer: jest.fn(),
+    resumeTimer: jest.fn(),
+    decideOffer: jest.fn(),
+  };
+  const fullState = { currentOffer: null, trips: [], ...actions, ...state } as unknown as AppState;
+  const recognizer = new ScriptedSpeechRecognizer();
+  const backend = new RecordingSpeechBackend();
+  const controller = new VoiceCommandController({
+    recognizer,
+    store: { getState: () => fullState },
+    announcer: new SpeechAnnouncer(backend),
+    clock: () => now,
+    confirmationTimeoutMs: 10_000,
+  });
+  controller.start();
+  const advance = (ms: number) => {
+    now += ms;
+  };
+  return { controller, recognizer, backend, actions, advance };
+};
+
+describe('VoiceCommandController', () => {
+  it('hears commands through the recognizer once started', () => {
+    const { recognizer, actions } = setup();
+
+    expect(recognizer.say('iniciar sessão')).toBe(true);
+    expect(actions.startTimer).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops hearing once stopped', () => {
+    const { controller, recognizer, actions } = setup();
+    controller.stop();
+
+    expect(recognizer.say('iniciar sessão')).toBe(false);
+    expect(actions.startTimer).not.toHaveBeenCalled();
+  });
+
+  it('ignores partial and unclear transcripts', () => {
+    const { controller, actions } = setup();
+
+    expect(
+      controller.handleResult({ transcript: 'aceitar', confidence: 1, isFinal: false }),
+    ).toEqual({ type: 'ignored', reason: 'partial' });
+    expect(controller.handleResult({ transcript: 'parar', confidence: 1, isFinal: true })).toEqual({
+      type: 'ignored',
+      reason: 'not_understood',
+    });
+    expect(actions.decideOffer).not.toHaveBeenCalled();
+  });
+
+  it('asks before stopping the session and stops on yes', () => {
+    const { recognizer, backend, actions } = setup();
+
+    recognizer.say('encerrar sessão');
+    expect(actions.stopTimer).not.toHaveBeenCalled();
+    expect(backend.spoken[0]?.text).toBe('Encerrar a sessão? Diga sim para confirmar.');
+
+    recognizer.say('sim');
+    expect(actions.stopTimer).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the session going on no', () => {
+    const { controller, recognizer, actions } = setup();
+
+    recognizer.say('encerrar sessão');
+    expect(controller.handleResult({ transcript: 'não', confidence: 1, isFinal: true })).toEqual({
+      type: 'cancelled',
+    });
+    expect(actions.stopTimer).not.toHaveBeenCalled();
+  });
+
+  it('lets the confirmation lapse', () => {
+    const { controller, recognizer, actions, advance } = setup();
+
+    recognizer.say('encerrar sessão');
+    advance(10_001);
+    expect(controller.handleResult({ transcript: 'sim', confidence: 1, isFinal: true })).toEqual({
+      type: 'ignored',
+      reason: 'nothing_to_confirm',
+    });
+    expect(actions.stopTimer).not.toHaveBeenCalled();
+  });
+
+  it('decides the offer on screen', () => {
+    const { recognizer, actions } = setup({ currentOffer: {} as AppState['currentOffer'] });
+
+    recognizer.say('recusar');
+    expect(actions.decideOffer).toHaveBeenCalledWith('declined', 'driver', 'voice');
+  });
+
+  it('says so when there is no offer to decide', () => {
+    const { recognizer, backend, actions } = setup();
+
+    recognizer.say('aceitar');
+    expect(actions.decideOffer).not.toHaveBeenCalled();
+    expect(backend.spoken[0]?.text).toBe('Nenhuma corrida na tela.');
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from '@jest/globals';
+import { matchIntent, MIN_ENGINE_CONFIDENCE, normalizeTranscript } from '../grammar';
+
+describe('normalizeTranscript', () => {
+  it('strips accents, case and punctuation', () => {
+    expect(normalizeTranscript('  Iniciar Sessão!  ')).toBe('iniciar sessao');
+  });
+});
+
+describe('matchIntent', () => {
+  it.each([
+    ['aceitar', 'accept_offer'],
+    ['Recusar', 'decline_offer'],
+    ['encerrar sessão', 'stop_session'],
+    ['quanto ganhei hoje?', 'earnings_today'],
+    ['take a break', 'pause_session'],
+    ['sí', 'confirm'],
+  ])('reads "%s" as %s', (transcript, intent) => {
+    expect(matchIntent(transcript, 0.95)?.intent).toBe(intent);
+  });
+
+  it('finds a phrase inside a longer transcript', () => {
+    expect(matchIntent('ok pode aceitar', 0.95)?.intent).toBe('accept_offer');
+  });
+
+  it('forgives a misheard letter in a long phrase', () => {
+    expect(matchIntent('iniciar secao', 0.95)?.intent).toBe('start_session');
+  });
+
+  it.each(['parar', 'parou', 'aceitou', 'pausado'])(
+    'does not guess at the short word "%s"',
+    (transcript) => {
+      expect(matchIntent(transcript, 0.95)).toBeNull();
+    },
+  );
+
+  it('ignores transcripts the engine is unsure of', () => {
+    expect(matchIntent('aceitar', MIN_ENGINE_CONFIDENCE - 0.01)).toBeNull();
+  });
+
+  it('refuses a transcript that reads as two intents', () => {
+    expect(matchIntent('nao quero aceitar', 0.95)).toBeNull();
+  });
+});
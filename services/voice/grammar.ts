@@ -0,0 +1,152 @@
+import type { IntentMatch, VoiceIntent, VoiceLanguage } from './types';
+
+/**
+ * Voice command grammar - what drivers may say for each intent, per language
+ * Phrases are written without accents or punctuation, the same way transcripts are normalised
+ */
+export const INTENT_PHRASES: Record<VoiceIntent, Record<VoiceLanguage, string[]>> = {
+  accept_offer: {
+    'pt-BR': ['aceitar', 'aceita', 'aceito', 'pode aceitar', 'pegar corrida', 'bora'],
+    en: ['accept', 'take it', 'accept ride'],
+    es: ['aceptar', 'acepto', 'tomar viaje'],
+  },
+  decline_offer: {
+    'pt-BR': ['recusar', 'recusa', 'rejeitar', 'nao quero', 'passa', 'pular'],
+    en: ['decline', 'reject', 'skip', 'pass'],
+    es: ['rechazar', 'rechazo', 'no quiero', 'pasar'],
+  },
+  start_session: {
+    'pt-BR': ['iniciar sessao', 'comecar sessao', 'iniciar turno', 'comecar a trabalhar'],
+    en: ['start session', 'start shift', 'start timer', 'go online'],
+    es: ['iniciar sesion', 'empezar sesion', 'empezar turno', 'comenzar a trabajar'],
+  },
+  stop_session: {
+    'pt-BR': ['encerrar sessao', 'parar sessao', 'finalizar sessao', 'terminar turno'],
+    en: ['stop session', 'end session', 'end shift', 'stop timer', 'go offline'],
+    es: ['terminar sesion', 'finalizar sesion', 'terminar turno', 'parar sesion'],
+  },
+  pause_session: {
+    'pt-BR': ['pausar', 'pausa', 'fazer uma pausa', 'intervalo'],
+    en: ['pause', 'take a break', 'pause session'],
+    es: ['pausar', 'pausa', 'tomar un descanso'],
+  },
+  resume_session: {
+    'pt-BR': ['retomar', 'continuar', 'voltar a trabalhar'],
+    en: ['resume', 'continue', 'back to work'],
+    es: ['reanudar', 'continuar', 'volver a trabajar'],
+  },
+  earnings_today: {
+    'pt-BR': ['quanto ganhei hoje', 'quanto eu ganhei hoje', 'ganhos de hoje', 'quanto fiz hoje'],
+    en: ['how much did i make today', 'how much did i earn today', 'todays earnings'],
+    es: ['cuanto gane hoy', 'cuanto he ganado hoy', 'ganancias de hoy'],
+  },
+  confirm: {
+    'pt-BR': ['sim', 'confirmar', 'confirma', 'pode'],
+    en: ['yes', 'confirm', 'do it'],
+    es: ['si', 'confirmar', 'confirmo'],
+  },
+  cancel: {
+    'pt-BR': ['nao', 'cancelar', 'cancela', 'deixa'],
+    en: ['no', 'cancel', 'never mind'],
+    es: ['no', 'cancelar', 'olvidalo'],
+  },
+};
+
+// Engine results below this are too likely to be road noise
+export const MIN_ENGINE_CONFIDENCE = 0.5;
+// Combined score an intent needs before it is acted on
+export const MIN_MATCH_SCORE = 0.7;
+// Two different intents scoring this close means the driver should repeat themselves
+const AMBIGUITY_MARGIN = 0.1;
+// Below this many characters one wrong letter turns one command into another ("parar" and
+// "pasar"), so short phrases have to be heard exactly
+const MIN_FUZZY_LENGTH = 8;
+
+/**
+ * Lowercases, strips accents and punctuation so "Iniciar sessão!" matches "iniciar sessao"
+ */
+export const normalizeTranscript = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+};
+
+// How well a normalised transcript matches one phrase, 0-1
+const scorePhrase = (transcript: string, phrase: string): number => {
+  if (transcript === phrase) {
+    return 1;
+  }
+  // Phrase inside a longer transcript, e.g. "ok aceitar"; the more of it the phrase covers the better
+  if (` ${transcript} `.includes(` ${phrase} `)) {
+    return 0.6 + 0.35 * (phrase.length / transcript.length);
+  }
+  if (Math.min(transcript.length, phrase.length) < MIN_FUZZY_LENGTH) {
+    return 0;
+  }
+  const longest = Math.max(transcript.length, phrase.length);
+  return 1 - levenshtein(transcript, phrase) / longest;
+};
+
+/**
+ * Maps a transcript to the intent it most likely expresses
+ * @param transcript What the engine heard
+ * @param confidence The engine's confidence in the transcript, 0-1
+ * @returns The best match, or null when nothing clears the thresholds
+ */
+export const matchIntent = (transcript: string, confidence: number): IntentMatch | null => {
+  if (confidence < MIN_ENGINE_CONFIDENCE) {
+    return null;
+  }
+  const normalized = normalizeTranscript(transcript);
+  if (!normalized) {
+    return null;
+  }
+
+  // Best phrase per intent
+  const matches: IntentMatch[] = [];
+  for (const [intent, languages] of Object.entries(INTENT_PHRASES)) {
+    let best: IntentMatch | null = null;
+    for (const [language, phrases] of Object.entries(languages)) {
+      for (const phrase of phrases) {
+        const score = scorePhrase(normalized, phrase) * confidence;
+        if (!best || score > best.score) {
+          best = {
+            intent: intent as VoiceIntent,
+            language: language as VoiceLanguage,
+            phrase,
+            score,
+          };
+        }
+      }
+    }
+    if (best) {
+      matches.push(best);
+    }
+  }
+
+  const [first, second] = matches.sort((a, b) => b.score - a.score);
+  if (!first || first.score < MIN_MATCH_SCORE) {
+    return null;
+  }
+  // "Não quero aceitar" must not be read as accept
+  if (second && first.score - second.score < AMBIGUITY_MARGIN) {
+    return null;
+  }
+  return first;
+};
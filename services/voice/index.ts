@@ -0,0 +1,13 @@
+import { ExpoSpeechRecognizer } from './ExpoSpeechRecognizer';
+import { VoiceCommandController } from './VoiceCommandController';
+
+export { ExpoSpeechRecognizer } from './ExpoSpeechRecognizer';
+export { matchIntent, normalizeTranscript } from './grammar';
+export { ScriptedSpeechRecognizer } from './ScriptedSpeechRecognizer';
+export { VoiceCommandController } from './VoiceCommandController';
+export type { VoiceCommandOutcome } from './VoiceCommandController';
+export type { IntentMatch, SpeechRecognizer, TranscriptResult, VoiceIntent } from './types';
+
+export const voiceRecognizer = new ExpoSpeechRecognizer();
+
+export const voiceCommands = new VoiceCommandController({ recognizer: voiceRecognizer });
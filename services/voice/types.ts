@@ -0,0 +1,34 @@
+/**
+ * Speech-to-text engine the voice commands listen through
+ */
+export interface SpeechRecognizer {
+  // Starts listening; onResult fires for every partial and final transcript
+  start: (onResult: (result: TranscriptResult) => void) => Promise<void>;
+  stop: () => Promise<void>;
+}
+
+export interface TranscriptResult {
+  transcript: string;
+  confidence: number; // 0-1, as reported by the engine
+  isFinal: boolean;
+}
+
+export type VoiceLanguage = 'pt-BR' | 'en' | 'es';
+
+export type VoiceIntent =
+  | 'accept_offer'
+  | 'decline_offer'
+  | 'start_session'
+  | 'stop_session'
+  | 'pause_session'
+  | 'resume_session'
+  | 'earnings_today'
+  | 'confirm'
+  | 'cancel';
+
+export interface IntentMatch {
+  intent: VoiceIntent;
+  language: VoiceLanguage;
+  phrase: string; // the grammar phrase that matched
+  score: number; // 0-1, match quality combined with engine confidence
+}
@@ -0,0 +1,165 @@
+import { useAppStore } from '../../store/useAppStore';
+import type { LocationTracker } from '../location/LocationTracker';
+import type { LocationFix, LocationProvider } from '../location/types';
+import { speechAnnouncer } from '../speech';
+import type { SpeechAnnouncer } from '../speech/SpeechAnnouncer';
+import type { Zone, ZoneConfig, ZoneTrackingState, ZoneTransition } from './zones';
+import { DEFAULT_ZONE_CONFIG, detectZoneTransitions, EMPTY_ZONE_TRACKING } from './zones';
+
+type AppStore = Pick<typeof useAppStore, 'getState'>;
+
+interface ZoneMonitorOptions {
+  tracker: Pick<LocationTracker, 'subscribe'>;
+  provider: LocationProvider;
+  store?: AppStore;
+  announcer?: Pick<SpeechAnnouncer, 'announce' | 'templates'>;
+  config?: ZoneConfig;
+}
+
+export type ZoneListener = (transition: ZoneTransition, zone: Zone) => void;
+
+/**
+ * Detects zones being entered and left, and runs their actions
+ * Follows the tracker's fixes during a session; between sessions it can run the location
+ * provider itself, so leaving home can start one
+ */
+export class ZoneMonitor {
+  private readonly tracker: Pick<LocationTracker, 'subscribe'>;
+  private readonly provider: LocationProvider;
+  private readonly store: AppStore;
+  private readonly announcer: Pick<SpeechAnnouncer, 'announce' | 'templates'>;
+  private readonly config: ZoneConfig;
+  private readonly listeners = new Set<ZoneListener>();
+  private state: ZoneTrackingState = EMPTY_ZONE_TRACKING;
+  private lastFix: LocationFix | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private watching = false;
+
+  constructor(options: ZoneMonitorOptions) {
+    this.tracker = options.tracker;
+    this.provider = options.provider;
+    this.store = options.store ?? useAppStore;
+    this.announcer = options.announcer ?? speechAnnouncer;
+    this.config = options.config ?? DEFAULT_ZONE_CONFIG;
+  }
+
+  get isMonitoring() {
+    return this.unsubscribe !== null;
+  }
+
+  get isWatching() {
+    return this.watching;
+  }
+
+  /**
+   * Follows the fixes the tracker records
+   */
+  start() {
+    if (this.unsubscribe) {
+      return;
+    }
+    this.unsubscribe = this.tracker.subscribe((fix) => {
+      this.handleFix(fix);
+    });
+  }
+
+  stop() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Runs the provider while no session is being tracked
+   * The tracker takes the provider over once a session starts, so unwatch before it does
+   */
+  watch() {
+    if (this.watching) {
+      return;
+    }
+    this.watching = true;
+    this.provider
+      .start((fix) => {
+        this.handleFix(fix);
+      })
+      .catch((error: unknown) => {
+        this.watching = false;
+        console.error('[Zones] Failed to start watching:', error);
+      });
+  }
+
+  unwatch() {
+    if (!this.watching) {
+      return;
+    }
+    this.watching = false;
+    this.provider.stop().catch((error: unknown) => {
+      console.error('[Zones] Failed to stop watching:', error);
+    });
+  }
+
+  /**
+   * Runs one fix against the zones, logging visits and running the actions of any crossed
+   * @returns The transitions the fix caused
+   */
+  handleFix(fix: LocationFix): ZoneTransition[] {
+    const { zones, recordZoneTransition } = this.store.getState();
+    const { state, transitions } = detectZoneTransitions(this.state, zones, fix, this.config);
+    this.state = state;
+    if (fix.accuracy === null || fix.accuracy <= this.config.maxAccuracyM) {
+      this.lastFix = fix;
+    }
+
+    for (const transition of transitions) {
+      const zone = zones.find((candidate) => candidate.id === transition.zoneId);
+      if (!zone) {
+        continue;
+      }
+      recordZoneTransition(transition);
+      if (transition.isInitial) {
+        continue;
+      }
+      this.runActions(zone, transition);
+      for (const listener of this.listeners) {
+        listener(transition, zone);
+      }
+    }
+    return transitions;
+  }
+
+  // Last usable fix seen, e.g. to place a new zone where the driver is
+  getLastFix() {
+    return this.lastFix;
+  }
+
+  /**
+   * Hears every zone entered or left
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: ZoneListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private runActions(zone: Zone, transition: ZoneTransition) {
+    if (zone.actions.includes('announce')) {
+      const { templates } = this.announcer;
+      this.announcer.announce({
+        text:
+          transition.kind === 'enter'
+            ? templates.zoneEntered(zone.name)
+            : templates.zoneExited(zone.name),
+        priority: 'session',
+        key: `zone_${zone.id}`,
+      });
+    }
+
+    if (transition.kind === 'exit' && zone.actions.includes('start_session_on_exit')) {
+      const { currentTimer, startTimer } = this.store.getState();
+      if (!currentTimer.isRunning) {
+        startTimer();
+      }
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import type { useAppStore } from '../../../store/useAppStore';
+import { GpxReplayProvider } from '../../location/GpxReplayProvider';
+import { LocationTracker } from '../../location/LocationTracker';
+import type { LocationFix } from '../../location/types';
+import { RecordingSpeechBackend, SpeechAnnouncer } from '../../speech';
+import { ZoneMonitor } from '../ZoneMonitor';
+import type { Zone, ZoneTransition } from '../zones';
+
+// The real store and database open SQLite and MMKV; the monitor is handed stand-ins instead
+jest.mock('../../../store/useAppStore', () => ({ useAppStore: {} }));
+jest.mock('../../database', () => ({ dbSync: {} }));
+
+type AppState = ReturnType<typeof useAppStore.getState>;
+
+const RUNNING = { isRunning: true, sessionId: 'session_1' } as AppState['currentTimer'];
+
+const START = Date.parse('2025-03-14T12:00:00.000Z');
+const METRES_PER_DEGREE = 111_195;
+const CENTER = { latitude: -23.55, longitude: -46.63 };
+
+const fixAt = (northM: number, seconds: number): LocationFix => ({
+  latitude: CENTER.latitude + northM / METRES_PER_DEGREE,
+  longitude: CENTER.longitude,
+  altitude: null,
+  accuracy: 5,
+  speed: null,
+  timestamp: START + seconds * 1000,
+});
+
+const HOME: Zone = {
+  id: 'zone_home',
+  name: 'Casa',
+  enabled: true,
+  shape: { type: 'circle', center: CENTER, radiusM: 100 },
+  actions: ['announce', 'start_session_on_exit'],
+  createdAt: '2025-03-01T00:00:00.000Z',
+  updatedAt: '2025-03-01T00:00:00.000Z',
+};
+
+const AIRPORT: Zone = {
+  ...HOME,
+  id: 'zone_airport',
+  name: 'Aeroporto',
+  shape: { type: 'circle', center: { ...CENTER, latitude: CENTER.latitude + 0.01 }, radiusM: 200 },
+  actions: ['announce'],
+};
+
+const setup = () => {
+  const recorded: Pick<ZoneTransition, 'zoneId' | 'kind' | 'at'>[] = [];
+  const state = {
+    zones: [HOME, AIRPORT],
+    currentTimer: { isRunning: false, sessionId: null },
+    startTimer: jest.fn(() => {
+      state.currentTimer = RUNNING;
+    }),
+    recordZoneTransition: (transition: Pick<ZoneTransition, 'zoneId' | 'kind' | 'at'>) => {
+      recorded.push(transition);
+    },
+    recordGpsDistance: jest.fn(),
+  } as unknown as AppState;
+  const store = { getState: () => state };
+  // Delivers a loaded track all at once on start, with its own timestamps
+  const provider = new GpxReplayProvider([], { playbackRate: 0, rebaseTime: false });
+  const tracker = new LocationTracker({
+    provider,
+    store,
+    database: { saveBreadcrumbs: () => Promise.resolve() },
+  });
+  const backend = new RecordingSpeechBackend();
+  const monitor = new ZoneMonitor({
+    tracker,
+    provider,
+    store,
+    announcer: new SpeechAnnouncer(backend),
+  });
+  return { state, provider, tracker, monitor, backend, recorded };
+};
+
+describe('ZoneMonitor', () => {
+  it('logs the side of each zone on the first fix without running actions', () => {
+    const { state, monitor, backend, recorded } = setup();
+
+    monitor.handleFix(fixAt(0, 0));
+
+    expect(recorded.map(({ zoneId, kind }) => `${zoneId} ${kind}`)).toEqual([
+      'zone_home enter',
+      'zone_airport exit',
+    ]);
+    expect(backend.spoken).toEqual([]);
+    expect(state.startTimer).not.toHaveBeenCalled();
+  });
+
+  it('starts a session on leaving home between sessions', () => {
+    const { state, provider, monitor, backend } = setup();
+    provider.load([fixAt(0, 0), fixAt(300, 30), fixAt(400, 40)]);
+
+    monitor.watch();
+
+    expect(monitor.isWatching).toBe(true);
+    expect(state.startTimer).toHaveBeenCalledTimes(1);
+    expect(backend.spoken[0]?.text).toBe('Saindo da zona Casa.');
+  });
+
+  it('does not start a second session when one is running', () => {
+    const { state, monitor } = setup();
+    state.currentTimer = RUNNING;
+
+    for (const fix of [fixAt(0, 0), fixAt(300, 30), fixAt(400, 40)]) {
+      monitor.handleFix(fix);
+    }
+
+    expect(state.startTimer).not.toHaveBeenCalled();
+  });
+
+  it('follows the tracker once the session takes the provider over', () => {
+    const { provider, tracker, monitor, recorded } = setup();
+    const transitions: string[] = [];
+    monitor.subscribe((transition, zone) => transitions.push(`${zone.name} ${transition.kind}`));
+    monitor.start();
+
+    // Leaving home starts the session; the monitor lets go of the provider for the tracker
+    provider.load([fixAt(0, 0), fixAt(300, 30), fixAt(400, 40)]);
+    monitor.watch();
+    monitor.unwatch();
+    expect(provider.isReplaying).toBe(false);
+
+    // The drive to the airport, recorded by the tracker
+    provider.load([fixAt(500, 60), fixAt(1000, 120), fixAt(1050, 130), fixAt(1100, 140)]);
+    tracker.start();
+
+    expect(tracker.isTracking).toBe(true);
+    expect(transitions).toEqual(['Casa exit', 'Aeroporto enter']);
+    expect(recorded.at(-1)).toEqual({
+      zoneId: 'zone_airport',
+      kind: 'enter',
+      at: '2025-03-14T12:02:10.000Z',
+      isInitial: false,
+    });
+    expect(monitor.getLastFix()).toEqual(fixAt(1100, 140));
+  });
+
+  it('stops following the tracker when stopped', () => {
+    const { provider, tracker, monitor, state } = setup();
+    state.currentTimer = RUNNING;
+    monitor.start();
+    monitor.stop();
+
+    provider.load([fixAt(0, 0)]);
+    tracker.start();
+
+    expect(monitor.isMonitoring).toBe(false);
+    expect(monitor.getLastFix()).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, expect, it } from '@jest/globals';
+import type { LocationFix } from '../../location/types';
+import {
+  applyZoneTransition,
+  detectZoneTransitions,
+  EMPTY_ZONE_TRACKING,
+  findOriginZoneId,
+  isInsideZone,
+} from '../zones';
+import type { Zone, ZoneTrackingState, ZoneTransition, ZoneVisit } from '../zones';
+
+const START = Date.parse('2025-03-14T12:00:00.000Z');
+const METRES_PER_DEGREE = 111_195;
+const CENTER = { latitude: -23.55, longitude: -46.63 };
+
+const fixAt = (northM: number, seconds: number, accuracy: number | null = 5): LocationFix => ({
+  latitude: CENTER.latitude + northM / METRES_PER_DEGREE,
+  longitude: CENTER.longitude,
+  altitude: null,
+  accuracy,
+  speed: null,
+  timestamp: START + seconds * 1000,
+});
+
+const zone = (overrides: Partial<Zone> = {}): Zone => ({
+  id: 'zone_home',
+  name: 'Casa',
+  enabled: true,
+  shape: { type: 'circle', center: CENTER, radiusM: 100 },
+  actions: ['announce'],
+  createdAt: '2025-03-01T00:00:00.000Z',
+  updatedAt: '2025-03-01T00:00:00.000Z',
+  ...overrides,
+});
+
+// A square about 220 m across around the centre
+const SQUARE: Zone['shape'] = {
+  type: 'polygon',
+  vertices: [
+    { latitude: -23.549, longitude: -46.631 },
+    { latitude: -23.549, longitude: -46.629 },
+    { latitude: -23.551, longitude: -46.629 },
+    { latitude: -23.551, longitude: -46.631 },
+  ],
+};
+
+const run = (zones: Zone[], fixes: LocationFix[]) => {
+  let state: ZoneTrackingState = EMPTY_ZONE_TRACKING;
+  const transitions: ZoneTransition[][] = [];
+  for (const fix of fixes) {
+    const result = detectZoneTransitions(state, zones, fix);
+    state = result.state;
+    transitions.push(result.transitions);
+  }
+  return { state, transitions };
+};
+
+describe('isInsideZone', () => {
+  it('measures circles by distance from the centre', () => {
+    const { shape } = zone();
+
+    expect(isInsideZone(shape, fixAt(90, 0))).toBe(true);
+    expect(isInsideZone(shape, fixAt(110, 0))).toBe(false);
+  });
+
+  it('tests polygons by their edges', () => {
+    expect(isInsideZone(SQUARE, CENTER)).toBe(true);
+    expect(isInsideZone(SQUARE, fixAt(200, 0))).toBe(false);
+    expect(isInsideZone({ type: 'polygon', vertices: [CENTER] }, CENTER)).toBe(false);
+  });
+});
+
+describe('detectZoneTransitions', () => {
+  it('settles the side on the first fix as an initial transition', () => {
+    const { transitions } = run(
+      [zone(), zone({ id: 'zone_square', shape: SQUARE })],
+      [fixAt(105, 0)],
+    );
+
+    expect(transitions[0]).toEqual([
+      { zoneId: 'zone_home', kind: 'exit', at: '2025-03-14T12:00:00.000Z', isInitial: true },
+      { zoneId: 'zone_square', kind: 'enter', at: '2025-03-14T12:00:00.000Z', isInitial: true },
+    ]);
+  });
+
+  it('waits for a second fix on the other side before leaving', () => {
+    const { transitions } = run([zone()], [fixAt(0, 0), fixAt(300, 10), fixAt(400, 20)]);
+
+    expect(transitions[1]).toEqual([]);
+    expect(transitions[2]).toEqual([
+      { zoneId: 'zone_home', kind: 'exit', at: '2025-03-14T12:00:20.000Z', isInitial: false },
+    ]);
+  });
+
+  it('does not flap on a single fix across the edge', () => {
+    const { state, transitions } = run(
+      [zone()],
+      [fixAt(0, 0), fixAt(300, 10), fixAt(20, 20), fixAt(300, 30)],
+    );
+
+    expect(transitions.slice(1)).toEqual([[], [], []]);
+    expect(state.inside).toEqual({ zone_home: true });
+  });
+
+  it('ignores inaccurate fixes', () => {
+    const { transitions } = run([zone()], [fixAt(0, 0), fixAt(300, 10, 80), fixAt(300, 20, 80)]);
+
+    expect(transitions.slice(1)).toEqual([[], []]);
+  });
+
+  it('skips disabled zones', () => {
+    const { state, transitions } = run([zone({ enabled: false })], [fixAt(0, 0)]);
+
+    expect(transitions[0]).toEqual([]);
+    expect(state.inside).toEqual({});
+  });
+});
+
+describe('applyZoneTransition', () => {
+  const at = (minutes: number) => new Date(START + minutes * 60 * 1000).toISOString();
+
+  it('opens a visit on entering and closes it on leaving', () => {
+    const entered = applyZoneTransition([], { zoneId: 'zone_home', kind: 'enter', at: at(0) });
+    const left = applyZoneTransition(entered, { zoneId: 'zone_home', kind: 'exit', at: at(5) });
+
+    expect(left).toEqual([{ zoneId: 'zone_home', enteredAt: at(0), exitedAt: at(5) }]);
+  });
+
+  it('keeps the open visit when entered again', () => {
+    const visits: ZoneVisit[] = [{ zoneId: 'zone_home', enteredAt: at(0), exitedAt: null }];
+
+    expect(applyZoneTransition(visits, { zoneId: 'zone_home', kind: 'enter', at: at(5) })).toBe(
+      visits,
+    );
+  });
+});
+
+describe('findOriginZoneId', () => {
+  const tagging = zone({ actions: ['tag_trips'] });
+
+  it('goes by the pickup coordinates when the trip has them', () => {
+    const trip = {
+      pickup: { address: 'Rua Augusta', ...CENTER },
+      startedAt: '2025-03-14T12:00:00.000Z',
+    };
+
+    expect(findOriginZoneId([tagging], [], trip)).toBe('zone_home');
+    expect(findOriginZoneId([zone()], [], trip)).toBeNull();
+  });
+
+  it('falls back to where the driver was when the trip started', () => {
+    const visits: ZoneVisit[] = [
+      {
+        zoneId: 'zone_home',
+        enteredAt: '2025-03-14T11:00:00.000Z',
+        exitedAt: '2025-03-14T12:30:00.000Z',
+      },
+    ];
+
+    expect(
+      findOriginZoneId([tagging], visits, {
+        pickup: { address: '' },
+        startedAt: '2025-03-14T12:00:00.000Z',
+      }),
+    ).toBe('zone_home');
+    expect(
+      findOriginZoneId([tagging], visits, {
+        pickup: { address: '' },
+        startedAt: '2025-03-14T13:00:00.000Z',
+      }),
+    ).toBeNull();
+  });
+});
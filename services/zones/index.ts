@@ -0,0 +1,55 @@
+import { useAppStore } from '../../store/useAppStore';
+import { locationProvider, locationTracker, onBackgroundRelaunch } from '../location';
+import { ZoneMonitor } from './ZoneMonitor';
+
+export { ZoneMonitor } from './ZoneMonitor';
+export type { ZoneListener } from './ZoneMonitor';
+export {
+  applyZoneTransition,
+  DEFAULT_ZONE_CONFIG,
+  detectZoneTransitions,
+  EMPTY_ZONE_TRACKING,
+  findOriginZoneId,
+  isInsideZone,
+  MAX_ZONE_VISITS,
+  MIN_ZONE_RADIUS_M,
+} from './zones';
+export type {
+  GeoPoint,
+  NewZone,
+  Zone,
+  ZoneAction,
+  ZoneConfig,
+  ZoneShape,
+  ZoneTrackingState,
+  ZoneTransition,
+  ZoneVisit,
+} from './zones';
+
+// Shares the provider with the tracker: it follows the tracker during sessions and only
+// runs the provider itself between them
+export const zoneMonitor = new ZoneMonitor({
+  tracker: locationTracker,
+  provider: locationProvider,
+});
+
+// With no screen mounted, as after a background relaunch, useZoneMonitoring is not there to
+// hand the provider over, so a session started by leaving a zone is handed over here as well
+zoneMonitor.subscribe(() => {
+  if (zoneMonitor.isWatching && useAppStore.getState().currentTimer.isRunning) {
+    zoneMonitor.unwatch();
+    locationTracker.start();
+  }
+});
+
+// Runs after the tracker's own handler, so a running session is already being tracked
+onBackgroundRelaunch(() => {
+  zoneMonitor.start();
+  const { zones } = useAppStore.getState();
+  const startsSessions = zones.some(
+    (zone) => zone.enabled && zone.actions.includes('start_session_on_exit'),
+  );
+  if (!locationTracker.isTracking && startsSessions) {
+    zoneMonitor.watch();
+  }
+});
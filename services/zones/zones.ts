@@ -0,0 +1,204 @@
+import type { Trip } from '../../store/useAppStore';
+import { distanceMeters } from '../location/trail';
+import type { LocationFix } from '../location/types';
+
+/**
+ * Geofenced zones - places the driver cares about, like home, the airport queue or an area
+ * to avoid at night, and the automatic actions tied to entering and leaving them
+ */
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export type ZoneShape =
+  { type: 'circle'; center: GeoPoint; radiusM: number } | { type: 'polygon'; vertices: GeoPoint[] }; // in order around the edge, at least three
+
+export type ZoneAction =
+  | 'announce' // speak on entering and leaving
+  | 'start_session_on_exit' // start a session when leaving, e.g. home
+  | 'tag_trips'; // tag trips picked up inside with the zone
+
+export interface Zone {
+  id: string;
+  name: string;
+  enabled: boolean;
+  shape: ZoneShape;
+  actions: ZoneAction[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewZone = Omit<Zone, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface ZoneVisit {
+  zoneId: string;
+  enteredAt: string; // ISO
+  exitedAt: string | null; // null while still inside
+}
+
+export interface ZoneTransition {
+  zoneId: string;
+  kind: 'enter' | 'exit';
+  at: string; // ISO, of the fix that confirmed it
+  // Which side the driver was on at the first fix, not a crossing; only the visit log sees it,
+  // so a visit left open when the app was closed gets closed
+  isInitial: boolean;
+}
+
+export interface ZoneConfig {
+  maxAccuracyM: number; // fixes less accurate than this are ignored
+  // Fixes in a row that must agree before a zone is entered or left, so a fix wandering
+  // across the edge does not flap
+  confirmFixes: number;
+}
+
+export const DEFAULT_ZONE_CONFIG: ZoneConfig = {
+  maxAccuracyM: 50,
+  confirmFixes: 2,
+};
+
+export interface ZoneTrackingState {
+  inside: Record<string, boolean>; // by zone id; missing until the first fix
+  disagreeing: Record<string, number>; // fixes in a row on the other side of the edge
+}
+
+export const EMPTY_ZONE_TRACKING: ZoneTrackingState = { inside: {}, disagreeing: {} };
+
+// Kept in the store for trip tagging; older visits are dropped
+export const MAX_ZONE_VISITS = 200;
+
+export const MIN_ZONE_RADIUS_M = 50;
+
+/**
+ * Ray casting on plain latitude and longitude; zones are small enough for the distortion
+ * not to matter
+ */
+const insidePolygon = (vertices: GeoPoint[], point: GeoPoint) => {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    if (!a || !b) {
+      continue;
+    }
+    const crosses =
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) +
+          a.longitude;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const isInsideZone = (shape: ZoneShape, point: GeoPoint): boolean =>
+  shape.type === 'circle'
+    ? distanceMeters(shape.center, point) <= shape.radiusM
+    : shape.vertices.length >= 3 && insidePolygon(shape.vertices, point);
+
+/**
+ * Runs one fix against the enabled zones
+ * A zone's first fix settles which side the driver is on, reported as an initial transition;
+ * after that a side change has to hold for confirmFixes fixes before it counts
+ */
+export const detectZoneTransitions = (
+  state: ZoneTrackingState,
+  zones: Zone[],
+  fix: LocationFix,
+  config: ZoneConfig = DEFAULT_ZONE_CONFIG,
+): { state: ZoneTrackingState; transitions: ZoneTransition[] } => {
+  if (fix.accuracy !== null && fix.accuracy > config.maxAccuracyM) {
+    return { state, transitions: [] };
+  }
+
+  const at = new Date(fix.timestamp).toISOString();
+  const inside: Record<string, boolean> = {};
+  const disagreeing: Record<string, number> = {};
+  const transitions: ZoneTransition[] = [];
+
+  for (const zone of zones) {
+    if (!zone.enabled) {
+      continue;
+    }
+    const isInside = isInsideZone(zone.shape, fix);
+    const wasInside = state.inside[zone.id];
+
+    if (wasInside === undefined) {
+      inside[zone.id] = isInside;
+      transitions.push({ zoneId: zone.id, kind: isInside ? 'enter' : 'exit', at, isInitial: true });
+      continue;
+    }
+    if (isInside === wasInside) {
+      inside[zone.id] = wasInside;
+      continue;
+    }
+
+    const count = (state.disagreeing[zone.id] ?? 0) + 1;
+    if (count < config.confirmFixes) {
+      inside[zone.id] = wasInside;
+      disagreeing[zone.id] = count;
+      continue;
+    }
+    inside[zone.id] = isInside;
+    transitions.push({ zoneId: zone.id, kind: isInside ? 'enter' : 'exit', at, isInitial: false });
+  }
+
+  return { state: { inside, disagreeing }, transitions };
+};
+
+/**
+ * Applies a transition to the visit log: entering opens a visit, leaving closes it
+ */
+export const applyZoneTransition = (
+  visits: ZoneVisit[],
+  transition: Pick<ZoneTransition, 'zoneId' | 'kind' | 'at'>,
+): ZoneVisit[] => {
+  const isOpen = (visit: ZoneVisit) =>
+    visit.zoneId === transition.zoneId && visit.exitedAt === null;
+
+  if (transition.kind === 'exit') {
+    return visits.map((visit) => (isOpen(visit) ? { ...visit, exitedAt: transition.at } : visit));
+  }
+  if (visits.some(isOpen)) {
+    return visits;
+  }
+  return [...visits, { zoneId: transition.zoneId, enteredAt: transition.at, exitedAt: null }].slice(
+    -MAX_ZONE_VISITS,
+  );
+};
+
+/**
+ * The zone a trip started in, among those that tag trips
+ * Goes by the pickup coordinates when the trip has them, else by where the driver was when
+ * it started
+ */
+export const findOriginZoneId = (
+  zones: Zone[],
+  visits: ZoneVisit[],
+  trip: Pick<Trip, 'pickup' | 'startedAt'>,
+): string | null => {
+  const tagging = zones.filter((zone) => zone.enabled && zone.actions.includes('tag_trips'));
+  if (tagging.length === 0) {
+    return null;
+  }
+
+  const { latitude, longitude } = trip.pickup;
+  if (latitude !== undefined && longitude !== undefined) {
+    return tagging.find((zone) => isInsideZone(zone.shape, { latitude, longitude }))?.id ?? null;
+  }
+
+  const startedAt = new Date(trip.startedAt).getTime();
+  const visit = [...visits]
+    .reverse()
+    .find(
+      (candidate) =>
+        tagging.some((zone) => zone.id === candidate.zoneId) &&
+        new Date(candidate.enteredAt).getTime() <= startedAt &&
+        (candidate.exitedAt === null || new Date(candidate.exitedAt).getTime() >= startedAt),
+    );
+  return visit?.zoneId ?? null;
+};
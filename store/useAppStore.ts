@@ -1,8 +1,53 @@
 import { create } from 'zustand';
 import { devtools, persist, createJSONStorage } from 'zustand/middleware';
+import { useShallow } from 'zustand/react/shallow';
 import { MMKV } from 'react-native-mmkv';
+import * as Crypto from 'expo-crypto';
 import { getOrCreateEncryptionKey, getKeyInfo } from '../utils/keyManager';
 import '../utils/keyManagerDebug'; // Import debug utilities
+import { closeOpenBreak, getSessionSeconds } from '../services/session/sessionTime';
+import type { SessionEndReason, SessionTimeoutConfig } from '../services/session/sessionTimeout';
+import { DEFAULT_SESSION_TIMEOUT } from '../services/session/sessionTimeout';
+import type { ExportSettings } from '../services/exports/csv';
+import { DEFAULT_EXPORT_SETTINGS } from '../services/exports/csv';
+import type { OdometerEdge, OdometerReading } from '../services/mileage/mileageLog';
+import { createOdometerReading } from '../services/mileage/mileageLog';
+import type { TaxSettings } from '../services/tax/estimate';
+import { DEFAULT_TAX_SETTINGS } from '../services/tax/estimate';
+import { getDeviceTimeZone, toLocalDateKey } from '../services/session/dayBucketing';
+import { dbSync } from '../services/database';
+import { mergePulled } from '../services/database/syncMerge';
+import { speechAnnouncer } from '../services/speech';
+import type { DriverCostProfile } from '../services/offers/profitability';
+import {
+  calculateProfitability,
+  DEFAULT_COST_PROFILE,
+  getPickupLeg,
+} from '../services/offers/profitability';
+import type { OfferRule } from '../services/offers/rules';
+import { evaluateOfferRules } from '../services/offers/rules';
+import type {
+  OfferDecisionChannel,
+  OfferDecisionMaker,
+  OfferLogEntry,
+} from '../services/offers/offerLog';
+import {
+  createOfferLogEntry,
+  isOfferRecapture,
+  resolveOfferLogEntry,
+} from '../services/offers/offerLog';
+import type { TripOffer } from '../services/offers/types';
+import type { ReceiptExtraction } from '../services/receipts/types';
+import { deleteReceiptImage } from '../services/receipts/storage';
+import type { ConsentCategory, ConsentRecord } from '../services/consent/consent';
+import type { NewZone, Zone, ZoneTransition, ZoneVisit } from '../services/zones/zones';
+import { applyZoneTransition, findOriginZoneId } from '../services/zones/zones';
+import { withVehicleCosts } from '../services/vehicles/costPerKm';
+import {
+  createConsentRecord,
+  getActiveConsent,
+  revokeConsentRecord,
+} from '../services/consent/consent';
 
 // Define types for our store
 interface User {
@@ -21,14 +66,169 @@ interface Activity {
   completed: boolean;
 }
 
-interface TimerSession {
+export interface BreakInterval {
+  startTime: string;
+  endTime: string;
+}
+
+export interface TimerSession {
   id: string;
   startTime: string;
   endTime: string;
-  duration: number; // in seconds
-  date: string; // YYYY-MM-DD format
+  duration: number; // in seconds, wall-clock from start to end
+  activeDuration: number; // in seconds, excluding breaks
+  breakDuration: number; // in seconds
+  breaks: BreakInterval[];
+  date: string; // YYYY-MM-DD the session started on, in timeZone
+  timeZone: string; // IANA zone the session was worked in, e.g. America/Sao_Paulo
+  endReason: SessionEndReason;
+  vehicleId: string | null; // Vehicle driven in the session
+  odometerStart: OdometerReading | null;
+  odometerEnd: OdometerReading | null;
+  pickupKm: number; // driven to pick up the passengers of accepted offers
+  gpsKm: number | null; // distance along the GPS trail; null when location was never on
+}
+
+export interface CurrentTimer {
+  sessionId: string | null;
+  isRunning: boolean; // true for the whole session, including breaks
+  isPaused: boolean;
+  startTime: string | null;
+  timeZone: string | null; // device zone when the session started
+  pausedAt: string | null; // start of the break in progress
+  breaks: BreakInterval[]; // completed breaks of the current session
+  timeoutExtensionMinutes: number; // extra worked time granted after a timeout
+  lastHeartbeat: string | null; // last time the app confirmed the session was alive
+  inBackground: boolean;
+  vehicleId: string | null; // active vehicle when the session started
+  odometerStart: OdometerReading | null;
+  pickupKm: number; // pickup legs of the offers accepted so far
+  gpsKm: number | null; // GPS trail distance so far, kept here so it survives a restart
+}
+
+// Why the wind-down screen should be shown the next time the app is foregrounded
+export interface WindDownNotice {
+  sessionId: string;
+  reason: Exclude<SessionEndReason, 'user'>;
+  occurredAt: string;
+  sessionEnded: boolean; // false when the session was only paused
+}
+
+interface StartTimerOptions {
+  odometerKm?: number; // reading on the dashboard as the session starts
+}
+
+interface StopTimerOptions {
+  reason?: SessionEndReason;
+  endTime?: string; // defaults to now
+  odometerKm?: number; // reading on the dashboard as the session stops
+}
+
+export type FuelType = 'flex' | 'gasoline' | 'ethanol' | 'gnv' | 'electric';
+
+export type VehicleOwnership = 'owned' | 'rented';
+
+// What goes in the tank on a fill; flex cars take either of the first two
+export type PumpFuel = 'gasoline' | 'ethanol' | 'gnv';
+
+export interface Vehicle {
+  id: string;
+  make: string;
+  model: string;
+  fuelType: FuelType;
+  // Measured by the driver; km per m³ for GNV and per kWh for electric. Gasoline for flex cars
+  kmPerLiter: number;
+  kmPerLiterEthanol: number | null; // flex cars only
+  ownership: VehicleOwnership;
+  weeklyRent: number | null; // R$, rented vehicles only
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewVehicle = Omit<Vehicle, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type TripPlatform = 'uber' | '99' | 'indrive' | 'private';
+
+export type PaymentMethod = 'in_app' | 'cash' | 'pix' | 'card';
+
+export interface TripLocation {
+  address: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface Trip {
+  id: string;
+  sessionId: string | null; // TimerSession the trip happened in
+  vehicleId: string | null; // Vehicle the trip was driven in
+  platform: TripPlatform;
+  pickup: TripLocation;
+  dropoff: TripLocation;
+  distanceKm: number;
+  durationMinutes: number;
+  fare: number; // R$ charged for the ride, before the platform fee
+  tip: number; // R$
+  platformFee: number; // R$ kept by the platform
+  paymentMethod: PaymentMethod;
+  startedAt: string;
+  originZoneId: string | null; // Zone the trip was picked up in, among those that tag trips
+  createdAt: string;
+  updatedAt: string;
 }
 
+// Trips are linked to the running session and its vehicle, and tagged with the zone they
+// started in, unless ids are given
+export type NewTrip = Omit<
+  Trip,
+  'id' | 'sessionId' | 'vehicleId' | 'originZoneId' | 'createdAt' | 'updatedAt'
+> & {
+  sessionId?: string | null;
+  vehicleId?: string | null;
+  originZoneId?: string | null;
+};
+
+export type ExpenseCategory =
+  | 'fuel'
+  | 'tolls'
+  | 'parking'
+  | 'maintenance'
+  | 'car_wash'
+  | 'phone_plan'
+  | 'insurance'
+  | 'rental'
+  | 'food';
+
+// Drafts come from receipt capture and stay out of totals until the driver reviews them
+export type ExpenseStatus = 'draft' | 'confirmed';
+
+export interface Expense {
+  id: string;
+  sessionId: string | null; // TimerSession the expense was incurred in
+  vehicleId: string | null; // Vehicle the expense was for
+  status: ExpenseStatus;
+  category: ExpenseCategory;
+  amount: number; // R$
+  paymentMethod: PaymentMethod;
+  vendor: string;
+  date: string; // YYYY-MM-DD the expense was incurred on, device time zone
+  receiptUri: string | null; // receipt photo in app storage
+  extraction: ReceiptExtraction | null; // what was read off the receipt, kept for the review form
+  odometerKm: number | null;
+  fuel: PumpFuel | null; // fuel expenses only
+  liters: number | null; // fuel expenses only; m³ for GNV
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Expenses are linked to the running session and the vehicle in use unless ids are given
+export type NewExpense = Omit<
+  Expense,
+  'id' | 'sessionId' | 'vehicleId' | 'createdAt' | 'updatedAt'
+> & {
+  sessionId?: string | null;
+  vehicleId?: string | null;
+};
+
 interface AppState {
   // User state
   currentUser: User | null;
@@ -39,10 +239,38 @@ interface AppState {
 
   // Timer state
   timerSessions: TimerSession[];
-  currentTimer: {
-    isRunning: boolean;
-    startTime: string | null;
-  };
+  currentTimer: CurrentTimer;
+  sessionTimeout: SessionTimeoutConfig;
+  windDownNotice: WindDownNotice | null;
+
+  // Trip ledger state
+  trips: Trip[];
+
+  // Expense ledger state
+  expenses: Expense[];
+
+  // Vehicle state
+  vehicles: Vehicle[];
+  activeVehicleId: string | null; // vehicle the next session starts with
+
+  // Cherry Picker state
+  costProfile: DriverCostProfile;
+  currentOffer: TripOffer | null; // offer on screen right now, not persisted
+  currentOfferLog: OfferLogEntry | null; // history entry for the offer on screen, not persisted
+  offerRules: OfferRule[];
+
+  // Screen reading consent, one or more records per session
+  consentLedger: ConsentRecord[];
+
+  // Accountant export preferences
+  exportSettings: ExportSettings;
+
+  // MEI and carnê-leão setup, and the driver's tax table corrections
+  taxSettings: TaxSettings;
+
+  // Geofenced zones, and when the driver was in them
+  zones: Zone[];
+  zoneVisits: ZoneVisit[];
 
   // UI state
   isDarkMode: boolean;
@@ -56,9 +284,69 @@ interface AppState {
   deleteActivity: (id: string) => void;
 
   // Timer actions
-  startTimer: () => void;
-  stopTimer: () => void;
+  startTimer: (options?: StartTimerOptions) => void;
+  pauseTimer: (at?: string) => void;
+  resumeTimer: () => void;
+  stopTimer: (options?: StopTimerOptions) => void;
   saveTimerSession: (session: TimerSession) => void;
+  // Records or corrects a reading on the running session or a saved one; null clears it
+  setSessionOdometer: (sessionId: string, edge: OdometerEdge, km: number | null) => void;
+  recordGpsDistance: (km: number) => void;
+  setSessionGpsKm: (sessionId: string, km: number) => void;
+
+  // Session timeout actions
+  extendSession: (minutes: number) => void;
+  recordHeartbeat: (at: string, inBackground?: boolean) => void;
+  setSessionTimeout: (updates: Partial<SessionTimeoutConfig>) => void;
+  setWindDownNotice: (notice: WindDownNotice | null) => void;
+
+  // Trip actions
+  addTrip: (trip: NewTrip) => Trip;
+  updateTrip: (id: string, updates: Partial<Omit<Trip, 'id' | 'createdAt'>>) => void;
+  deleteTrip: (id: string) => void;
+
+  // Expense actions
+  addExpense: (expense: NewExpense) => Expense;
+  updateExpense: (id: string, updates: Partial<Omit<Expense, 'id' | 'createdAt'>>) => void;
+  deleteExpense: (id: string) => void;
+
+  // Cloud sync
+  syncFromCloud: () => Promise<void>;
+
+  // Vehicle actions
+  addVehicle: (vehicle: NewVehicle) => Vehicle;
+  updateVehicle: (id: string, updates: Partial<NewVehicle>) => void;
+  deleteVehicle: (id: string) => void;
+  setActiveVehicle: (id: string | null) => void;
+
+  // Cherry Picker actions
+  setCostProfile: (updates: Partial<DriverCostProfile>) => void;
+  setCurrentOffer: (offer: TripOffer | null) => void;
+  decideOffer: (
+    outcome: 'accepted' | 'declined',
+    decidedBy: OfferDecisionMaker,
+    channel: OfferDecisionChannel,
+  ) => void;
+  saveOfferRule: (rule: OfferRule) => void;
+  toggleOfferRule: (id: string) => void;
+  deleteOfferRule: (id: string) => void;
+
+  // Consent actions
+  grantConsent: (categories: ConsentCategory[]) => void;
+  revokeConsent: () => void;
+
+  // Export actions
+  setExportSettings: (updates: Partial<ExportSettings>) => void;
+
+  // Tax actions
+  setTaxSettings: (updates: Partial<TaxSettings>) => void;
+  toggleDasPaid: (month: string) => void;
+
+  // Zone actions
+  addZone: (zone: NewZone) => Zone;
+  updateZone: (id: string, updates: Partial<NewZone>) => void;
+  deleteZone: (id: string) => void;
+  recordZoneTransition: (transition: Pick<ZoneTransition, 'zoneId' | 'kind' | 'at'>) => void;
 
   toggleDarkMode: () => void;
   toggleAnimations: () => void;
@@ -68,6 +356,157 @@ interface AppState {
   getActiveProjectsCount: () => number;
 }
 
+const IDLE_TIMER: CurrentTimer = {
+  sessionId: null,
+  isRunning: false,
+  isPaused: false,
+  startTime: null,
+  timeZone: null,
+  pausedAt: null,
+  breaks: [],
+  timeoutExtensionMinutes: 0,
+  lastHeartbeat: null,
+  inBackground: false,
+  vehicleId: null,
+  odometerStart: null,
+  pickupKm: 0,
+  gpsKm: null,
+};
+
+// Offer history lives in SQLite only, so write-through failures are logged and dropped
+const saveOfferLogEntry = (entry: OfferLogEntry) => {
+  dbSync.saveOfferLogEntry(entry).catch((error: unknown) => {
+    console.error('[Store] Failed to log offer:', error);
+  });
+};
+
+// The vehicle a new trip or expense belongs to: the running session's, else the active one
+const getVehicleInUse = (state: Pick<AppState, 'currentTimer' | 'activeVehicleId'>) =>
+  state.currentTimer.isRunning ? state.currentTimer.vehicleId : state.activeVehicleId;
+
+// Only the latest offer is worth hearing about
+const OFFER_ANNOUNCEMENT_KEY = 'offer';
+
+// Bump when the persisted shape changes and add a step to migrateAppState
+const STORE_VERSION = 9;
+
+// Upgrade persisted state written by older app versions
+const migrateAppState = (persistedState: unknown, version: number) => {
+  const state = persistedState as Record<string, unknown>;
+
+  if (version < 1) {
+    // v0 sessions had no break tracking and the timer only knew isRunning/startTime
+    const sessions = (state['timerSessions'] ?? []) as Omit<
+      TimerSession,
+      'activeDuration' | 'breakDuration' | 'breaks'
+    >[];
+    state['timerSessions'] = sessions.map((session) => ({
+      ...session,
+      activeDuration: session.duration,
+      breakDuration: 0,
+      breaks: [],
+    }));
+
+    const timer = (state['currentTimer'] ?? {}) as Partial<CurrentTimer>;
+    state['currentTimer'] = {
+      ...IDLE_TIMER,
+      ...timer,
+      sessionId: timer.isRunning ? `timer_${String(Date.now())}` : null,
+    };
+  }
+
+  if (version < 2) {
+    // v1 had no session timeout, so every stored session was ended by the user
+    const sessions = (state['timerSessions'] ?? []) as Omit<TimerSession, 'endReason'>[];
+    state['timerSessions'] = sessions.map((session) => ({ ...session, endReason: 'user' }));
+    state['currentTimer'] = { ...IDLE_TIMER, ...(state['currentTimer'] as Partial<CurrentTimer>) };
+  }
+
+  if (version < 3) {
+    // v2 filed sessions under the UTC date they stopped on; re-file them by local start date.
+    // The zone they were worked in was never recorded, so the device zone is the best guess
+    const timeZone = getDeviceTimeZone();
+    const sessions = (state['timerSessions'] ?? []) as Omit<TimerSession, 'timeZone'>[];
+    state['timerSessions'] = sessions.map((session) => ({
+      ...session,
+      timeZone,
+      date: toLocalDateKey(session.startTime, timeZone),
+    }));
+
+    const timer = state['currentTimer'] as CurrentTimer;
+    state['currentTimer'] = {
+      ...timer,
+      timeZone: timer.isRunning ? (timer.timeZone ?? timeZone) : null,
+    };
+  }
+
+  if (version < 4) {
+    // v3 had no vehicles, so nothing recorded so far can be tied to one
+    const addVehicle = <T>(records: unknown): (T & { vehicleId: null })[] =>
+      ((records ?? []) as T[]).map((record) => ({ ...record, vehicleId: null }));
+    state['timerSessions'] = addVehicle<Omit<TimerSession, 'vehicleId'>>(state['timerSessions']);
+    state['trips'] = addVehicle<Omit<Trip, 'vehicleId'>>(state['trips']);
+    state['expenses'] = addVehicle<Omit<Expense, 'vehicleId'>>(state['expenses']);
+    state['currentTimer'] = { ...(state['currentTimer'] as CurrentTimer), vehicleId: null };
+  }
+
+  if (version < 5) {
+    // v4 only kept liters on the receipt extraction; the fuel grade was never recorded
+    const expenses = (state['expenses'] ?? []) as Omit<Expense, 'fuel' | 'liters'>[];
+    state['expenses'] = expenses.map((expense) => ({
+      ...expense,
+      fuel: null,
+      liters: expense.extraction?.liters?.value ?? null,
+    }));
+  }
+
+  if (version < 6) {
+    // v5 had no mileage log; no readings were taken and pickup legs were never summed
+    const sessions = (state['timerSessions'] ?? []) as Omit<
+      TimerSession,
+      'odometerStart' | 'odometerEnd' | 'pickupKm'
+    >[];
+    state['timerSessions'] = sessions.map((session) => ({
+      ...session,
+      odometerStart: null,
+      odometerEnd: null,
+      pickupKm: 0,
+    }));
+    state['currentTimer'] = {
+      ...(state['currentTimer'] as CurrentTimer),
+      odometerStart: null,
+      pickupKm: 0,
+    };
+  }
+
+  if (version < 7) {
+    // v6 never tracked location
+    const sessions = (state['timerSessions'] ?? []) as Omit<TimerSession, 'gpsKm'>[];
+    state['timerSessions'] = sessions.map((session) => ({ ...session, gpsKm: null }));
+    state['currentTimer'] = { ...(state['currentTimer'] as CurrentTimer), gpsKm: null };
+  }
+
+  if (version < 8) {
+    // v7 had no zones to tag trips with
+    const trips = (state['trips'] ?? []) as Omit<Trip, 'originZoneId'>[];
+    state['trips'] = trips.map((trip) => ({ ...trip, originZoneId: null }));
+    state['zones'] = [];
+    state['zoneVisits'] = [];
+  }
+
+  if (version < 9) {
+    // v8 could leave the profile without an economy of its own; one the driver set is kept
+    const costProfile = (state['costProfile'] ??
+      DEFAULT_COST_PROFILE) as Partial<DriverCostProfile>;
+    state['costProfile'] = {
+      ...costProfile,
+      kmPerLiter: costProfile.kmPerLiter ?? DEFAULT_COST_PROFILE.kmPerLiter,
+    };
+  }
+
+  return state as unknown as AppState;
+};
+
 // Initialize MMKV with secure key management
 let storage: MMKV;
 let isStorageInitialized = false;
@@ -158,10 +597,22 @@ export const useAppStore = create<AppState>()(
         teamMembers: [],
         activities: [],
         timerSessions: [],
-        currentTimer: {
-          isRunning: false,
-          startTime: null,
-        },
+        currentTimer: IDLE_TIMER,
+        sessionTimeout: DEFAULT_SESSION_TIMEOUT,
+        windDownNotice: null,
+        trips: [],
+        expenses: [],
+        vehicles: [],
+        activeVehicleId: null,
+        costProfile: DEFAULT_COST_PROFILE,
+        currentOffer: null,
+        currentOfferLog: null,
+        offerRules: [],
+        consentLedger: [],
+        exportSettings: DEFAULT_EXPORT_SETTINGS,
+        taxSettings: DEFAULT_TAX_SETTINGS,
+        zones: [],
+        zoneVisits: [],
         isDarkMode: false,
         animationsEnabled: true,
 
@@ -188,43 +639,121 @@ export const useAppStore = create<AppState>()(
           })); },
 
         // Timer actions
-        startTimer: () =>
-          { set((state) => ({
+        startTimer: (options = {}) => {
+          if (get().currentTimer.isRunning) {
+            return;
+          }
+          const now = new Date();
+          set({
             currentTimer: {
-              ...state.currentTimer,
+              ...IDLE_TIMER,
+              sessionId: `timer_${String(now.getTime())}`,
               isRunning: true,
-              startTime: new Date().toISOString(),
+              startTime: now.toISOString(),
+              timeZone: getDeviceTimeZone(),
+              lastHeartbeat: now.toISOString(),
+              vehicleId: get().activeVehicleId,
+              odometerStart:
+                options.odometerKm !== undefined
+                  ? createOdometerReading(options.odometerKm, 'session', null, now.toISOString())
+                  : null,
             },
-          })); },
+          });
+          speechAnnouncer.announce({
+            text: speechAnnouncer.templates.sessionStarted(),
+            priority: 'session',
+          });
+        },
 
-        stopTimer: () => {
+        pauseTimer: (at) =>
+          { set((state) => {
+            const { currentTimer } = state;
+            if (!currentTimer.isRunning || currentTimer.isPaused) {
+              return {};
+            }
+            return {
+              currentTimer: {
+                ...currentTimer,
+                isPaused: true,
+                pausedAt: at ?? new Date().toISOString(),
+              },
+            };
+          }); },
+
+        resumeTimer: () =>
+          { set((state) => {
+            const { currentTimer } = state;
+            if (!currentTimer.isPaused || !currentTimer.pausedAt) {
+              return {};
+            }
+            return {
+              currentTimer: {
+                ...currentTimer,
+                isPaused: false,
+                pausedAt: null,
+                breaks: [
+                  ...currentTimer.breaks,
+                  { startTime: currentTimer.pausedAt, endTime: new Date().toISOString() },
+                ],
+              },
+            };
+          }); },
+
+        stopTimer: (options = {}) => {
           const state = get();
           const { currentTimer } = state;
 
           if (currentTimer.isRunning && currentTimer.startTime) {
-            const endTime = new Date().toISOString();
-            const startTime = new Date(currentTimer.startTime).getTime();
-            const endTimeMs = new Date(endTime).getTime();
-            const duration = Math.floor((endTimeMs - startTime) / 1000);
-            const dateParts = new Date().toISOString().split('T');
-            const date = dateParts[0] ?? '';
+            const endTime = options.endTime ?? new Date().toISOString();
+            // A break still open when the session ends is closed at the end time
+            const breaks = closeOpenBreak(currentTimer, endTime);
+            const { total, active, onBreak } = getSessionSeconds(
+              currentTimer.startTime,
+              breaks,
+              null,
+              new Date(endTime).getTime(),
+            );
+            const timeZone = currentTimer.timeZone ?? getDeviceTimeZone();
 
             const session: TimerSession = {
-              id: `timer_${String(Date.now())}`,
+              id: currentTimer.sessionId ?? `timer_${String(Date.now())}`,
               startTime: currentTimer.startTime,
               endTime,
-              duration,
-              date,
+              duration: total,
+              activeDuration: active,
+              breakDuration: onBreak,
+              breaks,
+              date: toLocalDateKey(currentTimer.startTime, timeZone),
+              timeZone,
+              endReason: options.reason ?? 'user',
+              vehicleId: currentTimer.vehicleId,
+              odometerStart: currentTimer.odometerStart,
+              odometerEnd:
+                options.odometerKm !== undefined
+                  ? createOdometerReading(options.odometerKm, 'session', null, endTime)
+                  : null,
+              pickupKm: currentTimer.pickupKm,
+              gpsKm: currentTimer.gpsKm,
             };
 
-            // Save session and reset timer
+            // Save session and reset timer; consent never outlives its session
             set((state) => ({
               timerSessions: [...state.timerSessions, session],
-              currentTimer: {
-                isRunning: false,
-                startTime: null,
-              },
+              currentTimer: IDLE_TIMER,
+              consentLedger: state.consentLedger.map((record) =>
+                record.sessionId === session.id
+                  ? revokeConsentRecord(record, 'session_ended', endTime)
+                  : record,
+              ),
             }));
+
+            // Nobody is listening when a crashed session is closed on the next launch
+            if (session.endReason !== 'crash') {
+              speechAnnouncer.announce({
+                text: speechAnnouncer.templates.sessionStopped(active / 60),
+                priority: 'session',
+              });
+            }
           }
         },
 
@@ -233,6 +762,415 @@ export const useAppStore = create<AppState>()(
             timerSessions: [...state.timerSessions, session],
           })); },
 
+        recordGpsDistance: (km) =>
+          { set((state) => ({
+            currentTimer: state.currentTimer.isRunning
+              ? { ...state.currentTimer, gpsKm: km }
+              : state.currentTimer,
+          })); },
+
+        // For trails added after the fact, like an imported GPX file
+        setSessionGpsKm: (sessionId, km) =>
+          { set((state) => ({
+            timerSessions: state.timerSessions.map((session) =>
+              session.id === sessionId ? { ...session, gpsKm: km } : session,
+            ),
+          })); },
+
+        setSessionOdometer: (sessionId, edge, km) =>
+          { set((state) => {
+            const key = edge === 'start' ? 'odometerStart' : 'odometerEnd';
+            const { currentTimer } = state;
+            // Readings on the running session are taken live; it only has a start reading so far
+            if (currentTimer.sessionId === sessionId) {
+              return edge === 'start'
+                ? {
+                    currentTimer: {
+                      ...currentTimer,
+                      odometerStart:
+                        km !== null
+                          ? createOdometerReading(km, 'session', currentTimer.odometerStart)
+                          : null,
+                    },
+                  }
+                : {};
+            }
+            return {
+              timerSessions: state.timerSessions.map((session) =>
+                session.id === sessionId
+                  ? {
+                      ...session,
+                      [key]: km !== null ? createOdometerReading(km, 'manual', session[key]) : null,
+                    }
+                  : session,
+              ),
+            };
+          }); },
+
+        // Session timeout actions
+        extendSession: (minutes) => {
+          const { currentTimer, resumeTimer } = get();
+          if (!currentTimer.isRunning) {
+            return;
+          }
+          set({
+            currentTimer: {
+              ...currentTimer,
+              timeoutExtensionMinutes: currentTimer.timeoutExtensionMinutes + minutes,
+            },
+            windDownNotice: null,
+          });
+          resumeTimer();
+        },
+
+        recordHeartbeat: (at, inBackground) =>
+          { set((state) => ({
+            currentTimer: state.currentTimer.isRunning
+              ? {
+                  ...state.currentTimer,
+                  lastHeartbeat: at,
+                  inBackground: inBackground ?? state.currentTimer.inBackground,
+                }
+              : state.currentTimer,
+          })); },
+
+        setSessionTimeout: (updates) =>
+          { set((state) => ({
+            sessionTimeout: { ...state.sessionTimeout, ...updates },
+          })); },
+
+        setWindDownNotice: (notice) => { set({ windDownNotice: notice }); },
+
+        // Trip actions - the store is the source of truth, the database mirrors it for sync
+        addTrip: (newTrip) => {
+          const now = new Date().toISOString();
+          const trip: Trip = {
+            ...newTrip,
+            id: Crypto.randomUUID(),
+            sessionId:
+              newTrip.sessionId === undefined ? get().currentTimer.sessionId : newTrip.sessionId,
+            vehicleId: newTrip.vehicleId === undefined ? getVehicleInUse(get()) : newTrip.vehicleId,
+            originZoneId:
+              newTrip.originZoneId === undefined
+                ? findOriginZoneId(get().zones, get().zoneVisits, newTrip)
+                : newTrip.originZoneId,
+            createdAt: now,
+            updatedAt: now,
+          };
+          set((state) => ({ trips: [...state.trips, trip] }));
+          dbSync.saveTrip(trip).catch((error: unknown) => {
+            console.error('[Store] Failed to persist trip:', error);
+          });
+          return trip;
+        },
+
+        updateTrip: (id, updates) => {
+          set((state) => ({
+            trips: state.trips.map((trip) =>
+              trip.id === id ? { ...trip, ...updates, updatedAt: new Date().toISOString() } : trip,
+            ),
+          }));
+          const trip = get().trips.find((t) => t.id === id);
+          if (trip) {
+            dbSync.saveTrip(trip, 'update').catch((error: unknown) => {
+              console.error('[Store] Failed to persist trip update:', error);
+            });
+          }
+        },
+
+        deleteTrip: (id) => {
+          set((state) => ({ trips: state.trips.filter((trip) => trip.id !== id) }));
+          dbSync.deleteTrip(id).catch((error: unknown) => {
+            console.error('[Store] Failed to delete trip:', error);
+          });
+        },
+
+        // Expense actions - mirrored to the database like trips
+        addExpense: (newExpense) => {
+          const now = new Date().toISOString();
+          const expense: Expense = {
+            ...newExpense,
+            id: Crypto.randomUUID(),
+            sessionId:
+              newExpense.sessionId === undefined
+                ? get().currentTimer.sessionId
+                : newExpense.sessionId,
+            vehicleId:
+              newExpense.vehicleId === undefined ? getVehicleInUse(get()) : newExpense.vehicleId,
+            createdAt: now,
+            updatedAt: now,
+          };
+          set((state) => ({ expenses: [...state.expenses, expense] }));
+          dbSync.saveExpense(expense).catch((error: unknown) => {
+            console.error('[Store] Failed to persist expense:', error);
+          });
+          return expense;
+        },
+
+        updateExpense: (id, updates) => {
+          set((state) => ({
+            expenses: state.expenses.map((expense) =>
+              expense.id === id
+                ? { ...expense, ...updates, updatedAt: new Date().toISOString() }
+                : expense,
+            ),
+          }));
+          const expense = get().expenses.find((e) => e.id === id);
+          if (expense) {
+            dbSync.saveExpense(expense, 'update').catch((error: unknown) => {
+              console.error('[Store] Failed to persist expense update:', error);
+            });
+          }
+        },
+
+        // The receipt photo goes with the expense
+        deleteExpense: (id) => {
+          const receiptUri = get().expenses.find((expense) => expense.id === id)?.receiptUri;
+          set((state) => ({ expenses: state.expenses.filter((expense) => expense.id !== id) }));
+          dbSync.deleteExpense(id).catch((error: unknown) => {
+            console.error('[Store] Failed to delete expense:', error);
+          });
+          if (receiptUri) {
+            deleteReceiptImage(receiptUri).catch((error: unknown) => {
+              console.error('[Store] Failed to delete receipt photo:', error);
+            });
+          }
+        },
+
+        // Pulled rows land in SQLite first; the store is what the screens read, so merge them in
+        syncFromCloud: async () => {
+          const pulled = await dbSync.syncFromCloud();
+          set((state) => ({
+            trips: mergePulled(state.trips, pulled.trips, pulled.deletedTrips),
+            expenses: mergePulled(state.expenses, pulled.expenses, pulled.deletedExpenses),
+          }));
+        },
+
+        // Vehicle actions - the first vehicle added becomes the active one
+        addVehicle: (newVehicle) => {
+          const now = new Date().toISOString();
+          const vehicle: Vehicle = {
+            ...newVehicle,
+            id: Crypto.randomUUID(),
+            createdAt: now,
+            updatedAt: now,
+          };
+          set((state) => ({ vehicles: [...state.vehicles, vehicle] }));
+          if (!get().activeVehicleId) {
+            get().setActiveVehicle(vehicle.id);
+          }
+          return vehicle;
+        },
+
+        updateVehicle: (id, updates) => {
+          set((state) => ({
+            vehicles: state.vehicles.map((vehicle) =>
+              vehicle.id === id
+                ? { ...vehicle, ...updates, updatedAt: new Date().toISOString() }
+                : vehicle,
+            ),
+          }));
+        },
+
+        // Trips and expenses keep the id, so past records still say which car they were
+        deleteVehicle: (id) => {
+          set((state) => ({
+            vehicles: state.vehicles.filter((vehicle) => vehicle.id !== id),
+            activeVehicleId: state.activeVehicleId === id ? null : state.activeVehicleId,
+          }));
+        },
+
+        // Picked before starting a session; a running session keeps the vehicle it started with
+        setActiveVehicle: (id) => {
+          set({ activeVehicleId: id });
+        },
+
+        // Cherry Picker actions
+        setCostProfile: (updates) =>
+          { set((state) => ({
+            costProfile: { ...state.costProfile, ...updates },
+          })); },
+
+        // Logs the new offer, and the one it replaces as expired if nobody decided on it
+        // The same offer read again off the screen keeps its entry
+        setCurrentOffer: (offer) => {
+          const {
+            currentOffer,
+            currentOfferLog,
+            costProfile,
+            offerRules,
+            currentTimer,
+            trips,
+            expenses,
+          } = get();
+          const isRecapture =
+            offer !== null &&
+            currentOffer !== null &&
+            currentOfferLog !== null &&
+            isOfferRecapture(currentOfferLog, offer, currentOffer.detectedAt);
+          if (currentOfferLog && !isRecapture) {
+            saveOfferLogEntry(
+              resolveOfferLogEntry(
+                currentOfferLog,
+                { outcome: 'expired', decidedBy: null, channel: null },
+                new Date().toISOString(),
+              ),
+            );
+          }
+
+          let entry = isRecapture ? currentOfferLog : null;
+          if (offer && !entry) {
+            const vehicleId = getVehicleInUse(get());
+            const profitability = calculateProfitability(
+              offer,
+              withVehicleCosts(
+                costProfile,
+                get().vehicles.find((vehicle) => vehicle.id === vehicleId),
+                trips,
+                expenses,
+                toLocalDateKey(Date.now(), getDeviceTimeZone()),
+              ),
+            );
+            const evaluation = evaluateOfferRules(offer, profitability, offerRules);
+            entry = createOfferLogEntry(offer, profitability, evaluation, currentTimer.sessionId);
+            saveOfferLogEntry(entry);
+            speechAnnouncer.announce({
+              text: speechAnnouncer.templates.offer(offer, profitability, evaluation.decision),
+              priority: 'offer',
+              key: OFFER_ANNOUNCEMENT_KEY,
+            });
+          } else if (!offer) {
+            speechAnnouncer.cancel(OFFER_ANNOUNCEMENT_KEY);
+          }
+
+          set({ currentOffer: offer, currentOfferLog: entry });
+        },
+
+        decideOffer: (outcome, decidedBy, channel) => {
+          const { currentOfferLog, currentTimer } = get();
+          if (!currentOfferLog) {
+            return;
+          }
+          saveOfferLogEntry(
+            resolveOfferLogEntry(
+              currentOfferLog,
+              { outcome, decidedBy, channel },
+              new Date().toISOString(),
+            ),
+          );
+          speechAnnouncer.cancel(OFFER_ANNOUNCEMENT_KEY);
+          // Accepted pickups go into the session's mileage log as km en route to the passenger
+          const pickupKm =
+            outcome === 'accepted' && currentTimer.isRunning
+              ? currentTimer.pickupKm + getPickupLeg(currentOfferLog.offer).km
+              : currentTimer.pickupKm;
+          set({
+            currentOffer: null,
+            currentOfferLog: null,
+            currentTimer: { ...currentTimer, pickupKm },
+          });
+        },
+
+        // Adds the rule, or replaces the one with the same id
+        saveOfferRule: (rule) =>
+          { set((state) => ({
+            offerRules: state.offerRules.some((existing) => existing.id === rule.id)
+              ? state.offerRules.map((existing) => (existing.id === rule.id ? rule : existing))
+              : [...state.offerRules, rule],
+          })); },
+
+        toggleOfferRule: (id) =>
+          { set((state) => ({
+            offerRules: state.offerRules.map((rule) =>
+              rule.id === id ? { ...rule, enabled: !rule.enabled } : rule,
+            ),
+          })); },
+
+        deleteOfferRule: (id) =>
+          { set((state) => ({ offerRules: state.offerRules.filter((rule) => rule.id !== id) })); },
+
+        // Consent actions
+        // Granting again replaces the session's open consent, so category changes stay on record
+        grantConsent: (categories) => {
+          const { sessionId } = get().currentTimer;
+          if (!sessionId || categories.length === 0) {
+            return;
+          }
+          const now = new Date().toISOString();
+          set((state) => ({
+            consentLedger: [
+              ...state.consentLedger.map((record) =>
+                record.sessionId === sessionId ? revokeConsentRecord(record, 'driver', now) : record,
+              ),
+              createConsentRecord(sessionId, categories, now),
+            ],
+          }));
+        },
+
+        revokeConsent: () => {
+          const { sessionId } = get().currentTimer;
+          set((state) => ({
+            consentLedger: state.consentLedger.map((record) =>
+              record.sessionId === sessionId ? revokeConsentRecord(record, 'driver') : record,
+            ),
+          }));
+        },
+
+        // Export actions
+        setExportSettings: (updates) =>
+          { set((state) => ({
+            exportSettings: { ...state.exportSettings, ...updates },
+          })); },
+
+        // Tax actions
+        setTaxSettings: (updates) =>
+          { set((state) => ({
+            taxSettings: { ...state.taxSettings, ...updates },
+          })); },
+
+        toggleDasPaid: (month) =>
+          { set((state) => {
+            const { paidDas } = state.taxSettings;
+            return {
+              taxSettings: {
+                ...state.taxSettings,
+                paidDas: paidDas.includes(month)
+                  ? paidDas.filter((paid) => paid !== month)
+                  : [...paidDas, month].sort(),
+              },
+            };
+          }); },
+
+        // Zone actions
+        addZone: (newZone) => {
+          const now = new Date().toISOString();
+          const zone: Zone = {
+            ...newZone,
+            id: Crypto.randomUUID(),
+            createdAt: now,
+            updatedAt: now,
+          };
+          set((state) => ({ zones: [...state.zones, zone] }));
+          return zone;
+        },
+
+        updateZone: (id, updates) =>
+          { set((state) => ({
+            zones: state.zones.map((zone) =>
+              zone.id === id ? { ...zone, ...updates, updatedAt: new Date().toISOString() } : zone,
+            ),
+          })); },
+
+        // Trips keep the id they were tagged with, like they do for deleted vehicles
+        deleteZone: (id) =>
+          { set((state) => ({
+            zones: state.zones.filter((zone) => zone.id !== id),
+            zoneVisits: state.zoneVisits.filter((visit) => visit.zoneId !== id),
+          })); },
+
+        recordZoneTransition: (transition) =>
+          { set((state) => ({ zoneVisits: applyZoneTransition(state.zoneVisits, transition) })); },
+
         toggleDarkMode: () => { set((state) => ({ isDarkMode: !state.isDarkMode })); },
 
         toggleAnimations: () => { set((state) => ({ animationsEnabled: !state.animationsEnabled })); },
@@ -250,7 +1188,15 @@ export const useAppStore = create<AppState>()(
       }),
       {
         name: 'app-storage',
+        version: STORE_VERSION,
+        migrate: migrateAppState,
         storage: createJSONStorage(() => mmkvStorage),
+        // Offers are only meaningful while they are on screen
+        partialize: ({
+          currentOffer: _currentOffer,
+          currentOfferLog: _currentOfferLog,
+          ...state
+        }) => state,
         onRehydrateStorage: () => (state) => {
           if (state) {
             // Store rehydrated successfully with MMKV
@@ -277,4 +1223,55 @@ export const useAnimationsEnabled = () => useAppStore((state) => state.animation
 export const useTimerSessions = () => useAppStore((state) => state.timerSessions);
 export const useCurrentTimer = () => useAppStore((state) => state.currentTimer);
 export const useStartTimer = () => useAppStore((state) => state.startTimer);
+export const usePauseTimer = () => useAppStore((state) => state.pauseTimer);
+export const useResumeTimer = () => useAppStore((state) => state.resumeTimer);
 export const useStopTimer = () => useAppStore((state) => state.stopTimer);
+export const useSessionTimeout = () => useAppStore((state) => state.sessionTimeout);
+export const useWindDownNotice = () => useAppStore((state) => state.windDownNotice);
+
+// Trip selectors
+export const useTrips = () => useAppStore((state) => state.trips);
+export const useTripsForSession = (sessionId: string | null) =>
+  useAppStore(useShallow((state) => state.trips.filter((trip) => trip.sessionId === sessionId)));
+
+// Expense selectors
+export const useExpenses = () => useAppStore((state) => state.expenses);
+export const useExpense = (id: string | undefined) =>
+  useAppStore((state) => state.expenses.find((expense) => expense.id === id) ?? null);
+
+// Vehicle selectors
+export const useVehicles = () => useAppStore((state) => state.vehicles);
+export const useVehicle = (id: string | undefined) =>
+  useAppStore((state) => state.vehicles.find((vehicle) => vehicle.id === id) ?? null);
+export const useActiveVehicle = () =>
+  useAppStore(
+    (state) => state.vehicles.find((vehicle) => vehicle.id === state.activeVehicleId) ?? null,
+  );
+// The running session's vehicle, else the active one
+export const useVehicleInUse = () =>
+  useAppStore(
+    (state) => state.vehicles.find((vehicle) => vehicle.id === getVehicleInUse(state)) ?? null,
+  );
+
+// Zone selectors
+export const useZones = () => useAppStore((state) => state.zones);
+export const useZone = (id: string | undefined) =>
+  useAppStore((state) => state.zones.find((zone) => zone.id === id) ?? null);
+export const useZoneVisits = () => useAppStore((state) => state.zoneVisits);
+
+// Cherry Picker selectors
+export const useCostProfile = () => useAppStore((state) => state.costProfile);
+export const useCurrentOffer = () => useAppStore((state) => state.currentOffer);
+export const useOfferRules = () => useAppStore((state) => state.offerRules);
+export const useDecideOffer = () => useAppStore((state) => state.decideOffer);
+
+// Consent selectors
+export const useConsentLedger = () => useAppStore((state) => state.consentLedger);
+export const useActiveConsent = () =>
+  useAppStore((state) => getActiveConsent(state.consentLedger, state.currentTimer.sessionId));
+
+// Export selectors
+export const useExportSettings = () => useAppStore((state) => state.exportSettings);
+
+// Tax selectors
+export const useTaxSettings = () => useAppStore((state) => state.taxSettings);
@@ -0,0 +1,42 @@
+import { describe, expect, it } from '@jest/globals';
+import { formatBRL, formatDecimalInput, parseBrazilianNumber } from '../currency';
+
+describe('formatBRL', () => {
+  it('groups thousands with dots and uses a decimal comma', () => {
+    expect(formatBRL(1234.5)).toBe('R$ 1.234,50');
+    expect(formatBRL(-12.5)).toBe('-R$ 12,50');
+  });
+});
+
+describe('parseBrazilianNumber', () => {
+  it('reads Brazilian decimals and thousands', () => {
+    expect(parseBrazilianNumber('1.234,56')).toBe(1234.56);
+    expect(parseBrazilianNumber('45,9')).toBe(45.9);
+    expect(parseBrazilianNumber(' 2,3 ')).toBe(2.3);
+    expect(parseBrazilianNumber('1.234')).toBe(1234);
+    expect(parseBrazilianNumber('12.345.678')).toBe(12345678);
+  });
+
+  it('reads a dot typed on a decimal pad as the decimal mark', () => {
+    expect(parseBrazilianNumber('45.90')).toBe(45.9);
+    expect(parseBrazilianNumber('45123.5')).toBe(45123.5);
+    expect(parseBrazilianNumber('0.5')).toBe(0.5);
+  });
+
+  it('rejects what is not a number', () => {
+    expect(parseBrazilianNumber('')).toBeNull();
+    expect(parseBrazilianNumber('abc')).toBeNull();
+    expect(parseBrazilianNumber('0x10')).toBeNull();
+    expect(parseBrazilianNumber('1,2,3')).toBeNull();
+    expect(parseBrazilianNumber('12.34,5')).toBeNull();
+    expect(parseBrazilianNumber('-5')).toBeNull();
+  });
+});
+
+describe('formatDecimalInput', () => {
+  it('writes values the parser reads back unchanged', () => {
+    for (const value of [45123.5, 45.9, 1234, 0.125]) {
+      expect(parseBrazilianNumber(formatDecimalInput(value))).toBe(value);
+    }
+  });
+});
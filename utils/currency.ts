@@ -0,0 +1,64 @@
+/**
+ * Money formatting helpers - amounts are stored as plain numbers in reais
+ */
+
+/**
+ * Formats an amount the way Brazilian drivers read it, e.g. "R$ 1.234,50"
+ * @param value Amount in reais
+ */
+export const formatBRL = (value: number): string => {
+  const sign = value < 0 ? '-' : '';
+  const [whole = '0', cents = '00'] = Math.abs(value).toFixed(2).split('.');
+
+  // Group thousands with dots, working back from the units
+  const groups: string[] = [];
+  for (let end = whole.length; end > 0; end -= 3) {
+    groups.unshift(whole.slice(Math.max(0, end - 3), end));
+  }
+
+  return `${sign}R$ ${groups.join('.')},${cents}`;
+};
+
+const isDigits = (text: string) => /^\d+$/.test(text);
+
+// "1.234" and "12.345.678": dots that can only be thousands separators
+const isGroupedThousands = (text: string) => {
+  const [head = '', ...groups] = text.split('.');
+  return (
+    groups.length > 0 &&
+    isDigits(head) &&
+    head.length <= 3 &&
+    groups.every((group) => group.length === 3 && isDigits(group))
+  );
+};
+
+/**
+ * Parses a number written the Brazilian way, e.g. "1.234,50" or "2,3"
+ * Decimal pads on devices set to other languages type ".", so "45.90" is read as a decimal too;
+ * a dot only separates thousands before a decimal comma or in groups of three, as in "1.234"
+ * @returns The number, or null when the text is not a number
+ */
+export const parseBrazilianNumber = (text: string): number | null => {
+  const [whole = '', decimals, ...extra] = text.trim().split(',');
+  if (extra.length > 0) {
+    return null;
+  }
+  if (decimals !== undefined) {
+    return isDigits(decimals) && (isDigits(whole) || isGroupedThousands(whole))
+      ? Number(`${whole.replace(/\./g, '')}.${decimals}`)
+      : null;
+  }
+  if (isGroupedThousands(whole)) {
+    return Number(whole.replace(/\./g, ''));
+  }
+  // Number() accepts "" and hex, so only plain decimals count
+  const [units = '', fraction, ...rest] = whole.split('.');
+  return isDigits(units) && (fraction === undefined || isDigits(fraction)) && rest.length === 0
+    ? Number(whole)
+    : null;
+};
+
+/**
+ * Writes a number back into a form field the way parseBrazilianNumber reads it, e.g. "45123,5"
+ */
+export const formatDecimalInput = (value: number): string => String(value).replace('.', ',');
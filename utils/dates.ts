@@ -0,0 +1,12 @@
+/**
+ * Formats a YYYY-MM-DD calendar day, e.g. "Oct 19, 2026"
+ * Built as a local date - parsing the key directly would read it as UTC midnight
+ */
+export const formatDateKey = (dateKey: string): string => {
+  const [year = 0, month = 1, day = 1] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};